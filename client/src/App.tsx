@@ -11,8 +11,10 @@ import Profile from "@/pages/Profile";
 import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import Listings from "@/pages/Listings";
+import Leads from "@/pages/Leads";
 import ListingCreate from "@/pages/ListingCreate";
 import ListingEdit from "@/pages/ListingEdit";
+import OpenHouseKiosk from "@/pages/OpenHouseKiosk";
 import EmailMarketing from "@/pages/EmailMarketing";
 import SocialContent from "@/pages/SocialContent";
 import ListingGraphics from "@/pages/ListingGraphics";
@@ -149,7 +151,7 @@ function MainAppRoutes() {
       if (isAuthenticated && 
           currentUser?.username && 
           urlUsername !== currentUser.username && 
-          ['dashboard', 'settings', 'listings', 'email-marketing', 'social-content', 
+          ['dashboard', 'settings', 'listings', 'leads', 'email-marketing', 'social-content', 
            'listing-graphics', 'lot-maps', 'theme'].includes(routeName)) {
         console.log(`User ${currentUser.username} trying to access ${urlUsername}'s route, redirecting`);
         redirectTimeout.current = setTimeout(() => {
@@ -447,6 +449,17 @@ function MainAppRoutes() {
       <Route path="/listings">
         {() => isAuthenticated ? <Listings /> : <Login />}
       </Route>
+      <Route path="/open-houses/:id/kiosk">
+        {(params) => isAuthenticated ? <OpenHouseKiosk id={Number(params.id)} /> : <Login />}
+      </Route>
+      
+      {/* Leads Routes */}
+      <Route path="/:username/leads">
+        {() => isAuthenticated ? <Leads /> : <Login />}
+      </Route>
+      <Route path="/leads">
+        {() => isAuthenticated ? <Leads /> : <Login />}
+      </Route>
       
       {/* Email Marketing Routes */}
       <Route path="/:username/email-marketing">
@@ -515,7 +528,7 @@ function MainAppRoutes() {
         {(params) => {
           // Skip this route handler if the username matches any known route
           const knownRoutes = ['login', 'register', 'verify-email', 'reset-password', 
-                              'forgot-password', 'dashboard', 'settings', 'listings',
+                              'forgot-password', 'dashboard', 'settings', 'listings', 'leads',
                               'email-marketing', 'social-content', 'listing-graphics',
                               'lot-maps', 'theme', 'profile'];
           
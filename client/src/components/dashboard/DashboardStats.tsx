@@ -1,49 +1,96 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { CircleDollarSign, Users, Home, Eye } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
 
-// Sample data for the dashboard stats and charts
-const data = [
-  { name: 'Jan', listings: 4, leads: 2 },
-  { name: 'Feb', listings: 3, leads: 4 },
-  { name: 'Mar', listings: 5, leads: 6 },
-  { name: 'Apr', listings: 7, leads: 8 },
-  { name: 'May', listings: 6, leads: 9 },
-  { name: 'Jun', listings: 8, leads: 12 },
-];
+// Shape of the response from GET /api/dashboard/stats
+interface DashboardStatsData {
+  activeListings: number;
+  totalListings: number;
+  portfolioValue: number;
+  totalLeads: number;
+  newLeads: number;
+  totalViews: number;
+  uniqueVisitors: number;
+  lotMaps: {
+    mapId: number;
+    name: string;
+    slug: string;
+    totalLots: number;
+    availableLots: number;
+    pendingLots: number;
+    soldLots: number;
+  }[];
+  monthly: { month: string; name: string; listings: number; leads: number; views: number }[];
+}
 
-const staticStats = [
-  {
-    title: "Active Listings",
-    value: "12",
-    icon: <Home className="h-8 w-8 text-primary-600" />,
-    description: "Total active property listings",
-  },
-  {
-    title: "Total Leads",
-    value: "45",
-    icon: <Users className="h-8 w-8 text-primary-600" />,
-    description: "Leads generated from your listings",
-  },
-  {
-    title: "Total Views",
-    value: "2,874",
-    icon: <Eye className="h-8 w-8 text-primary-600" />,
-    description: "Views across all your listings",
-  },
-  {
-    title: "Property Value",
-    value: "$4.2M",
-    icon: <CircleDollarSign className="h-8 w-8 text-primary-600" />,
-    description: "Total value of your listings",
-  },
+const rangeOptions = [
+  { value: "3", label: "Last 3 months" },
+  { value: "6", label: "Last 6 months" },
+  { value: "12", label: "Last 12 months" },
 ];
 
+const formatCurrency = (value: number) => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `$${Math.round(value / 1000)}K`;
+  return `$${value}`;
+};
+
 export default function DashboardStats() {
+  const { isAuthenticated } = useSupabaseAuth();
+  const [months, setMonths] = useState("6");
+
+  const { data: stats, isLoading } = useQuery<DashboardStatsData>({
+    queryKey: ['/api/dashboard/stats', months],
+    queryFn: () => {
+      const now = new Date();
+      // The server groups the numbers by UTC month
+      const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (parseInt(months, 10) - 1), 1));
+      const params = new URLSearchParams({ from: from.toISOString(), to: now.toISOString() });
+      return apiRequest('GET', `/api/dashboard/stats?${params.toString()}`);
+    },
+    enabled: isAuthenticated,
+  });
+
+  const placeholder = isLoading ? "..." : "—";
+
+  const statCards = [
+    {
+      title: "Active Listings",
+      value: stats ? stats.activeListings.toLocaleString() : placeholder,
+      icon: <Home className="h-8 w-8 text-primary-600" />,
+      description: stats ? `${stats.totalListings} listings in total` : "Total active property listings",
+    },
+    {
+      title: "Total Leads",
+      value: stats ? stats.totalLeads.toLocaleString() : placeholder,
+      icon: <Users className="h-8 w-8 text-primary-600" />,
+      description: stats ? `${stats.newLeads} still waiting for a response` : "Leads generated in this period",
+    },
+    {
+      title: "Total Views",
+      value: stats ? stats.totalViews.toLocaleString() : placeholder,
+      icon: <Eye className="h-8 w-8 text-primary-600" />,
+      description: stats
+        ? `${stats.uniqueVisitors.toLocaleString()} unique visits to your profile, listings and maps`
+        : "Views across your profile, listings and maps",
+    },
+    {
+      title: "Property Value",
+      value: stats ? formatCurrency(stats.portfolioValue) : placeholder,
+      icon: <CircleDollarSign className="h-8 w-8 text-primary-600" />,
+      description: "Total value of your active listings",
+    },
+  ];
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {staticStats.map((stat, index) => (
+        {statCards.map((stat, index) => (
           <Card key={index}>
             <CardContent className="p-6">
               <div className="flex justify-between items-start">
@@ -60,16 +107,26 @@ export default function DashboardStats() {
           </Card>
         ))}
       </div>
-      
+
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Performance Overview</CardTitle>
+          <Select value={months} onValueChange={setMonths}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangeOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
-                data={data}
+                data={stats?.monthly || []}
                 margin={{
                   top: 5,
                   right: 30,
@@ -79,7 +136,7 @@ export default function DashboardStats() {
               >
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
-                <YAxis />
+                <YAxis allowDecimals={false} />
                 <Tooltip />
                 <Bar dataKey="listings" fill="hsl(var(--chart-1))" name="Listings" />
                 <Bar dataKey="leads" fill="hsl(var(--chart-2))" name="Leads" />
@@ -88,6 +145,38 @@ export default function DashboardStats() {
           </div>
         </CardContent>
       </Card>
+
+      {stats && stats.lotMaps.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Lots by Map</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={stats.lotMaps}
+                  margin={{
+                    top: 5,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="availableLots" stackId="lots" fill="hsl(var(--chart-2))" name="Available" />
+                  <Bar dataKey="pendingLots" stackId="lots" fill="hsl(var(--chart-4))" name="Pending" />
+                  <Bar dataKey="soldLots" stackId="lots" fill="hsl(var(--chart-1))" name="Sold" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Bed, Bath, Square, Share2, Edit, Eye } from "lucide-react";
 import { Link } from "wouter";
-import { formatCurrency } from "@/lib/utils";
+import { formatCurrency, thumbnailUrl } from "@/lib/utils";
 import { Listing } from "@shared/schema";
 
 interface PropertyCardProps {
@@ -16,7 +16,7 @@ export default function PropertyCard({ listing }: PropertyCardProps) {
       <div className="aspect-w-16 aspect-h-9 bg-gray-200 relative">
         {listing.images && listing.images.length > 0 ? (
           <img
-            src={listing.images[0]}
+            src={thumbnailUrl(listing.images[0])}
             alt={listing.title}
             className="object-cover w-full h-48"
           />
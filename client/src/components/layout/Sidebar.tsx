@@ -13,7 +13,8 @@ import {
   Mail, 
   Image, 
   MapPin,
-  FileText
+  FileText,
+  Users
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useQuery } from "@tanstack/react-query";
@@ -109,6 +110,12 @@ export default function DashboardSidebar() {
         icon: <ListFilter className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />,
         activeMatches: ['listings', 'listing-create', 'listing-edit']
       },
+      {
+        label: "Leads",
+        href: `/${username}/leads`,
+        icon: <Users className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />,
+        activeMatches: ['leads']
+      },
       {
         label: "Marketing",
         href: `/${username}/email-marketing`,
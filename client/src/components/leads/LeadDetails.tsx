@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Mail, Phone, Home, MapPin, Trash2 } from "lucide-react";
+import { Lead, LeadStatus, leadStatuses } from "@shared/schema";
+
+// Lead as returned by the API, with a summary of the linked listing and lot
+export interface LeadWithLinks extends Omit<Lead, "createdAt" | "updatedAt" | "followUpAt"> {
+  createdAt: string | null;
+  updatedAt: string | null;
+  followUpAt: string | null;
+  listing: { id: number; title: string; address: string } | null;
+  lot: { id: number; number: string; mapId: number } | null;
+}
+
+export const leadStatusLabels: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  showing: "Showing",
+  under_contract: "Under Contract",
+  closed: "Closed",
+  lost: "Lost",
+};
+
+interface LeadDetailsProps {
+  lead: LeadWithLinks;
+  onDeleted?: () => void;
+}
+
+export default function LeadDetails({ lead, onDeleted }: LeadDetailsProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<LeadStatus>(lead.status as LeadStatus);
+  const [notes, setNotes] = useState(lead.notes || "");
+  const [followUpAt, setFollowUpAt] = useState(lead.followUpAt ? lead.followUpAt.slice(0, 10) : "");
+
+  const { mutate: updateLead, isPending: isSaving } = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('PATCH', `/api/leads/${lead.id}`, {
+        status,
+        notes: notes || null,
+        followUpAt: followUpAt || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Lead updated",
+        description: "Your changes have been saved",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update lead. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteLead, isPending: isDeleting } = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('DELETE', `/api/leads/${lead.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Lead deleted",
+        description: "The lead has been removed from your pipeline",
+      });
+      if (onDeleted) onDeleted();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete lead. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center">
+          <Mail className="h-4 w-4 mr-2 text-gray-500" />
+          <a href={`mailto:${lead.email}`} className="text-primary hover:underline">{lead.email}</a>
+        </div>
+        {lead.phone && (
+          <div className="flex items-center">
+            <Phone className="h-4 w-4 mr-2 text-gray-500" />
+            <a href={`tel:${lead.phone}`} className="hover:underline">{lead.phone}</a>
+          </div>
+        )}
+        {lead.listing && (
+          <div className="flex items-center">
+            <Home className="h-4 w-4 mr-2 text-gray-500" />
+            <span>{lead.listing.title} &middot; {lead.listing.address}</span>
+          </div>
+        )}
+        {lead.lot && (
+          <div className="flex items-center">
+            <MapPin className="h-4 w-4 mr-2 text-gray-500" />
+            <span>Lot {lead.lot.number}</span>
+          </div>
+        )}
+      </div>
+
+      {lead.message && (
+        <div>
+          <Label>Message</Label>
+          <p className="mt-1 text-sm text-gray-700 whitespace-pre-line bg-gray-50 p-3 rounded-md border">
+            {lead.message}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="lead-status">Status</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as LeadStatus)}>
+            <SelectTrigger id="lead-status" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {leadStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{leadStatusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="lead-follow-up">Follow-up Date</Label>
+          <Input
+            id="lead-follow-up"
+            type="date"
+            className="mt-1"
+            value={followUpAt}
+            onChange={(e) => setFollowUpAt(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="lead-notes">Notes</Label>
+        <Textarea
+          id="lead-notes"
+          className="mt-1 min-h-[120px]"
+          placeholder="Add notes about this lead..."
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => deleteLead()} disabled={isDeleting}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          {isDeleting ? "Deleting..." : "Delete"}
+        </Button>
+        <Button onClick={() => updateLead()} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,8 @@ import {
   Tag, 
   Share2, 
   Edit, 
-  Trash2 
+  Trash2,
+  Eye
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
@@ -19,6 +20,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/utils";
+import ListingHistory from "@/components/listings/ListingHistory";
+import OpenHouses from "@/components/listings/OpenHouses";
+import ListingFlyer from "@/components/listings/ListingFlyer";
+import type { Listing } from "@shared/schema";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -40,10 +45,19 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
-  const { data: listing, isLoading, error } = useQuery({
+  const { data: listing, isLoading, error } = useQuery<Listing>({
     queryKey: [`/api/listings/${listingId}`],
   });
 
+  const { data: currentUser } = useQuery<{ username: string; fullName?: string | null }>({
+    queryKey: ['/api/user'],
+  });
+
+  const { data: views } = useQuery<{ views: number; uniqueVisitors: number }>({
+    queryKey: ['/api/analytics/views', 'listing', listingId],
+    queryFn: () => apiRequest('GET', `/api/analytics/views?type=listing&targetId=${listingId}`),
+  });
+
   const { mutate: deleteListing } = useMutation({
     mutationFn: async () => {
       setIsDeleting(true);
@@ -72,8 +86,25 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
   if (error) return <div>Error loading listing details</div>;
   if (!listing) return <div>Listing not found</div>;
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+  // The server redirects this short link to the listing's full address
+  const shareListing = async () => {
+    if (!currentUser) return;
+    const url = `${window.location.origin}/${encodeURIComponent(currentUser.username)}/listings/${listingId}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link can view this listing.",
+      });
+    } catch {
+      window.open(url, '_blank');
+    }
+  };
+
+  // Dates arrive from the API as ISO strings
+  const formatDate = (value: Date | string | null) => {
+    if (!value) return '';
+    const date = new Date(value);
     return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
   };
 
@@ -93,9 +124,11 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
               <Edit className="h-4 w-4 mr-1" /> Edit
             </Link>
           </Button>
-          <Button variant="outline" size="sm">
-            <Share2 className="h-4 w-4 mr-1" /> Share
-          </Button>
+          {listing.isPublic !== false && (
+            <Button variant="outline" size="sm" onClick={shareListing} disabled={!currentUser}>
+              <Share2 className="h-4 w-4 mr-1" /> Share
+            </Button>
+          )}
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" size="sm">
@@ -125,7 +158,7 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <div className="md:col-span-2">
+        <div className="md:col-span-2 space-y-6">
           <Card>
             <CardContent className="p-0">
               <div className="relative aspect-video">
@@ -165,6 +198,8 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
               </div>
             </CardContent>
           </Card>
+
+          <ListingHistory listingId={listingId} />
         </div>
 
         <div className="space-y-6">
@@ -190,6 +225,13 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
                   <span className="text-gray-500">Status</span>
                   <Badge variant="outline">{listing.status}</Badge>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Views</span>
+                  <span className="font-medium">
+                    <Eye className="h-4 w-4 inline mr-1" />
+                    {views ? `${views.views.toLocaleString()} (${views.uniqueVisitors.toLocaleString()} unique)` : "—"}
+                  </span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-gray-500">Property ID</span>
                   <span className="font-medium">#{listing.id}</span>
@@ -198,6 +240,14 @@ export default function ListingDetails({ listingId }: ListingDetailsProps) {
             </CardContent>
           </Card>
 
+          <OpenHouses
+            listingId={listingId}
+            username={currentUser?.username}
+            defaultHostName={currentUser?.fullName || ""}
+          />
+
+          <ListingFlyer listingId={listingId} />
+
           <Card>
             <CardContent className="p-6 space-y-4">
               <h3 className="text-lg font-semibold mb-2">Marketing Actions</h3>
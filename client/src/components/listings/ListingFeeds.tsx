@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Copy } from "lucide-react";
+
+interface ListingFeedsProps {
+  username: string;
+}
+
+// Paths are relative to the agent's username
+const feeds = [
+  { id: "rss", path: "listings/feed.rss", label: "RSS", description: "For feed readers and websites that embed RSS" },
+  { id: "json", path: "listings/feed.json", label: "JSON Feed", description: "For websites and apps that read JSON" },
+  { id: "xml", path: "listings/feed.xml", label: "Portal XML", description: "For listing portals that accept an XML listing feed" },
+  { id: "ics", path: "open-houses.ics", label: "Open House Calendar", description: "Subscribe in Google Calendar, Outlook or Apple Calendar to see every open house on your public listings" },
+];
+
+// Feed URLs for the agent's opted-in listings, ready to paste into a portal or feed reader
+export default function ListingFeeds({ username }: ListingFeedsProps) {
+  const { toast } = useToast();
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Feed URL copied" });
+    } catch {
+      window.open(url, '_blank');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Feeds include public listings that have "Include in listing feeds" turned on. Drafts are left out.
+      </p>
+      {feeds.map(({ id, path, label, description }) => {
+        const url = `${window.location.origin}/${encodeURIComponent(username)}/${path}`;
+        return (
+          <div key={id} className="space-y-1">
+            <Label htmlFor={`feed-${id}`}>{label}</Label>
+            <div className="flex gap-2">
+              <Input id={`feed-${id}`} value={url} readOnly onFocus={(event) => event.target.select()} />
+              <Button type="button" variant="outline" size="icon" onClick={() => copy(url)} aria-label={`Copy ${label} URL`}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">{description}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
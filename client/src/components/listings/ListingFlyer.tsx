@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import type { FlyerLayout, FlyerPageSize, UserTheme } from "@shared/schema";
+import { Download, Eye, Printer } from "lucide-react";
+
+interface ListingFlyerProps {
+  listingId: number;
+}
+
+const layoutOptions: { value: FlyerLayout; label: string; description: string }[] = [
+  { value: "classic", label: "Classic flyer", description: "One page with a large photo, the details and features" },
+  { value: "gallery", label: "Photo gallery flyer", description: "One page led by four photos" },
+  { value: "brochure", label: "Brochure", description: "A cover, a details page, photo pages and a page about you" },
+];
+
+const pageSizeLabels: Record<FlyerPageSize, string> = {
+  letter: "US Letter",
+  a4: "A4",
+};
+
+// The PDF is a file, so it can't go through apiRequest, which expects JSON
+async function fetchFlyer(listingId: number, query: URLSearchParams) {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData?.session?.access_token;
+
+  const response = await fetch(`/api/listings/${listingId}/flyer.pdf?${query}`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`Flyer failed with status ${response.status}`);
+  }
+
+  const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `listing-${listingId}.pdf`;
+  return { url: URL.createObjectURL(await response.blob()), fileName };
+}
+
+export default function ListingFlyer({ listingId }: ListingFlyerProps) {
+  const { toast } = useToast();
+  const [layout, setLayout] = useState<FlyerLayout>("classic");
+  const [pageSize, setPageSize] = useState<FlyerPageSize>("letter");
+  // Null prints in the agent's theme color
+  const [color, setColor] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const { data: theme } = useQuery<UserTheme | null>({
+    queryKey: ['/api/themes/current'],
+    queryFn: () => apiRequest('GET', '/api/themes/current'),
+  });
+  const themeColor = /^#[0-9a-f]{6}$/i.test(theme?.primaryColor || "") ? theme!.primaryColor : "#4f46e5";
+
+  const generate = async (download: boolean) => {
+    const query = new URLSearchParams({ layout, pageSize });
+    if (color) query.set("color", color);
+
+    // Opened before the PDF is ready so pop-up blockers treat it as part of the click
+    const preview = download ? null : window.open("", "_blank");
+    setIsGenerating(true);
+    try {
+      const { url, fileName } = await fetchFlyer(listingId, query);
+      if (preview) {
+        preview.location.href = url;
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+      }
+      // The preview tab keeps its own copy once loaded
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      preview?.close();
+      toast({
+        title: "Error",
+        description: "Failed to create the flyer. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Printer className="h-5 w-5 mr-2" /> Print Flyer
+        </h3>
+
+        <div className="space-y-1">
+          <Label htmlFor="flyer-layout">Layout</Label>
+          <Select value={layout} onValueChange={(value) => setLayout(value as FlyerLayout)}>
+            <SelectTrigger id="flyer-layout">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {layoutOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {layoutOptions.find((option) => option.value === layout)?.description}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="flyer-page-size">Paper</Label>
+            <Select value={pageSize} onValueChange={(value) => setPageSize(value as FlyerPageSize)}>
+              <SelectTrigger id="flyer-page-size">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(pageSizeLabels) as FlyerPageSize[]).map((size) => (
+                  <SelectItem key={size} value={size}>
+                    {pageSizeLabels[size]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="flyer-color">Color</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="flyer-color"
+                type="color"
+                className="h-10 w-14 p-1"
+                value={color || themeColor}
+                onChange={(event) => setColor(event.target.value)}
+              />
+              {color ? (
+                <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setColor(null)}>
+                  Use theme color
+                </Button>
+              ) : (
+                <span className="text-xs text-gray-500">Theme color</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Includes your profile details and a QR code linking to the public listing page.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" disabled={isGenerating} onClick={() => generate(false)}>
+            <Eye className="h-4 w-4 mr-2" /> Preview
+          </Button>
+          <Button disabled={isGenerating} onClick={() => generate(true)}>
+            <Download className="h-4 w-4 mr-2" /> {isGenerating ? "Creating..." : "Download"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
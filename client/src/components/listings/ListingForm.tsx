@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -13,6 +14,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { useMutation } from "@tanstack/react-query";
@@ -20,7 +22,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
-import { Listing } from "@shared/schema";
+import { Listing, listingPropertyTypes } from "@shared/schema";
+import ListingPhotos from "@/components/listings/ListingPhotos";
 
 // Define the form schema based on our listing model
 const formSchema = z.object({
@@ -47,9 +50,10 @@ const formSchema = z.object({
   ),
   description: z.string().optional(),
   propertyType: z.string().min(1, "Property type is required"),
-  // In a real implementation, we would handle image uploads
+  // Uploaded photo URLs; the first is the cover
   images: z.array(z.string()).optional(),
   features: z.record(z.boolean()).optional(),
+  syndicate: z.boolean().optional(),
 });
 
 interface ListingFormProps {
@@ -62,24 +66,6 @@ export default function ListingForm({ listing, isEditing = false }: ListingFormP
   const [, setLocation] = useLocation();
   const { toast } = useToast();
 
-  const propertyTypes = [
-    "Single Family Home",
-    "Condo",
-    "Townhouse",
-    "Multi-Family",
-    "Apartment",
-    "Land",
-    "Commercial",
-  ];
-
-  // Set up images with placeholder luxury real estate images for demo
-  const placeholderImages = [
-    "https://images.unsplash.com/photo-1600596542815-ffad4c1539a9?auto=format&fit=crop&w=800&q=80",
-    "https://images.unsplash.com/photo-1600585154340-be6161a56a0c?auto=format&fit=crop&w=800&q=80",
-    "https://images.unsplash.com/photo-1600607687939-ce8a6c25118c?auto=format&fit=crop&w=800&q=80",
-    "https://images.unsplash.com/photo-1605276374104-dee2a0ed3cd6?auto=format&fit=crop&w=800&q=80"
-  ];
-
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -96,18 +82,14 @@ export default function ListingForm({ listing, isEditing = false }: ListingFormP
       propertyType: listing?.propertyType || "",
       images: listing?.images || [], 
       features: listing?.features || {},
+      syndicate: listing?.syndicate ?? false,
     },
   });
 
   const { mutate: createListing } = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
       setIsSubmitting(true);
-      
-      // Add placeholder images for demo purposes
-      if (!values.images || values.images.length === 0) {
-        values.images = placeholderImages;
-      }
-      
+
       if (isEditing && listing) {
         return await apiRequest('PATCH', `/api/listings/${listing.id}`, values);
       } else {
@@ -182,7 +164,7 @@ export default function ListingForm({ listing, isEditing = false }: ListingFormP
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {propertyTypes.map((type) => (
+                        {listingPropertyTypes.map((type) => (
                           <SelectItem key={type} value={type}>
                             {type}
                           </SelectItem>
@@ -319,6 +301,32 @@ export default function ListingForm({ listing, isEditing = false }: ListingFormP
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="images"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Photos</FormLabel>
+                  <ListingPhotos value={field.value || []} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="syndicate"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Include in listing feeds</FormLabel>
+                    <FormDescription>Share this listing through your RSS, JSON and portal feeds</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
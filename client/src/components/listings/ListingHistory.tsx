@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import type { ListingEvent } from "@shared/schema";
+import { Clock, Eye, EyeOff, FileText, Flag, TrendingDown, TrendingUp } from "lucide-react";
+
+interface ListingHistoryResponse {
+  // Dates arrive from the API as ISO strings
+  events: (Omit<ListingEvent, "createdAt"> & { createdAt: string | null })[];
+  daysOnMarket: number | null;
+}
+
+interface ListingHistoryProps {
+  listingId: number;
+}
+
+type HistoryEvent = ListingHistoryResponse["events"][number];
+
+const formatPercent = (from: number, to: number) =>
+  `${Math.abs(((to - from) / from) * 100).toFixed(1).replace(/\.0$/, "")}%`;
+
+// Icon and sentence for one entry of the timeline
+const describeEvent = (event: HistoryEvent) => {
+  switch (event.event) {
+    case "listed": {
+      const { price, status } = (event.toValue || {}) as { price?: number; status?: string };
+      return {
+        icon: Flag,
+        text: `Listed${status && status !== "active" ? ` as ${status}` : ""}${price !== undefined ? ` at ${formatCurrency(price)}` : ""}`,
+      };
+    }
+    case "price_changed": {
+      const from = event.fromValue as number;
+      const to = event.toValue as number;
+      const reduced = to < from;
+      return {
+        icon: reduced ? TrendingDown : TrendingUp,
+        text: from > 0
+          ? `Price ${reduced ? "reduced" : "increased"} by ${formatPercent(from, to)} to ${formatCurrency(to)}`
+          : `Price set to ${formatCurrency(to)}`,
+        detail: `Was ${formatCurrency(from)}`,
+      };
+    }
+    case "status_changed":
+      return { icon: Flag, text: `Status changed from ${event.fromValue ?? "none"} to ${event.toValue}` };
+    case "visibility_changed":
+      return event.toValue === false
+        ? { icon: EyeOff, text: "Hidden from your public pages" }
+        : { icon: Eye, text: "Shown on your public pages" };
+    default:
+      return { icon: FileText, text: "Description updated" };
+  }
+};
+
+export default function ListingHistory({ listingId }: ListingHistoryProps) {
+  const { data: history, isLoading } = useQuery<ListingHistoryResponse>({
+    // Under /api/listings so saving the listing refreshes its history
+    queryKey: ['/api/listings', listingId, 'history'],
+    queryFn: () => apiRequest('GET', `/api/listings/${listingId}/history`),
+  });
+
+  const events = [...(history?.events || [])].reverse();
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">History</h3>
+          {history?.daysOnMarket != null && (
+            <span className="text-sm text-gray-500 flex items-center">
+              <Clock className="h-4 w-4 mr-1" />
+              {history.daysOnMarket} {history.daysOnMarket === 1 ? "day" : "days"} on market
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes have been recorded for this listing yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+            {events.map((event) => {
+              const { icon: Icon, text, detail } = describeEvent(event);
+              return (
+                <li key={event.id} className="ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white border border-gray-200">
+                    <Icon className="h-3 w-3 text-gray-500" />
+                  </span>
+                  <p className="text-sm font-medium text-gray-900">{text}</p>
+                  {detail && <p className="text-xs text-gray-500">{detail}</p>}
+                  {event.createdAt && (
+                    <time className="text-xs text-gray-400">
+                      {new Date(event.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    </time>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { FileUp } from "lucide-react";
+
+type ImportFormat = "csv" | "reso";
+
+type ImportField =
+  | "mlsId"
+  | "title"
+  | "address"
+  | "city"
+  | "state"
+  | "zipCode"
+  | "price"
+  | "bedrooms"
+  | "bathrooms"
+  | "squareFeet"
+  | "propertyType"
+  | "status"
+  | "description"
+  | "images";
+
+type ColumnMapping = Partial<Record<ImportField, string>>;
+
+interface ImportReport {
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; mlsId?: string; message: string }[];
+}
+
+interface ImportResponse {
+  importId: number;
+  headers: string[];
+  mapping: ColumnMapping | null;
+  dryRun: boolean;
+  report: ImportReport;
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  mlsId: "MLS ID",
+  title: "Title",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zipCode: "ZIP code",
+  price: "Price",
+  bedrooms: "Bedrooms",
+  bathrooms: "Bathrooms",
+  squareFeet: "Square feet",
+  propertyType: "Property type",
+  status: "Status",
+  description: "Description",
+  images: "Photo URLs",
+};
+
+// Every listing needs these, so a CSV can't be imported until they're mapped
+const requiredFields: ImportField[] = ["address", "city", "state", "zipCode", "price"];
+
+const NOT_MAPPED = "none";
+
+// Upload a CSV or RESO JSON export, check it with a dry run, adjust the column mapping and then import it
+export default function ListingImport() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [content, setContent] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  const { mutate: runImport, isPending } = useMutation({
+    mutationFn: (options: { format: ImportFormat; content: string; mapping?: ColumnMapping; dryRun: boolean }) =>
+      apiRequest('POST', '/api/listing-imports', { ...options, fileName }) as Promise<ImportResponse>,
+    onSuccess: (response) => {
+      setHeaders(response.headers);
+      setMapping(response.mapping || {});
+      setResult(response);
+
+      if (!response.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/listings'] });
+        toast({
+          title: "Listings imported",
+          description: `${response.report.created} added, ${response.report.updated} updated, ${response.report.skipped} skipped`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import listings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const fileFormat: ImportFormat = /\.json$/i.test(file.name) || file.type === "application/json" ? "reso" : "csv";
+    setFileName(file.name);
+    setFormat(fileFormat);
+    setResult(null);
+    setHeaders([]);
+    setMapping({});
+
+    file.text().then((text) => {
+      setContent(text);
+      // Start with a dry run so the server can suggest a column mapping and report problems
+      runImport({ format: fileFormat, content: text, dryRun: true });
+    });
+  };
+
+  const updateMapping = (field: ImportField, header: string) => {
+    const nextMapping = { ...mapping };
+    if (header === NOT_MAPPED) {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = header;
+    }
+    setMapping(nextMapping);
+    setResult(null);
+  };
+
+  const reset = () => {
+    setFileName("");
+    setContent("");
+    setHeaders([]);
+    setMapping({});
+    setResult(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const canImport = !!content && !isPending
+    && (format === "reso" || requiredFields.every((field) => mapping[field]));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Upload a CSV file or a RESO JSON export from your MLS. Listings with an MLS ID are matched to the ones you
+        already have, so importing an updated export changes them instead of adding duplicates.
+      </p>
+      <div
+        className="border border-dashed rounded-lg p-6 text-center"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault();
+          handleFile(event.dataTransfer.files[0]);
+        }}
+      >
+        <FileUp className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        <p className="text-sm text-gray-500 mb-2">
+          {fileName || "Drag and drop a file or click to browse"}
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv,.json,application/json"
+          className="hidden"
+          onChange={(event) => handleFile(event.target.files?.[0])}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          Select File
+        </Button>
+      </div>
+
+      {format === "csv" && headers.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          <Label>Columns</Label>
+          {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+            <div key={field} className="grid grid-cols-2 items-center gap-2">
+              <span className="text-sm">
+                {fieldLabels[field]}
+                {requiredFields.includes(field) && <span className="text-red-500"> *</span>}
+              </span>
+              <Select value={mapping[field] || NOT_MAPPED} onValueChange={(value) => updateMapping(field, value)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                  {headers.filter(Boolean).map((header) => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <div className="border rounded-md p-3 text-sm space-y-2">
+          <p className="font-medium">{result.dryRun ? "Check results" : "Import results"}</p>
+          <p className="text-gray-600">
+            {result.report.totalRows} {format === "csv" ? "rows" : "listings"}: {result.report.created}{" "}
+            {result.dryRun ? "new" : "added"}, {result.report.updated} {result.dryRun ? "existing" : "updated"},{" "}
+            {result.report.skipped} skipped
+          </p>
+          {result.report.errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-red-600 space-y-1">
+              {result.report.errors.map((error) => (
+                <li key={error.row}>
+                  {format === "csv" ? "Row" : "Listing"} {error.row}{error.mlsId ? ` (${error.mlsId})` : ""}: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        {content && (
+          <Button variant="outline" className="flex-1" onClick={reset} disabled={isPending}>
+            Clear
+          </Button>
+        )}
+        {/* Changing the mapping clears the check, so the file is always checked before importing */}
+        {(!result || result.dryRun) && (
+          <Button
+            className="flex-1"
+            disabled={!canImport}
+            onClick={() => runImport({ format, content, mapping: format === "csv" ? mapping : undefined, dryRun: !result })}
+          >
+            {isPending ? "Working..." : result ? "Import Listings" : "Check File"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
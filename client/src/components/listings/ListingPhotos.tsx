@@ -0,0 +1,161 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useMutation } from "@tanstack/react-query";
+import { uploadAssets } from "@/lib/assets";
+import { useToast } from "@/hooks/use-toast";
+import { cn, thumbnailUrl } from "@/lib/utils";
+import { ImagePlus, Star, Trash2 } from "lucide-react";
+
+// Kept in line with the upload route's limits
+const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+const MAX_PHOTOS = 50;
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+interface ListingPhotosProps {
+  // Photo URLs in display order; the first is the cover
+  value: string[];
+  onChange: (images: string[]) => void;
+}
+
+export default function ListingPhotos({ value, onChange }: ListingPhotosProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const { mutate: uploadPhotos, isPending: isUploading } = useMutation({
+    mutationFn: (files: File[]) => uploadAssets("listing_photo", files),
+    onSuccess: (assets) => {
+      onChange([...value, ...assets.map((asset) => asset.url)]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to upload photos. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    const rejected = files.filter((file) => !ACCEPTED_TYPES.includes(file.type) || file.size > MAX_PHOTO_BYTES);
+    const accepted = files.filter((file) => !rejected.includes(file)).slice(0, MAX_PHOTOS - value.length);
+
+    if (rejected.length > 0) {
+      toast({
+        title: "Some photos were skipped",
+        description: `${rejected.map((file) => file.name).join(", ")} must be JPEG, PNG or WebP and under 15MB`,
+        variant: "destructive",
+      });
+    }
+    if (accepted.length > 0) uploadPhotos(accepted);
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const images = [...value];
+    const [moved] = images.splice(from, 1);
+    images.splice(to, 0, moved);
+    onChange(images);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center rounded-md border-2 border-dashed p-6 text-center text-sm text-gray-500",
+          isDraggingFiles && "border-primary bg-primary/5"
+        )}
+        onDragOver={(event) => {
+          // Photos being reordered aren't files, so only react to drags from outside the page
+          if (!event.dataTransfer.types.includes("Files")) return;
+          event.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={() => setIsDraggingFiles(false)}
+        onDrop={(event) => {
+          if (!event.dataTransfer.types.includes("Files")) return;
+          event.preventDefault();
+          setIsDraggingFiles(false);
+          addFiles(event.dataTransfer.files);
+        }}
+      >
+        <ImagePlus className="h-8 w-8 mb-2 text-gray-400" />
+        <p>Drag photos here or</p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          disabled={isUploading || value.length >= MAX_PHOTOS}
+          onClick={() => inputRef.current?.click()}
+        >
+          {isUploading ? "Uploading..." : "Choose Photos"}
+        </Button>
+        <p className="mt-2 text-xs">JPEG, PNG or WebP up to 15MB. Location data is removed from uploaded photos.</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_TYPES.join(",")}
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            addFiles(event.target.files);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {value.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {value.map((url, index) => (
+              <div
+                key={url}
+                draggable
+                onDragStart={() => setDraggedIndex(index)}
+                onDragEnd={() => setDraggedIndex(null)}
+                onDragOver={(event) => {
+                  if (draggedIndex === null) return;
+                  event.preventDefault();
+                }}
+                onDrop={(event) => {
+                  if (draggedIndex === null) return;
+                  event.preventDefault();
+                  move(draggedIndex, index);
+                  setDraggedIndex(null);
+                }}
+                className={cn(
+                  "group relative aspect-[4/3] overflow-hidden rounded-md border bg-gray-100 cursor-move",
+                  draggedIndex === index && "opacity-50"
+                )}
+              >
+                <img src={thumbnailUrl(url)} alt={`Photo ${index + 1}`} className="h-full w-full object-cover" />
+                {index === 0 && <Badge className="absolute left-2 top-2">Cover</Badge>}
+                <div className="absolute right-2 top-2 flex space-x-1 opacity-0 transition-opacity group-hover:opacity-100">
+                  {index > 0 && (
+                    <Button type="button" variant="secondary" size="sm" title="Make cover photo" onClick={() => move(index, 0)}>
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    title="Remove photo"
+                    onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Drag photos to reorder them. The first photo is the cover.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OpenHouse } from "@shared/schema";
+import { CalendarPlus, ClipboardList, Tablet, Trash2, Users } from "lucide-react";
+
+// Dates arrive from the API as ISO strings
+type OpenHouseRecord = Omit<OpenHouse, "startsAt" | "endsAt" | "createdAt"> & {
+  startsAt: string;
+  endsAt: string;
+  createdAt: string | null;
+  visitorCount: number;
+};
+
+interface OpenHouseVisitor {
+  id: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  workingWithAgent: boolean;
+}
+
+interface OpenHousesProps {
+  listingId: number;
+  // Agent's username, for the public calendar link
+  username?: string;
+  // Pre-filled as the host of new open houses
+  defaultHostName?: string;
+}
+
+// Times are shown in the zone the open house was scheduled in, which is where the home is
+const formatTimes = (openHouse: OpenHouseRecord) => {
+  const options = { timeZone: openHouse.timeZone };
+  const day = new Date(openHouse.startsAt).toLocaleDateString("en-US", { ...options, weekday: "short", month: "short", day: "numeric" });
+  const start = new Date(openHouse.startsAt).toLocaleTimeString("en-US", { ...options, hour: "numeric", minute: "2-digit" });
+  const end = new Date(openHouse.endsAt).toLocaleTimeString("en-US", { ...options, hour: "numeric", minute: "2-digit", timeZoneName: "short" });
+  return `${day}, ${start} – ${end}`;
+};
+
+function OpenHouseVisitors({ openHouseId }: { openHouseId: number }) {
+  const { data: visitors = [], isLoading } = useQuery<OpenHouseVisitor[]>({
+    queryKey: ['/api/open-houses', openHouseId, 'visits'],
+    queryFn: () => apiRequest('GET', `/api/open-houses/${openHouseId}/visits`),
+  });
+
+  if (isLoading) return <p className="text-xs text-gray-500">Loading visitors...</p>;
+  if (visitors.length === 0) return <p className="text-xs text-gray-500">Nobody has signed in yet.</p>;
+
+  return (
+    <ul className="text-xs space-y-1">
+      {visitors.map((visitor) => (
+        <li key={visitor.id} className="flex justify-between gap-2">
+          <span>
+            <span className="font-medium">{visitor.name}</span> · {visitor.email}
+            {visitor.phone ? ` · ${visitor.phone}` : ""}
+          </span>
+          {visitor.workingWithAgent && <span className="text-gray-500 shrink-0">Has an agent</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function OpenHouses({ listingId, username, defaultHostName = "" }: OpenHousesProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("13:00");
+  const [endTime, setEndTime] = useState("16:00");
+  const [hostName, setHostName] = useState(defaultHostName);
+  const [notes, setNotes] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const queryKey = ['/api/listings', listingId, 'open-houses'];
+  const { data: openHouses = [], isLoading } = useQuery<OpenHouseRecord[]>({
+    queryKey,
+    queryFn: () => apiRequest('GET', `/api/listings/${listingId}/open-houses`),
+  });
+
+  const { mutate: scheduleOpenHouse, isPending: isScheduling } = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/listings/${listingId}/open-houses`, {
+        // Entered in the agent's local time, which is sent along so the times read the same everywhere
+        startsAt: new Date(`${date}T${startTime}`).toISOString(),
+        endsAt: new Date(`${date}T${endTime}`).toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        hostName: hostName || defaultHostName,
+        notes: notes || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDate("");
+      setNotes("");
+      toast({ title: "Open house scheduled" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to schedule the open house. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteOpenHouse } = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/open-houses/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Open house removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove the open house. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const now = Date.now();
+  const canSchedule = !!date && !!startTime && !!endTime && !!(hostName || defaultHostName) && !isScheduling;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Open Houses</h3>
+          {username && openHouses.length > 0 && (
+            <a
+              href={`/${encodeURIComponent(username)}/listings/${listingId}/open-houses.ics`}
+              className="text-sm text-primary-600 flex items-center"
+            >
+              <CalendarPlus className="h-4 w-4 mr-1" /> Calendar
+            </a>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading open houses...</p>
+        ) : openHouses.length === 0 ? (
+          <p className="text-sm text-gray-500">No open houses scheduled. Upcoming ones show on the public listing page.</p>
+        ) : (
+          <ul className="space-y-3">
+            {openHouses.map((openHouse) => {
+              const isPast = new Date(openHouse.endsAt).getTime() < now;
+              return (
+                <li key={openHouse.id} className={`border rounded-md p-3 space-y-2 ${isPast ? "opacity-70" : ""}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium">{formatTimes(openHouse)}</p>
+                      <p className="text-xs text-gray-500">
+                        Hosted by {openHouse.hostName}{openHouse.notes ? ` · ${openHouse.notes}` : ""}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => deleteOpenHouse(openHouse.id)}
+                      aria-label="Remove open house"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    {!isPast && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/open-houses/${openHouse.id}/kiosk`}>
+                          <Tablet className="h-4 w-4 mr-1" /> Sign-in Kiosk
+                        </Link>
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setExpandedId(expandedId === openHouse.id ? null : openHouse.id)}
+                    >
+                      <Users className="h-4 w-4 mr-1" /> {openHouse.visitorCount} {openHouse.visitorCount === 1 ? "visitor" : "visitors"}
+                    </Button>
+                  </div>
+                  {expandedId === openHouse.id && <OpenHouseVisitors openHouseId={openHouse.id} />}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <p className="text-sm font-medium flex items-center">
+            <ClipboardList className="h-4 w-4 mr-1" /> Schedule an open house
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="open-house-date">Date</Label>
+              <Input id="open-house-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="open-house-start">Starts</Label>
+              <Input id="open-house-start" type="time" value={startTime} onChange={(event) => setStartTime(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="open-house-end">Ends</Label>
+              <Input id="open-house-end" type="time" value={endTime} onChange={(event) => setEndTime(event.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="open-house-host">Hosted by</Label>
+            <Input
+              id="open-house-host"
+              placeholder={defaultHostName || "Agent name"}
+              value={hostName}
+              onChange={(event) => setHostName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="open-house-notes">Notes for visitors</Label>
+            <Input
+              id="open-house-notes"
+              placeholder="Refreshments served, park on the street"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+          <Button className="w-full" disabled={!canSchedule} onClick={() => scheduleOpenHouse()}>
+            {isScheduling ? "Scheduling..." : "Schedule Open House"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
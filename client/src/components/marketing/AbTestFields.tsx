@@ -0,0 +1,208 @@
+import { Control, useFieldArray, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { CampaignAbTest } from "@shared/schema";
+
+const MAX_VARIANTS = 5;
+
+// Variants are shown as A, B, C...
+export const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+const numberInRange = (value: string, min: number, max: number) =>
+  /^\d+$/.test(value) && parseInt(value, 10) >= min && parseInt(value, 10) <= max;
+
+// Inputs are kept as strings and only checked when the test is on; see toAbTest
+export const abTestFormSchema = z.object({
+  enabled: z.boolean(),
+  variants: z.array(z.object({ subject: z.string(), content: z.string() })),
+  testPercent: z.string(),
+  windowHours: z.string(),
+  winnerMetric: z.enum(["opens", "clicks"]),
+}).superRefine((values, context) => {
+  if (!values.enabled) return;
+
+  values.variants.forEach((variant, index) => {
+    if (!variant.subject.trim()) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["variants", index, "subject"], message: "Subject is required" });
+    }
+  });
+  if (!numberInRange(values.testPercent, 10, 90)) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["testPercent"], message: "Between 10 and 90%" });
+  }
+  if (!numberInRange(values.windowHours, 1, 72)) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["windowHours"], message: "Between 1 and 72 hours" });
+  }
+});
+
+export type AbTestFormValues = z.infer<typeof abTestFormSchema>;
+
+export function toAbTest(values: AbTestFormValues): CampaignAbTest | null {
+  if (!values.enabled) return null;
+  return {
+    variants: values.variants.map((variant) => ({
+      subject: variant.subject.trim(),
+      content: variant.content.trim() || undefined,
+    })),
+    testPercent: parseInt(values.testPercent, 10),
+    windowHours: parseInt(values.windowHours, 10),
+    winnerMetric: values.winnerMetric,
+  };
+}
+
+export function fromAbTest(abTest?: CampaignAbTest | null): AbTestFormValues {
+  return {
+    enabled: !!abTest,
+    variants: abTest
+      ? abTest.variants.map((variant) => ({ subject: variant.subject, content: variant.content || "" }))
+      : [{ subject: "", content: "" }, { subject: "", content: "" }],
+    testPercent: String(abTest?.testPercent ?? 20),
+    windowHours: String(abTest?.windowHours ?? 4),
+    winnerMetric: abTest?.winnerMetric ?? "opens",
+  };
+}
+
+interface AbTestFieldsProps {
+  // Form whose values hold an `abTest` field shaped like abTestFormSchema
+  control: Control<any>;
+}
+
+export default function AbTestFields({ control }: AbTestFieldsProps) {
+  const enabled = useWatch({ control, name: "abTest.enabled" }) as boolean;
+  const { fields, append, remove } = useFieldArray({ control, name: "abTest.variants" });
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <FormField
+        control={control}
+        name="abTest.enabled"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between">
+            <div>
+              <FormLabel>A/B Test</FormLabel>
+              <FormDescription>Try different subject lines on part of the audience first</FormDescription>
+            </div>
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+
+      {enabled && (
+        <>
+          {fields.map((item, index) => (
+            <div key={item.id} className="space-y-2 rounded-md bg-gray-50 p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Variant {variantLabel(index)}</span>
+                <Button type="button" variant="ghost" size="sm" disabled={fields.length <= 2} onClick={() => remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <FormField
+                control={control}
+                name={`abTest.variants.${index}.subject`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subject</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Just listed: {{title}}" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`abTest.variants.${index}.content`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Content</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Leave empty to use the template's content" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={fields.length >= MAX_VARIANTS}
+            onClick={() => append({ subject: "", content: "" })}
+          >
+            <Plus className="h-4 w-4 mr-2" /> Add Variant
+          </Button>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={control}
+              name="abTest.testPercent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Test Group (%)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="abTest.windowHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Wait (Hours)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="numeric" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="abTest.winnerMetric"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Winner By</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="opens">Open rate</SelectItem>
+                      <SelectItem value="clicks">Click rate</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            The test group is split evenly across the variants. Once the wait is over, everyone else gets the winner.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Send, Trash2, XCircle } from "lucide-react";
+import { variantLabel } from "@/components/marketing/AbTestFields";
+import { Campaign, CampaignAbTest, CampaignSend, CampaignStatus } from "@shared/schema";
+
+export interface CampaignMetrics {
+  recipients: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  cancelled: number;
+  delivered: number;
+  bounced: number;
+  opened: number;
+  clicked: number;
+  spamReports: number;
+  unsubscribes: number;
+  totalOpens: number;
+  totalClicks: number;
+  openRate: number;
+  clickRate: number;
+}
+
+export interface CampaignVariantMetrics {
+  variant: number;
+  subject: string;
+  metrics: CampaignMetrics;
+}
+
+export interface CampaignLinkClicks {
+  url: string;
+  clicks: number;
+  uniqueClicks: number;
+}
+
+// Campaign as returned by the API, with dates as strings and delivery metrics
+export interface CampaignWithMetrics extends Omit<Campaign, "scheduledAt" | "sentAt" | "testEndsAt" | "createdAt" | "updatedAt"> {
+  scheduledAt: string | null;
+  sentAt: string | null;
+  testEndsAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  metrics: CampaignMetrics;
+}
+
+interface CampaignWithSends extends CampaignWithMetrics {
+  // Test group results of each A/B test variant
+  variants: CampaignVariantMetrics[];
+  links: CampaignLinkClicks[];
+  sends: (Omit<CampaignSend, "sentAt"> & { sentAt: string | null })[];
+}
+
+export const campaignStatusLabels: Record<CampaignStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  sending: "Sending",
+  testing: "Testing",
+  sent: "Sent",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : "";
+
+interface CampaignDetailsProps {
+  campaignId: number;
+  onEdit?: () => void;
+  onDeleted?: () => void;
+}
+
+export default function CampaignDetails({ campaignId, onEdit, onDeleted }: CampaignDetailsProps) {
+  const { toast } = useToast();
+
+  const { data: campaign, isLoading } = useQuery<CampaignWithSends>({
+    queryKey: ['/api/marketing/campaigns', campaignId],
+    queryFn: () => apiRequest('GET', `/api/marketing/campaigns/${campaignId}`),
+    // Keep refreshing while the campaign is going out
+    refetchInterval: (query) => (query.state.data?.status === "sending" ? 3000 : false),
+  });
+
+  const invalidateCampaigns = () => queryClient.invalidateQueries({ queryKey: ['/api/marketing/campaigns'] });
+
+  const { mutate: sendCampaign, isPending: isSending } = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/marketing/campaigns/${campaignId}/send`),
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({
+        title: "Campaign sending",
+        description: "Your campaign is on its way to its recipients",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send campaign. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: cancelCampaign, isPending: isCancelling } = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/marketing/campaigns/${campaignId}/cancel`),
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({
+        title: "Campaign cancelled",
+        description: "Emails not yet sent for this campaign have been cancelled",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to cancel campaign. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteCampaign, isPending: isDeleting } = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/marketing/campaigns/${campaignId}`),
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({
+        title: "Campaign deleted",
+        description: "The campaign and its send history have been removed",
+      });
+      if (onDeleted) onDeleted();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete campaign. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !campaign) {
+    return <div className="text-center py-8">Loading campaign...</div>;
+  }
+
+  const isEditable = campaign.status === "draft" || campaign.status === "scheduled";
+  const { metrics } = campaign;
+  const abTest = campaign.abTest as CampaignAbTest | null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Badge variant={campaign.status === "sent" ? "default" : "secondary"}>
+          {campaignStatusLabels[campaign.status as CampaignStatus] || campaign.status}
+        </Badge>
+        <span className="text-sm text-gray-500">
+          {campaign.sentAt
+            ? `Sent ${formatDateTime(campaign.sentAt)}`
+            : campaign.scheduledAt
+            ? `Scheduled for ${formatDateTime(campaign.scheduledAt)}`
+            : ""}
+        </span>
+      </div>
+
+      {metrics.recipients > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Sent</p>
+            <p className="text-lg font-bold">{metrics.sent} / {metrics.recipients}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Failed</p>
+            <p className="text-lg font-bold">{metrics.failed}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Open Rate</p>
+            <p className="text-lg font-bold">{metrics.openRate}%</p>
+            <p className="text-xs text-gray-500">{metrics.opened} unique, {metrics.totalOpens} total</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Click Rate</p>
+            <p className="text-lg font-bold">{metrics.clickRate}%</p>
+            <p className="text-xs text-gray-500">{metrics.clicked} unique, {metrics.totalClicks} total</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Delivered</p>
+            <p className="text-lg font-bold">{metrics.delivered}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Bounced</p>
+            <p className="text-lg font-bold">{metrics.bounced}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Spam Reports</p>
+            <p className="text-lg font-bold">{metrics.spamReports}</p>
+          </div>
+          <div className="border rounded-lg p-3">
+            <p className="text-xs text-gray-500">Unsubscribes</p>
+            <p className="text-lg font-bold">{metrics.unsubscribes}</p>
+          </div>
+        </div>
+      )}
+
+      {abTest && campaign.variants.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            {campaign.winningVariant !== null
+              ? `Variant ${variantLabel(campaign.winningVariant)} won and was sent to the rest of the audience`
+              : campaign.status === "testing" && campaign.testEndsAt
+              ? `Picking the variant with the higher ${abTest.winnerMetric === "opens" ? "open" : "click"} rate on ${formatDateTime(campaign.testEndsAt)}`
+              : `${abTest.testPercent}% of the audience is split across the variants; the winner goes to the rest ${abTest.windowHours} hours later`}
+          </p>
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Open Rate</TableHead>
+                  <TableHead className="text-right">Click Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaign.variants.map((result) => (
+                  <TableRow key={result.variant}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="font-medium">{variantLabel(result.variant)}</span>
+                        <span className="max-w-xs truncate">{result.subject}</span>
+                        {campaign.winningVariant === result.variant && <Badge>Winner</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{result.metrics.sent}</TableCell>
+                    <TableCell className="text-right text-sm">{result.metrics.openRate}%</TableCell>
+                    <TableCell className="text-right text-sm">{result.metrics.clickRate}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {campaign.links.length > 0 && (
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Link</TableHead>
+                <TableHead className="text-right">Clicks</TableHead>
+                <TableHead className="text-right">Unique</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaign.links.map((link) => (
+                <TableRow key={link.url}>
+                  <TableCell className="text-sm max-w-xs truncate">{link.url}</TableCell>
+                  <TableCell className="text-right text-sm">{link.clicks}</TableCell>
+                  <TableCell className="text-right text-sm">{link.uniqueClicks}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {campaign.sends.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Sent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaign.sends.map((send) => (
+                <TableRow key={send.id}>
+                  <TableCell>
+                    <div className="text-sm">{send.name || send.email}</div>
+                    {send.name && <div className="text-xs text-gray-500">{send.email}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={send.status === "failed" || send.status === "bounced" ? "destructive" : "outline"}>
+                      {send.status}
+                    </Badge>
+                    {send.error && <div className="text-xs text-gray-500 mt-1">{send.error}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-500">{formatDateTime(send.sentAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => deleteCampaign()}
+          disabled={isDeleting || campaign.status === "sending"}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {isDeleting ? "Deleting..." : "Delete"}
+        </Button>
+        {campaign.status === "testing" && (
+          <Button variant="outline" onClick={() => cancelCampaign()} disabled={isCancelling}>
+            <XCircle className="h-4 w-4 mr-2" />
+            {isCancelling ? "Cancelling..." : "Cancel Remaining Send"}
+          </Button>
+        )}
+        {isEditable && (
+          <div className="flex space-x-2">
+            {campaign.status === "scheduled" && (
+              <Button variant="outline" onClick={() => cancelCampaign()} disabled={isCancelling}>
+                <XCircle className="h-4 w-4 mr-2" />
+                {isCancelling ? "Cancelling..." : "Cancel Schedule"}
+              </Button>
+            )}
+            {onEdit && (
+              <Button variant="outline" onClick={onEdit}>Edit</Button>
+            )}
+            <Button onClick={() => sendCampaign()} disabled={isSending}>
+              <Send className="h-4 w-4 mr-2" />
+              {isSending ? "Sending..." : "Send Now"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { leadStatusLabels } from "@/components/leads/LeadDetails";
+import { CampaignWithMetrics } from "@/components/marketing/CampaignDetails";
+import { SegmentWithCounts } from "@/components/marketing/SegmentForm";
+import DigestFilterFields, { digestFilterFormSchema, fromDigestFilter, toDigestFilter } from "@/components/marketing/DigestFilterFields";
+import AbTestFields, { abTestFormSchema, fromAbTest, toAbTest } from "@/components/marketing/AbTestFields";
+import { CampaignAbTest, CampaignAudience, DigestListingFilter, EmailTemplate, Listing, LeadStatus, leadStatuses } from "@shared/schema";
+
+interface CampaignFormProps {
+  campaign?: CampaignWithMetrics;
+  onSuccess?: () => void;
+}
+
+const NO_LISTING = "none";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Campaign name is required"),
+  templateId: z.string().min(1, "Choose an email template"),
+  listingId: z.string(),
+  filter: digestFilterFormSchema,
+  audienceType: z.enum(["segment", "leads"]),
+  segmentId: z.string(),
+  leadStatuses: z.array(z.enum(leadStatuses)),
+  abTest: abTestFormSchema,
+  scheduledAt: z.string().optional(),
+}).refine(
+  (values) => values.audienceType !== "segment" || values.segmentId !== "",
+  { message: "Choose a segment", path: ["segmentId"] }
+);
+
+// datetime-local inputs work in local time without a timezone suffix
+function toLocalInputValue(value: string | null | undefined) {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export default function CampaignForm({ campaign, onSuccess }: CampaignFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const isEditing = !!campaign;
+  const audience = campaign?.audience as CampaignAudience | undefined;
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ['/api/marketing/email-templates'],
+    queryFn: () => apiRequest('GET', '/api/marketing/email-templates'),
+  });
+
+  const { data: listings = [] } = useQuery<Listing[]>({
+    queryKey: ['/api/listings'],
+    queryFn: () => apiRequest('GET', '/api/listings'),
+  });
+
+  const { data: segments = [] } = useQuery<SegmentWithCounts[]>({
+    queryKey: ['/api/marketing/segments'],
+    queryFn: () => apiRequest('GET', '/api/marketing/segments'),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: campaign?.name || "",
+      templateId: campaign ? String(campaign.templateId) : "",
+      listingId: campaign?.listingId ? String(campaign.listingId) : NO_LISTING,
+      filter: fromDigestFilter(campaign?.digestFilter as DigestListingFilter | null | undefined),
+      audienceType: audience?.type === "leads" ? "leads" : "segment",
+      segmentId: audience?.type === "segment" ? String(audience.segmentId) : "",
+      leadStatuses: audience?.type === "leads" ? audience.statuses || [] : [],
+      abTest: fromAbTest(campaign?.abTest as CampaignAbTest | null | undefined),
+      scheduledAt: toLocalInputValue(campaign?.scheduledAt),
+    },
+  });
+
+  const audienceType = form.watch("audienceType");
+  const selectedTemplate = templates.find((template) => String(template.id) === form.watch("templateId"));
+  // Digest templates show listings chosen by a filter instead of one featured listing
+  const isDigest = selectedTemplate?.kind === "digest";
+
+  const { mutate: saveCampaign } = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      setIsSubmitting(true);
+      const payload = {
+        name: values.name,
+        templateId: parseInt(values.templateId, 10),
+        listingId: isDigest || values.listingId === NO_LISTING ? null : parseInt(values.listingId, 10),
+        digestFilter: isDigest ? toDigestFilter(values.filter) : null,
+        audience: values.audienceType === "segment"
+          ? { type: "segment", segmentId: parseInt(values.segmentId, 10) }
+          : { type: "leads", statuses: values.leadStatuses },
+        abTest: toAbTest(values.abTest),
+        scheduledAt: values.scheduledAt ? new Date(values.scheduledAt).toISOString() : null,
+      };
+
+      if (isEditing && campaign) {
+        return await apiRequest('PUT', `/api/marketing/campaigns/${campaign.id}`, payload);
+      }
+      return await apiRequest('POST', '/api/marketing/campaigns', payload);
+    },
+    onSuccess: () => {
+      setIsSubmitting(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/campaigns'] });
+      toast({
+        title: isEditing ? "Campaign updated" : "Campaign created",
+        description: isEditing
+          ? "Your campaign has been updated"
+          : "Your campaign has been saved. Send it now or wait for its scheduled time.",
+      });
+      if (!isEditing) form.reset();
+      if (onSuccess) onSuccess();
+    },
+    onError: (error: Error) => {
+      setIsSubmitting(false);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save campaign. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: z.infer<typeof formSchema>) {
+    saveCampaign(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Campaign Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Spring Open House Invite" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="templateId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email Template</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {!isDigest && (
+            <FormField
+              control={form.control}
+              name="listingId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Featured Listing</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_LISTING}>No listing</SelectItem>
+                      {listings.map((listing) => (
+                        <SelectItem key={listing.id} value={String(listing.id)}>{listing.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        {isDigest && <DigestFilterFields control={form.control} />}
+        <FormField
+          control={form.control}
+          name="audienceType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Audience</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="segment">Contact segment</SelectItem>
+                  <SelectItem value="leads">My leads</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {audienceType === "segment" ? (
+          <FormField
+            control={form.control}
+            name="segmentId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Segment</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a segment" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {segments.map((segment) => (
+                      <SelectItem key={segment.id} value={String(segment.id)}>
+                        {segment.name} ({segment.subscribedCount} subscribed)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Only subscribed contacts in the segment receive the campaign</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            control={form.control}
+            name="leadStatuses"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Lead Stages</FormLabel>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {leadStatuses.map((status) => (
+                    <label key={status} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={field.value.includes(status)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? [...field.value, status]
+                              : field.value.filter((value: LeadStatus) => value !== status)
+                          )
+                        }
+                      />
+                      <span>{leadStatusLabels[status]}</span>
+                    </label>
+                  ))}
+                </div>
+                <FormDescription>Leave all unchecked to send to every lead</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <AbTestFields control={form.control} />
+        <FormField
+          control={form.control}
+          name="scheduledAt"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Send At</FormLabel>
+              <FormControl>
+                <Input type="datetime-local" {...field} />
+              </FormControl>
+              <FormDescription>Leave empty to save as a draft</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting
+              ? "Saving..."
+              : isEditing
+              ? "Update Campaign"
+              : "Save Campaign"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
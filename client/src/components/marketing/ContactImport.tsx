@@ -0,0 +1,206 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Users } from "lucide-react";
+import { splitTags } from "@/components/marketing/SegmentForm";
+
+type ImportField = "name" | "firstName" | "lastName" | "email" | "phone" | "tags";
+
+type ColumnMapping = Partial<Record<ImportField, string>>;
+
+interface ImportReport {
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: { row: number; email?: string; message: string }[];
+}
+
+interface ImportResponse {
+  headers: string[];
+  mapping: ColumnMapping;
+  dryRun: boolean;
+  report: ImportReport;
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  email: "Email",
+  name: "Full name",
+  firstName: "First name",
+  lastName: "Last name",
+  phone: "Phone",
+  tags: "Tags",
+};
+
+const NOT_MAPPED = "none";
+
+// Upload a CSV, check it with a dry run, adjust the column mapping and then import it
+export default function ContactImport() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [tags, setTags] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [result, setResult] = useState<ImportResponse | null>(null);
+
+  const { mutate: runImport, isPending } = useMutation({
+    mutationFn: (options: { csv: string; mapping?: ColumnMapping; dryRun: boolean }) =>
+      apiRequest('POST', '/api/marketing/contacts/import', { ...options, tags: splitTags(tags) }) as Promise<ImportResponse>,
+    onSuccess: (response) => {
+      setHeaders(response.headers);
+      setMapping(response.mapping);
+      setResult(response);
+
+      if (!response.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/marketing/contacts'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/marketing/segments'] });
+        toast({
+          title: "Contacts imported",
+          description: `${response.report.created} added, ${response.report.updated} updated, ${response.report.skipped} skipped`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import contacts. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    setHeaders([]);
+    setMapping({});
+
+    file.text().then((text) => {
+      setCsv(text);
+      // Start with a dry run so the server can suggest a column mapping and report problems
+      runImport({ csv: text, dryRun: true });
+    });
+  };
+
+  const updateMapping = (field: ImportField, header: string) => {
+    const nextMapping = { ...mapping };
+    if (header === NOT_MAPPED) {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = header;
+    }
+    setMapping(nextMapping);
+    setResult(null);
+  };
+
+  const reset = () => {
+    setFileName("");
+    setCsv("");
+    setHeaders([]);
+    setMapping({});
+    setResult(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const canImport = !!csv && !!mapping.email && !isPending;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Upload a CSV file with your contacts. Contacts are matched by email, so importing the same file twice won't create duplicates.
+      </p>
+      <div
+        className="border border-dashed rounded-lg p-6 text-center"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.preventDefault();
+          handleFile(event.dataTransfer.files[0]);
+        }}
+      >
+        <Users className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+        <p className="text-sm text-gray-500 mb-2">
+          {fileName || "Drag and drop a file or click to browse"}
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(event) => handleFile(event.target.files?.[0])}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          Select File
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="import-tags">Tag imported contacts</Label>
+        <Input id="import-tags" placeholder="open house, 2024" value={tags} onChange={(event) => setTags(event.target.value)} />
+      </div>
+
+      {headers.length > 0 && (
+        <div className="space-y-2">
+          <Label>Columns</Label>
+          {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+            <div key={field} className="grid grid-cols-2 items-center gap-2">
+              <span className="text-sm">{fieldLabels[field]}</span>
+              <Select value={mapping[field] || NOT_MAPPED} onValueChange={(value) => updateMapping(field, value)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                  {headers.filter(Boolean).map((header) => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <div className="border rounded-md p-3 text-sm space-y-2">
+          <p className="font-medium">{result.dryRun ? "Check results" : "Import results"}</p>
+          <p className="text-gray-600">
+            {result.report.totalRows} rows: {result.report.created} {result.dryRun ? "new" : "added"},{" "}
+            {result.report.updated} {result.dryRun ? "existing" : "updated"}, {result.report.skipped} skipped
+          </p>
+          {result.report.errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-red-600 space-y-1">
+              {result.report.errors.map((error) => (
+                <li key={error.row}>
+                  Row {error.row}{error.email ? ` (${error.email})` : ""}: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        {csv && (
+          <Button variant="outline" className="flex-1" onClick={reset} disabled={isPending}>
+            Clear
+          </Button>
+        )}
+        {/* Changing the mapping clears the check, so the file is always checked before importing */}
+        {(!result || result.dryRun) && (
+          <Button className="flex-1" disabled={!canImport} onClick={() => runImport({ csv, mapping, dryRun: !result })}>
+            {isPending ? "Working..." : result ? "Import Contacts" : "Check File"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { supabase } from "@/lib/supabase";
+import { Download, Edit, Plus, Trash2 } from "lucide-react";
+import SegmentForm, { SegmentWithCounts } from "@/components/marketing/SegmentForm";
+import ContactImport from "@/components/marketing/ContactImport";
+import { Contact, ContactSubscriptionStatus, SegmentFilter } from "@shared/schema";
+
+// Contact as returned by the API, with dates as strings
+export interface ContactRecord extends Omit<Contact, "createdAt" | "updatedAt"> {
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export const subscriptionStatusLabels: Record<ContactSubscriptionStatus, string> = {
+  subscribed: "Subscribed",
+  unsubscribed: "Unsubscribed",
+  bounced: "Bounced",
+};
+
+const ALL_CONTACTS = "all";
+
+// The export is a file download, so it can't go through apiRequest, which expects JSON
+async function downloadContactsCsv(segment?: SegmentWithCounts) {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData?.session?.access_token;
+
+  const query = segment ? `?segmentId=${segment.id}` : "";
+  const response = await fetch(`/api/marketing/contacts/export${query}`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`Export failed with status ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${segment ? segment.name.toLowerCase().replace(/[^a-z0-9]+/g, "-") : "contacts"}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ContactsManager() {
+  const { toast } = useToast();
+  const [selectedSegmentId, setSelectedSegmentId] = useState(ALL_CONTACTS);
+  const [isSegmentFormOpen, setIsSegmentFormOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<SegmentWithCounts | null>(null);
+
+  const { data: segments = [], isLoading: segmentsLoading } = useQuery<SegmentWithCounts[]>({
+    queryKey: ['/api/marketing/segments'],
+    queryFn: () => apiRequest('GET', '/api/marketing/segments'),
+  });
+
+  const { data: contacts = [], isLoading: contactsLoading } = useQuery<ContactRecord[]>({
+    queryKey: ['/api/marketing/contacts'],
+    queryFn: () => apiRequest('GET', '/api/marketing/contacts'),
+  });
+
+  const selectedSegment = segments.find((segment) => String(segment.id) === selectedSegmentId);
+  const availableTags = Array.from(new Set(contacts.flatMap((contact) => contact.tags || []))).sort();
+
+  // Mirrors the server's segment matching so switching segments doesn't need another request
+  const visibleContacts = selectedSegment
+    ? contacts.filter((contact) => {
+        const filter = selectedSegment.filter as SegmentFilter;
+        if (filter.tags.length === 0) return true;
+        return filter.match === "all"
+          ? filter.tags.every((tag) => contact.tags.includes(tag))
+          : filter.tags.some((tag) => contact.tags.includes(tag));
+      })
+    : contacts;
+
+  const invalidateContacts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/marketing/contacts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/marketing/segments'] });
+  };
+
+  const { mutate: updateSubscription } = useMutation({
+    mutationFn: ({ id, subscriptionStatus }: { id: number; subscriptionStatus: ContactSubscriptionStatus }) =>
+      apiRequest('PUT', `/api/marketing/contacts/${id}`, { subscriptionStatus }),
+    onSuccess: invalidateContacts,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update contact. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteContact } = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/marketing/contacts/${id}`),
+    onSuccess: invalidateContacts,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete contact. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteSegment } = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/marketing/segments/${id}`),
+    onSuccess: () => {
+      setSelectedSegmentId(ALL_CONTACTS);
+      invalidateContacts();
+      toast({
+        title: "Segment deleted",
+        description: "The segment has been removed. Its contacts were kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete segment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const exportContacts = (segment?: SegmentWithCounts) => {
+    downloadContactsCsv(segment).catch(() => {
+      toast({
+        title: "Error",
+        description: "Failed to export contacts. Please try again.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  const openSegmentForm = (segment: SegmentWithCounts | null) => {
+    setEditingSegment(segment);
+    setIsSegmentFormOpen(true);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="md:col-span-2 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle>Segments</CardTitle>
+              <CardDescription>Groups of contacts by tag, used as campaign audiences</CardDescription>
+            </div>
+            <Button size="sm" onClick={() => openSegmentForm(null)}>
+              <Plus className="h-4 w-4 mr-2" /> New Segment
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {segmentsLoading ? (
+              <div className="text-center py-4">Loading segments...</div>
+            ) : segments.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4">
+                No segments yet. Tag your contacts, then save a segment to send campaigns to them.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {segments.map((segment) => {
+                  const filter = segment.filter as SegmentFilter;
+                  return (
+                    <div key={segment.id} className="py-4 flex justify-between items-center">
+                      <div>
+                        <h3 className="font-medium">{segment.name}</h3>
+                        <p className="text-sm text-gray-500">
+                          {segment.contactCount} contacts, {segment.subscribedCount} subscribed
+                          {filter.tags.length > 0
+                            ? ` · ${filter.match === "all" ? "all of" : "any of"} ${filter.tags.join(", ")}`
+                            : " · every contact"}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => setSelectedSegmentId(String(segment.id))}>View</Button>
+                        <Button variant="outline" size="sm" onClick={() => exportContacts(segment)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => openSegmentForm(segment)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => deleteSegment(segment.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle>Contacts</CardTitle>
+              <CardDescription>
+                {visibleContacts.length} {selectedSegment ? `in ${selectedSegment.name}` : "in total"}
+              </CardDescription>
+            </div>
+            <div className="flex space-x-2">
+              <Select value={selectedSegmentId} onValueChange={setSelectedSegmentId}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CONTACTS}>All contacts</SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => exportContacts(selectedSegment)}>
+                <Download className="h-4 w-4 mr-2" /> Export CSV
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {contactsLoading ? (
+              <div className="text-center py-4">Loading contacts...</div>
+            ) : visibleContacts.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4">No contacts yet. Import a CSV file to get started.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Tags</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleContacts.map((contact) => (
+                      <TableRow key={contact.id}>
+                        <TableCell>
+                          <div className="text-sm">{contact.name}</div>
+                          <div className="text-xs text-gray-500">{contact.email}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {contact.tags.map((tag) => (
+                              <Badge key={tag} variant="outline">{tag}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={contact.subscriptionStatus}
+                            onValueChange={(value) =>
+                              updateSubscription({ id: contact.id, subscriptionStatus: value as ContactSubscriptionStatus })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-[140px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(subscriptionStatusLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => deleteContact(contact.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div>
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Contacts</CardTitle>
+            <CardDescription>Add contacts from a file</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ContactImport />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isSegmentFormOpen} onOpenChange={setIsSegmentFormOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSegment ? "Edit Segment" : "New Segment"}</DialogTitle>
+            <DialogDescription>Choose the tags a contact needs to be part of this segment</DialogDescription>
+          </DialogHeader>
+          <SegmentForm
+            key={editingSegment?.id ?? "new"}
+            segment={editingSegment || undefined}
+            availableTags={availableTags}
+            onSuccess={() => setIsSegmentFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { Control, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { useQuery } from "@tanstack/react-query";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+import { DigestListingFilter, Listing } from "@shared/schema";
+
+export const listingStatusLabels: Record<string, string> = {
+  active: "Active",
+  pending: "Pending",
+  sold: "Sold",
+};
+
+const wholeNumber = z.string().regex(/^\d*$/, "Enter a whole number");
+
+// Inputs are kept as strings so fields can be left empty; see toDigestFilter
+export const digestFilterFormSchema = z.object({
+  statuses: z.array(z.string()),
+  city: z.string(),
+  minPrice: wholeNumber,
+  maxPrice: wholeNumber,
+  createdWithinDays: wholeNumber.refine((value) => value === "" || parseInt(value, 10) <= 365, "At most 365 days"),
+  limit: wholeNumber.refine((value) => value === "" || parseInt(value, 10) <= 50, "At most 50 listings"),
+});
+
+export type DigestFilterFormValues = z.infer<typeof digestFilterFormSchema>;
+
+export function toDigestFilter(values: DigestFilterFormValues): DigestListingFilter {
+  const number = (value: string) => (value === "" ? undefined : parseInt(value, 10));
+  return {
+    statuses: values.statuses.length > 0 ? values.statuses : undefined,
+    city: values.city.trim() || undefined,
+    minPrice: number(values.minPrice),
+    maxPrice: number(values.maxPrice),
+    createdWithinDays: number(values.createdWithinDays) || undefined,
+    limit: number(values.limit) || undefined,
+  };
+}
+
+export function fromDigestFilter(filter?: DigestListingFilter | null): DigestFilterFormValues {
+  const text = (value?: number) => (value === undefined ? "" : String(value));
+  return {
+    statuses: filter?.statuses || ["active"],
+    city: filter?.city || "",
+    minPrice: text(filter?.minPrice),
+    maxPrice: text(filter?.maxPrice),
+    // New digests default to the past week's listings
+    createdWithinDays: filter ? text(filter.createdWithinDays) : "7",
+    limit: text(filter?.limit),
+  };
+}
+
+interface DigestFilterFieldsProps {
+  // Form whose values hold a `filter` field shaped like digestFilterFormSchema
+  control: Control<any>;
+}
+
+export default function DigestFilterFields({ control }: DigestFilterFieldsProps) {
+  const values = useWatch({ control, name: "filter" }) as DigestFilterFormValues;
+  const parsed = digestFilterFormSchema.safeParse(values);
+  const filter = parsed.success ? toDigestFilter(parsed.data) : null;
+
+  const { data: matchingListings } = useQuery<Listing[]>({
+    queryKey: ['/api/marketing/digests/listings', filter],
+    queryFn: () => apiRequest('POST', '/api/marketing/digests/listings', { filter }),
+    enabled: !!filter,
+  });
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h4 className="text-sm font-medium">Listings in the digest</h4>
+        <p className="text-sm text-gray-500">
+          {matchingListings
+            ? `${matchingListings.length} of your public listings match right now`
+            : "Only your public listings are included"}
+        </p>
+      </div>
+      <FormField
+        control={control}
+        name="filter.statuses"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Status</FormLabel>
+            <div className="flex space-x-4">
+              {Object.entries(listingStatusLabels).map(([status, label]) => (
+                <label key={status} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={field.value.includes(status)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(
+                        checked
+                          ? [...field.value, status]
+                          : field.value.filter((value: string) => value !== status)
+                      )
+                    }
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+            <FormDescription>Leave all unchecked to include every status. Drafts are never included.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name="filter.city"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>City</FormLabel>
+              <FormControl>
+                <Input placeholder="Any city" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="filter.minPrice"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Min Price</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="No minimum" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="filter.maxPrice"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Max Price</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="No maximum" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="filter.createdWithinDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Listed In The Last (Days)</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="Any time" {...field} />
+              </FormControl>
+              <FormDescription>Counted back from when the digest is sent</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="filter.limit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Maximum Listings</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="12" {...field} />
+              </FormControl>
+              <FormDescription>Newest listings are shown first</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { SegmentWithCounts } from "@/components/marketing/SegmentForm";
+import DigestFilterFields, { digestFilterFormSchema, fromDigestFilter, toDigestFilter } from "@/components/marketing/DigestFilterFields";
+import { Digest, DigestListingFilter, EmailTemplate } from "@shared/schema";
+
+// Digest as returned by the API, with dates as strings
+export interface DigestRecord extends Omit<Digest, "lastSentAt" | "nextRunAt" | "createdAt" | "updatedAt"> {
+  lastSentAt: string | null;
+  nextRunAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export const weekdayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface DigestFormProps {
+  digest?: DigestRecord;
+  onSuccess?: () => void;
+}
+
+const formSchema = z.object({
+  name: z.string().min(1, "Digest name is required"),
+  templateId: z.string().min(1, "Choose a digest template"),
+  segmentId: z.string().min(1, "Choose a segment"),
+  filter: digestFilterFormSchema,
+  dayOfWeek: z.string(),
+  hour: z.string(),
+  active: z.boolean(),
+});
+
+export default function DigestForm({ digest, onSuccess }: DigestFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!digest;
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ['/api/marketing/email-templates'],
+    queryFn: () => apiRequest('GET', '/api/marketing/email-templates'),
+  });
+  const digestTemplates = templates.filter((template) => template.kind === "digest");
+
+  const { data: segments = [] } = useQuery<SegmentWithCounts[]>({
+    queryKey: ['/api/marketing/segments'],
+    queryFn: () => apiRequest('GET', '/api/marketing/segments'),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: digest?.name || "",
+      templateId: digest ? String(digest.templateId) : "",
+      segmentId: digest ? String(digest.segmentId) : "",
+      filter: fromDigestFilter(digest?.filter as DigestListingFilter | undefined),
+      dayOfWeek: String(digest?.dayOfWeek ?? 1),
+      hour: String(digest?.hour ?? 14),
+      active: digest?.active ?? true,
+    },
+  });
+
+  const { mutate: saveDigest, isPending } = useMutation({
+    mutationFn: (values: z.infer<typeof formSchema>) => {
+      const payload = {
+        name: values.name,
+        templateId: parseInt(values.templateId, 10),
+        segmentId: parseInt(values.segmentId, 10),
+        filter: toDigestFilter(values.filter),
+        dayOfWeek: parseInt(values.dayOfWeek, 10),
+        hour: parseInt(values.hour, 10),
+        active: values.active,
+      };
+
+      return isEditing && digest
+        ? apiRequest('PUT', `/api/marketing/digests/${digest.id}`, payload)
+        : apiRequest('POST', '/api/marketing/digests', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/digests'] });
+      toast({
+        title: isEditing ? "Digest updated" : "Digest created",
+        description: isEditing ? "Your digest has been updated" : "Your digest will go out every week",
+      });
+      if (onSuccess) onSuccess();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save digest. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveDigest(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Digest Name</FormLabel>
+              <FormControl>
+                <Input placeholder="New Listings This Week" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="templateId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Digest Template</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {digestTemplates.map((template) => (
+                      <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {digestTemplates.length === 0 && (
+                  <FormDescription>Create a template of type "Listing digest" first</FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="segmentId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Segment</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a segment" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {segments.map((segment) => (
+                      <SelectItem key={segment.id} value={String(segment.id)}>
+                        {segment.name} ({segment.subscribedCount} subscribed)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <DigestFilterFields control={form.control} />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="dayOfWeek"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Send Every</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {weekdayLabels.map((label, day) => (
+                      <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="hour"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>At (UTC)</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, "0")}:00`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Weeks without matching listings are skipped</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : isEditing ? "Update Digest" : "Create Digest"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
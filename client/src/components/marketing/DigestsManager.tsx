@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import DigestForm, { DigestRecord, weekdayLabels } from "@/components/marketing/DigestForm";
+import { formatDateTime } from "@/components/marketing/CampaignDetails";
+import { SegmentWithCounts } from "@/components/marketing/SegmentForm";
+
+export default function DigestsManager() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingDigest, setEditingDigest] = useState<DigestRecord | null>(null);
+
+  const { data: digests = [], isLoading } = useQuery<DigestRecord[]>({
+    queryKey: ['/api/marketing/digests'],
+    queryFn: () => apiRequest('GET', '/api/marketing/digests'),
+  });
+
+  const { data: segments = [] } = useQuery<SegmentWithCounts[]>({
+    queryKey: ['/api/marketing/segments'],
+    queryFn: () => apiRequest('GET', '/api/marketing/segments'),
+  });
+
+  const { mutate: deleteDigest } = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/marketing/digests/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/digests'] });
+      toast({
+        title: "Digest deleted",
+        description: "The digest will no longer be sent. Campaigns it already sent were kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete digest. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (digest: DigestRecord | null) => {
+    setEditingDigest(digest);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle>Weekly Digests</CardTitle>
+          <CardDescription>Send your newest listings to a segment every week</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" /> New Digest
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading digests...</div>
+        ) : digests.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">
+            No digests yet. Each week's digest is sent as a campaign, so you can follow its results there.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {digests.map((digest) => {
+              const segment = segments.find((item) => item.id === digest.segmentId);
+              return (
+                <div key={digest.id} className="py-4 flex justify-between items-center">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-medium">{digest.name}</h3>
+                      <Badge variant={digest.active ? "default" : "outline"}>{digest.active ? "Active" : "Paused"}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {weekdayLabels[digest.dayOfWeek]}s at {String(digest.hour).padStart(2, "0")}:00 UTC
+                      {segment ? ` to ${segment.name}` : ""}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {digest.nextRunAt ? `Next: ${formatDateTime(digest.nextRunAt)}` : "Not scheduled"}
+                      {digest.lastSentAt ? ` · Last sent ${formatDateTime(digest.lastSentAt)}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openForm(digest)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => deleteDigest(digest.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingDigest ? "Edit Digest" : "New Digest"}</DialogTitle>
+            <DialogDescription>Choose which listings to include, who receives them and when</DialogDescription>
+          </DialogHeader>
+          <DigestForm
+            key={editingDigest?.id ?? "new"}
+            digest={editingDigest || undefined}
+            onSuccess={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -13,12 +14,14 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { EmailTemplate } from "@shared/schema";
+import TemplatePreview from "@/components/marketing/TemplatePreview";
+import { EmailTemplate, EmailTemplateKind, emailTemplateKinds } from "@shared/schema";
 
 interface EmailTemplateFormProps {
   template?: EmailTemplate;
@@ -26,8 +29,28 @@ interface EmailTemplateFormProps {
   onSuccess?: () => void;
 }
 
+export const templateKindLabels: Record<EmailTemplateKind, string> = {
+  listing: "Single listing",
+  digest: "Listing digest",
+};
+
+// Variables each kind of template can use; the server rejects templates with any others
+const templateVariableHelp: Record<EmailTemplateKind, string[]> = {
+  listing: [
+    "{{title}} {{price}} {{address}} {{bedrooms}} {{bathrooms}} {{sqft}} {{description}} {{listing_url}}",
+    "{{agent_name}} {{agent_email}} {{agent_phone}} {{contact_name}} {{contact_first_name}}",
+    "{{#if price}}…{{else}}…{{/if}} · {{#each images}}<img src=\"{{this}}\">{{/each}} · {{#each features}}{{this}}{{/each}}",
+  ],
+  digest: [
+    "{{listing_count}} {{agent_name}} {{agent_email}} {{agent_phone}} {{contact_name}} {{contact_first_name}}",
+    "{{#each listings}}<a href=\"{{url}}\">{{title}}</a> {{price}} <img src=\"{{image}}\">{{/each}}",
+    "Listing fields: title address city price bedrooms bathrooms sqft description status url image",
+  ],
+};
+
 const formSchema = z.object({
   name: z.string().min(1, "Template name is required"),
+  kind: z.enum(emailTemplateKinds),
   subject: z.string().min(1, "Email subject is required"),
   content: z.string().min(1, "Email content is required"),
 });
@@ -44,23 +67,28 @@ export default function EmailTemplateForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: template?.name || "",
+      kind: (template?.kind as EmailTemplateKind) || "listing",
       subject: template?.subject || "",
       content: template?.content || "",
     },
   });
 
+  const kind = form.watch("kind");
+  const subject = form.watch("subject");
+  const content = form.watch("content");
+
   const { mutate: saveTemplate } = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
       setIsSubmitting(true);
       if (isEditing && template) {
-        return await apiRequest('PATCH', `/api/email-templates/${template.id}`, values);
+        return await apiRequest('PUT', `/api/marketing/email-templates/${template.id}`, values);
       } else {
-        return await apiRequest('POST', '/api/email-templates', values);
+        return await apiRequest('POST', '/api/marketing/email-templates', values);
       }
     },
     onSuccess: () => {
       setIsSubmitting(false);
-      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/email-templates'] });
       toast({
         title: isEditing ? "Template updated" : "Template created",
         description: isEditing
@@ -70,11 +98,16 @@ export default function EmailTemplateForm({
       if (onSuccess) onSuccess();
       if (!isEditing) form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       setIsSubmitting(false);
+      // Unknown variables and syntax errors come back as a 400 with a readable message
+      if (error.message.startsWith("Unknown template variables") || error.message.startsWith("Invalid template")) {
+        form.setError("content", { message: error.message });
+        return;
+      }
       toast({
         title: "Error",
-        description: "Failed to save email template. Please try again.",
+        description: error.message || "Failed to save email template. Please try again.",
         variant: "destructive",
       });
     },
@@ -110,6 +143,33 @@ export default function EmailTemplateForm({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Template Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {emailTemplateKinds.map((value) => (
+                        <SelectItem key={value} value={value}>{templateKindLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {kind === "digest"
+                      ? "Repeats a block for each listing matched by the campaign or weekly digest"
+                      : "Features one listing chosen when the campaign is created"}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="subject"
@@ -131,25 +191,36 @@ export default function EmailTemplateForm({
                   <FormLabel>Email Content</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Dear [name],
+                      placeholder="Hi {{contact_first_name}},
 
-I'm excited to share my latest property listing with you. This beautiful home features [features] and is located in [location].
+I'm excited to share my latest property listing with you. {{title}} is located at {{address}}{{#if price}} and listed at {{price}}{{/if}}.
 
 Click the link below to view more details and pictures:
-[listing_link]
+{{listing_url}}
 
 Please let me know if you have any questions or would like to schedule a showing.
 
 Best regards,
-[your_name]"
+{{agent_name}}"
                       className="min-h-[200px]"
                       {...field}
                     />
                   </FormControl>
+                  <FormDescription className="space-y-1 font-mono text-xs">
+                    {templateVariableHelp[kind].map((line) => (
+                      <span key={line} className="block">{line}</span>
+                    ))}
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            <TemplatePreview
+              templateId={isEditing ? template?.id : undefined}
+              kind={kind}
+              subject={subject}
+              content={content}
+            />
             <div className="flex justify-end space-x-2">
               <Button type="button" variant="outline" onClick={() => form.reset()}>
                 Cancel
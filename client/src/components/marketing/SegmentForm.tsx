@@ -0,0 +1,170 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Segment, SegmentFilter } from "@shared/schema";
+
+// Segment as returned by the API, with dates as strings and how many contacts it matches
+export interface SegmentWithCounts extends Omit<Segment, "createdAt" | "updatedAt"> {
+  createdAt: string | null;
+  updatedAt: string | null;
+  contactCount: number;
+  subscribedCount: number;
+}
+
+interface SegmentFormProps {
+  segment?: SegmentWithCounts;
+  // Tags already used by the user's contacts, offered as suggestions
+  availableTags: string[];
+  onSuccess?: () => void;
+}
+
+const formSchema = z.object({
+  name: z.string().min(1, "Segment name is required"),
+  tags: z.string(),
+  match: z.enum(["any", "all"]),
+});
+
+export function splitTags(value: string) {
+  return value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+}
+
+export default function SegmentForm({ segment, availableTags, onSuccess }: SegmentFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!segment;
+  const filter = segment?.filter as SegmentFilter | undefined;
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: segment?.name || "",
+      tags: filter?.tags.join(", ") || "",
+      match: filter?.match || "any",
+    },
+  });
+
+  const selectedTags = splitTags(form.watch("tags"));
+
+  const { mutate: saveSegment, isPending } = useMutation({
+    mutationFn: (values: z.infer<typeof formSchema>) => {
+      const payload = {
+        name: values.name,
+        filter: { tags: splitTags(values.tags), match: values.match },
+      };
+
+      return isEditing && segment
+        ? apiRequest('PUT', `/api/marketing/segments/${segment.id}`, payload)
+        : apiRequest('POST', '/api/marketing/segments', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/segments'] });
+      toast({
+        title: isEditing ? "Segment updated" : "Segment created",
+        description: isEditing ? "Your segment has been updated" : "Your segment is ready to use in campaigns",
+      });
+      if (onSuccess) onSuccess();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save segment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addTag = (tag: string) => {
+    if (selectedTags.includes(tag)) return;
+    form.setValue("tags", [...selectedTags, tag].join(", "));
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveSegment(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Segment Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Past Clients" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <Input placeholder="buyer, past client" {...field} />
+              </FormControl>
+              <FormDescription>Separate tags with commas. Leave empty to include every contact.</FormDescription>
+              {availableTags.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {availableTags.map((tag) => (
+                    <Badge
+                      key={tag}
+                      variant={selectedTags.includes(tag) ? "default" : "outline"}
+                      className="cursor-pointer"
+                      onClick={() => addTag(tag)}
+                    >
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="match"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Match</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="any">Contacts with any of these tags</SelectItem>
+                  <SelectItem value="all">Contacts with all of these tags</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : isEditing ? "Update Segment" : "Save Segment"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,342 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { contactSources, ContactSource, EmailTemplate, Sequence, SequenceStep } from "@shared/schema";
+
+// Sequence as returned by the API, with dates as strings and how many contacts are in it
+export interface SequenceRecord extends Omit<Sequence, "createdAt" | "updatedAt"> {
+  createdAt: string | null;
+  updatedAt: string | null;
+  enrollments: { active: number; completed: number; stopped: number };
+}
+
+export const contactSourceLabels: Record<ContactSource, string> = {
+  manual: "Added by hand",
+  lead: "Website inquiries",
+  import: "CSV imports",
+  open_house: "Open house sign-ins",
+};
+
+interface SequenceFormProps {
+  sequence?: SequenceRecord;
+  onSuccess?: () => void;
+}
+
+// Inputs are kept as strings; see toSteps
+const stepFormSchema = z.object({
+  type: z.enum(["email", "task"]),
+  delayDays: z.string().regex(/^\d+$/, "Enter a whole number of days"),
+  templateId: z.string(),
+  title: z.string(),
+}).superRefine((step, context) => {
+  if (step.type === "email" && !step.templateId) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["templateId"], message: "Choose a template" });
+  }
+  if (step.type === "task" && !step.title.trim()) {
+    context.addIssue({ code: z.ZodIssueCode.custom, path: ["title"], message: "Describe the task" });
+  }
+});
+
+const formSchema = z.object({
+  name: z.string().min(1, "Sequence name is required"),
+  triggers: z.array(z.enum(contactSources)).min(1, "Choose when contacts are enrolled"),
+  steps: z.array(stepFormSchema)
+    .min(1, "Add at least one step")
+    .refine(
+      (steps) => steps.every((step, index) =>
+        index === 0 || parseInt(step.delayDays, 10) >= parseInt(steps[index - 1].delayDays, 10)
+      ),
+      "Steps must be in order of their delay"
+    ),
+  active: z.boolean(),
+});
+
+type SequenceFormValues = z.infer<typeof formSchema>;
+
+const toSteps = (steps: SequenceFormValues["steps"]): SequenceStep[] =>
+  steps.map((step) =>
+    step.type === "email"
+      ? { type: "email", delayDays: parseInt(step.delayDays, 10), templateId: parseInt(step.templateId, 10) }
+      : { type: "task", delayDays: parseInt(step.delayDays, 10), title: step.title.trim() }
+  );
+
+const fromSteps = (steps: SequenceStep[]): SequenceFormValues["steps"] =>
+  steps.map((step) => ({
+    type: step.type,
+    delayDays: String(step.delayDays),
+    templateId: step.type === "email" ? String(step.templateId) : "",
+    title: step.type === "task" ? step.title : "",
+  }));
+
+const defaultSteps: SequenceFormValues["steps"] = [
+  { type: "email", delayDays: "0", templateId: "", title: "" },
+  { type: "email", delayDays: "3", templateId: "", title: "" },
+  { type: "task", delayDays: "7", templateId: "", title: "Call to follow up" },
+];
+
+export default function SequenceForm({ sequence, onSuccess }: SequenceFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!sequence;
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: ['/api/marketing/email-templates'],
+    queryFn: () => apiRequest('GET', '/api/marketing/email-templates'),
+  });
+  const listingTemplates = templates.filter((template) => template.kind !== "digest");
+
+  const form = useForm<SequenceFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: sequence?.name || "",
+      triggers: (sequence?.triggers as ContactSource[] | undefined) || ["manual", "lead"],
+      steps: sequence ? fromSteps(sequence.steps as SequenceStep[]) : defaultSteps,
+      active: sequence?.active ?? true,
+    },
+  });
+
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "steps" });
+  const steps = form.watch("steps");
+
+  const { mutate: saveSequence, isPending } = useMutation({
+    mutationFn: (values: SequenceFormValues) => {
+      const payload = {
+        name: values.name,
+        triggers: values.triggers,
+        steps: toSteps(values.steps),
+        active: values.active,
+      };
+
+      return isEditing && sequence
+        ? apiRequest('PUT', `/api/marketing/sequences/${sequence.id}`, payload)
+        : apiRequest('POST', '/api/marketing/sequences', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/sequences'] });
+      toast({
+        title: isEditing ? "Sequence updated" : "Sequence created",
+        description: isEditing
+          ? "Contacts already in the sequence continue with the new steps"
+          : "New contacts will be enrolled automatically",
+      });
+      if (onSuccess) onSuccess();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save sequence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveSequence(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sequence Name</FormLabel>
+              <FormControl>
+                <Input placeholder="New Lead Follow-Up" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="triggers"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Enroll New Contacts From</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {contactSources.map((source) => (
+                  <label key={source} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(source)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked ? [...field.value, source] : field.value.filter((value) => value !== source)
+                        )
+                      }
+                    />
+                    <span>{contactSourceLabels[source]}</span>
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div>
+            <h4 className="text-sm font-medium">Steps</h4>
+            <p className="text-sm text-gray-500">
+              Days count from when the contact was added. The sequence stops when they reply, send another
+              inquiry, are marked contacted or unsubscribe.
+            </p>
+          </div>
+          {fields.map((item, index) => (
+            <div key={item.id} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Step {index + 1}</span>
+                <div className="flex space-x-1">
+                  <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, index - 1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === fields.length - 1}
+                    onClick={() => move(index, index + 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" disabled={fields.length === 1} onClick={() => remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name={`steps.${index}.type`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Action</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="email">Send email</SelectItem>
+                          <SelectItem value="task">Remind me</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`steps.${index}.delayDays`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>After (Days)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {steps[index]?.type === "task" ? (
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.title`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Task</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Call to follow up" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.templateId`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Template</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a template" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {listingTemplates.map((template) => (
+                              <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append({
+              type: "email",
+              delayDays: steps.length > 0 ? steps[steps.length - 1].delayDays : "0",
+              templateId: "",
+              title: "",
+            })}
+          >
+            <Plus className="h-4 w-4 mr-2" /> Add Step
+          </Button>
+          {(form.formState.errors.steps?.message || form.formState.errors.steps?.root?.message) && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.steps?.message || form.formState.errors.steps?.root?.message}
+            </p>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Pausing stops the sequence for everyone currently in it</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : isEditing ? "Update Sequence" : "Create Sequence"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Edit, Plus, Trash2, Users } from "lucide-react";
+import SequenceForm, { contactSourceLabels, SequenceRecord } from "@/components/marketing/SequenceForm";
+import { formatDateTime } from "@/components/marketing/CampaignDetails";
+import { ContactSource, SequenceEnrollment, SequenceStep, SequenceStopReason } from "@shared/schema";
+
+interface EnrollmentRecord extends Omit<SequenceEnrollment, "nextRunAt" | "startedAt" | "endedAt" | "createdAt" | "updatedAt"> {
+  nextRunAt: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  contactName: string | null;
+}
+
+const stopReasonLabels: Record<SequenceStopReason, string> = {
+  inquired: "Sent another inquiry",
+  replied: "Replied",
+  contacted: "Contacted",
+  unsubscribed: "Unsubscribed",
+  sequence_paused: "Sequence paused",
+  manual: "Stopped by you",
+};
+
+const describeSteps = (steps: SequenceStep[]) => {
+  const emails = steps.filter((step) => step.type === "email").length;
+  const tasks = steps.length - emails;
+  const lastDay = steps.length > 0 ? steps[steps.length - 1].delayDays : 0;
+  return `${emails} email${emails === 1 ? "" : "s"}, ${tasks} task${tasks === 1 ? "" : "s"} over ${lastDay} day${lastDay === 1 ? "" : "s"}`;
+};
+
+function EnrollmentsList({ sequenceId }: { sequenceId: number }) {
+  const { toast } = useToast();
+
+  const { data: enrollments = [], isLoading } = useQuery<EnrollmentRecord[]>({
+    queryKey: ['/api/marketing/sequences', sequenceId, 'enrollments'],
+    queryFn: () => apiRequest('GET', `/api/marketing/sequences/${sequenceId}/enrollments`),
+  });
+
+  const { mutate: stopEnrollment, isPending } = useMutation({
+    mutationFn: (id: number) => apiRequest('POST', `/api/marketing/sequences/enrollments/${id}/stop`, { reason: "manual" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/sequences'] });
+      toast({
+        title: "Sequence stopped",
+        description: "No more steps will run for this contact",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to stop sequence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading contacts...</div>;
+  }
+
+  if (enrollments.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No contacts have been enrolled yet.</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {enrollments.map((enrollment) => (
+        <div key={enrollment.id} className="py-3 flex justify-between items-center">
+          <div>
+            <p className="font-medium">{enrollment.contactName || enrollment.email}</p>
+            {enrollment.contactName && <p className="text-sm text-gray-500">{enrollment.email}</p>}
+            <p className="text-xs text-gray-500">
+              Started {formatDateTime(enrollment.startedAt)}
+              {enrollment.status === "active" && enrollment.nextRunAt
+                ? ` · Step ${enrollment.currentStep + 1} on ${formatDateTime(enrollment.nextRunAt)}`
+                : ""}
+              {enrollment.endedAt ? ` · Ended ${formatDateTime(enrollment.endedAt)}` : ""}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            {enrollment.status === "stopped" ? (
+              <Badge variant="outline">
+                {enrollment.stopReason ? stopReasonLabels[enrollment.stopReason as SequenceStopReason] : "Stopped"}
+              </Badge>
+            ) : (
+              <Badge variant={enrollment.status === "active" ? "default" : "secondary"}>
+                {enrollment.status === "active" ? "Active" : "Completed"}
+              </Badge>
+            )}
+            {enrollment.status === "active" && (
+              <Button variant="outline" size="sm" disabled={isPending} onClick={() => stopEnrollment(enrollment.id)}>
+                Stop
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function SequencesManager() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<SequenceRecord | null>(null);
+  const [viewingSequence, setViewingSequence] = useState<SequenceRecord | null>(null);
+
+  const { data: sequences = [], isLoading } = useQuery<SequenceRecord[]>({
+    queryKey: ['/api/marketing/sequences'],
+    queryFn: () => apiRequest('GET', '/api/marketing/sequences'),
+  });
+
+  const { mutate: deleteSequence } = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/marketing/sequences/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/marketing/sequences'] });
+      toast({
+        title: "Sequence deleted",
+        description: "Contacts in it will receive no further steps",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete sequence. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (sequence: SequenceRecord | null) => {
+    setEditingSequence(sequence);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle>Follow-Up Sequences</CardTitle>
+          <CardDescription>Email new contacts on a schedule until they reply</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" /> New Sequence
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading sequences...</div>
+        ) : sequences.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">
+            No sequences yet. New leads are enrolled automatically and stop receiving emails when they reply
+            or send another inquiry. Replies are forwarded to you.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sequences.map((sequence) => (
+              <div key={sequence.id} className="py-4 flex justify-between items-center">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium">{sequence.name}</h3>
+                    <Badge variant={sequence.active ? "default" : "outline"}>{sequence.active ? "Active" : "Paused"}</Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {describeSteps(sequence.steps as SequenceStep[])} · For{" "}
+                    {(sequence.triggers as ContactSource[]).map((source) => contactSourceLabels[source].toLowerCase()).join(", ")}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {sequence.enrollments.active} active · {sequence.enrollments.completed} completed ·{" "}
+                    {sequence.enrollments.stopped} stopped
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setViewingSequence(sequence)}>
+                    <Users className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openForm(sequence)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => deleteSequence(sequence.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSequence ? "Edit Sequence" : "New Sequence"}</DialogTitle>
+            <DialogDescription>Choose which contacts are enrolled and what happens on each day</DialogDescription>
+          </DialogHeader>
+          <SequenceForm
+            key={editingSequence?.id ?? "new"}
+            sequence={editingSequence || undefined}
+            onSuccess={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewingSequence} onOpenChange={(open) => !open && setViewingSequence(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingSequence?.name}</DialogTitle>
+            <DialogDescription>Contacts enrolled in this sequence, newest first</DialogDescription>
+          </DialogHeader>
+          {viewingSequence && <EnrollmentsList sequenceId={viewingSequence.id} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
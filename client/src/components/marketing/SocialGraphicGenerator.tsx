@@ -12,6 +12,7 @@ import { Download, Share, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { Listing } from "@shared/schema";
+import { AssetRecord, uploadAssets } from "@/lib/assets";
 
 // Sample design templates for graphics
 const designTemplates = [
@@ -49,6 +50,68 @@ const imageDimensions = {
   twitter: { width: 1200, height: 675, name: "Twitter Post (16:9)" }
 };
 
+// The font size setting is for a graphic 600px wide and scales with the chosen size
+const FONT_SIZE_BASE_WIDTH = 600;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Without CORS the canvas can't be exported, so images from hosts that don't allow it are skipped
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+interface GraphicOptions {
+  width: number;
+  height: number;
+  backgroundUrl: string;
+  colors: string[];
+  headline: string;
+  text: string;
+  fontSize: number;
+}
+
+// Draw the graphic: the photo cropped to fill, a dark fade at the bottom and the text over it
+async function renderGraphic(options: GraphicOptions): Promise<Blob> {
+  const { width, height } = options;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+
+  context.fillStyle = options.colors[0];
+  context.fillRect(0, 0, width, height);
+
+  const background = await loadImage(options.backgroundUrl).catch(() => null);
+  if (background) {
+    const scale = Math.max(width / background.width, height / background.height);
+    const drawWidth = background.width * scale;
+    const drawHeight = background.height * scale;
+    context.drawImage(background, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  const fade = context.createLinearGradient(0, height * 0.5, 0, height);
+  fade.addColorStop(0, "rgba(0, 0, 0, 0)");
+  fade.addColorStop(1, "rgba(0, 0, 0, 0.8)");
+  context.fillStyle = fade;
+  context.fillRect(0, height * 0.5, width, height * 0.5);
+
+  const headlineSize = Math.round(options.fontSize * (width / FONT_SIZE_BASE_WIDTH));
+  const margin = Math.round(width * 0.05);
+  context.fillStyle = "#ffffff";
+  context.textBaseline = "bottom";
+  context.font = `${Math.round(headlineSize * 0.8)}px sans-serif`;
+  context.fillText(options.text, margin, height - margin, width - margin * 2);
+  context.font = `bold ${headlineSize}px sans-serif`;
+  context.fillText(options.headline, margin, height - margin - headlineSize * 1.1, width - margin * 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not create the graphic"))), "image/png");
+  });
+}
+
 interface SocialGraphicGeneratorProps {
   listing?: Listing;
 }
@@ -62,6 +125,7 @@ export default function SocialGraphicGenerator({ listing }: SocialGraphicGenerat
   const [fontSize, setFontSize] = useState(28);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [generatedAsset, setGeneratedAsset] = useState<AssetRecord | null>(null);
 
   // Get all listings for selection if no specific listing is provided
   const { data: listings } = useQuery({
@@ -69,33 +133,49 @@ export default function SocialGraphicGenerator({ listing }: SocialGraphicGenerat
     enabled: !listing
   });
 
-  const handleGenerateGraphic = () => {
+  const handleGenerateGraphic = async () => {
     setIsGenerating(true);
     
-    // Simulate graphic generation - in real app, this would call an image generation API
-    setTimeout(() => {
-      // This is where we'd normally save/load the generated image
-      // We're using a placeholder image for demo purposes
-      const templateData = designTemplates.find(t => t.id === selectedTemplate);
-      const selected = templateData?.preview || designTemplates[0].preview;
+    try {
+      const templateData = designTemplates.find(t => t.id === selectedTemplate) || designTemplates[0];
+      const blob = await renderGraphic({
+        ...imageDimensions[selectedSize],
+        // The listing's cover photo, or the template's sample photo
+        backgroundUrl: listing?.images?.[0] || templateData.preview.replace('w=200', 'w=1600'),
+        colors: templateData.colors,
+        headline,
+        text: customText,
+        fontSize,
+      });
       
-      // In a real app, we would generate a custom image here with headline, etc.
-      // For demo, we're just using one of the template images
-      setGeneratedImage(selected.replace('w=200', 'w=800'));
+      // Saved as a private file; the signed link is what gets shown and downloaded
+      const [asset] = await uploadAssets("social_graphic", [blob]);
+      setGeneratedAsset(asset);
+      setGeneratedImage(asset.signedUrl || asset.url);
       
-      setIsGenerating(false);
       toast({
         title: "Graphic Generated",
         description: "Your social media graphic has been created successfully.",
       });
-    }, 1500);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate graphic. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
   const handleDownload = () => {
-    if (!generatedImage) return;
+    if (!generatedImage || !generatedAsset) return;
+    
+    const link = document.createElement("a");
+    link.href = generatedImage;
+    link.download = `${selectedSize}-graphic-${generatedAsset.id}.png`;
+    link.click();
     
-    // In a real app, we would handle actual download logic
-    // For this demo, we just show a success toast
     toast({
       title: "Download Started",
       description: "Your graphic is being downloaded.",
@@ -296,10 +376,6 @@ export default function SocialGraphicGenerator({ listing }: SocialGraphicGenerat
                       alt="Generated social media graphic" 
                       className="max-w-full max-h-[500px] object-cover"
                     />
-                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent text-white p-6">
-                      <div className="text-2xl font-bold">{headline}</div>
-                      <div className="text-xl mt-2">{customText}</div>
-                    </div>
                   </div>
                 </div>
               )}
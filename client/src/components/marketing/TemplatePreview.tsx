@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Send } from "lucide-react";
+import { EmailTemplateKind, Listing } from "@shared/schema";
+
+const NO_LISTING = "none";
+// How long to wait after the last keystroke before rendering the preview again
+const PREVIEW_DELAY_MS = 500;
+
+export interface TemplatePreviewResult {
+  subject: string;
+  text: string;
+  html: string;
+  unresolved: string[];
+}
+
+interface TemplatePreviewProps {
+  // Saved template being edited; previews of new templates can't be sent as tests
+  templateId?: number;
+  kind: EmailTemplateKind;
+  subject: string;
+  content: string;
+}
+
+export default function TemplatePreview({ templateId, kind, subject, content }: TemplatePreviewProps) {
+  const { toast } = useToast();
+  const [listingId, setListingId] = useState(NO_LISTING);
+  const [contactName, setContactName] = useState("Jane Buyer");
+  const [contactEmail, setContactEmail] = useState("jane@example.com");
+
+  const { data: listings = [] } = useQuery<Listing[]>({
+    queryKey: ['/api/listings'],
+    queryFn: () => apiRequest('GET', '/api/listings'),
+  });
+
+  const request = {
+    kind,
+    subject,
+    content,
+    listingId: listingId === NO_LISTING ? undefined : parseInt(listingId, 10),
+    contact: contactEmail.trim() ? { name: contactName.trim() || undefined, email: contactEmail.trim() } : undefined,
+  };
+
+  // Only re-render once typing pauses
+  const [debouncedRequest, setDebouncedRequest] = useState(request);
+  const requestKey = JSON.stringify(request);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedRequest(JSON.parse(requestKey)), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [requestKey]);
+
+  const previewUrl = templateId
+    ? `/api/marketing/email-templates/${templateId}/preview`
+    : '/api/marketing/email-templates/preview';
+
+  const { data: preview, error, isFetching } = useQuery<TemplatePreviewResult, Error>({
+    queryKey: [previewUrl, debouncedRequest],
+    queryFn: () => apiRequest('POST', previewUrl, debouncedRequest),
+    enabled: !!(debouncedRequest.subject || debouncedRequest.content),
+    placeholderData: (previous) => previous,
+    retry: false,
+  });
+
+  const { mutate: sendTest, isPending: isSending } = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/marketing/email-templates/${templateId}/send-test`, request),
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Test email sent",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send test email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium">Preview</h4>
+          <p className="text-sm text-gray-500">
+            {isFetching ? "Rendering..." : "How recipients will see this email, before the unsubscribe footer"}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!templateId || isSending || !!error}
+          title={templateId ? undefined : "Save the template to send a test"}
+          onClick={() => sendTest()}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {isSending ? "Sending..." : "Send test to me"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>{kind === "digest" ? "Listings" : "Sample Listing"}</Label>
+          <Select value={listingId} onValueChange={setListingId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LISTING}>
+                {kind === "digest" ? "Newest public listings" : "No listing"}
+              </SelectItem>
+              {listings.map((listing) => (
+                <SelectItem key={listing.id} value={String(listing.id)}>{listing.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Sample Contact Name</Label>
+          <Input value={contactName} onChange={(event) => setContactName(event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Sample Contact Email</Label>
+          <Input
+            type="email"
+            placeholder="Leave empty for no contact"
+            value={contactEmail}
+            onChange={(event) => setContactEmail(event.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error.message}</p>
+      ) : preview ? (
+        <>
+          <div className="text-sm">
+            <span className="text-gray-500">Subject: </span>
+            <span className="font-medium">{preview.subject}</span>
+          </div>
+          {preview.unresolved.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500">No data for:</span>
+              {preview.unresolved.map((name) => (
+                <Badge key={name} variant="outline" className="font-mono">{`{{${name}}}`}</Badge>
+              ))}
+            </div>
+          )}
+          {/* Sandboxed without scripts, so template content can't run in the app */}
+          <iframe
+            title="Email preview"
+            sandbox=""
+            srcDoc={preview.html}
+            className="w-full h-96 rounded-md border bg-white"
+          />
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">Write a subject or content to see a preview</p>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import PropertyCard from "@/components/dashboard/PropertyCard";
 import { User, Mail, Phone, MapPin, Award, Calendar, Building, Edit, ChevronRight } from "lucide-react";
 import { ProfileTemplateProps } from "./index";
+import { useLeadForm } from "@/hooks/use-lead-form";
 
 export default function ModernTemplate({
   userData,
@@ -12,6 +13,8 @@ export default function ModernTemplate({
   isOwnProfile,
   onEdit
 }: ProfileTemplateProps) {
+  const { handleSubmit: handleLeadSubmit, isSubmitting: isSubmittingLead } = useLeadForm(userData.username);
+
   // Apply theme styles
   const styles = {
     primaryColor: theme.primaryColor,
@@ -296,7 +299,9 @@ export default function ModernTemplate({
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <form className="space-y-4">
+                  <form className="space-y-4" onSubmit={handleLeadSubmit}>
+                    {/* Honeypot field - hidden from visitors, only bots fill it in */}
+                    <input type="text" name="website" tabIndex={-1} autoComplete="off" className="hidden" aria-hidden="true" />
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Name</label>
@@ -309,6 +314,8 @@ export default function ModernTemplate({
                             backgroundColor: theme.colorMode === 'dark' ? '#1e293b' : '#ffffff',
                             color: styles.textColor
                           }}
+                          name="name"
+                          required
                           placeholder="Your name"
                         />
                       </div>
@@ -323,9 +330,26 @@ export default function ModernTemplate({
                             backgroundColor: theme.colorMode === 'dark' ? '#1e293b' : '#ffffff',
                             color: styles.textColor
                           }}
+                          name="email"
+                          required
                           placeholder="Your email"
                         />
                       </div>
+                      <div>
+                        <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Phone <span className="opacity-70">(optional)</span></label>
+                        <input 
+                          type="tel" 
+                          className="w-full px-4 py-2 border rounded-md" 
+                          style={{ 
+                            borderColor: theme.colorMode === 'dark' ? '#475569' : '#e2e8f0',
+                            borderRadius: styles.borderRadius,
+                            backgroundColor: theme.colorMode === 'dark' ? '#1e293b' : '#ffffff',
+                            color: styles.textColor
+                          }}
+                          name="phone"
+                          placeholder="Your phone number"
+                        />
+                      </div>
                     </div>
                     <div>
                       <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Message</label>
@@ -338,10 +362,11 @@ export default function ModernTemplate({
                           color: styles.textColor
                         }}
                         rows={4}
+                        name="message"
                         placeholder="Your message"
                       ></textarea>
                     </div>
-                    <Button style={customStyles.button}>
+                    <Button type="submit" disabled={isSubmittingLead} style={customStyles.button}>
                       Send Message
                     </Button>
                   </form>
@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import PropertyCard from "@/components/dashboard/PropertyCard";
 import { User, Mail, Phone, MapPin, Award, Calendar, Building, Edit } from "lucide-react";
 import { ProfileTemplateProps } from "./index";
+import { useLeadForm } from "@/hooks/use-lead-form";
 
 export default function ProfessionalTemplate({
   userData,
@@ -12,6 +13,8 @@ export default function ProfessionalTemplate({
   isOwnProfile,
   onEdit
 }: ProfileTemplateProps) {
+  const { handleSubmit: handleLeadSubmit, isSubmitting: isSubmittingLead } = useLeadForm(userData.username);
+
   // Apply theme styles
   const styles = {
     primaryColor: theme.primaryColor,
@@ -292,7 +295,9 @@ export default function ProfessionalTemplate({
                     
                     <div className="space-y-4">
                       <h3 className="text-lg font-medium" style={customStyles.heading}>Send a Message</h3>
-                      <form className="space-y-4">
+                      <form className="space-y-4" onSubmit={handleLeadSubmit}>
+                        {/* Honeypot field - hidden from visitors, only bots fill it in */}
+                        <input type="text" name="website" tabIndex={-1} autoComplete="off" className="hidden" aria-hidden="true" />
                         <div>
                           <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Name</label>
                           <input 
@@ -304,6 +309,8 @@ export default function ProfessionalTemplate({
                               backgroundColor: theme.colorMode === 'dark' ? '#374151' : '#ffffff',
                               color: styles.textColor
                             }}
+                            name="name"
+                            required
                             placeholder="Your name"
                           />
                         </div>
@@ -318,9 +325,26 @@ export default function ProfessionalTemplate({
                               backgroundColor: theme.colorMode === 'dark' ? '#374151' : '#ffffff',
                               color: styles.textColor
                             }}
+                            name="email"
+                            required
                             placeholder="Your email"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Phone <span className="opacity-70">(optional)</span></label>
+                          <input 
+                            type="tel" 
+                            className="w-full px-3 py-2 border rounded-md" 
+                            style={{ 
+                              borderColor: `${theme.primaryColor}50`,
+                              borderRadius: styles.borderRadius,
+                              backgroundColor: theme.colorMode === 'dark' ? '#374151' : '#ffffff',
+                              color: styles.textColor
+                            }}
+                            name="phone"
+                            placeholder="Your phone number"
+                          />
+                        </div>
                         <div>
                           <label className="block text-sm font-medium mb-1" style={customStyles.subheading}>Message</label>
                           <textarea 
@@ -332,10 +356,11 @@ export default function ProfessionalTemplate({
                               color: styles.textColor
                             }}
                             rows={4}
+                            name="message"
                             placeholder="Your message"
                           ></textarea>
                         </div>
-                        <Button style={{ backgroundColor: theme.primaryColor }}>
+                        <Button type="submit" disabled={isSubmittingLead} style={{ backgroundColor: theme.primaryColor }}>
                           Send Message
                         </Button>
                       </form>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -19,6 +19,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { Upload, User, Info } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { uploadAssets } from "@/lib/assets";
 
 const formSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters").max(50),
@@ -28,6 +29,7 @@ const formSchema = z.object({
 
 export default function ProfileForm() {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   const { data: userData, isLoading } = useQuery({
@@ -72,6 +74,30 @@ export default function ProfileForm() {
     },
   });
 
+  const profileImage = (userData as { profileImage?: string | null } | undefined)?.profileImage;
+
+  // The photo is saved right away; the server removes the one it replaces
+  const { mutate: updatePhoto, isPending: isUploadingPhoto } = useMutation({
+    mutationFn: async (file: File) => {
+      const [asset] = await uploadAssets("profile_image", [file]);
+      await apiRequest('PATCH', '/api/user', { profileImage: asset.url });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({
+        title: "Photo updated",
+        description: "Your profile photo has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload photo. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   function onSubmit(values: z.infer<typeof formSchema>) {
     updateProfile(values);
   }
@@ -96,6 +122,37 @@ export default function ProfileForm() {
           </AlertDescription>
         </Alert>
         
+        <div className="flex items-center space-x-4 mb-6">
+          <div className="h-16 w-16 rounded-full overflow-hidden bg-gray-100 flex items-center justify-center">
+            {profileImage ? (
+              <img src={profileImage} alt="Profile" className="h-full w-full object-cover" />
+            ) : (
+              <User className="h-8 w-8 text-gray-400" />
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isUploadingPhoto}
+            onClick={() => photoInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {isUploadingPhoto ? "Uploading..." : "Upload Photo"}
+          </Button>
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) updatePhoto(file);
+              event.target.value = "";
+            }}
+          />
+        </div>
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <FormField
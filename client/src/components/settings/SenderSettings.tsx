@@ -0,0 +1,209 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface SenderSettingsRecord {
+  displayName: string | null;
+  replyTo: string | null;
+  replyToVerified: boolean;
+  verificationSentAt: string | null;
+  signature: string | null;
+  accountEmail: string;
+  accountEmailVerified: boolean;
+  // What recipients see once the defaults are filled in
+  effective: { fromName: string; replyTo?: string; signature?: string };
+}
+
+const formSchema = z.object({
+  displayName: z.string().max(100, "Keep it under 100 characters"),
+  replyTo: z.union([z.literal(""), z.string().email("Enter a valid email address")]),
+  signature: z.string().max(1000, "Keep it under 1000 characters"),
+});
+
+type SenderFormValues = z.infer<typeof formSchema>;
+
+const toFormValues = (settings?: SenderSettingsRecord): SenderFormValues => ({
+  displayName: settings?.displayName || "",
+  replyTo: settings?.replyTo || "",
+  signature: settings?.signature || "",
+});
+
+export default function SenderSettings() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<SenderSettingsRecord>({
+    queryKey: ['/api/user/sender'],
+    queryFn: () => apiRequest('GET', '/api/user/sender'),
+  });
+
+  const form = useForm<SenderFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(),
+  });
+
+  useEffect(() => {
+    if (settings) form.reset(toFormValues(settings));
+  }, [settings]);
+
+  const { mutate: saveSettings, isPending } = useMutation({
+    // Empty fields go back to the defaults
+    mutationFn: (values: SenderFormValues): Promise<SenderSettingsRecord & { verificationSent: boolean }> =>
+      apiRequest('PUT', '/api/user/sender', {
+        displayName: values.displayName.trim() || null,
+        replyTo: values.replyTo.trim() || null,
+        signature: values.signature.trim() || null,
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/sender'] });
+      toast({
+        title: "Sender settings saved",
+        description: result.verificationSent
+          ? `We sent a confirmation link to ${result.replyTo}. Replies go there once you confirm it.`
+          : "Your marketing emails will use these settings",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save sender settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: resendConfirmation, isPending: isResending } = useMutation({
+    mutationFn: (): Promise<{ message: string }> => apiRequest('POST', '/api/user/sender/verify/send'),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/sender'] });
+      toast({
+        title: "Confirmation sent",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send confirmation email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !settings) {
+    return <div>Loading...</div>;
+  }
+
+  const isPendingConfirmation = !!settings.replyTo && !settings.replyToVerified;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Sender</CardTitle>
+        <CardDescription>How your name, reply address and signature appear on marketing emails</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveSettings(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="displayName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sender Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder={settings.effective.fromName} {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty to use the name on your profile</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="replyTo"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center space-x-2">
+                    <FormLabel>Reply-To Email</FormLabel>
+                    {settings.replyTo && (
+                      <Badge variant={settings.replyToVerified ? "default" : "outline"}>
+                        {settings.replyToVerified ? "Confirmed" : "Awaiting confirmation"}
+                      </Badge>
+                    )}
+                  </div>
+                  <FormControl>
+                    <Input type="email" placeholder={settings.accountEmail} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {settings.accountEmailVerified
+                      ? "Leave empty to receive replies at your account email. A different address must be confirmed first."
+                      : "Replies aren't forwarded until you verify your account email or confirm a different address."}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {isPendingConfirmation && (
+              <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <span className="text-gray-600">
+                  Check {settings.replyTo} for the confirmation link. Until then replies are not forwarded there.
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isResending}
+                  onClick={() => resendConfirmation()}
+                >
+                  {isResending ? "Sending..." : "Resend Confirmation"}
+                </Button>
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="signature"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Signature</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} placeholder={"Jane Smith\nHomesBin Realty\n(555) 123-4567"} {...field} />
+                  </FormControl>
+                  <FormDescription>Added to the end of every marketing email</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+              <p>From: {settings.effective.fromName}</p>
+              <p>Reply-To: {settings.effective.replyTo || "Not set"}</p>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Sender Settings"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
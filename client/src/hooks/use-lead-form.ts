@@ -0,0 +1,69 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface LeadFormOptions {
+  listingId?: number;
+  lotId?: number;
+}
+
+/**
+ * Custom hook that submits a public contact form as a lead for an agent
+ * @param username Username of the agent whose profile the form is on
+ * @param options Listing or lot the inquiry is about, if any
+ * @returns Submit handler for the form and its pending state
+ */
+export function useLeadForm(username: string | undefined, options: LeadFormOptions = {}) {
+  const { toast } = useToast();
+  // Used server-side to reject forms filled in faster than a person could
+  const [formStartedAt] = useState(() => Date.now());
+
+  const { mutate: submitLead, isPending } = useMutation({
+    mutationFn: (data: Record<string, unknown>) =>
+      apiRequest('POST', `/api/users/${encodeURIComponent(username || '')}/leads`, data),
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!username) return;
+
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    const value = (key: string) => {
+      const entry = formData.get(key);
+      return typeof entry === 'string' && entry.trim() !== '' ? entry.trim() : undefined;
+    };
+
+    submitLead(
+      {
+        name: value('name'),
+        email: value('email'),
+        phone: value('phone'),
+        message: value('message'),
+        website: value('website'),
+        listingId: options.listingId,
+        lotId: options.lotId,
+        formStartedAt,
+      },
+      {
+        onSuccess: () => {
+          form.reset();
+          toast({
+            title: "Message sent",
+            description: "Thanks for reaching out! You'll hear back soon.",
+          });
+        },
+        onError: (error: Error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to send your message. Please try again.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return { handleSubmit, isSubmitting: isPending };
+}
@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { z } from 'zod';
+import type { Listing, listingSearchSchema } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+// Filters as the search endpoints accept them; anything left out uses the server's default
+export type ListingSearchFilters = Omit<z.input<typeof listingSearchSchema>, 'cursor'>;
+
+interface ListingSearchPage {
+  listings: Listing[];
+  nextCursor: string | null;
+}
+
+interface ListingSearchOptions {
+  // Search a user's public listings instead of the signed-in agent's own
+  username?: string;
+  enabled?: boolean;
+}
+
+const toQueryString = (filters: ListingSearchFilters, cursor?: string) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+  }
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+};
+
+/**
+ * Custom hook that searches listings on the server a page at a time
+ * @param filters Search text, filters and sort order
+ * @param options Whose listings to search, and whether to run the query
+ * @returns The infinite query; `listings` holds every page loaded so far
+ */
+export function useListingSearch(filters: ListingSearchFilters, { username, enabled = true }: ListingSearchOptions = {}) {
+  const url = username
+    ? `/api/users/${encodeURIComponent(username)}/listings/search`
+    : '/api/listings/search';
+
+  const query = useInfiniteQuery<ListingSearchPage>({
+    // Starts with /api/listings so saving or deleting a listing refreshes the results
+    queryKey: username ? ['/api/listings', 'public', username, filters] : ['/api/listings', 'search', filters],
+    queryFn: ({ pageParam }) => apiRequest('GET', `${url}?${toQueryString(filters, pageParam as string | undefined)}`),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+  });
+
+  // Kept stable between renders so effects that depend on the listings only run when a page arrives
+  const listings = useMemo(() => query.data?.pages.flatMap((page) => page.listings) ?? [], [query.data]);
+
+  return { ...query, listings };
+}
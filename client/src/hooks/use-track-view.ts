@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { trackView, type ViewEventType } from '@/lib/tracking';
+
+interface TrackViewOptions {
+  username?: string;
+  targetId?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Custom hook that reports a page view once per page and target
+ * @param type Kind of page being viewed
+ * @param options Profile username or listing/map ID, and whether tracking is enabled
+ */
+export function useTrackView(type: ViewEventType, { username, targetId, enabled = true }: TrackViewOptions) {
+  useEffect(() => {
+    if (!enabled) return;
+    if (type === 'profile' ? !username : !targetId) return;
+
+    trackView({ type, username, targetId });
+  }, [type, username, targetId, enabled]);
+}
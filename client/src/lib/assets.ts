@@ -0,0 +1,35 @@
+import { apiRequest } from "./queryClient";
+import { AssetKind } from "@shared/schema";
+
+// Uploaded file as returned by the assets API
+export interface AssetRecord {
+  id: number;
+  kind: AssetKind;
+  // What to save on the listing, map, profile or post that uses the file
+  url: string;
+  variants: Record<string, string>;
+  // Temporary link for private files that works without signing in
+  signedUrl?: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  isPrivate: boolean;
+  inUse: boolean;
+  createdAt: string | null;
+}
+
+/**
+ * Upload images. The server resizes them for their kind; files are kept once a record is saved with their URL.
+ * @param kind What the images are for
+ * @param files Images, or a Blob for images drawn in the browser
+ * @returns The stored files, in the order given
+ */
+export async function uploadAssets(kind: AssetKind, files: (File | Blob)[]): Promise<AssetRecord[]> {
+  const body = new FormData();
+  body.append("kind", kind);
+  files.forEach((file) => body.append("files", file, file instanceof File ? file.name : `${kind}.png`));
+
+  const { assets } = await apiRequest("POST", "/api/assets", body);
+  return assets;
+}
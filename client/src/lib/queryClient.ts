@@ -21,7 +21,9 @@ export const apiRequest = async (
     const accessToken = sessionData?.session?.access_token;
     
     const url = `${API_BASE_URL}${endpoint}`;
-    const headers: Record<string, string> = {
+    // File uploads are sent as multipart; the browser sets their Content-Type with the boundary
+    const isFormData = data instanceof FormData;
+    const headers: Record<string, string> = isFormData ? {} : {
       'Content-Type': 'application/json',
     };
     
@@ -39,7 +41,7 @@ export const apiRequest = async (
     
     // Add body for non-GET requests
     if (method !== 'GET' && data !== undefined) {
-      options.body = JSON.stringify(data);
+      options.body = isFormData ? data : JSON.stringify(data);
     }
     
     console.log(`API ${method} request to ${endpoint}`, { 
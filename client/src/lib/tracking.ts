@@ -0,0 +1,54 @@
+const VISITOR_ID_KEY = 'homesbin_visitor_id';
+
+export type ViewEventType = 'profile' | 'listing' | 'lot_map' | 'lot';
+
+export interface ViewEvent {
+  type: ViewEventType;
+  username?: string;
+  targetId?: number;
+}
+
+/**
+ * Get the anonymous ID used to deduplicate views from this browser, creating it on first use
+ */
+function getVisitorId(): string | undefined {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+    if (!visitorId) {
+      visitorId = typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+      localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    }
+    return visitorId;
+  } catch {
+    // Storage can be unavailable in private browsing; the server falls back to IP and user agent
+    return undefined;
+  }
+}
+
+/**
+ * Report a view or click to the tracking endpoint without blocking the page
+ * @param event Page or lot that was viewed
+ */
+export function trackView(event: ViewEvent) {
+  const body = JSON.stringify({
+    ...event,
+    visitorId: getVisitorId(),
+    referrer: document.referrer || undefined,
+  });
+
+  if (navigator.sendBeacon && navigator.sendBeacon('/api/track', new Blob([body], { type: 'application/json' }))) {
+    return;
+  }
+
+  fetch('/api/track', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body,
+    keepalive: true,
+  }).catch(() => {
+    // Tracking is best effort
+  });
+}
@@ -18,3 +18,13 @@ export function formatCurrency(amount: number): string {
     maximumFractionDigits: 0,
   }).format(amount)
 }
+
+/**
+ * Get the thumbnail for a listing photo. Uploaded photos are stored with a thumbnail next to
+ * the web-sized image; other URLs are returned as they are.
+ * @param imageUrl URL from listing.images
+ * @returns Thumbnail URL
+ */
+export function thumbnailUrl(imageUrl: string): string {
+  return imageUrl.replace(/-web\.jpg$/, '-thumb.jpg')
+}
@@ -5,19 +5,23 @@ import Header from "@/components/layout/Header";
 import DashboardSidebar from "@/components/layout/Sidebar";
 import EmailVerificationAlert from "@/components/layout/EmailVerificationAlert";
 import EmailTemplateForm from "@/components/marketing/EmailTemplateForm";
+import CampaignForm from "@/components/marketing/CampaignForm";
+import ContactsManager from "@/components/marketing/ContactsManager";
+import DigestsManager from "@/components/marketing/DigestsManager";
+import SequencesManager from "@/components/marketing/SequencesManager";
+import CampaignDetails, { CampaignWithMetrics, campaignStatusLabels, formatDateTime } from "@/components/marketing/CampaignDetails";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Mail, Plus, Send, Copy, X, Edit, Trash2, Users } from "lucide-react";
+import { Mail, Plus, Send, Copy, X, Edit, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { EmailTemplate } from "@shared/schema";
+import { CampaignStatus, EmailTemplate } from "@shared/schema";
 import { Link } from "wouter";
 import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
 import { supabase } from "@/lib/supabase";
+import { apiRequest } from "@/lib/queryClient";
 
 interface UserData {
   id: number;
@@ -27,17 +31,6 @@ interface UserData {
   fullName?: string;
 }
 
-interface Campaign {
-  id: number;
-  name: string;
-  subject: string;
-  status: "draft" | "scheduled" | "sent";
-  sentDate?: string;
-  openRate?: number;
-  clickRate?: number;
-  recipients: number;
-}
-
 export default function EmailMarketing() {
   const params = useParams();
   const [location, navigate] = useLocation();
@@ -121,71 +114,45 @@ export default function EmailMarketing() {
   });
 
   // Get email campaigns
-  const { data: campaigns = [], isLoading: campaignsLoading, error: campaignsError } = useQuery<Campaign[]>({
-    queryKey: ['/api/campaigns'],
-    queryFn: async (): Promise<Campaign[]> => {
-      if (!user?.id) return [];
-      setLoadingCount(prev => prev + 1);
-      
-      try {
-        // Get access token from supabase
-        const { data: sessionData } = await supabase.auth.getSession();
-        const token = sessionData?.session?.access_token;
-        
-        if (!token) {
-          console.error('No access token available for campaigns request');
-          throw new Error('Authentication token missing');
-        }
-        
-        // In production this would actually fetch from an API
-        // For now, return mock data (simulating a successful API call)
-        const mockData = [
-          { id: 1, name: "Monthly Newsletter", subject: "June Market Update", status: "sent", sentDate: "2023-06-01", openRate: 24.8, clickRate: 3.2, recipients: 124 },
-          { id: 2, name: "New Listing Alert", subject: "New Property Just Listed", status: "draft", recipients: 56 },
-          { id: 3, name: "Holiday Greetings", subject: "Season's Greetings", status: "scheduled", recipients: 156 }
-        ];
-        
-        return mockData;
-      } catch (e: any) {
-        console.error('Exception in campaigns query:', e);
-        throw e;
-      } finally {
-        setLoadingCount(prev => prev - 1);
-      }
-    },
+  const { data: campaigns = [], isLoading: campaignsLoading, error: campaignsError } = useQuery<CampaignWithMetrics[]>({
+    queryKey: ['/api/marketing/campaigns'],
+    queryFn: () => apiRequest('GET', '/api/marketing/campaigns'),
     enabled: !!user?.id && isAuthenticated,
     retry: 2,
     retryDelay: 1000,
-    // Add error handling at the query level
-    onError: (error) => {
-      console.error('Campaigns query error:', error);
-    }
+    // Refresh while any campaign is still going out
+    refetchInterval: (query) => (query.state.data?.some((campaign) => campaign.status === "sending") ? 5000 : false),
   });
   
-  // Sample contact list data
-  const contactLists = [
-    { id: 1, name: "All Contacts", count: 124 },
-    { id: 2, name: "Buyers", count: 56 },
-    { id: 3, name: "Sellers", count: 42 },
-    { id: 4, name: "Past Clients", count: 78 },
-  ];
+  // Get the user's saved email templates
+  const { data: templates = [], isLoading: templatesLoading } = useQuery<EmailTemplate[]>({
+    queryKey: ['/api/marketing/email-templates'],
+    queryFn: () => apiRequest('GET', '/api/marketing/email-templates'),
+    enabled: !!user?.id && isAuthenticated,
+  });
   
   // State for active tab
   const [activeTab, setActiveTab] = useState("campaigns");
   
-  // Backup data to show if API fails
-  const mockCampaigns = campaignsError ? [
-    { 
-      id: 999, 
-      name: "API Error - Sample Campaign", 
-      subject: "Unable to Load Data",
-      status: "draft" as "draft", 
-      recipients: 0
-    }
-  ] : [];
+  // State for the campaign dialogs
+  const [isCampaignFormOpen, setIsCampaignFormOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<CampaignWithMetrics | null>(null);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<number | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<EmailTemplate | null>(null);
+  
+  // Rates are averaged over campaigns that actually went out
+  const sentCampaigns = campaigns.filter((campaign) => campaign.status === "sent");
+  const averageRate = (key: "openRate" | "clickRate") =>
+    sentCampaigns.length > 0
+      ? Math.round(sentCampaigns.reduce((sum, campaign) => sum + campaign.metrics[key], 0) / sentCampaigns.length * 10) / 10
+      : 0;
+  const totalEmailsSent = campaigns.reduce((sum, campaign) => sum + campaign.metrics.sent, 0);
   
-  // Determine which campaigns to display
-  const displayCampaigns = campaignsError ? mockCampaigns : campaigns;
+  const openCampaignForm = (campaign: CampaignWithMetrics | null = null) => {
+    setEditingCampaign(campaign);
+    setSelectedCampaignId(null);
+    setIsCampaignFormOpen(true);
+  };
   
   // If we're directly accessing the /email-marketing route, redirect to /:username/email-marketing
   useEffect(() => {
@@ -257,17 +224,17 @@ export default function EmailMarketing() {
                 </p>
               </div>
               
-              <Button asChild>
-                <Link href={`/${username}/email-marketing/new`}>
-                  <Plus className="h-4 w-4 mr-2" /> Create Campaign
-                </Link>
+              <Button onClick={() => openCampaignForm()}>
+                <Plus className="h-4 w-4 mr-2" /> Create Campaign
               </Button>
             </div>
             
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
-              <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-grid">
+              <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
                 <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
                 <TabsTrigger value="templates">Templates</TabsTrigger>
+                <TabsTrigger value="digests">Digests</TabsTrigger>
+                <TabsTrigger value="sequences">Sequences</TabsTrigger>
                 <TabsTrigger value="contacts">Contacts</TabsTrigger>
               </TabsList>
               
@@ -282,33 +249,45 @@ export default function EmailMarketing() {
                         <CardContent>
                         {campaignsLoading ? (
                           <div className="text-center py-8">Loading campaigns...</div>
-                        ) : displayCampaigns.length > 0 ? (
+                        ) : campaignsError ? (
+                          <div className="text-center py-8 text-gray-500">
+                            Unable to load your campaigns. Please try again later.
+                          </div>
+                        ) : campaigns.length > 0 ? (
                           <div className="divide-y">
-                            {displayCampaigns.map((campaign) => (
+                            {campaigns.map((campaign) => (
                               <div key={campaign.id} className="py-4 flex justify-between items-center">
                                 <div>
                                   <h3 className="font-medium">{campaign.name}</h3>
                                   <p className="text-sm text-gray-500">
-                                    {campaign.status === "sent" 
-                                      ? `Sent on ${campaign.sentDate}` 
-                                      : campaign.status === "scheduled" 
-                                        ? "Scheduled" 
-                                        : "Draft"}
+                                    {campaign.status === "sent" && campaign.sentAt
+                                      ? `Sent on ${formatDateTime(campaign.sentAt)} to ${campaign.metrics.sent} recipients`
+                                      : campaign.status === "scheduled" && campaign.scheduledAt
+                                        ? `Scheduled for ${formatDateTime(campaign.scheduledAt)}`
+                                        : campaignStatusLabels[campaign.status as CampaignStatus] || campaign.status}
                                   </p>
                                 </div>
                                 <div className="flex items-center space-x-4">
                                   {campaign.status === "sent" && (
                                     <div className="text-sm">
                                       <span className="text-gray-500">Opens: </span>
-                                      <span className="font-medium">{campaign.openRate}%</span>
+                                      <span className="font-medium">{campaign.metrics.openRate}%</span>
                                     </div>
                                   )}
                                   <Button 
                                     variant={campaign.status === "draft" ? "default" : "outline"}
                                     size="sm"
+                                    onClick={() => campaign.status === "draft"
+                                      ? openCampaignForm(campaign)
+                                      : setSelectedCampaignId(campaign.id)}
                                   >
                                     {campaign.status === "draft" ? "Edit" : "View"}
                                   </Button>
+                                  {campaign.status === "draft" && (
+                                    <Button variant="outline" size="sm" onClick={() => setSelectedCampaignId(campaign.id)}>
+                                      <Send className="h-4 w-4" />
+                                    </Button>
+                                  )}
                                 </div>
                               </div>
                             ))}
@@ -320,10 +299,8 @@ export default function EmailMarketing() {
                             <p className="text-gray-500 mb-6">
                               Create your first email campaign to engage with your clients
                             </p>
-                            <Button asChild>
-                              <Link href={`/${username}/email-marketing/new`}>
-                                <Plus className="h-4 w-4 mr-2" /> Create Campaign
-                              </Link>
+                            <Button onClick={() => openCampaignForm()}>
+                              <Plus className="h-4 w-4 mr-2" /> Create Campaign
                             </Button>
                           </div>
                         )}
@@ -341,15 +318,15 @@ export default function EmailMarketing() {
                         <div className="space-y-4">
                           <div className="border rounded-lg p-4">
                             <p className="text-sm text-gray-500">Average Open Rate</p>
-                            <p className="text-2xl font-bold">24.8%</p>
+                            <p className="text-2xl font-bold">{averageRate("openRate")}%</p>
                           </div>
                           <div className="border rounded-lg p-4">
                             <p className="text-sm text-gray-500">Average Click Rate</p>
-                            <p className="text-2xl font-bold">3.2%</p>
+                            <p className="text-2xl font-bold">{averageRate("clickRate")}%</p>
                           </div>
                           <div className="border rounded-lg p-4">
-                            <p className="text-sm text-gray-500">Total Subscribers</p>
-                            <p className="text-2xl font-bold">{contactLists.reduce((sum, list) => sum + list.count, 0)}</p>
+                            <p className="text-sm text-gray-500">Emails Sent</p>
+                            <p className="text-2xl font-bold">{totalEmailsSent.toLocaleString()}</p>
                           </div>
                         </div>
                       </CardContent>
@@ -361,113 +338,95 @@ export default function EmailMarketing() {
               <TabsContent value="templates">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div className="md:col-span-2">
-                <Card>
-                  <CardHeader>
-                        <CardTitle>Email Templates</CardTitle>
-                        <CardDescription>Pre-designed templates for your campaigns</CardDescription>
-                  </CardHeader>
-                      <CardContent>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          {["New Listing", "Open House", "Price Reduction", "Just Sold", "Market Update", "Holiday Greetings"].map((template, index) => (
-                            <div key={index} className="border rounded-lg p-4 flex justify-between items-center">
-                              <div>
-                                <h3 className="font-medium">{template}</h3>
-                                <p className="text-sm text-gray-500">
-                                  {index < 4 ? "Property Template" : "Newsletter Template"}
-                                </p>
-                              </div>
-                              <Button variant="outline" size="sm">Use</Button>
-                      </div>
-                          ))}
-                      </div>
-                      </CardContent>
-                    </Card>
-                    </div>
-                    
-                  <div>
                     <Card>
                       <CardHeader>
-                        <CardTitle>Template Builder</CardTitle>
-                        <CardDescription>Create a custom template</CardDescription>
+                        <CardTitle>Email Templates</CardTitle>
+                        <CardDescription>Reusable content for your campaigns</CardDescription>
                       </CardHeader>
                       <CardContent>
-                    <div className="space-y-4">
-                          <p className="text-sm text-gray-500">
-                            Design a custom email template to match your brand
+                        {templatesLoading ? (
+                          <div className="text-center py-4">Loading templates...</div>
+                        ) : templates.length === 0 ? (
+                          <p className="text-sm text-gray-500 py-4">
+                            No templates yet. Create one to start sending campaigns.
                           </p>
-                          <div className="space-y-2">
-                            <Label htmlFor="template-name">Template Name</Label>
-                            <Input id="template-name" placeholder="My Custom Template" />
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {templates.map((template) => (
+                              <div key={template.id} className="border rounded-lg p-4 flex justify-between items-center">
+                                <div className="min-w-0">
+                                  <h3 className="font-medium">{template.name}</h3>
+                                  <p className="text-sm text-gray-500 truncate">{template.subject}</p>
+                                </div>
+                                <Button variant="outline" size="sm" onClick={() => setEditingTemplate(template)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ))}
                           </div>
-                          <Button className="w-full">Create Custom Template</Button>
-                        </div>
+                        )}
                       </CardContent>
                     </Card>
                   </div>
+                  
+                  <div>
+                    <EmailTemplateForm
+                      key={editingTemplate?.id ?? "new"}
+                      template={editingTemplate || undefined}
+                      isEditing={!!editingTemplate}
+                      onSuccess={() => setEditingTemplate(null)}
+                    />
+                  </div>
                 </div>
               </TabsContent>
               
+              <TabsContent value="digests">
+                <DigestsManager />
+              </TabsContent>
+              
+              <TabsContent value="sequences">
+                <SequencesManager />
+              </TabsContent>
+              
               <TabsContent value="contacts">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <div className="md:col-span-2">
-                    <Card>
-                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                          <div>
-                          <CardTitle>Contact Lists</CardTitle>
-                          <CardDescription>Manage your subscriber lists</CardDescription>
-                        </div>
-                        <Button size="sm">
-                          <Plus className="h-4 w-4 mr-2" /> New List
-                        </Button>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="divide-y">
-                          {contactLists.map((list) => (
-                            <div key={list.id} className="py-4 flex justify-between items-center">
-                              <div>
-                                <h3 className="font-medium">{list.name}</h3>
-                                <p className="text-sm text-gray-500">{list.count} contacts</p>
-                              </div>
-                              <div className="flex space-x-2">
-                                <Button variant="outline" size="sm">View</Button>
-                                <Button variant="outline" size="sm">Edit</Button>
-                      </div>
-                    </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </div>
-                  
-                  <div>
-                    <Card>
-                      <CardHeader>
-                        <CardTitle>Import Contacts</CardTitle>
-                        <CardDescription>Add contacts from a file</CardDescription>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-4">
-                          <p className="text-sm text-gray-500">
-                            Upload a CSV file with your contacts
-                          </p>
-                          <div className="border border-dashed rounded-lg p-6 text-center">
-                            <Users className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                            <p className="text-sm text-gray-500 mb-2">
-                              Drag and drop a file or click to browse
-                            </p>
-                            <Button variant="outline" size="sm">Select File</Button>
-                          </div>
-                          <Button className="w-full" disabled>Upload Contacts</Button>
-                        </div>
-                      </CardContent>
-                    </Card>
-                      </div>
-                    </div>
+                <ContactsManager />
               </TabsContent>
             </Tabs>
           </div>
         </main>
       </div>
+      
+      <Dialog open={isCampaignFormOpen} onOpenChange={setIsCampaignFormOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCampaign ? "Edit Campaign" : "Create Campaign"}</DialogTitle>
+            <DialogDescription>Choose a template, an optional listing to feature and who should receive it</DialogDescription>
+          </DialogHeader>
+          <CampaignForm
+            key={editingCampaign?.id ?? "new"}
+            campaign={editingCampaign || undefined}
+            onSuccess={() => setIsCampaignFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={selectedCampaignId !== null} onOpenChange={(open) => !open && setSelectedCampaignId(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selectedCampaignId !== null && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{campaigns.find((campaign) => campaign.id === selectedCampaignId)?.name || "Campaign"}</DialogTitle>
+                <DialogDescription>Delivery status for each recipient</DialogDescription>
+              </DialogHeader>
+              <CampaignDetails
+                campaignId={selectedCampaignId}
+                onEdit={() => openCampaignForm(campaigns.find((campaign) => campaign.id === selectedCampaignId) || null)}
+                onDeleted={() => setSelectedCampaignId(null)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
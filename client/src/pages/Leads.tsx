@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import Header from "@/components/layout/Header";
+import DashboardSidebar from "@/components/layout/Sidebar";
+import EmailVerificationAlert from "@/components/layout/EmailVerificationAlert";
+import LeadForm from "@/components/leads/LeadForm";
+import LeadDetails, { LeadWithLinks, leadStatusLabels } from "@/components/leads/LeadDetails";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Users, CalendarClock } from "lucide-react";
+import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { LeadStatus, leadStatuses } from "@shared/schema";
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : "";
+
+export default function Leads() {
+  const [, navigate] = useLocation();
+  const { user, isAuthenticated, loading: authLoading } = useSupabaseAuth();
+  const [statusFilter, setStatusFilter] = useState<LeadStatus | "all">("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedLeadId, setSelectedLeadId] = useState<number | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const { data: leads = [], isLoading: leadsLoading } = useQuery<LeadWithLinks[]>({
+    queryKey: ['/api/leads'],
+    queryFn: () => apiRequest('GET', '/api/leads'),
+    enabled: isAuthenticated,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-8">
+        <p className="text-lg mb-2">Loading leads...</p>
+        <p className="text-sm text-muted-foreground">Verifying your session...</p>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !user) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-8">
+        <p className="text-lg mb-2">Authentication required</p>
+        <p className="text-sm text-muted-foreground mb-4">Please log in to view your leads</p>
+        <Button onClick={() => navigate('/login')}>Go to Login</Button>
+      </div>
+    );
+  }
+
+  const countByStatus = (status: LeadStatus) => leads.filter((lead) => lead.status === status).length;
+
+  const filteredLeads = leads.filter((lead) => {
+    const matchesStatus = statusFilter === "all" || lead.status === statusFilter;
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = !query ||
+      lead.name.toLowerCase().includes(query) ||
+      lead.email.toLowerCase().includes(query) ||
+      (lead.phone || "").includes(query);
+
+    return matchesStatus && matchesSearch;
+  });
+
+  // Look the lead up from the query data so the dialog reflects saved changes
+  const selectedLead = leads.find((lead) => lead.id === selectedLeadId) || null;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header isAuthenticated={!!user} />
+
+      <div className="flex-grow flex">
+        <DashboardSidebar />
+
+        <main className="flex-1 overflow-y-auto">
+          <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 md:px-8">
+            <EmailVerificationAlert />
+
+            <div className="flex justify-between items-center mb-8">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Leads</h1>
+                <p className="text-gray-500 mt-1">
+                  Track inquiries from your profile, listings and lot maps through your pipeline
+                </p>
+              </div>
+
+              <Button onClick={() => setIsAddOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" /> Add Lead
+              </Button>
+            </div>
+
+            <div className="bg-white p-4 rounded-lg border mb-8 space-y-4">
+              <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as LeadStatus | "all")}>
+                <TabsList className="flex flex-wrap h-auto">
+                  <TabsTrigger value="all">All ({leads.length})</TabsTrigger>
+                  {leadStatuses.map((status) => (
+                    <TabsTrigger key={status} value={status}>
+                      {leadStatusLabels[status]} ({countByStatus(status)})
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <Input
+                placeholder="Search by name, email or phone..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+
+            {leadsLoading ? (
+              <div className="text-center py-12">
+                <p>Loading your leads...</p>
+              </div>
+            ) : filteredLeads.length > 0 ? (
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Interested In</TableHead>
+                        <TableHead>Follow-up</TableHead>
+                        <TableHead>Received</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredLeads.map((lead) => (
+                        <TableRow
+                          key={lead.id}
+                          className="cursor-pointer"
+                          onClick={() => setSelectedLeadId(lead.id)}
+                        >
+                          <TableCell>
+                            <div className="font-medium">{lead.name}</div>
+                            <div className="text-sm text-gray-500">{lead.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={lead.status === "new" ? "default" : "secondary"}>
+                              {leadStatusLabels[lead.status as LeadStatus] || lead.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {lead.listing ? lead.listing.title : lead.lot ? `Lot ${lead.lot.number}` : "General inquiry"}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {lead.followUpAt && (
+                              <span className="flex items-center">
+                                <CalendarClock className="h-4 w-4 mr-1 text-gray-500" />
+                                {formatDate(lead.followUpAt)}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-500">{formatDate(lead.createdAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="bg-white p-12 rounded-lg border text-center">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                {leads.length > 0 ? (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No leads match your filters</h3>
+                    <p className="text-gray-500 mb-6">Try a different status or search</p>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSearchQuery("");
+                        setStatusFilter("all");
+                      }}
+                    >
+                      Clear Filters
+                    </Button>
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No leads yet</h3>
+                    <p className="text-gray-500 mb-6">
+                      Inquiries from your profile contact form will show up here
+                    </p>
+                    <Button onClick={() => setIsAddOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" /> Add Lead
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Lead</DialogTitle>
+            <DialogDescription>Add a contact you met outside of HomesBin to your pipeline</DialogDescription>
+          </DialogHeader>
+          <LeadForm onSuccess={() => setIsAddOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedLead} onOpenChange={(open) => !open && setSelectedLeadId(null)}>
+        <DialogContent className="sm:max-w-lg">
+          {selectedLead && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedLead.name}</DialogTitle>
+                <DialogDescription>Received {formatDate(selectedLead.createdAt)}</DialogDescription>
+              </DialogHeader>
+              <LeadDetails
+                key={selectedLead.id}
+                lead={selectedLead}
+                onDeleted={() => setSelectedLeadId(null)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,9 +10,25 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { Plus, Search, SortAsc, Building, Filter } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ListingImport from "@/components/listings/ListingImport";
+import ListingFeeds from "@/components/listings/ListingFeeds";
+import { Plus, Search, SortAsc, Building, Filter, Upload, Rss } from "lucide-react";
 import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
 import { supabase } from "@/lib/supabase";
+import { useListingSearch, type ListingSearchFilters } from "@/hooks/use-listing-search";
+import { listingPropertyTypes } from "@shared/schema";
+
+const SEARCH_DELAY_MS = 300;
+
+const sortOptions = {
+  newest: { sort: "createdAt", order: "desc" },
+  oldest: { sort: "createdAt", order: "asc" },
+  priceHigh: { sort: "price", order: "desc" },
+  priceLow: { sort: "price", order: "asc" },
+  largest: { sort: "squareFeet", order: "desc" },
+  smallest: { sort: "squareFeet", order: "asc" },
+} satisfies Record<string, Pick<ListingSearchFilters, "sort" | "order">>;
 
 interface UserData {
   id: number;
@@ -104,59 +120,6 @@ export default function Listings() {
     retryDelay: 1000
   });
 
-  // Get listings for the user
-  const { data: listings = [], isLoading: listingsLoading, error: listingsError } = useQuery<any[]>({
-    queryKey: ['/api/listings'],
-    queryFn: async (): Promise<any[]> => {
-      if (!user?.id) return [];
-      setLoadingCount(prev => prev + 1);
-      
-      try {
-        // Get access token from supabase
-        const { data: sessionData } = await supabase.auth.getSession();
-        const token = sessionData?.session?.access_token;
-        
-        if (!token) {
-          console.error('No access token available for listings request');
-          return [];
-        }
-        
-        // Make direct fetch with the token
-        const response = await fetch('/api/listings', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        if (!response.ok) {
-          console.warn('Listings API request failed:', response.status);
-          // Don't throw here, just return empty array to prevent component errors
-          return [];
-        }
-        
-        try {
-          const responseData = await response.json();
-          return Array.isArray(responseData) ? responseData : [];
-        } catch (parseError) {
-          console.error('Error parsing listings response:', parseError);
-          return [];
-        }
-      } catch (e: any) {
-        console.error('Exception in listings query:', e);
-        return [];
-      } finally {
-        setLoadingCount(prev => prev - 1);
-      }
-    },
-    enabled: !!user?.id && isAuthenticated,
-    retry: 2,
-    retryDelay: 1000,
-    // Add error handling at the query level
-    onError: (error) => {
-      console.error('Listings query error:', error);
-    }
-  });
-  
   // If we're directly accessing the /listings route, redirect to /:username/listings
   useEffect(() => {
     if (!authLoading && isAuthenticated && user && !usernameFromUrl) {
@@ -187,33 +150,55 @@ export default function Listings() {
   
   // IMPORTANT: Declare filtering state outside of any conditions
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
-  
-  // Filter listings based on search and status - with safeguards
-  const filteredListings = (listings || []).filter(listing => {
-    // Add null checks to prevent errors
-    if (!listing) return false;
-    
-    const matchesSearch = !searchQuery || 
-      (listing.title && listing.title.toLowerCase().includes(searchQuery.toLowerCase())) ||
-      (listing.location && listing.location.toLowerCase().includes(searchQuery.toLowerCase()));
-      
-    const matchesStatus = statusFilter === "all" || listing.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const [propertyTypeFilter, setPropertyTypeFilter] = useState("all");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [minBedrooms, setMinBedrooms] = useState("any");
+  const [minBathrooms, setMinBathrooms] = useState("any");
+  const [sortOption, setSortOption] = useState<keyof typeof sortOptions>("newest");
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isFeedsOpen, setIsFeedsOpen] = useState(false);
 
-  // Simple mock data to show if API fails
-  const mockListings = listingsError ? [
-    { 
-      id: 1, 
-      title: "Sample Property (API Unavailable)",
-      location: "Error loading data - please try again later",
-      price: "$000,000",
-      status: "active",
-      imageUrl: "https://placehold.co/600x400?text=API+Error"
-    }
-  ] : [];
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const filters: ListingSearchFilters = {
+    q: debouncedSearch || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter as ListingSearchFilters["status"],
+    propertyType: propertyTypeFilter === "all" ? undefined : propertyTypeFilter,
+    minPrice: minPrice ? Number(minPrice) : undefined,
+    maxPrice: maxPrice ? Number(maxPrice) : undefined,
+    minBedrooms: minBedrooms === "any" ? undefined : Number(minBedrooms),
+    minBathrooms: minBathrooms === "any" ? undefined : Number(minBathrooms),
+    ...sortOptions[sortOption],
+  };
+
+  const hasFilters = !!(searchQuery || minPrice || maxPrice) || statusFilter !== "all" ||
+    propertyTypeFilter !== "all" || minBedrooms !== "any" || minBathrooms !== "any";
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setStatusFilter("all");
+    setPropertyTypeFilter("all");
+    setMinPrice("");
+    setMaxPrice("");
+    setMinBedrooms("any");
+    setMinBathrooms("any");
+  };
+
+  const {
+    listings,
+    isLoading: listingsLoading,
+    error: listingsError,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useListingSearch(filters, { enabled: !!user?.id && isAuthenticated });
 
   // Return early if we're loading or not authenticated
   if (authLoading || !initialAuthCheckComplete || loadingCount > 0) {
@@ -242,9 +227,6 @@ export default function Listings() {
                    user.email?.split('@')[0] || 
                    'user';
 
-  // Determine which listings to show
-  const displayListings = listingsError ? mockListings : filteredListings;
-
   return (
     <div className="min-h-screen flex flex-col">
       <Header isAuthenticated={!!user} />
@@ -264,21 +246,50 @@ export default function Listings() {
                 </p>
               </div>
               
-              <Button asChild>
-                <Link href={`/${username}/listings/new`}>
-                  <Plus className="h-4 w-4 mr-2" /> Create New Listing
-                </Link>
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsFeedsOpen(true)}>
+                  <Rss className="h-4 w-4 mr-2" /> Feeds
+                </Button>
+                <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" /> Import Listings
+                </Button>
+                <Button asChild>
+                  <Link href={`/${username}/listings/new`}>
+                    <Plus className="h-4 w-4 mr-2" /> Create New Listing
+                  </Link>
+                </Button>
+              </div>
             </div>
+
+            <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+              <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>Import Listings</DialogTitle>
+                  <DialogDescription>Add or update listings from a spreadsheet or MLS export</DialogDescription>
+                </DialogHeader>
+                <ListingImport />
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={isFeedsOpen} onOpenChange={setIsFeedsOpen}>
+              <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>Listing Feeds</DialogTitle>
+                  <DialogDescription>Share your listings with other sites without retyping them</DialogDescription>
+                </DialogHeader>
+                <ListingFeeds username={username} />
+              </DialogContent>
+            </Dialog>
             
-            <div className="bg-white p-4 rounded-lg border mb-8">
+            <div className="bg-white p-4 rounded-lg border mb-8 space-y-4">
               <div className="flex flex-col md:flex-row gap-4">
-                <div className="flex-grow">
+                <div className="flex-grow relative">
+                  <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
                   <Input
-                    placeholder="Search by title or location..."
+                    placeholder="Search by title, address, city or description..."
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full"
+                    className="w-full pl-9"
                   />
                 </div>
                 
@@ -300,6 +311,76 @@ export default function Listings() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div className="w-full md:w-48">
+                  <Select
+                    value={sortOption}
+                    onValueChange={(value) => setSortOption(value as keyof typeof sortOptions)}
+                  >
+                    <SelectTrigger>
+                      <SortAsc className="h-4 w-4 mr-2" />
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest first</SelectItem>
+                      <SelectItem value="oldest">Oldest first</SelectItem>
+                      <SelectItem value="priceHigh">Price: high to low</SelectItem>
+                      <SelectItem value="priceLow">Price: low to high</SelectItem>
+                      <SelectItem value="largest">Largest first</SelectItem>
+                      <SelectItem value="smallest">Smallest first</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <Select value={propertyTypeFilter} onValueChange={setPropertyTypeFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Property type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All property types</SelectItem>
+                    {listingPropertyTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Min price"
+                  value={minPrice}
+                  onChange={(e) => setMinPrice(e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Max price"
+                  value={maxPrice}
+                  onChange={(e) => setMaxPrice(e.target.value)}
+                />
+                <Select value={minBedrooms} onValueChange={setMinBedrooms}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Beds" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any beds</SelectItem>
+                    {["1", "2", "3", "4", "5"].map((count) => (
+                      <SelectItem key={count} value={count}>{count}+ beds</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={minBathrooms} onValueChange={setMinBathrooms}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Baths" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any baths</SelectItem>
+                    {["1", "2", "3", "4"].map((count) => (
+                      <SelectItem key={count} value={count}>{count}+ baths</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
             
@@ -307,26 +388,37 @@ export default function Listings() {
               <div className="text-center py-12">
                 <p>Loading your listings...</p>
               </div>
-            ) : displayListings.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {displayListings.map((listing) => (
-                  <PropertyCard key={listing.id} listing={listing} />
-                ))}
+            ) : listingsError ? (
+              <div className="bg-white p-12 rounded-lg border text-center">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Couldn't load your listings</h3>
+                <p className="text-gray-500">{listingsError.message || "Please try again later."}</p>
               </div>
+            ) : listings.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {listings.map((listing) => (
+                    <PropertyCard key={listing.id} listing={listing} />
+                  ))}
+                </div>
+                {hasNextPage && (
+                  <div className="text-center mt-8">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load More"}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="bg-white p-12 rounded-lg border text-center">
                 <Building className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 
-                {searchQuery || statusFilter !== "all" ? (
+                {hasFilters ? (
                   <div>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">No listings match your filters</h3>
                     <p className="text-gray-500 mb-6">Try adjusting your search criteria</p>
                     <Button 
                       variant="outline" 
-                      onClick={() => {
-                        setSearchQuery("");
-                        setStatusFilter("all");
-                      }}
+                      onClick={clearFilters}
                     >
                       Clear Filters
                     </Button>
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { openHouseSignInSchema, type Listing, type OpenHouse } from "@shared/schema";
+import { ArrowLeft, CheckCircle2 } from "lucide-react";
+
+interface OpenHouseKioskProps {
+  id: number;
+}
+
+type KioskOpenHouse = Omit<OpenHouse, "startsAt" | "endsAt" | "createdAt"> & {
+  startsAt: string;
+  endsAt: string;
+  listing?: Listing;
+};
+
+// How long the thank-you screen shows before the form is ready for the next visitor
+const THANK_YOU_MS = 5000;
+
+// Full-screen sign-in form the agent leaves on a tablet by the door
+export default function OpenHouseKiosk({ id }: OpenHouseKioskProps) {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [workingWithAgent, setWorkingWithAgent] = useState<boolean | null>(null);
+  const [error, setError] = useState("");
+  const [signedInName, setSignedInName] = useState<string | null>(null);
+
+  const { data: openHouse, isLoading } = useQuery<KioskOpenHouse>({
+    queryKey: ['/api/open-houses', id],
+    queryFn: () => apiRequest('GET', `/api/open-houses/${id}`),
+  });
+
+  const reset = () => {
+    setName("");
+    setEmail("");
+    setPhone("");
+    setWorkingWithAgent(null);
+    setError("");
+    setSignedInName(null);
+  };
+
+  useEffect(() => {
+    if (signedInName === null) return;
+    const timeout = setTimeout(reset, THANK_YOU_MS);
+    return () => clearTimeout(timeout);
+  }, [signedInName]);
+
+  const { mutate: signIn, isPending } = useMutation({
+    mutationFn: (visitor: unknown) => apiRequest('POST', `/api/open-houses/${id}/visits`, visitor),
+    onSuccess: () => setSignedInName(name.trim().split(/\s+/)[0]),
+    onError: (mutationError: Error) => setError(mutationError.message || "Something went wrong. Please try again."),
+  });
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (workingWithAgent === null) {
+      setError("Please let us know whether you're working with an agent");
+      return;
+    }
+
+    const result = openHouseSignInSchema.safeParse({ name, email, phone: phone || undefined, workingWithAgent });
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+
+    setError("");
+    signIn(result.data);
+  };
+
+  if (isLoading) {
+    return <div className="min-h-screen flex items-center justify-center text-lg text-gray-500">Loading...</div>;
+  }
+
+  if (!openHouse) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-8">
+        <p className="text-lg mb-4">This open house couldn't be found.</p>
+        <Button asChild>
+          <Link href="/listings">Back to Listings</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const listing = openHouse.listing;
+  const cover = listing?.images?.[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Small and out of the way so visitors don't wander into the app */}
+      <Link href={`/listings/${openHouse.listingId}/edit`} className="absolute top-3 left-3 text-gray-300" aria-label="Exit kiosk">
+        <ArrowLeft className="h-5 w-5" />
+      </Link>
+
+      {cover && <img src={cover} alt={listing?.title} className="w-full h-48 md:h-64 object-cover" />}
+
+      <main className="flex-1 w-full max-w-xl mx-auto px-6 py-8">
+        {signedInName !== null ? (
+          <div className="text-center py-16 space-y-4">
+            <CheckCircle2 className="h-16 w-16 text-green-600 mx-auto" />
+            <h1 className="text-3xl font-bold">Thanks for visiting{signedInName ? `, ${signedInName}` : ""}!</h1>
+            <p className="text-lg text-gray-600">Enjoy the tour. {openHouse.hostName} is here if you have any questions.</p>
+          </div>
+        ) : (
+          <form onSubmit={submit} className="space-y-6">
+            <div className="text-center space-y-1">
+              <h1 className="text-3xl font-bold">Welcome!</h1>
+              {listing && (
+                <p className="text-lg text-gray-600">{listing.address}, {listing.city}</p>
+              )}
+              <p className="text-gray-500">Please sign in before you look around.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-name" className="text-base">Name</Label>
+              <Input id="kiosk-name" className="h-14 text-lg" autoComplete="off" value={name} onChange={(event) => setName(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-email" className="text-base">Email</Label>
+              <Input id="kiosk-email" type="email" inputMode="email" className="h-14 text-lg" autoComplete="off" value={email} onChange={(event) => setEmail(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-phone" className="text-base">Phone (optional)</Label>
+              <Input id="kiosk-phone" type="tel" inputMode="tel" className="h-14 text-lg" autoComplete="off" value={phone} onChange={(event) => setPhone(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <p className="text-base font-medium">Are you working with an agent?</p>
+              <div className="grid grid-cols-2 gap-3">
+                {([true, false] as const).map((value) => (
+                  <Button
+                    key={String(value)}
+                    type="button"
+                    variant={workingWithAgent === value ? "default" : "outline"}
+                    className="h-14 text-lg"
+                    onClick={() => setWorkingWithAgent(value)}
+                  >
+                    {value ? "Yes" : "No"}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-red-600 text-center">{error}</p>}
+
+            <Button type="submit" className="w-full h-14 text-lg" disabled={isPending}>
+              {isPending ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useLocation, Link } from "wouter";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Header from "@/components/layout/Header";
 import EmailVerificationAlert from "@/components/layout/EmailVerificationAlert";
 import { Button } from "@/components/ui/button";
@@ -14,6 +14,9 @@ import SupabaseProfileData from "@/components/profile/SupabaseProfileData";
 import SupabaseExample from "@/components/supabase/SupabaseExample";
 import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
 import { fetchFromSupabase } from "@/lib/supabase";
+import { useListingSearch } from "@/hooks/use-listing-search";
+import { useTrackView } from "@/hooks/use-track-view";
+import { trackView } from "@/lib/tracking";
 
 interface ProfileProps {
   username?: string;
@@ -120,21 +123,29 @@ export default function Profile({ username }: ProfileProps = {}) {
   const isOwnProfile = user && userData && 
                       (user.id === userData.id || user.email === userData.email);
   
-  // Get listings for the profile from Supabase
-  const { data: listings = [] } = useQuery({
-    queryKey: ['/api/supabase/listings', userData.id],
-    queryFn: async () => {
-      try {
-        return await fetchFromSupabase('listings', {
-          filters: { user_id: userData.id }
-        });
-      } catch (error) {
-        console.error('Error fetching listings:', error);
-        return [];
-      }
-    },
-    enabled: !!userData.id,
-  });
+  // Get the public listings shown on the profile, a page at a time
+  const {
+    listings,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useListingSearch({}, { username: userData.username, enabled: !!userData.username });
+  
+  // Count visits to public profiles, but not agents viewing their own
+  const isVisitor = !!username && !isOwnProfile && !loadingUserData;
+  useTrackView('profile', { username: userData.username, enabled: isVisitor });
+  
+  // Listings are shown on the profile, so each one shown to a visitor counts as a listing view.
+  // Later pages are added to the same list, so only count the ones that weren't shown before.
+  const trackedListingIds = useRef(new Set<number>());
+  useEffect(() => {
+    if (!isVisitor) return;
+    listings.forEach((listing) => {
+      if (trackedListingIds.current.has(listing.id)) return;
+      trackedListingIds.current.add(listing.id);
+      trackView({ type: 'listing', targetId: listing.id });
+    });
+  }, [isVisitor, listings]);
   
   // If user data is available, use it; otherwise use minimal defaults (only for display purposes)
   const profileInfo = {
@@ -178,7 +189,7 @@ export default function Profile({ username }: ProfileProps = {}) {
       licenses: userData?.licenses || [],
       title: userData?.title || ''
     },
-    listings: listings || [],
+    listings,
     theme: {
       primaryColor: themeSettings?.primaryColor || "#4f46e5",
       colorMode: themeSettings?.darkMode ? 'dark' : 'light',
@@ -225,6 +236,14 @@ export default function Profile({ username }: ProfileProps = {}) {
           theme={templateProps.theme}
           isOwnProfile={templateProps.isOwnProfile}
         />
+
+        {hasNextPage && (
+          <div className="text-center my-8">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Show More Listings"}
+            </Button>
+          </div>
+        )}
         
         {/* Show Supabase Profile Data for own profile */}
         {isOwnProfile && userData?.id && (
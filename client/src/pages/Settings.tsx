@@ -12,6 +12,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Upload } from "lucide-react";
 import { useSupabaseAuth } from "@/context/SupabaseAuthContext";
 import { supabase } from "@/lib/supabase";
+import SenderSettings from "@/components/settings/SenderSettings";
 
 interface UserData {
   id: string;
@@ -239,9 +240,10 @@ export default function Settings() {
             )}
             
             <Tabs defaultValue="profile" className="space-y-8">
-              <TabsList className="grid w-full grid-cols-2 md:w-auto md:inline-grid">
+              <TabsList className="grid w-full grid-cols-3 md:w-auto md:inline-grid">
                 <TabsTrigger value="profile">Profile Information</TabsTrigger>
                 <TabsTrigger value="account">Account Settings</TabsTrigger>
+                <TabsTrigger value="sender">Email Sender</TabsTrigger>
               </TabsList>
               
               <TabsContent value="profile" className="space-y-6">
@@ -457,6 +459,10 @@ export default function Settings() {
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="sender" className="space-y-6">
+                <SenderSettings />
+              </TabsContent>
             </Tabs>
           </div>
         </main>
@@ -13,6 +13,8 @@ import { Save, Upload, Download, ArrowLeft, Plus } from "lucide-react";
 import LotMapCanvas from "./LotMapCanvas";
 import LotEditor from "./LotEditor";
 import LotList from "./LotList";
+import { uploadAssets } from "@/lib/assets";
+import { apiRequest } from "@/lib/queryClient";
 
 export default function LotMapEditor() {
   const params = useParams<{ slug: string, username: string }>();
@@ -99,15 +101,31 @@ export default function LotMapEditor() {
   };
   
   const handleUploadBackground = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
+    if (!e.target.files || e.target.files.length === 0 || !mapData) return;
     
     const file = e.target.files[0];
-    // Implementation for file upload would go here
+    e.target.value = "";
     
-    toast({
-      title: "Background Upload",
-      description: "Feature not implemented: Would upload background image",
-    });
+    try {
+      const [asset] = await uploadAssets("map_background", [file]);
+      // Saving the map with the new image lets the server remove the previous one
+      const updated = await apiRequest('PATCH', `/api/map-settings/${mapData.id}`, {
+        backgroundImage: asset.url,
+      });
+      setMapData(updated);
+      await queryClient.invalidateQueries({ queryKey: [`/api/map-settings?slug=${params.slug}`] });
+      
+      toast({
+        title: "Background updated",
+        description: "Your map now uses the uploaded image.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload background image",
+      });
+    }
   };
   
   if (mapLoading) {
@@ -314,7 +332,7 @@ export default function LotMapEditor() {
                             id="background"
                             name="background"
                             type="file"
-                            accept="image/*"
+                            accept="image/jpeg,image/png,image/webp"
                             onChange={handleUploadBackground}
                           />
                           <p className="text-sm text-muted-foreground">
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { MapPin, Home, DollarSign, Ruler, BedDouble, Bath } from "lucide-react";
+import { useTrackView } from "@/hooks/use-track-view";
+import { trackView } from "@/lib/tracking";
 
 interface Lot {
   id: number;
@@ -71,6 +73,13 @@ export default function PublicLotMapViewer() {
     fetchMapData();
   }, [params.slug]);
   
+  useTrackView('lot_map', { targetId: mapData?.id });
+  
+  const handleLotClick = (lot: Lot) => {
+    setSelectedLot(lot);
+    trackView({ type: 'lot', targetId: lot.id });
+  };
+  
   const handleZoomIn = () => {
     setScale(prev => Math.min(prev + 0.1, 2));
   };
@@ -183,7 +192,7 @@ export default function PublicLotMapViewer() {
                     width: lot.width || 100,
                     height: lot.height || 100,
                   }}
-                  onClick={() => setSelectedLot(lot)}
+                  onClick={() => handleLotClick(lot)}
                 >
                   <div className="p-2">
                     <div className="flex items-center justify-between">
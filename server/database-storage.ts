@@ -1,4 +1,4 @@
-import { eq } from 'drizzle-orm';
+import { eq, gte, like, lte, or, and, asc, desc, inArray, sql, type SQL } from 'drizzle-orm';
 import { db } from './db';
 import crypto from 'crypto';
 import {
@@ -8,6 +8,20 @@ import {
   listings,
   type Listing,
   type InsertListing,
+  type ListingSortField,
+  listingEvents,
+  type ListingEvent,
+  type InsertListingEvent,
+  listingImports,
+  type ListingImport,
+  type InsertListingImport,
+  openHouses,
+  type OpenHouse,
+  type InsertOpenHouse,
+  type UpdateOpenHouse,
+  openHouseVisits,
+  type OpenHouseVisit,
+  type InsertOpenHouseVisit,
   emailTemplates,
   type EmailTemplate,
   type InsertEmailTemplate,
@@ -19,9 +33,67 @@ import {
   type InsertSocialAccount,
   notificationPreferences,
   type NotificationPreference,
-  type InsertNotificationPreference
+  type InsertNotificationPreference,
+  userThemes,
+  type UserTheme,
+  type InsertUserTheme,
+  lots,
+  type InsertLot,
+  type UpdateLot,
+  mapSettings,
+  type InsertMapSettings,
+  leads,
+  type Lead,
+  type InsertLead,
+  type UpdateLead,
+  contacts,
+  type Contact,
+  type InsertContact,
+  segments,
+  type Segment,
+  type InsertSegment,
+  type UpdateSegment,
+  suppressions,
+  type Suppression,
+  type InsertSuppression,
+  viewEvents,
+  type ViewEvent,
+  type InsertViewEvent,
+  dailyViewStats,
+  type DailyViewStat,
+  campaigns,
+  type Campaign,
+  type InsertCampaign,
+  campaignSends,
+  type CampaignSend,
+  type InsertCampaignSend,
+  emailEvents,
+  type EmailEvent,
+  type InsertEmailEvent,
+  digests,
+  type Digest,
+  type InsertDigest,
+  type UpdateDigest,
+  sequences,
+  type Sequence,
+  type InsertSequence,
+  type UpdateSequence,
+  sequenceEnrollments,
+  type SequenceEnrollment,
+  type InsertSequenceEnrollment,
+  senderIdentities,
+  type SenderIdentity,
+  type InsertSenderIdentity,
+  assets,
+  type Asset,
+  type InsertAsset,
+  type AssetKind,
+  type AssetReference,
+  jobs,
+  type Job,
+  type InsertJob
 } from '@shared/schema';
-import { IStorage } from './storage';
+import { IStorage, DailyViewStatKey, DailyViewStatFilter, ListingSearchFilter } from './storage';
 
 export class DatabaseStorage implements IStorage {
   // User operations
@@ -113,6 +185,69 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(listings).where(eq(listings.userId, userId));
   }
 
+  async searchListings(filter: ListingSearchFilter): Promise<Listing[]> {
+    // Matches listingSortValue: missing sizes and dates count as 0, and times are compared in milliseconds
+    const sortExpressions: Record<ListingSortField, SQL> = {
+      price: sql`${listings.price}`,
+      squareFeet: sql`coalesce(${listings.squareFeet}, 0)`,
+      createdAt: sql`coalesce(floor(extract(epoch from ${listings.createdAt}) * 1000), 0)`
+    };
+    const sortBy = sortExpressions[filter.sort];
+    const conditions: SQL[] = [eq(listings.userId, filter.userId)];
+
+    if (filter.q) {
+      // Same expression as the listings_search index
+      conditions.push(sql`to_tsvector('english', ${listings.title} || ' ' || ${listings.address} || ' ' || ${listings.city} || ' ' || coalesce(${listings.description}, '')) @@ websearch_to_tsquery('english', ${filter.q})`);
+    }
+    if (filter.publicOnly) {
+      conditions.push(sql`coalesce(${listings.isPublic}, true)`);
+      conditions.push(sql`coalesce(${listings.status}, 'active') <> 'draft'`);
+    }
+    if (filter.status) {
+      conditions.push(sql`coalesce(${listings.status}, 'active') = ${filter.status}`);
+    }
+    if (filter.propertyType) {
+      conditions.push(eq(listings.propertyType, filter.propertyType));
+    }
+    if (filter.minPrice !== undefined) {
+      conditions.push(gte(listings.price, filter.minPrice));
+    }
+    if (filter.maxPrice !== undefined) {
+      conditions.push(lte(listings.price, filter.maxPrice));
+    }
+    if (filter.minBedrooms !== undefined) {
+      conditions.push(sql`coalesce(${listings.bedrooms}, 0) >= ${filter.minBedrooms}`);
+    }
+    if (filter.minBathrooms !== undefined) {
+      conditions.push(sql`coalesce(${listings.bathrooms}, 0) >= ${filter.minBathrooms}`);
+    }
+    if (filter.minSquareFeet !== undefined) {
+      conditions.push(sql`coalesce(${listings.squareFeet}, 0) >= ${filter.minSquareFeet}`);
+    }
+    if (filter.maxSquareFeet !== undefined) {
+      conditions.push(sql`coalesce(${listings.squareFeet}, 0) <= ${filter.maxSquareFeet}`);
+    }
+    if (filter.city) {
+      conditions.push(sql`lower(${listings.city}) = lower(${filter.city})`);
+    }
+    if (filter.zipCode) {
+      conditions.push(eq(listings.zipCode, filter.zipCode));
+    }
+    if (filter.after) {
+      conditions.push(filter.order === 'asc'
+        ? sql`(${sortBy}, ${listings.id}) > (${filter.after.value}, ${filter.after.id})`
+        : sql`(${sortBy}, ${listings.id}) < (${filter.after.value}, ${filter.after.id})`);
+    }
+
+    const direction = filter.order === 'asc' ? asc : desc;
+    return db
+      .select()
+      .from(listings)
+      .where(and(...conditions))
+      .orderBy(direction(sortBy), direction(listings.id))
+      .limit(filter.limit);
+  }
+
   async createListing(insertListing: InsertListing): Promise<Listing> {
     const now = new Date();
     
@@ -122,7 +257,7 @@ export class DatabaseStorage implements IStorage {
         ...insertListing,
         createdAt: now,
         updatedAt: now,
-        status: "active"
+        status: insertListing.status ?? "active"
       })
       .returning();
       
@@ -143,6 +278,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteListing(id: number): Promise<boolean> {
+    // History and open houses reference the listing, so they have to go first
+    await db.delete(listingEvents).where(eq(listingEvents.listingId, id));
+    await db.delete(openHouseVisits).where(inArray(
+      openHouseVisits.openHouseId,
+      db.select({ id: openHouses.id }).from(openHouses).where(eq(openHouses.listingId, id))
+    ));
+    await db.delete(openHouses).where(eq(openHouses.listingId, id));
     const result = await db
       .delete(listings)
       .where(eq(listings.id, id))
@@ -151,6 +293,115 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Listing event operations
+  async createListingEvent(insertEvent: InsertListingEvent): Promise<ListingEvent> {
+    const [event] = await db
+      .insert(listingEvents)
+      .values(insertEvent)
+      .returning();
+
+    return event;
+  }
+
+  async getListingEventsByListingId(listingId: number): Promise<ListingEvent[]> {
+    return db
+      .select()
+      .from(listingEvents)
+      .where(eq(listingEvents.listingId, listingId))
+      .orderBy(asc(listingEvents.createdAt), asc(listingEvents.id));
+  }
+
+  // Listing import operations
+  async getListingImport(id: number): Promise<ListingImport | undefined> {
+    const [listingImport] = await db.select().from(listingImports).where(eq(listingImports.id, id));
+    return listingImport;
+  }
+
+  async getListingImportsByUserId(userId: number): Promise<ListingImport[]> {
+    return db
+      .select()
+      .from(listingImports)
+      .where(eq(listingImports.userId, userId))
+      .orderBy(desc(listingImports.createdAt), desc(listingImports.id));
+  }
+
+  async createListingImport(insertImport: InsertListingImport): Promise<ListingImport> {
+    const [listingImport] = await db
+      .insert(listingImports)
+      .values(insertImport)
+      .returning();
+
+    return listingImport;
+  }
+  // Open house operations
+  async getOpenHouse(id: number): Promise<OpenHouse | undefined> {
+    const [openHouse] = await db.select().from(openHouses).where(eq(openHouses.id, id));
+    return openHouse;
+  }
+
+  async getOpenHousesByListingId(listingId: number): Promise<OpenHouse[]> {
+    return db
+      .select()
+      .from(openHouses)
+      .where(eq(openHouses.listingId, listingId))
+      .orderBy(asc(openHouses.startsAt), asc(openHouses.id));
+  }
+
+  async getOpenHousesByUserId(userId: number): Promise<OpenHouse[]> {
+    return db
+      .select()
+      .from(openHouses)
+      .where(eq(openHouses.userId, userId))
+      .orderBy(asc(openHouses.startsAt), asc(openHouses.id));
+  }
+
+  async createOpenHouse(insertOpenHouse: InsertOpenHouse): Promise<OpenHouse> {
+    const [openHouse] = await db
+      .insert(openHouses)
+      .values(insertOpenHouse)
+      .returning();
+
+    return openHouse;
+  }
+
+  async updateOpenHouse(id: number, openHouseData: UpdateOpenHouse): Promise<OpenHouse | undefined> {
+    const [openHouse] = await db
+      .update(openHouses)
+      .set(openHouseData)
+      .where(eq(openHouses.id, id))
+      .returning();
+
+    return openHouse;
+  }
+
+  async deleteOpenHouse(id: number): Promise<boolean> {
+    await db.delete(openHouseVisits).where(eq(openHouseVisits.openHouseId, id));
+    const result = await db
+      .delete(openHouses)
+      .where(eq(openHouses.id, id))
+      .returning({ id: openHouses.id });
+
+    return result.length > 0;
+  }
+
+  async createOpenHouseVisit(insertVisit: InsertOpenHouseVisit): Promise<OpenHouseVisit> {
+    const [visit] = await db
+      .insert(openHouseVisits)
+      .values(insertVisit)
+      .returning();
+
+    return visit;
+  }
+
+  async getOpenHouseVisitsByOpenHouseId(openHouseId: number): Promise<OpenHouseVisit[]> {
+    return db
+      .select()
+      .from(openHouseVisits)
+      .where(eq(openHouseVisits.openHouseId, openHouseId))
+      .orderBy(asc(openHouseVisits.createdAt), asc(openHouseVisits.id));
+  }
+
+
   // Email template operations
   async getEmailTemplate(id: number): Promise<EmailTemplate | undefined> {
     const [template] = await db.select().from(emailTemplates).where(eq(emailTemplates.id, id));
@@ -278,4 +529,837 @@ export class DatabaseStorage implements IStorage {
     
     return updatedPreferences;
   }
-}
\ No newline at end of file
+
+  // Theme operations
+  async getUserTheme(userId: number): Promise<UserTheme | undefined> {
+    const [theme] = await db.select().from(userThemes).where(eq(userThemes.userId, userId));
+    if (theme) return theme;
+
+    // Like MemStorage, give users without a theme the default one; the column defaults hold its values
+    return this.createUserTheme({ userId });
+  }
+
+  async createUserTheme(themeData: InsertUserTheme): Promise<UserTheme> {
+    const [theme] = await db
+      .insert(userThemes)
+      .values(themeData)
+      .returning();
+
+    return theme;
+  }
+
+  async updateUserTheme(userId: number, themeData: Partial<UserTheme>): Promise<UserTheme | undefined> {
+    const theme = await this.getUserTheme(userId);
+    if (!theme) return undefined;
+
+    const [updatedTheme] = await db
+      .update(userThemes)
+      .set({
+        ...themeData,
+        updatedAt: new Date()
+      })
+      .where(eq(userThemes.id, theme.id))
+      .returning();
+
+    return updatedTheme;
+  }
+
+  // Lot map operations
+  async getLots(mapId?: number) {
+    if (mapId) {
+      return db.select().from(lots).where(eq(lots.mapId, mapId));
+    }
+    return db.select().from(lots);
+  }
+
+  async getLot(id: number) {
+    const [lot] = await db.select().from(lots).where(eq(lots.id, id));
+    return lot || null;
+  }
+
+  async searchLots(query: string) {
+    return db
+      .select()
+      .from(lots)
+      .where(
+        or(
+          like(lots.number, `%${query}%`),
+          like(lots.description, `%${query}%`)
+        )
+      );
+  }
+
+  async filterLots(filters: {
+    status?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    minSqft?: number;
+    maxSqft?: number;
+  }) {
+    const conditions: SQL[] = [];
+
+    if (filters.status) conditions.push(eq(lots.status, filters.status));
+    if (filters.minPrice) conditions.push(gte(lots.price, filters.minPrice));
+    if (filters.maxPrice) conditions.push(lte(lots.price, filters.maxPrice));
+    if (filters.minSqft) conditions.push(gte(lots.sqft, filters.minSqft));
+    if (filters.maxSqft) conditions.push(lte(lots.sqft, filters.maxSqft));
+
+    return db.select().from(lots).where(and(...conditions));
+  }
+
+  async createLot(data: InsertLot) {
+    const [lot] = await db
+      .insert(lots)
+      .values(data as typeof lots.$inferInsert)
+      .returning();
+
+    return lot;
+  }
+
+  async updateLot(data: UpdateLot) {
+    const { id, ...updateData } = data;
+    const [lot] = await db
+      .update(lots)
+      .set({
+        ...updateData,
+        updatedAt: new Date()
+      })
+      .where(eq(lots.id, id))
+      .returning();
+
+    return lot;
+  }
+
+  async deleteLot(id: number) {
+    await db.delete(lots).where(eq(lots.id, id));
+  }
+
+  // Map settings operations
+  async getMapSettings(slug?: string): Promise<any> {
+    if (slug) {
+      const [settings] = await db.select().from(mapSettings).where(eq(mapSettings.slug, slug));
+      return settings || null;
+    }
+    return db.select().from(mapSettings);
+  }
+
+  async getMapSettingsById(id: number) {
+    const [settings] = await db.select().from(mapSettings).where(eq(mapSettings.id, id));
+    return settings || null;
+  }
+
+  async createMapSettings(data: InsertMapSettings) {
+    // Generate a slug if not provided
+    if (!data.slug && data.name) {
+      data.slug = data.name
+        .toLowerCase()
+        .replace(/[^\w\s]/gi, '')
+        .replace(/\s+/g, '-');
+    }
+
+    const [settings] = await db
+      .insert(mapSettings)
+      .values(data as typeof mapSettings.$inferInsert)
+      .returning();
+
+    return settings;
+  }
+
+  async updateMapSettings(data: InsertMapSettings & { id?: number }) {
+    const { id, ...updateData } = data;
+
+    if (id) {
+      const [settings] = await db
+        .update(mapSettings)
+        .set({
+          ...updateData,
+          updatedAt: new Date()
+        })
+        .where(eq(mapSettings.id, id))
+        .returning();
+
+      return settings;
+    }
+
+    return this.createMapSettings(updateData);
+  }
+
+  async deleteMapSettings(id: number) {
+    // Lots reference their map, so they have to go first
+    await db.delete(lots).where(eq(lots.mapId, id));
+    await db.delete(mapSettings).where(eq(mapSettings.id, id));
+  }
+
+  async getUserMapSettings(userId: number) {
+    return db.select().from(mapSettings).where(eq(mapSettings.userId, userId));
+  }
+
+  // Lead operations
+  async getLead(id: number): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(eq(leads.id, id));
+    return lead;
+  }
+
+  async getLeadsByUserId(userId: number): Promise<Lead[]> {
+    return db
+      .select()
+      .from(leads)
+      .where(eq(leads.userId, userId))
+      .orderBy(desc(leads.createdAt));
+  }
+
+  async createLead(insertLead: InsertLead): Promise<Lead> {
+    const [lead] = await db
+      .insert(leads)
+      .values(insertLead)
+      .returning();
+      
+    return lead;
+  }
+
+  async updateLead(id: number, leadData: UpdateLead): Promise<Lead | undefined> {
+    const [updatedLead] = await db
+      .update(leads)
+      .set({
+        ...leadData,
+        updatedAt: new Date()
+      })
+      .where(eq(leads.id, id))
+      .returning();
+      
+    return updatedLead;
+  }
+
+  async deleteLead(id: number): Promise<boolean> {
+    const result = await db
+      .delete(leads)
+      .where(eq(leads.id, id))
+      .returning({ id: leads.id });
+      
+    return result.length > 0;
+  }
+
+  // Contact operations
+  async getContact(id: number): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact;
+  }
+
+  async getContactsByUserId(userId: number): Promise<Contact[]> {
+    return db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.userId, userId))
+      .orderBy(asc(contacts.name));
+  }
+
+  async getContactByEmail(userId: number, email: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.userId, userId), eq(contacts.email, email.toLowerCase())));
+    return contact;
+  }
+
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const [contact] = await db
+      .insert(contacts)
+      .values({ ...insertContact, email: insertContact.email.toLowerCase() })
+      .returning();
+
+    return contact;
+  }
+
+  async updateContact(id: number, contactData: Partial<Contact>): Promise<Contact | undefined> {
+    const [updatedContact] = await db
+      .update(contacts)
+      .set({
+        ...contactData,
+        ...(contactData.email ? { email: contactData.email.toLowerCase() } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(contacts.id, id))
+      .returning();
+
+    return updatedContact;
+  }
+
+  async deleteContact(id: number): Promise<boolean> {
+    await db.delete(sequenceEnrollments).where(eq(sequenceEnrollments.contactId, id));
+    await db.delete(openHouseVisits).where(eq(openHouseVisits.contactId, id));
+    const result = await db
+      .delete(contacts)
+      .where(eq(contacts.id, id))
+      .returning({ id: contacts.id });
+
+    return result.length > 0;
+  }
+
+  // Segment operations
+  async getSegment(id: number): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment;
+  }
+
+  async getSegmentsByUserId(userId: number): Promise<Segment[]> {
+    return db
+      .select()
+      .from(segments)
+      .where(eq(segments.userId, userId))
+      .orderBy(asc(segments.name));
+  }
+
+  async createSegment(insertSegment: InsertSegment): Promise<Segment> {
+    const [segment] = await db
+      .insert(segments)
+      .values(insertSegment)
+      .returning();
+
+    return segment;
+  }
+
+  async updateSegment(id: number, segmentData: UpdateSegment): Promise<Segment | undefined> {
+    const [updatedSegment] = await db
+      .update(segments)
+      .set({
+        ...segmentData,
+        updatedAt: new Date()
+      })
+      .where(eq(segments.id, id))
+      .returning();
+
+    return updatedSegment;
+  }
+
+  async deleteSegment(id: number): Promise<boolean> {
+    const result = await db
+      .delete(segments)
+      .where(eq(segments.id, id))
+      .returning({ id: segments.id });
+
+    return result.length > 0;
+  }
+
+  // Suppression operations
+  async getSuppression(userId: number, email: string): Promise<Suppression | undefined> {
+    const [suppression] = await db
+      .select()
+      .from(suppressions)
+      .where(and(eq(suppressions.userId, userId), eq(suppressions.email, email.toLowerCase())));
+    return suppression;
+  }
+
+  async getSuppressionsByUserId(userId: number): Promise<Suppression[]> {
+    return db
+      .select()
+      .from(suppressions)
+      .where(eq(suppressions.userId, userId))
+      .orderBy(desc(suppressions.createdAt));
+  }
+
+  async createSuppression(insertSuppression: InsertSuppression): Promise<Suppression> {
+    const email = insertSuppression.email.toLowerCase();
+
+    // An address is only suppressed once; the first reason is kept
+    const [suppression] = await db
+      .insert(suppressions)
+      .values({ ...insertSuppression, email })
+      .onConflictDoNothing({ target: [suppressions.userId, suppressions.email] })
+      .returning();
+
+    return suppression || (await this.getSuppression(insertSuppression.userId, email))!;
+  }
+
+  async deleteSuppression(id: number): Promise<boolean> {
+    const result = await db
+      .delete(suppressions)
+      .where(eq(suppressions.id, id))
+      .returning({ id: suppressions.id });
+
+    return result.length > 0;
+  }
+
+  // View tracking operations
+  async createViewEvent(insertEvent: InsertViewEvent): Promise<ViewEvent> {
+    const [event] = await db
+      .insert(viewEvents)
+      .values(insertEvent)
+      .returning();
+
+    return event;
+  }
+
+  async getVisitorViewEvents(visitorId: string, targetType: string, targetId: number, since: Date): Promise<ViewEvent[]> {
+    return db
+      .select()
+      .from(viewEvents)
+      .where(and(
+        eq(viewEvents.visitorId, visitorId),
+        eq(viewEvents.targetType, targetType),
+        eq(viewEvents.targetId, targetId),
+        gte(viewEvents.createdAt, since)
+      ));
+  }
+
+  async incrementDailyViewStat(key: DailyViewStatKey, uniqueVisitor: boolean): Promise<DailyViewStat> {
+    const uniqueIncrement = uniqueVisitor ? 1 : 0;
+    const [stat] = await db
+      .insert(dailyViewStats)
+      .values({ ...key, views: 1, uniqueVisitors: uniqueIncrement })
+      .onConflictDoUpdate({
+        target: [dailyViewStats.userId, dailyViewStats.targetType, dailyViewStats.targetId, dailyViewStats.day],
+        set: {
+          views: sql`${dailyViewStats.views} + 1`,
+          uniqueVisitors: sql`${dailyViewStats.uniqueVisitors} + ${uniqueIncrement}`
+        }
+      })
+      .returning();
+
+    return stat;
+  }
+
+  async getDailyViewStats(userId: number, filter: DailyViewStatFilter = {}): Promise<DailyViewStat[]> {
+    const conditions: SQL[] = [eq(dailyViewStats.userId, userId)];
+
+    if (filter.targetType !== undefined) {
+      conditions.push(eq(dailyViewStats.targetType, filter.targetType));
+    }
+    if (filter.targetId !== undefined) {
+      conditions.push(eq(dailyViewStats.targetId, filter.targetId));
+    }
+    if (filter.from !== undefined) {
+      conditions.push(gte(dailyViewStats.day, filter.from));
+    }
+    if (filter.to !== undefined) {
+      conditions.push(lte(dailyViewStats.day, filter.to));
+    }
+
+    return db
+      .select()
+      .from(dailyViewStats)
+      .where(and(...conditions))
+      .orderBy(asc(dailyViewStats.day));
+  }
+
+  // Campaign operations
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async getCampaignsByUserId(userId: number): Promise<Campaign[]> {
+    return db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.userId, userId))
+      .orderBy(desc(campaigns.createdAt));
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const [campaign] = await db
+      .insert(campaigns)
+      .values(insertCampaign)
+      .returning();
+
+    return campaign;
+  }
+
+  async updateCampaign(id: number, campaignData: Partial<Campaign>): Promise<Campaign | undefined> {
+    const [updatedCampaign] = await db
+      .update(campaigns)
+      .set({
+        ...campaignData,
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, id))
+      .returning();
+
+    return updatedCampaign;
+  }
+
+  async updateCampaignIfStatus(id: number, fromStatuses: string[], campaignData: Partial<Campaign>): Promise<Campaign | undefined> {
+    const [updatedCampaign] = await db
+      .update(campaigns)
+      .set({
+        ...campaignData,
+        updatedAt: new Date()
+      })
+      .where(and(eq(campaigns.id, id), inArray(campaigns.status, fromStatuses)))
+      .returning();
+
+    return updatedCampaign;
+  }
+
+  async deleteCampaign(id: number): Promise<boolean> {
+    await db.delete(campaignSends).where(eq(campaignSends.campaignId, id));
+    const result = await db
+      .delete(campaigns)
+      .where(eq(campaigns.id, id))
+      .returning({ id: campaigns.id });
+
+    return result.length > 0;
+  }
+
+  async getCampaignSends(campaignId: number): Promise<CampaignSend[]> {
+    return db
+      .select()
+      .from(campaignSends)
+      .where(eq(campaignSends.campaignId, campaignId))
+      .orderBy(asc(campaignSends.id));
+  }
+
+  async createCampaignSends(insertSends: InsertCampaignSend[]): Promise<CampaignSend[]> {
+    if (insertSends.length === 0) return [];
+
+    return db
+      .insert(campaignSends)
+      .values(insertSends)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updateCampaignSend(id: number, sendData: Partial<CampaignSend>): Promise<CampaignSend | undefined> {
+    const [updatedSend] = await db
+      .update(campaignSends)
+      .set(sendData)
+      .where(eq(campaignSends.id, id))
+      .returning();
+
+    return updatedSend;
+  }
+
+  async getCampaignSendByEmail(campaignId: number, email: string): Promise<CampaignSend | undefined> {
+    const [send] = await db
+      .select()
+      .from(campaignSends)
+      .where(and(eq(campaignSends.campaignId, campaignId), eq(sql`lower(${campaignSends.email})`, email.toLowerCase())));
+    return send;
+  }
+
+  // Email event operations
+  async createEmailEvent(insertEvent: InsertEmailEvent): Promise<EmailEvent | undefined> {
+    const [event] = await db
+      .insert(emailEvents)
+      .values({ ...insertEvent, email: insertEvent.email.toLowerCase() })
+      .onConflictDoNothing({ target: emailEvents.providerEventId })
+      .returning();
+
+    return event;
+  }
+
+  async getEmailEventsByCampaignId(campaignId: number): Promise<EmailEvent[]> {
+    return db
+      .select()
+      .from(emailEvents)
+      .where(eq(emailEvents.campaignId, campaignId))
+      .orderBy(asc(emailEvents.occurredAt));
+  }
+
+  // Digest operations
+  async getDigest(id: number): Promise<Digest | undefined> {
+    const [digest] = await db.select().from(digests).where(eq(digests.id, id));
+    return digest;
+  }
+
+  async getDigestsByUserId(userId: number): Promise<Digest[]> {
+    return db
+      .select()
+      .from(digests)
+      .where(eq(digests.userId, userId))
+      .orderBy(asc(digests.name));
+  }
+
+  async createDigest(insertDigest: InsertDigest): Promise<Digest> {
+    const [digest] = await db
+      .insert(digests)
+      .values(insertDigest)
+      .returning();
+
+    return digest;
+  }
+
+  async updateDigest(id: number, digestData: UpdateDigest & Partial<Pick<Digest, 'lastSentAt' | 'nextRunAt'>>): Promise<Digest | undefined> {
+    const [updatedDigest] = await db
+      .update(digests)
+      .set({
+        ...digestData,
+        updatedAt: new Date()
+      })
+      .where(eq(digests.id, id))
+      .returning();
+
+    return updatedDigest;
+  }
+
+  async deleteDigest(id: number): Promise<boolean> {
+    const result = await db
+      .delete(digests)
+      .where(eq(digests.id, id))
+      .returning({ id: digests.id });
+
+    return result.length > 0;
+  }
+
+  // Sequence operations
+  async getSequence(id: number): Promise<Sequence | undefined> {
+    const [sequence] = await db.select().from(sequences).where(eq(sequences.id, id));
+    return sequence;
+  }
+
+  async getSequencesByUserId(userId: number): Promise<Sequence[]> {
+    return db
+      .select()
+      .from(sequences)
+      .where(eq(sequences.userId, userId))
+      .orderBy(asc(sequences.name));
+  }
+
+  async createSequence(insertSequence: InsertSequence): Promise<Sequence> {
+    const [sequence] = await db
+      .insert(sequences)
+      .values(insertSequence)
+      .returning();
+
+    return sequence;
+  }
+
+  async updateSequence(id: number, sequenceData: UpdateSequence): Promise<Sequence | undefined> {
+    const [updatedSequence] = await db
+      .update(sequences)
+      .set({
+        ...sequenceData,
+        updatedAt: new Date()
+      })
+      .where(eq(sequences.id, id))
+      .returning();
+
+    return updatedSequence;
+  }
+
+  async deleteSequence(id: number): Promise<boolean> {
+    await db.delete(sequenceEnrollments).where(eq(sequenceEnrollments.sequenceId, id));
+    const result = await db
+      .delete(sequences)
+      .where(eq(sequences.id, id))
+      .returning({ id: sequences.id });
+
+    return result.length > 0;
+  }
+
+  async getSequenceEnrollment(id: number): Promise<SequenceEnrollment | undefined> {
+    const [enrollment] = await db.select().from(sequenceEnrollments).where(eq(sequenceEnrollments.id, id));
+    return enrollment;
+  }
+
+  async getSequenceEnrollmentsBySequenceId(sequenceId: number): Promise<SequenceEnrollment[]> {
+    return db
+      .select()
+      .from(sequenceEnrollments)
+      .where(eq(sequenceEnrollments.sequenceId, sequenceId))
+      .orderBy(desc(sequenceEnrollments.startedAt));
+  }
+
+  async getSequenceEnrollmentsByEmail(userId: number, email: string): Promise<SequenceEnrollment[]> {
+    return db
+      .select()
+      .from(sequenceEnrollments)
+      .where(and(eq(sequenceEnrollments.userId, userId), eq(sequenceEnrollments.email, email.toLowerCase())));
+  }
+
+  async createSequenceEnrollment(insertEnrollment: InsertSequenceEnrollment): Promise<SequenceEnrollment | undefined> {
+    const [enrollment] = await db
+      .insert(sequenceEnrollments)
+      .values({ ...insertEnrollment, email: insertEnrollment.email.toLowerCase() })
+      .onConflictDoNothing({ target: [sequenceEnrollments.sequenceId, sequenceEnrollments.contactId] })
+      .returning();
+
+    return enrollment;
+  }
+
+  async updateSequenceEnrollment(id: number, enrollmentData: Partial<SequenceEnrollment>): Promise<SequenceEnrollment | undefined> {
+    const [updatedEnrollment] = await db
+      .update(sequenceEnrollments)
+      .set({
+        ...enrollmentData,
+        updatedAt: new Date()
+      })
+      .where(eq(sequenceEnrollments.id, id))
+      .returning();
+
+    return updatedEnrollment;
+  }
+
+  // Sender identity operations
+  async getSenderIdentityByUserId(userId: number): Promise<SenderIdentity | undefined> {
+    const [identity] = await db.select().from(senderIdentities).where(eq(senderIdentities.userId, userId));
+    return identity;
+  }
+
+  async getSenderIdentityByToken(token: string): Promise<SenderIdentity | undefined> {
+    const [identity] = await db.select().from(senderIdentities).where(eq(senderIdentities.verificationToken, token));
+    return identity;
+  }
+
+  async createSenderIdentity(insertIdentity: InsertSenderIdentity): Promise<SenderIdentity> {
+    const [identity] = await db
+      .insert(senderIdentities)
+      .values(insertIdentity)
+      .returning();
+
+    return identity;
+  }
+
+  async updateSenderIdentity(id: number, identityData: Partial<SenderIdentity>): Promise<SenderIdentity | undefined> {
+    const [updatedIdentity] = await db
+      .update(senderIdentities)
+      .set({
+        ...identityData,
+        updatedAt: new Date()
+      })
+      .where(eq(senderIdentities.id, id))
+      .returning();
+
+    return updatedIdentity;
+  }
+
+  // Asset operations
+  async getAsset(id: number): Promise<Asset | undefined> {
+    const [asset] = await db.select().from(assets).where(eq(assets.id, id));
+    return asset;
+  }
+
+  async getAssetByKey(key: string): Promise<Asset | undefined> {
+    const [asset] = await db.select().from(assets).where(eq(assets.key, key));
+    return asset;
+  }
+
+  async getAssetsByUserId(userId: number, kind?: AssetKind): Promise<Asset[]> {
+    const conditions = [eq(assets.userId, userId)];
+    if (kind) conditions.push(eq(assets.kind, kind));
+
+    return db
+      .select()
+      .from(assets)
+      .where(and(...conditions))
+      .orderBy(desc(assets.createdAt));
+  }
+
+  async getAssetsByReference(reference: AssetReference): Promise<Asset[]> {
+    return db
+      .select()
+      .from(assets)
+      .where(sql`${assets.references} @> ${JSON.stringify([reference])}::jsonb`);
+  }
+
+  async getUnreferencedAssets(createdBefore: Date): Promise<Asset[]> {
+    return db
+      .select()
+      .from(assets)
+      .where(and(
+        sql`jsonb_array_length(${assets.references}) = 0`,
+        lte(assets.createdAt, createdBefore)
+      ))
+      .orderBy(asc(assets.createdAt));
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const [asset] = await db
+      .insert(assets)
+      .values(insertAsset)
+      .returning();
+
+    return asset;
+  }
+
+  async updateAsset(id: number, assetData: Partial<Asset>): Promise<Asset | undefined> {
+    const [updatedAsset] = await db
+      .update(assets)
+      .set({
+        ...assetData,
+        updatedAt: new Date()
+      })
+      .where(eq(assets.id, id))
+      .returning();
+
+    return updatedAsset;
+  }
+
+  async deleteAsset(id: number): Promise<boolean> {
+    const result = await db
+      .delete(assets)
+      .where(eq(assets.id, id))
+      .returning({ id: assets.id });
+
+    return result.length > 0;
+  }
+
+  // Job queue operations
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values(insertJob)
+      .returning();
+
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getDueJobs(now: Date, staleBefore: Date, limit: number): Promise<Job[]> {
+    return db
+      .select()
+      .from(jobs)
+      .where(or(
+        and(eq(jobs.status, 'pending'), lte(jobs.runAt, now)),
+        and(eq(jobs.status, 'running'), lte(jobs.lockedAt, staleBefore))
+      ))
+      .orderBy(asc(jobs.runAt))
+      .limit(limit);
+  }
+
+  async claimJob(job: Job, now: Date): Promise<Job | undefined> {
+    // Only succeeds if no other worker has claimed the job since it was read
+    const [claimedJob] = await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        lockedAt: now,
+        attempts: job.attempts + 1,
+        updatedAt: now
+      })
+      .where(and(
+        eq(jobs.id, job.id),
+        eq(jobs.status, job.status),
+        eq(jobs.attempts, job.attempts)
+      ))
+      .returning();
+
+    return claimedJob;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({
+        ...jobData,
+        updatedAt: new Date()
+      })
+      .where(eq(jobs.id, id))
+      .returning();
+
+    return updatedJob;
+  }
+
+  async cancelJobs(key: string): Promise<number> {
+    const result = await db
+      .update(jobs)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(jobs.key, key), eq(jobs.status, 'pending')))
+      .returning({ id: jobs.id });
+
+    return result.length;
+  }
+}
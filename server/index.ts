@@ -3,7 +3,16 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Raised from the 100kb default so contact CSV imports fit in a request
+app.use(express.json({
+  limit: "5mb",
+  // Signed webhooks are verified against the exact bytes that were sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith("/api/marketing/events")) {
+      (req as Request).rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Add enhanced CORS middleware with production-ready settings
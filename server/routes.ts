@@ -10,7 +10,9 @@ import {
   insertNotificationPreferencesSchema,
   insertLotSchema,
   insertMapSettingsSchema,
-  updateLotSchema
+  updateLotSchema,
+  listingSearchSchema,
+  type InsertMapSettings
 } from "@shared/schema";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
@@ -25,8 +27,32 @@ import { registerThemeRoutes } from "./routes/theme";
 import { registerSupabaseRoutes } from "./routes/supabase";
 import { registerAuthRoutes, supabaseAuth } from "./routes/auth";
 import { EmailService } from "./services/emailService";
+import { MarketingEmailService } from "./services/marketingEmailService";
 import { registerUserRoutes } from "./routes/user";
 import { registerListingsRoutes } from "./routes/listings";
+import { registerAssetRoutes } from "./routes/assets";
+import { registerLeadRoutes } from "./routes/leads";
+import { registerDashboardRoutes } from "./routes/dashboard";
+import { registerAnalyticsRoutes } from "./routes/analytics";
+import { registerCampaignRoutes } from "./routes/campaigns";
+import { registerContactRoutes } from "./routes/contacts";
+import { registerUnsubscribeRoutes } from "./routes/unsubscribe";
+import { registerSenderRoutes } from "./routes/sender";
+import { registerDigestRoutes } from "./routes/digests";
+import { registerEmailEventRoutes } from "./routes/emailEvents";
+import { registerDevOutboxRoutes } from "./routes/devOutbox";
+import { registerSequenceRoutes } from "./routes/sequences";
+import { registerInboundEmailRoutes } from "./routes/inboundEmail";
+import { registerPublicListingRoutes } from "./routes/publicListings";
+import { registerListingImportRoutes } from "./routes/listingImports";
+import { registerListingFeedRoutes } from "./routes/listingFeeds";
+import { registerOpenHouseRoutes } from "./routes/openHouses";
+import { registerListingFlyerRoutes } from "./routes/listingFlyers";
+import { JobQueue } from "./services/jobQueue";
+import { AssetService } from "./services/assetService";
+import { InvalidCursorError, ListingSearchService } from "./services/listingSearchService";
+import { ListingHistoryService } from "./services/listingHistoryService";
+import { CampaignService } from "./services/campaignService";
 
 const SessionStore = MemoryStore(session);
 
@@ -272,6 +298,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Keeps track of which uploaded files each listing, map, profile and post uses
+  const assetService = new AssetService(storage);
+  const listingSearchService = new ListingSearchService(storage);
+  const listingHistoryService = new ListingHistoryService(storage);
+  const campaignService = new CampaignService(storage);
+
   // Auth middleware
   const isAuthenticated = async (req: Request, res: Response, next: any) => {
     // First try Supabase auth
@@ -457,6 +489,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Search a user's public listings, for their profile page
+  app.get("/api/users/:username/listings/search", async (req, res) => {
+    try {
+      const result = listingSearchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid search", errors: result.error.errors });
+      }
+
+      const user = await storage.getUserByUsername(req.params.username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await listingSearchService.search(user.id, result.data, { publicOnly: true }));
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error searching user listings:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   // Get theme settings for a user by username (public)
   app.get("/api/users/:username/theme", async (req, res) => {
     try {
@@ -532,6 +587,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
+
+      if (updateData.profileImage !== undefined) {
+        await assetService.setReferences(user.id, { type: "user", id: user.id }, [updatedUser.profileImage]);
+      }
       
       res.json({
         id: updatedUser.id,
@@ -737,6 +796,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search, filter and page through the agent's own listings, including hidden ones
+  app.get("/api/listings/search", isAuthenticated, async (req, res) => {
+    try {
+      const result = listingSearchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid search", errors: result.error.errors });
+      }
+
+      const user: any = req.user;
+      res.json(await listingSearchService.search(user.id, result.data));
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error searching listings:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.get("/api/listings/:id", isAuthenticated, async (req, res) => {
     try {
       const listing = await storage.getListing(parseInt(req.params.id));
@@ -765,6 +843,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const listing = await storage.createListing(listingData);
+      await listingHistoryService.recordCreated(listing, user.id);
+      await assetService.setReferences(user.id, { type: "listing", id: listing.id }, listing.images || []);
       res.status(201).json(listing);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -788,13 +868,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to update this listing" });
       }
       
-      const updatedListing = await storage.updateListing(listingId, req.body);
+      // Only listing fields go through; the owner, ID and timestamps can't be changed this way
+      const result = insertListingSchema.partial().omit({ userId: true }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid input data", errors: result.error.errors });
+      }
+
+      const updatedListing = await storage.updateListing(listingId, result.data);
+      if (updatedListing) {
+        await listingHistoryService.recordChanges(listing, updatedListing, user.id);
+      }
+      if (updatedListing && result.data.images !== undefined) {
+        await assetService.setReferences(user.id, { type: "listing", id: listingId }, updatedListing.images || []);
+      }
       res.json(updatedListing);
     } catch (error) {
       res.status(500).json({ message: "Server error" });
     }
   });
 
+  // Price, status, visibility and description changes, oldest first, with days on market
+  app.get("/api/listings/:id/history", isAuthenticated, async (req, res) => {
+    try {
+      const listing = await storage.getListing(parseInt(req.params.id));
+      
+      if (!listing) {
+        return res.status(404).json({ message: "Listing not found" });
+      }
+      
+      const user: any = req.user;
+      if (listing.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this listing" });
+      }
+      
+      res.json(await listingHistoryService.getHistory(listing));
+    } catch (error) {
+      console.error("Error fetching listing history:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   app.delete("/api/listings/:id", isAuthenticated, async (req, res) => {
     try {
       const listingId = parseInt(req.params.id);
@@ -810,6 +923,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteListing(listingId);
+      await assetService.releaseReferences({ type: "listing", id: listingId });
       res.json({ message: "Listing deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Server error" });
@@ -834,6 +948,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         userId: user.id
       });
+
+      const validation = MarketingEmailService.validateTemplate(templateData.subject, templateData.content, templateData.kind);
+      const problems = MarketingEmailService.describeTemplateProblems(validation);
+      if (problems) {
+        return res.status(400).json({ message: problems, ...validation });
+      }
       
       const template = await storage.createEmailTemplate(templateData);
       res.status(201).json(template);
@@ -858,6 +978,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (template.userId !== user.id) {
         return res.status(403).json({ message: "You don't have permission to update this template" });
       }
+
+      const validation = MarketingEmailService.validateTemplate(
+        req.body.subject ?? template.subject,
+        req.body.content ?? template.content,
+        req.body.kind ?? template.kind
+      );
+      const problems = MarketingEmailService.describeTemplateProblems(validation);
+      if (problems) {
+        return res.status(400).json({ message: problems, ...validation });
+      }
       
       const updatedTemplate = await storage.updateEmailTemplate(templateId, req.body);
       res.json(updatedTemplate);
@@ -879,6 +1009,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (template.userId !== user.id) {
         return res.status(403).json({ message: "You don't have permission to delete this template" });
       }
+
+      const templateUse = await campaignService.findTemplateUse(user.id, templateId);
+      if (templateUse) {
+        return res.status(409).json({ message: templateUse });
+      }
       
       await storage.deleteEmailTemplate(templateId);
       res.json({ message: "Email template deleted successfully" });
@@ -907,6 +1042,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const content = await storage.createSocialContent(contentData);
+      await assetService.setReferences(user.id, { type: "social_content", id: content.id }, [content.image]);
       res.status(201).json(content);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -931,6 +1067,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteSocialContent(contentId);
+      await assetService.releaseReferences({ type: "social_content", id: contentId });
       res.json({ message: "Social content deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Server error" });
@@ -1025,6 +1162,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs such as scheduled campaign delivery; handlers are registered by the route modules
+  const jobQueue = new JobQueue(storage);
+
   // Register custom route handlers for email and marketing features
   registerEmailRoutes(app, storage);
   registerMarketingRoutes(app, storage);
@@ -1033,6 +1173,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerAuthRoutes(app);
   registerUserRoutes(app);
   registerListingsRoutes(app);
+  registerAssetRoutes(app, storage, jobQueue);
+  registerLeadRoutes(app, storage, jobQueue);
+  registerDashboardRoutes(app, storage);
+  registerAnalyticsRoutes(app, storage);
+  registerContactRoutes(app, storage, jobQueue);
+  registerUnsubscribeRoutes(app, storage);
+  registerSenderRoutes(app, storage);
+  registerEmailEventRoutes(app, storage);
+  registerPublicListingRoutes(app, storage);
+  registerListingImportRoutes(app, storage);
+  registerListingFeedRoutes(app, storage);
+  registerOpenHouseRoutes(app, storage, jobQueue);
+  registerListingFlyerRoutes(app, storage);
+
+  if (app.get("env") === "development") {
+    registerDevOutboxRoutes(app);
+  }
+
+  registerCampaignRoutes(app, storage, jobQueue);
+  registerDigestRoutes(app, storage, jobQueue);
+  registerSequenceRoutes(app, storage, jobQueue);
+  registerInboundEmailRoutes(app, storage, jobQueue);
+  jobQueue.start();
 
   // Set up site URL if not set - used in email links
   if (!process.env.SITE_URL) {
@@ -1236,11 +1399,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...newSettings,
           id: req.body.id
         });
+        await assetService.setReferences(req.session.user.id, { type: "map", id: req.body.id }, [updated?.backgroundImage]);
         return res.json(updated);
       }
       
       // Creating new settings
       const settings = await storage.createMapSettings(newSettings);
+      await assetService.setReferences(req.session.user.id, { type: "map", id: settings.id }, [settings.backgroundImage]);
       res.status(201).json(settings);
     } catch (error) {
       console.error("Error creating/updating map settings:", error);
@@ -1252,6 +1417,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Change some of a map's settings, e.g. its background image
+  app.patch("/api/map-settings/:id", async (req, res) => {
+    try {
+      if (!req.session.user) {
+        return res.status(401).json({ message: "Unauthorized - Please log in" });
+      }
+
+      const settingsId = parseInt(req.params.id);
+      const existingSettings = await storage.getMapSettingsById(settingsId);
+      if (!existingSettings) {
+        return res.status(404).json({ message: "Map settings not found" });
+      }
+
+      if (existingSettings.userId !== req.session.user.id) {
+        return res.status(403).json({ message: "You don't have permission to edit these settings" });
+      }
+
+      const result = insertMapSettingsSchema
+        .pick({ name: true, description: true, isPublic: true })
+        .partial()
+        .extend({ backgroundImage: z.string().nullable().optional() })
+        .safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0].message });
+      }
+
+      const updated = await storage.updateMapSettings({
+        name: existingSettings.name,
+        ...result.data,
+        id: settingsId
+      } as InsertMapSettings & { id: number });
+      if (result.data.backgroundImage !== undefined) {
+        await assetService.setReferences(req.session.user.id, { type: "map", id: settingsId }, [updated?.backgroundImage]);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating map settings:", error);
+      res.status(500).json({ message: "Failed to update map settings" });
+    }
+  });
+
   app.delete("/api/map-settings/:id", async (req, res) => {
     try {
       if (!req.session.user) {
@@ -1271,6 +1477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteMapSettings(settingsId);
+      await assetService.releaseReferences({ type: "map", id: settingsId });
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting map settings:", error);
@@ -0,0 +1,160 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { z } from 'zod';
+import { viewTargetTypes, ViewTargetType } from '@shared/schema';
+import { ViewTrackingService } from '../services/viewTrackingService';
+import { isPublished } from '../utils/listingUrls';
+
+// View or click reported by a public page
+const trackEventSchema = z.object({
+  type: z.enum(viewTargetTypes),
+  username: z.string().optional(),
+  targetId: z.number().int().positive().optional(),
+  visitorId: z.string().max(100).optional(),
+  referrer: z.string().max(500).optional()
+});
+
+const dayString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const viewsQuerySchema = z.object({
+  type: z.enum(viewTargetTypes).optional(),
+  targetId: z.coerce.number().int().nonnegative().optional(),
+  from: dayString.optional(),
+  to: dayString.optional()
+});
+
+const viewsByTargetQuerySchema = z.object({
+  type: z.enum(viewTargetTypes),
+  from: dayString.optional(),
+  to: dayString.optional()
+});
+
+// Find the agent who owns a tracked page, only counting pages that are publicly visible
+const resolveOwnerId = async (
+  storage: IStorage,
+  type: ViewTargetType,
+  username?: string,
+  targetId?: number
+): Promise<number | null> => {
+  switch (type) {
+    case 'profile': {
+      const user = username ? await storage.getUserByUsername(username) : undefined;
+      return user ? user.id : null;
+    }
+    case 'listing': {
+      const listing = targetId ? await storage.getListing(targetId) : undefined;
+      return listing && isPublished(listing) ? listing.userId : null;
+    }
+    case 'lot_map': {
+      const map = targetId ? await storage.getMapSettingsById(targetId) : null;
+      return map && map.isPublic !== false ? map.userId : null;
+    }
+    case 'lot': {
+      const lot = targetId ? await storage.getLot(targetId) : null;
+      if (!lot) return null;
+      const map = await storage.getMapSettingsById(lot.mapId);
+      return map && map.isPublic !== false ? map.userId : null;
+    }
+  }
+};
+
+export function registerAnalyticsRoutes(app: Express, storage: IStorage) {
+  const viewTrackingService = new ViewTrackingService(storage);
+
+  // Record a view of a public profile, listing or lot map, or a click on a lot
+  app.post('/api/track', async (req: Request, res: Response) => {
+    try {
+      const result = trackEventSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid tracking event', errors: result.error.errors });
+      }
+
+      const { type, username, targetId, visitorId, referrer } = result.data;
+      const userAgent = req.get('user-agent') || '';
+
+      // Crawlers and link previews are acknowledged but not counted
+      if (ViewTrackingService.isBot(userAgent)) {
+        return res.status(204).end();
+      }
+
+      const ownerId = await resolveOwnerId(storage, type, username, targetId);
+      if (!ownerId) {
+        return res.status(404).json({ message: 'Tracked page not found' });
+      }
+
+      // Agents browsing their own pages shouldn't inflate their numbers
+      if (req.isAuthenticated() && (req.user as any).id === ownerId) {
+        return res.status(204).end();
+      }
+
+      await viewTrackingService.trackView({
+        ownerId,
+        targetType: type,
+        targetId,
+        visitorId: ViewTrackingService.hashVisitorId(visitorId, req.ip || 'unknown', userAgent),
+        referrer
+      });
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error tracking view:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get total and daily views for the authenticated user, optionally for one target
+  app.get('/api/analytics/views', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = viewsQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid query', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      const { type, ...filter } = result.data;
+      const daily = await viewTrackingService.getDailyStats(user.id, { ...filter, targetType: type });
+
+      res.json({
+        views: daily.reduce((total, stat) => total + stat.views, 0),
+        uniqueVisitors: daily.reduce((total, stat) => total + stat.uniqueVisitors, 0),
+        daily: daily.map(({ day, targetType, targetId, views, uniqueVisitors }) => ({
+          day,
+          targetType,
+          targetId,
+          views,
+          uniqueVisitors
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching views:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get view totals per listing, map or lot for the authenticated user
+  app.get('/api/analytics/views/by-target', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = viewsByTargetQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid query', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      const { type, ...range } = result.data;
+      const totals = await viewTrackingService.getTotalsByTarget(user.id, type, range);
+
+      res.json(totals);
+    } catch (error) {
+      console.error('Error fetching views by target:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -0,0 +1,217 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { IStorage } from '../storage';
+import { Asset, assetKinds, AssetKind, User } from '@shared/schema';
+import { getFileStorage, LocalFileStorage, PRIVATE_KEY_PREFIX } from '../services/fileStorage';
+import { AssetService, ASSET_CLEANUP_JOB } from '../services/assetService';
+import { JobQueue } from '../services/jobQueue';
+import {
+  IMAGE_UPLOAD_MAX_BYTES,
+  IMAGE_UPLOAD_MAX_FILES,
+  ImageUpload,
+  ImageUploadService,
+  ImageValidationError
+} from '../services/imageUploadService';
+
+// Uploads nothing has used after this long are taken to be from abandoned forms
+const UNUSED_ASSET_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const ASSET_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const ASSET_CLEANUP_KEY = 'assets-cleanup';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMAGE_UPLOAD_MAX_BYTES, files: IMAGE_UPLOAD_MAX_FILES }
+});
+
+export function registerAssetRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const assetService = new AssetService(storage);
+  const imageUploadService = new ImageUploadService(assetService);
+
+  // Replaces the queued run, so restarts and other servers don't add cleanups of their own
+  const scheduleCleanup = async (runAt: Date) => {
+    await jobQueue.cancel(ASSET_CLEANUP_KEY);
+    await jobQueue.enqueue(ASSET_CLEANUP_JOB, {}, { runAt, key: ASSET_CLEANUP_KEY });
+  };
+
+  // Clear out unused uploads once an hour
+  jobQueue.register(ASSET_CLEANUP_JOB, async () => {
+    await scheduleCleanup(new Date(Date.now() + ASSET_CLEANUP_INTERVAL_MS));
+    const deleted = await assetService.deleteUnreferenced(new Date(Date.now() - UNUSED_ASSET_MAX_AGE_MS));
+    if (deleted > 0) console.log(`Deleted ${deleted} unused uploads`);
+  });
+  scheduleCleanup(new Date()).catch((error) => console.error('Error scheduling upload cleanup:', error));
+
+  // Files written by the local driver are served by the app itself; S3 serves its own.
+  // Private files are kept outside the public directory and are only sent with a valid signature.
+  const fileStorage = getFileStorage();
+  if (fileStorage instanceof LocalFileStorage) {
+    const localStorage = fileStorage;
+    app.get(`${localStorage.publicPath}/${PRIVATE_KEY_PREFIX}*`, (req: Request, res: Response) => {
+      const key = `${PRIVATE_KEY_PREFIX}${req.params[0]}`;
+      const { expires, signature } = req.query;
+      if (typeof expires !== 'string' || typeof signature !== 'string'
+        || !localStorage.verifySignature(key, expires, signature)) {
+        return res.status(403).json({ message: 'This link is invalid or has expired' });
+      }
+
+      res.sendFile(localStorage.filePath(key), { headers: { 'Cache-Control': 'private, max-age=3600' } }, (error) => {
+        if (error && !res.headersSent) res.status(404).json({ message: 'File not found' });
+      });
+    });
+    app.use(localStorage.publicPath, express.static(localStorage.publicDirectory, { immutable: true, maxAge: '365d' }));
+  }
+
+  // Multer's errors are raised before the handler runs, so turn them into the usual 400 responses here
+  const receiveFiles = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    upload.array('files', IMAGE_UPLOAD_MAX_FILES)(req, res, (error: unknown) => {
+      if (!error) return next();
+      if (error instanceof multer.MulterError) {
+        const messages: Partial<Record<multer.ErrorCode, string>> = {
+          LIMIT_FILE_SIZE: `Files must be smaller than ${IMAGE_UPLOAD_MAX_BYTES / 1024 / 1024}MB`,
+          LIMIT_FILE_COUNT: `Upload at most ${IMAGE_UPLOAD_MAX_FILES} files at a time`,
+          LIMIT_UNEXPECTED_FILE: 'Files must be sent in the "files" field'
+        };
+        return res.status(400).json({ message: messages[error.code] || error.message });
+      }
+      next(error);
+    });
+  };
+
+  // Look up an asset and make sure it belongs to the signed-in user
+  const getOwnAsset = async (req: Request, res: Response, action: string): Promise<Asset | null> => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return null;
+    }
+
+    const assetId = parseInt(req.params.id);
+    if (isNaN(assetId)) {
+      res.status(400).json({ message: 'Invalid asset ID' });
+      return null;
+    }
+
+    const asset = await storage.getAsset(assetId);
+    if (!asset) {
+      res.status(404).json({ message: 'File not found' });
+      return null;
+    }
+
+    if (asset.userId !== (req.user as User).id) {
+      res.status(403).json({ message: `Not authorized to ${action} this file` });
+      return null;
+    }
+
+    return asset;
+  };
+
+  // Upload images. Each becomes an asset that is kept once a listing, map, profile or post is saved with its URL.
+  app.post('/api/assets', receiveFiles, async (req: Request, res: Response) => {
+    try {
+      const kind = req.body.kind as AssetKind;
+      if (!assetKinds.includes(kind)) {
+        return res.status(400).json({ message: `Kind must be one of ${assetKinds.join(', ')}` });
+      }
+
+      const files = (req.files as ImageUpload[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: 'No files were uploaded' });
+      }
+
+      // Check every file first so a bad one doesn't leave the others half-stored
+      try {
+        files.forEach((file) => ImageUploadService.validate(file));
+      } catch (error) {
+        if (error instanceof ImageValidationError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const user = req.user as User;
+      const assets: Asset[] = [];
+      try {
+        for (const file of files) {
+          assets.push(await imageUploadService.upload(user.id, kind, file));
+        }
+      } catch (error) {
+        // Don't keep the files that went through before one failed
+        await Promise.all(assets.map((asset) => assetService.delete(asset)));
+        if (error instanceof ImageValidationError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      res.status(201).json({ assets: await Promise.all(assets.map((asset) => assetService.toResponse(asset))) });
+    } catch (error) {
+      console.error('Error uploading files:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // List the user's uploads, newest first
+  app.get('/api/assets', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const kind = req.query.kind as AssetKind | undefined;
+      if (kind && !assetKinds.includes(kind)) {
+        return res.status(400).json({ message: `Kind must be one of ${assetKinds.join(', ')}` });
+      }
+
+      const assets = await storage.getAssetsByUserId((req.user as User).id, kind);
+      res.json(await Promise.all(assets.map((asset) => assetService.toResponse(asset))));
+    } catch (error) {
+      console.error('Error fetching files:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/assets/:id', async (req: Request, res: Response) => {
+    try {
+      const asset = await getOwnAsset(req, res, 'view');
+      if (!asset) return;
+
+      res.json(await assetService.toResponse(asset));
+    } catch (error) {
+      console.error('Error fetching file:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // The permanent URL of a private asset; sends its owner on to a short-lived signed link
+  app.get('/api/assets/:id/file', async (req: Request, res: Response) => {
+    try {
+      const asset = await getOwnAsset(req, res, 'view');
+      if (!asset) return;
+
+      res.redirect(await assetService.signedUrl(asset));
+    } catch (error) {
+      console.error('Error fetching file:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/assets/:id', async (req: Request, res: Response) => {
+    try {
+      const asset = await getOwnAsset(req, res, 'delete');
+      if (!asset) return;
+
+      if ((asset.references as unknown[]).length > 0) {
+        return res.status(409).json({ message: 'This file is still used by a listing, map, profile, post or sent email' });
+      }
+
+      await assetService.delete(asset);
+      res.json({ message: 'File deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting file:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
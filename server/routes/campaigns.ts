@@ -0,0 +1,373 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import {
+  Campaign,
+  CampaignAbTest,
+  CampaignAudience,
+  DigestListingFilter,
+  EmailTemplateKind,
+  insertCampaignSchema,
+  updateCampaignSchema
+} from '@shared/schema';
+import { CampaignService, CAMPAIGN_SEND_JOB } from '../services/campaignService';
+import { JobQueue } from '../services/jobQueue';
+import { MarketingEmailService } from '../services/marketingEmailService';
+import { AssetService } from '../services/assetService';
+
+// Campaign fields the client can set; ownership and status are handled server-side
+const createCampaignSchema = insertCampaignSchema.omit({ userId: true, status: true });
+
+// Make sure the template, listing and segment used by a campaign belong to the user
+const validateReferences = async (
+  storage: IStorage,
+  userId: number,
+  { templateId, listingId, audience }: { templateId?: number; listingId?: number | null; audience?: CampaignAudience }
+): Promise<string | null> => {
+  if (templateId !== undefined) {
+    const template = await storage.getEmailTemplate(templateId);
+    if (!template || template.userId !== userId) return 'Invalid email template';
+  }
+
+  if (listingId) {
+    const listing = await storage.getListing(listingId);
+    if (!listing || listing.userId !== userId) return 'Invalid listing';
+  }
+
+  if (audience?.type === 'segment') {
+    const segment = await storage.getSegment(audience.segmentId);
+    if (!segment || segment.userId !== userId) return 'Invalid segment';
+  }
+
+  return null;
+};
+
+// Make sure every A/B test variant renders with the campaign's template
+const validateAbTest = async (storage: IStorage, templateId: number, abTest?: CampaignAbTest | null): Promise<string | null> => {
+  if (!abTest) return null;
+
+  const template = await storage.getEmailTemplate(templateId);
+  if (!template) return 'Invalid email template';
+
+  for (let index = 0; index < abTest.variants.length; index++) {
+    const variant = abTest.variants[index];
+    const problems = MarketingEmailService.describeTemplateProblems(MarketingEmailService.validateTemplate(
+      variant.subject,
+      variant.content ?? template.content,
+      template.kind as EmailTemplateKind
+    ));
+    if (problems) return `Variant ${index + 1}: ${problems}`;
+  }
+
+  return null;
+};
+
+const UNVERIFIED_SENDER_MESSAGE = 'Please verify your email address before sending marketing emails';
+
+export function registerCampaignRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const campaignService = new CampaignService(storage);
+  const assetService = new AssetService(storage);
+
+  jobQueue.register(CAMPAIGN_SEND_JOB, async (job, context) => {
+    const { campaignId, fromName } = job.payload as { campaignId: number; fromName?: string };
+    let resumeAt: Date | null;
+    try {
+      resumeAt = await campaignService.deliverCampaign(campaignId, context, fromName);
+    } catch (error) {
+      // Out of retries; don't leave the campaign showing as sending forever
+      if (context.isFinalAttempt) {
+        await storage.updateCampaign(campaignId, { status: 'failed' });
+      }
+      throw error;
+    }
+
+    // A/B tests come back once the test window is over to send the winner
+    if (resumeAt) {
+      await jobQueue.enqueue(CAMPAIGN_SEND_JOB, { campaignId, fromName }, { runAt: resumeAt, key: CampaignService.jobKey(campaignId) });
+    }
+  });
+
+  // Replace any queued delivery for a campaign with one at the given time
+  const scheduleDelivery = async (campaign: Campaign, runAt: Date, fromName?: string) => {
+    const key = CampaignService.jobKey(campaign.id);
+    await jobQueue.cancel(key);
+    await jobQueue.enqueue(CAMPAIGN_SEND_JOB, { campaignId: campaign.id, fromName }, { runAt, key });
+  };
+
+  // Load a campaign owned by the authenticated user, sending the error response if it can't be used
+  const getOwnedCampaign = async (req: Request, res: Response, action: string): Promise<Campaign | null> => {
+    const campaignId = parseInt(req.params.id, 10);
+    if (isNaN(campaignId)) {
+      res.status(400).json({ message: 'Invalid campaign ID' });
+      return null;
+    }
+
+    const campaign = await storage.getCampaign(campaignId);
+    if (!campaign) {
+      res.status(404).json({ message: 'Campaign not found' });
+      return null;
+    }
+
+    const user = req.user as any;
+    if (campaign.userId !== user.id) {
+      res.status(403).json({ message: `Not authorized to ${action} this campaign` });
+      return null;
+    }
+
+    return campaign;
+  };
+
+  // Get all campaigns for the authenticated user with their delivery metrics
+  app.get('/api/marketing/campaigns', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      const campaigns = await storage.getCampaignsByUserId(user.id);
+      const campaignsWithMetrics = await Promise.all(campaigns.map(async (campaign) => ({
+        ...campaign,
+        metrics: CampaignService.getMetrics(
+          await storage.getCampaignSends(campaign.id),
+          await storage.getEmailEventsByCampaignId(campaign.id)
+        )
+      })));
+
+      res.json(campaignsWithMetrics);
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get a campaign with its per-recipient send history, link clicks and A/B test results
+  app.get('/api/marketing/campaigns/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const campaign = await getOwnedCampaign(req, res, 'access');
+      if (!campaign) return;
+
+      const sends = await storage.getCampaignSends(campaign.id);
+      const events = await storage.getEmailEventsByCampaignId(campaign.id);
+      const abTest = campaign.abTest as CampaignAbTest | null;
+      res.json({
+        ...campaign,
+        metrics: CampaignService.getMetrics(sends, events),
+        variants: abTest ? CampaignService.getVariantMetrics(abTest, sends, events) : [],
+        links: CampaignService.getLinkClicks(events),
+        sends
+      });
+    } catch (error) {
+      console.error('Error fetching campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Create a draft campaign, or a scheduled one when a send time is given
+  app.post('/api/marketing/campaigns', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = createCampaignSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid campaign data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.scheduledAt && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const referenceError = await validateReferences(storage, user.id, result.data)
+        ?? await validateAbTest(storage, result.data.templateId, result.data.abTest);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const campaign = await storage.createCampaign({
+        ...result.data,
+        userId: user.id,
+        status: result.data.scheduledAt ? 'scheduled' : 'draft'
+      });
+
+      if (result.data.scheduledAt) {
+        await scheduleDelivery(campaign, result.data.scheduledAt, user.fullName || undefined);
+      }
+
+      res.status(201).json(campaign);
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a campaign that hasn't started sending
+  app.put('/api/marketing/campaigns/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const campaign = await getOwnedCampaign(req, res, 'update');
+      if (!campaign) return;
+
+      if (!CampaignService.isEditable(campaign)) {
+        return res.status(409).json({ message: 'Only draft and scheduled campaigns can be edited' });
+      }
+
+      const result = updateCampaignSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid campaign data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.scheduledAt && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      // Variants are checked against the template the campaign will use
+      const referenceError = await validateReferences(storage, user.id, result.data)
+        ?? await validateAbTest(
+          storage,
+          result.data.templateId ?? campaign.templateId,
+          result.data.abTest === undefined ? (campaign.abTest as CampaignAbTest | null) : result.data.abTest
+        );
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      // Setting or clearing the send time moves the campaign between scheduled and draft
+      const status = result.data.scheduledAt === undefined
+        ? campaign.status
+        : result.data.scheduledAt ? 'scheduled' : 'draft';
+
+      const updatedCampaign = await storage.updateCampaign(campaign.id, { ...result.data, status });
+
+      if (updatedCampaign && updatedCampaign.status === 'scheduled' && updatedCampaign.scheduledAt) {
+        await scheduleDelivery(updatedCampaign, updatedCampaign.scheduledAt, user.fullName || undefined);
+      } else {
+        await jobQueue.cancel(CampaignService.jobKey(campaign.id));
+      }
+
+      res.json(updatedCampaign);
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a campaign and its send history
+  app.delete('/api/marketing/campaigns/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const campaign = await getOwnedCampaign(req, res, 'delete');
+      if (!campaign) return;
+
+      if (campaign.status === 'sending') {
+        return res.status(409).json({ message: 'A campaign cannot be deleted while it is sending' });
+      }
+
+      await jobQueue.cancel(CampaignService.jobKey(campaign.id));
+      const deleted = await storage.deleteCampaign(campaign.id);
+      if (deleted) {
+        await assetService.releaseReferences({ type: 'campaign', id: campaign.id });
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete campaign' });
+      }
+    } catch (error) {
+      console.error('Error deleting campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Cancel a scheduled campaign, or an A/B test before the winner goes to the rest of the audience
+  app.post('/api/marketing/campaigns/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const campaign = await getOwnedCampaign(req, res, 'cancel');
+      if (!campaign) return;
+
+      // Conditional, so a campaign whose delivery has just started isn't marked cancelled
+      const updatedCampaign = await storage.updateCampaignIfStatus(campaign.id, ['scheduled', 'testing'], { status: 'cancelled' });
+      if (!updatedCampaign) {
+        return res.status(409).json({ message: 'Only scheduled campaigns and A/B tests waiting for a winner can be cancelled' });
+      }
+
+      await jobQueue.cancel(CampaignService.jobKey(campaign.id));
+      const sends = await storage.getCampaignSends(campaign.id);
+      await Promise.all(sends
+        .filter((send) => send.status === 'pending')
+        .map((send) => storage.updateCampaignSend(send.id, { status: 'cancelled', error: 'Campaign was cancelled' })));
+      res.json(updatedCampaign);
+    } catch (error) {
+      console.error('Error cancelling campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Send a campaign now
+  app.post('/api/marketing/campaigns/:id/send', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+
+      // Check if user is verified before allowing marketing emails
+      if (!user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const campaign = await getOwnedCampaign(req, res, 'send');
+      if (!campaign) return;
+
+      if (!CampaignService.isEditable(campaign)) {
+        return res.status(409).json({ message: 'This campaign has already been sent' });
+      }
+
+      const recipients = await campaignService.resolveAudience(user.id, campaign.audience as CampaignAudience);
+      if (recipients.length === 0) {
+        return res.status(400).json({ message: 'This campaign has no recipients' });
+      }
+
+      const template = await storage.getEmailTemplate(campaign.templateId);
+      if (template?.kind === 'digest') {
+        const listings = await campaignService.selectDigestListings(user.id, (campaign.digestFilter ?? {}) as DigestListingFilter);
+        if (listings.length === 0) {
+          return res.status(400).json({ message: 'No listings match this digest' });
+        }
+      }
+
+      // Checked again as part of the update so a double-click or the scheduled delivery can't start it twice
+      const sendingCampaign = await storage.updateCampaignIfStatus(campaign.id, ['draft', 'scheduled'], {
+        status: 'sending',
+        recipientCount: recipients.length
+      });
+      if (!sendingCampaign) {
+        return res.status(409).json({ message: 'This campaign has already been sent' });
+      }
+
+      // Delivery runs in the background job runner; kick it so the campaign starts right away
+      await scheduleDelivery(campaign, new Date(), user.fullName || undefined);
+      jobQueue.runDueJobs().catch((error) => console.error('Error running background jobs:', error));
+
+      res.status(202).json(sendingCampaign);
+    } catch (error) {
+      console.error('Error sending campaign:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
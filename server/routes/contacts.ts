@@ -0,0 +1,394 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import {
+  Contact,
+  Segment,
+  SegmentFilter,
+  CampaignAudience,
+  insertContactSchema,
+  updateContactSchema,
+  insertSegmentSchema,
+  updateSegmentSchema
+} from '@shared/schema';
+import { ContactService, MAX_IMPORT_ROWS, contactImportFields } from '../services/contactService';
+import { SuppressionService } from '../services/suppressionService';
+import { SequenceService } from '../services/sequenceService';
+import { JobQueue } from '../services/jobQueue';
+
+// Contact fields the client can set; ownership is handled server-side
+const createContactSchema = insertContactSchema.omit({ userId: true, source: true });
+
+const createSegmentSchema = insertSegmentSchema.omit({ userId: true });
+
+const importContactsSchema = z.object({
+  csv: z.string().min(1, 'The CSV file is empty'),
+  // Omit to have the columns guessed from the header row
+  mapping: z.record(z.enum(contactImportFields), z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  dryRun: z.boolean().optional()
+});
+
+export function registerContactRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const contactService = new ContactService(storage);
+  const suppressionService = new SuppressionService(storage);
+  const sequenceService = new SequenceService(storage, jobQueue);
+
+  // Load a contact or segment owned by the authenticated user, sending the error response if it can't be used
+  const getOwned = async <T extends { userId: number }>(
+    req: Request,
+    res: Response,
+    kind: 'contact' | 'segment',
+    load: (id: number) => Promise<T | undefined>,
+    action: string
+  ): Promise<T | null> => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ message: `Invalid ${kind} ID` });
+      return null;
+    }
+
+    const record = await load(id);
+    if (!record) {
+      res.status(404).json({ message: `${kind === 'contact' ? 'Contact' : 'Segment'} not found` });
+      return null;
+    }
+
+    const user = req.user as any;
+    if (record.userId !== user.id) {
+      res.status(403).json({ message: `Not authorized to ${action} this ${kind}` });
+      return null;
+    }
+
+    return record;
+  };
+
+  // Resolve the optional segmentId query parameter, sending the error response if it is invalid
+  const getSegmentFilter = async (req: Request, res: Response): Promise<SegmentFilter | null | undefined> => {
+    if (req.query.segmentId === undefined) return null;
+
+    const segmentId = parseInt(String(req.query.segmentId), 10);
+    const segment = isNaN(segmentId) ? undefined : await storage.getSegment(segmentId);
+    const user = req.user as any;
+    if (!segment || segment.userId !== user.id) {
+      res.status(400).json({ message: 'Invalid segment' });
+      return undefined;
+    }
+
+    return segment.filter as SegmentFilter;
+  };
+
+  const withCounts = (segment: Segment, contactList: Contact[]) => {
+    const members = contactList.filter((contact) => ContactService.matchesFilter(contact, segment.filter as SegmentFilter));
+    return {
+      ...segment,
+      contactCount: members.length,
+      subscribedCount: members.filter((contact) => contact.subscriptionStatus === 'subscribed').length
+    };
+  };
+
+  // Get the authenticated user's contacts, optionally only those in a segment
+  app.get('/api/marketing/contacts', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const filter = await getSegmentFilter(req, res);
+      if (filter === undefined) return;
+
+      const user = req.user as any;
+      res.json(await contactService.getSegmentContacts(user.id, filter));
+    } catch (error) {
+      console.error('Error fetching contacts:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Export contacts as CSV, optionally only those in a segment
+  app.get('/api/marketing/contacts/export', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const filter = await getSegmentFilter(req, res);
+      if (filter === undefined) return;
+
+      const user = req.user as any;
+      const contactList = await contactService.getSegmentContacts(user.id, filter);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="contacts.csv"');
+      res.send(ContactService.toExportCsv(contactList));
+    } catch (error) {
+      console.error('Error exporting contacts:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Import contacts from CSV text; with dryRun the file is only validated
+  app.post('/api/marketing/contacts/import', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = importContactsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid import data', errors: result.error.errors });
+      }
+
+      const [headers, ...rows] = ContactService.parseCsv(result.data.csv);
+      if (!headers || headers.every((header) => header.trim() === '')) {
+        return res.status(400).json({ message: 'The CSV file has no header row' });
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ message: `Files can have at most ${MAX_IMPORT_ROWS} rows` });
+      }
+
+      const mapping = result.data.mapping || ContactService.guessMapping(headers);
+      const unknownColumns = Object.values(mapping).filter((header) => !headers.includes(header));
+      if (unknownColumns.length > 0) {
+        return res.status(400).json({ message: `Unknown columns: ${unknownColumns.join(', ')}`, headers, mapping });
+      }
+      // A dry run still reports, so the client gets the headers to map the email column by hand
+      if (!mapping.email && !result.data.dryRun) {
+        return res.status(400).json({ message: 'Choose the column that holds email addresses', headers, mapping });
+      }
+
+      const user = req.user as any;
+      const report = await contactService.importContacts(user.id, headers, rows, {
+        mapping,
+        tags: result.data.tags,
+        dryRun: result.data.dryRun,
+        onContactCreated: (contact) => sequenceService.enrollContact(contact)
+      });
+
+      res.json({ headers, mapping, dryRun: !!result.data.dryRun, report });
+    } catch (error) {
+      console.error('Error importing contacts:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Add a contact by hand
+  app.post('/api/marketing/contacts', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = createContactSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid contact data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (await storage.getContactByEmail(user.id, result.data.email)) {
+        return res.status(409).json({ message: 'A contact with this email already exists' });
+      }
+
+      const contact = await storage.createContact({
+        ...result.data,
+        tags: ContactService.normalizeTags(result.data.tags || []),
+        userId: user.id,
+        source: 'manual'
+      });
+      await sequenceService.enrollContact(contact);
+
+      res.status(201).json(contact);
+    } catch (error) {
+      console.error('Error creating contact:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a contact
+  app.put('/api/marketing/contacts/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const contact = await getOwned(req, res, 'contact', (id) => storage.getContact(id), 'update');
+      if (!contact) return;
+
+      const result = updateContactSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid contact data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.email) {
+        const existing = await storage.getContactByEmail(user.id, result.data.email);
+        if (existing && existing.id !== contact.id) {
+          return res.status(409).json({ message: 'A contact with this email already exists' });
+        }
+      }
+
+      // Keep the suppression list in step with the contact's subscription status
+      const { subscriptionStatus } = result.data;
+      if (subscriptionStatus && subscriptionStatus !== contact.subscriptionStatus) {
+        const suppression = await storage.getSuppression(user.id, contact.email);
+        if (subscriptionStatus === 'subscribed' && suppression) {
+          // Only the agent's own opt-outs can be undone; recipients' unsubscribes are final
+          if (suppression.reason !== 'manual') {
+            return res.status(409).json({ message: 'This contact unsubscribed or bounced and cannot be resubscribed' });
+          }
+          await storage.deleteSuppression(suppression.id);
+        } else if (subscriptionStatus !== 'subscribed') {
+          await suppressionService.suppress(user.id, contact.email, subscriptionStatus === 'bounced' ? 'bounced' : 'manual');
+        }
+      }
+
+      const updatedContact = await storage.updateContact(contact.id, {
+        ...result.data,
+        ...(result.data.tags ? { tags: ContactService.normalizeTags(result.data.tags) } : {})
+      });
+      res.json(updatedContact);
+    } catch (error) {
+      console.error('Error updating contact:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a contact
+  app.delete('/api/marketing/contacts/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const contact = await getOwned(req, res, 'contact', (id) => storage.getContact(id), 'delete');
+      if (!contact) return;
+
+      const deleted = await storage.deleteContact(contact.id);
+      if (deleted) {
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete contact' });
+      }
+    } catch (error) {
+      console.error('Error deleting contact:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get the authenticated user's segments with how many contacts each currently matches
+  app.get('/api/marketing/segments', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      const [segmentList, contactList] = await Promise.all([
+        storage.getSegmentsByUserId(user.id),
+        storage.getContactsByUserId(user.id)
+      ]);
+
+      res.json(segmentList.map((segment) => withCounts(segment, contactList)));
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Save a segment
+  app.post('/api/marketing/segments', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = createSegmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid segment data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      const segment = await storage.createSegment({
+        name: result.data.name,
+        filter: { ...result.data.filter, tags: ContactService.normalizeTags(result.data.filter.tags) },
+        userId: user.id
+      });
+
+      res.status(201).json(withCounts(segment, await storage.getContactsByUserId(user.id)));
+    } catch (error) {
+      console.error('Error creating segment:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a segment's name or filter
+  app.put('/api/marketing/segments/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const segment = await getOwned(req, res, 'segment', (id) => storage.getSegment(id), 'update');
+      if (!segment) return;
+
+      const result = updateSegmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid segment data', errors: result.error.errors });
+      }
+
+      const updatedSegment = await storage.updateSegment(segment.id, {
+        ...result.data,
+        ...(result.data.filter
+          ? { filter: { ...result.data.filter, tags: ContactService.normalizeTags(result.data.filter.tags) } }
+          : {})
+      });
+      if (!updatedSegment) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const user = req.user as any;
+      res.json(withCounts(updatedSegment, await storage.getContactsByUserId(user.id)));
+    } catch (error) {
+      console.error('Error updating segment:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a segment that no pending campaign targets
+  app.delete('/api/marketing/segments/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const segment = await getOwned(req, res, 'segment', (id) => storage.getSegment(id), 'delete');
+      if (!segment) return;
+
+      const user = req.user as any;
+      const campaigns = await storage.getCampaignsByUserId(user.id);
+      const inUse = campaigns.some((campaign) => {
+        const audience = campaign.audience as CampaignAudience;
+        return ['draft', 'scheduled', 'sending'].includes(campaign.status) &&
+          audience.type === 'segment' && audience.segmentId === segment.id;
+      });
+      if (inUse) {
+        return res.status(409).json({ message: 'This segment is used by a campaign that has not been sent yet' });
+      }
+
+      const digests = await storage.getDigestsByUserId(user.id);
+      if (digests.some((digest) => digest.segmentId === segment.id)) {
+        return res.status(409).json({ message: 'This segment is used by a weekly digest' });
+      }
+
+      const deleted = await storage.deleteSegment(segment.id);
+      if (deleted) {
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete segment' });
+      }
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
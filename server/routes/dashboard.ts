@@ -0,0 +1,55 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { z } from 'zod';
+import { DashboardStatsService } from '../services/dashboardStatsService';
+
+// Longest range the dashboard reports on, which bounds the monthly series
+const MAX_RANGE_YEARS = 5;
+
+// Optional reporting range; both ends default to the last six months
+const statsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export function registerDashboardRoutes(app: Express, storage: IStorage) {
+  const dashboardStatsService = new DashboardStatsService(storage);
+
+  // Get aggregated stats for the dashboard
+  app.get('/api/dashboard/stats', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    const result = statsQuerySchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({
+        message: 'Invalid date range',
+        errors: result.error.errors
+      });
+    }
+
+    const defaultRange = DashboardStatsService.defaultRange();
+    const from = result.data.from || defaultRange.from;
+    const to = result.data.to || defaultRange.to;
+
+    if (from > to) {
+      return res.status(400).json({ message: 'The start of the date range must be before its end' });
+    }
+
+    const latestTo = new Date(from);
+    latestTo.setUTCFullYear(latestTo.getUTCFullYear() + MAX_RANGE_YEARS);
+    if (to > latestTo) {
+      return res.status(400).json({ message: `The date range can be at most ${MAX_RANGE_YEARS} years long` });
+    }
+
+    try {
+      const user = req.user as any;
+      const stats = await dashboardStatsService.getStats(user.id, { from, to });
+      res.json(stats);
+    } catch (error) {
+      console.error('Error fetching dashboard stats:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import { Express, Request, Response } from 'express';
+import { mailTransport, OutboxEntry, OutboxTransport } from '../services/mailTransport';
+import { escapeHtml } from '../utils/html';
+
+const renderOutboxPage = (entries: OutboxEntry[]) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Outbox (${entries.length})</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; color: #111; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #ddd; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <h1>Outbox</h1>
+  <p>Emails written by the local outbox transport. Nothing here was delivered.</p>
+  <table>
+    <tr><th>Sent</th><th>To</th><th>Subject</th><th></th></tr>
+    ${entries.map((entry) => `<tr>
+      <td>${escapeHtml(new Date(entry.createdAt).toLocaleString())}</td>
+      <td>${escapeHtml(entry.to)}</td>
+      <td><a href="/api/dev/outbox/${entry.id}/html">${escapeHtml(entry.subject)}</a></td>
+      <td><a href="/api/dev/outbox/${entry.id}">JSON</a> · <a href="/api/dev/outbox/${entry.id}/eml">.eml</a></td>
+    </tr>`).join('')}
+  </table>
+</body>
+</html>`;
+
+/**
+ * Dev-only viewer for emails written by the outbox transport; only registered in development
+ */
+export function registerDevOutboxRoutes(app: Express) {
+  if (!(mailTransport instanceof OutboxTransport)) return;
+  const outbox = mailTransport;
+
+  app.get('/api/dev/outbox', async (req: Request, res: Response) => {
+    try {
+      const entries = await outbox.list();
+      // Browsers get a page listing the messages; anything else gets JSON
+      if (req.accepts(['json', 'html']) === 'html') {
+        return res.type('html').send(renderOutboxPage(entries));
+      }
+      res.json(entries);
+    } catch (error) {
+      console.error('Error listing outbox:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/dev/outbox/:id', async (req: Request, res: Response) => {
+    try {
+      const entry = await outbox.get(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error('Error fetching outbox message:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/dev/outbox/:id/html', async (req: Request, res: Response) => {
+    try {
+      const entry = await outbox.get(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      res.type('html').send(entry.html);
+    } catch (error) {
+      console.error('Error fetching outbox message:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/dev/outbox/:id/eml', async (req: Request, res: Response) => {
+    try {
+      const raw = await outbox.getRaw(req.params.id);
+      if (!raw) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+      res.type('message/rfc822')
+        .attachment(`${req.params.id}.eml`)
+        .send(raw);
+    } catch (error) {
+      console.error('Error fetching outbox message:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/dev/outbox', async (req: Request, res: Response) => {
+    try {
+      await outbox.clear();
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error clearing outbox:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  console.log(`Dev outbox viewer available at /api/dev/outbox (${outbox.directory})`);
+}
@@ -0,0 +1,196 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import { Digest, digestListingFilterSchema, insertDigestSchema, updateDigestSchema } from '@shared/schema';
+import { CampaignService } from '../services/campaignService';
+import { DigestService, DIGEST_RUN_JOB } from '../services/digestService';
+import { JobQueue } from '../services/jobQueue';
+
+// Digest fields the client can set; ownership and run times are handled server-side
+const createDigestSchema = insertDigestSchema.omit({ userId: true });
+
+const matchingListingsSchema = z.object({
+  filter: digestListingFilterSchema
+});
+
+const UNVERIFIED_SENDER_MESSAGE = 'Please verify your email address before sending marketing emails';
+
+// Make sure the template and segment used by a digest belong to the user
+const validateReferences = async (
+  storage: IStorage,
+  userId: number,
+  { templateId, segmentId }: { templateId?: number; segmentId?: number }
+): Promise<string | null> => {
+  if (templateId !== undefined) {
+    const template = await storage.getEmailTemplate(templateId);
+    if (!template || template.userId !== userId) return 'Invalid email template';
+    if (template.kind !== 'digest') return 'Digests need a digest template';
+  }
+
+  if (segmentId !== undefined) {
+    const segment = await storage.getSegment(segmentId);
+    if (!segment || segment.userId !== userId) return 'Invalid segment';
+  }
+
+  return null;
+};
+
+export function registerDigestRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const campaignService = new CampaignService(storage);
+  const digestService = new DigestService(storage, jobQueue);
+
+  jobQueue.register(DIGEST_RUN_JOB, (job) => {
+    const { digestId, runAt } = job.payload as { digestId: number; runAt: string };
+    return digestService.runDigest(digestId, new Date(runAt));
+  });
+
+  // Load a digest owned by the authenticated user, sending the error response if it can't be used
+  const getOwnedDigest = async (req: Request, res: Response, action: string): Promise<Digest | null> => {
+    const digestId = parseInt(req.params.id, 10);
+    if (isNaN(digestId)) {
+      res.status(400).json({ message: 'Invalid digest ID' });
+      return null;
+    }
+
+    const digest = await storage.getDigest(digestId);
+    if (!digest) {
+      res.status(404).json({ message: 'Digest not found' });
+      return null;
+    }
+
+    const user = req.user as any;
+    if (digest.userId !== user.id) {
+      res.status(403).json({ message: `Not authorized to ${action} this digest` });
+      return null;
+    }
+
+    return digest;
+  };
+
+  // Get all digests for the authenticated user
+  app.get('/api/marketing/digests', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      const digests = await storage.getDigestsByUserId(user.id);
+      res.json(digests);
+    } catch (error) {
+      console.error('Error fetching digests:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Show which listings a digest filter picks right now
+  app.post('/api/marketing/digests/listings', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = matchingListingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid listing filter', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      const listings = await campaignService.selectDigestListings(user.id, result.data.filter);
+      res.json(listings);
+    } catch (error) {
+      console.error('Error fetching digest listings:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Create a weekly digest; active digests are scheduled right away
+  app.post('/api/marketing/digests', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = createDigestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid digest data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.active !== false && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const referenceError = await validateReferences(storage, user.id, result.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const digest = await storage.createDigest({ ...result.data, userId: user.id });
+      res.status(201).json(await digestService.schedule(digest));
+    } catch (error) {
+      console.error('Error creating digest:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a digest, moving its next run if the schedule changed
+  app.put('/api/marketing/digests/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const digest = await getOwnedDigest(req, res, 'update');
+      if (!digest) return;
+
+      const result = updateDigestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid digest data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.active && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const referenceError = await validateReferences(storage, user.id, result.data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const updatedDigest = await storage.updateDigest(digest.id, result.data);
+      if (!updatedDigest) {
+        return res.status(404).json({ message: 'Digest not found' });
+      }
+
+      res.json(await digestService.schedule(updatedDigest));
+    } catch (error) {
+      console.error('Error updating digest:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a digest; campaigns it already sent are kept
+  app.delete('/api/marketing/digests/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const digest = await getOwnedDigest(req, res, 'delete');
+      if (!digest) return;
+
+      await jobQueue.cancel(DigestService.jobKey(digest.id));
+      const deleted = await storage.deleteDigest(digest.id);
+      if (deleted) {
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete digest' });
+      }
+    } catch (error) {
+      console.error('Error deleting digest:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -2,17 +2,8 @@ import { Express, Request, Response } from 'express';
 import { IStorage } from '../storage';
 import { z } from 'zod';
 import { randomBytes } from 'crypto';
-import { MailService } from '@sendgrid/mail';
 import { User } from '@shared/schema';
-
-// Initialize SendGrid
-const mailService = new MailService();
-if (process.env.SENDGRID_API_KEY) {
-  mailService.setApiKey(process.env.SENDGRID_API_KEY);
-  console.log('SendGrid API key configured successfully');
-} else {
-  console.error('Warning: SENDGRID_API_KEY environment variable is not set');
-}
+import { FROM_EMAIL, mailTransport } from '../services/mailTransport';
 
 // Email templates
 const getVerificationEmailTemplate = (token: string) => {
@@ -94,34 +85,30 @@ const getWelcomeEmailTemplate = (user: User) => {
 
 // Helper function to send emails
 const sendEmail = async (to: string, subject: string, text: string, html: string): Promise<boolean> => {
-  if (!process.env.SENDGRID_API_KEY) {
-    console.error('Error: SENDGRID_API_KEY is not set');
+  if (!mailTransport) {
+    console.error('Error: no mail transport configured');
     return false;
   }
 
   try {
-    await mailService.send({
-      to,
+    await mailTransport.send({
+      to: [to],
       from: {
-        email: 'noreply@homesbin.com',
+        email: FROM_EMAIL,
         name: 'HomesBin'
       },
       subject,
       text,
       html,
-      trackingSettings: {
-        clickTracking: {
-          enable: false
-        },
-        openTracking: {
-          enable: true
-        }
+      tracking: {
+        clicks: false,
+        opens: true
       }
     });
     console.log(`Email sent successfully to: ${to} with subject: ${subject}`);
     return true;
   } catch (error) {
-    console.error('SendGrid email error:', error);
+    console.error('Email error:', error);
     return false;
   }
 };
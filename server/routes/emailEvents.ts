@@ -0,0 +1,55 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import {
+  EmailEventService,
+  EVENT_SIGNATURE_HEADER,
+  EVENT_TIMESTAMP_HEADER
+} from '../services/emailEventService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed JSON body, kept only for signed webhook requests; see server/index.ts
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export function registerEmailEventRoutes(app: Express, storage: IStorage) {
+  const emailEventService = new EmailEventService(storage);
+
+  // SendGrid Event Webhook; public, authenticated by SendGrid's signature
+  app.post('/api/marketing/events', async (req: Request, res: Response) => {
+    try {
+      const publicKey = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+
+      if (publicKey) {
+        const signature = req.get(EVENT_SIGNATURE_HEADER);
+        const timestamp = req.get(EVENT_TIMESTAMP_HEADER);
+        if (!signature || !timestamp || !req.rawBody ||
+            !EmailEventService.verifySignature(publicKey, req.rawBody, signature, timestamp)) {
+          return res.status(403).json({ message: 'Invalid signature' });
+        }
+        if (!EmailEventService.isRecent(timestamp)) {
+          return res.status(403).json({ message: 'Signature has expired' });
+        }
+      } else if (process.env.NODE_ENV === 'production') {
+        return res.status(503).json({ message: 'Event webhook is not configured' });
+      } else {
+        // Lets recorded payloads be posted locally without signing them
+        console.warn('SENDGRID_WEBHOOK_PUBLIC_KEY not set; accepting unsigned email events');
+      }
+
+      if (!Array.isArray(req.body)) {
+        return res.status(400).json({ message: 'Expected an array of events' });
+      }
+
+      const result = await emailEventService.ingest(req.body);
+      res.json(result);
+    } catch (error) {
+      // A non-2xx response makes SendGrid retry the batch; recorded events are skipped on retry
+      console.error('Error ingesting email events:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
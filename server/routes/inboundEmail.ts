@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { Express, Request, Response } from 'express';
+import multer from 'multer';
+import { IStorage } from '../storage';
+import { JobQueue } from '../services/jobQueue';
+import { SequenceService } from '../services/sequenceService';
+
+// Inbound Parse posts each email as a form, attachments included; only the text fields are used
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 20 }
+});
+
+const EMAIL_ADDRESS = /[^\s<>",;]+@[^\s<>",;]+/g;
+
+// "Jane Doe <jane@example.com>" and bare addresses alike
+const parseAddress = (value: string): { email: string; name?: string } | null => {
+  const email = value.match(EMAIL_ADDRESS)?.[0];
+  if (!email) return null;
+  const name = value.slice(0, value.indexOf('<')).trim().replace(/^"|"$/g, '');
+  return { email: email.toLowerCase(), name: value.includes('<') && name ? name : undefined };
+};
+
+// The SMTP envelope lists the real recipients; the To and Cc headers are the fallback
+const getRecipients = (fields: Record<string, string | undefined>): string[] => {
+  try {
+    const envelope = JSON.parse(fields.envelope || '{}');
+    if (Array.isArray(envelope.to) && envelope.to.length > 0) return envelope.to.map(String);
+  } catch (error) {
+    // Fall back to the headers
+  }
+  return [fields.to, fields.cc].flatMap((value) => value?.match(EMAIL_ADDRESS) || []);
+};
+
+// RFC 3834 marks out-of-office and other automatic replies; "no" means a person sent it
+const isAutoReply = (headers = '') => /^auto-submitted:\s*(?!no\b)/im.test(headers);
+
+const keyMatches = (expected: string, actual: unknown) =>
+  typeof actual === 'string'
+  && actual.length === expected.length
+  && crypto.timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+
+export function registerInboundEmailRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const sequenceService = new SequenceService(storage, jobQueue);
+
+  // SendGrid Inbound Parse webhook for mail to INBOUND_EMAIL_DOMAIN, i.e. replies to sequence emails. SendGrid
+  // doesn't sign these, so the URL set up in SendGrid carries INBOUND_EMAIL_KEY as ?key=.
+  app.post('/api/marketing/inbound', upload.any(), async (req: Request, res: Response) => {
+    try {
+      const key = process.env.INBOUND_EMAIL_KEY;
+      if (!key || !process.env.INBOUND_EMAIL_DOMAIN) {
+        return res.status(503).json({ message: 'Inbound email is not configured' });
+      }
+      if (!keyMatches(key, req.query.key)) {
+        return res.status(403).json({ message: 'Invalid key' });
+      }
+
+      const fields = req.body as Record<string, string | undefined>;
+      const from = parseAddress(fields.from || '');
+      if (!from) {
+        return res.json({ handled: false });
+      }
+
+      const handled = await sequenceService.handleReply(getRecipients(fields), {
+        from: from.email,
+        fromName: from.name,
+        subject: fields.subject || '',
+        text: fields.text || '',
+        isAutoReply: isAutoReply(fields.headers)
+      });
+
+      // Mail that isn't a reply we know of is still answered with 200, or SendGrid would keep retrying it
+      res.json({ handled });
+    } catch (error) {
+      console.error('Error handling inbound email:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -0,0 +1,306 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { z } from 'zod';
+import { Lead, Listing, insertLeadSchema, updateLeadSchema, leadStatuses } from '@shared/schema';
+import { EmailService } from '../services/emailService';
+import { LeadSpamService } from '../services/leadSpamService';
+import { SequenceService } from '../services/sequenceService';
+import { JobQueue } from '../services/jobQueue';
+
+// Public contact form submission schema
+const leadSubmissionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  email: z.string().trim().email('A valid email address is required'),
+  phone: z.string().trim().max(50).optional(),
+  message: z.string().trim().max(5000).optional(),
+  listingId: z.number().int().positive().optional(),
+  lotId: z.number().int().positive().optional(),
+  // Spam protection fields
+  website: z.string().optional(),
+  formStartedAt: z.number().optional()
+});
+
+// Attach a short summary of the linked listing and lot so the inbox can show them
+const withLinkedRecords = async (storage: IStorage, userId: number, leadList: Lead[]) => {
+  const listings = await storage.getListingsByUserId(userId);
+  const listingsById = new Map(listings.map((listing) => [listing.id, listing]));
+
+  return Promise.all(leadList.map(async (lead) => {
+    const listing = lead.listingId ? listingsById.get(lead.listingId) : undefined;
+    const lot = lead.lotId ? await storage.getLot(lead.lotId) : null;
+
+    return {
+      ...lead,
+      listing: listing ? { id: listing.id, title: listing.title, address: listing.address } : null,
+      lot: lot ? { id: lot.id, number: lot.number, mapId: lot.mapId } : null
+    };
+  }));
+};
+
+// Make sure linked listings and lots belong to the agent editing the lead
+const validateLinks = async (
+  storage: IStorage,
+  userId: number,
+  links: { listingId?: number | null; lotId?: number | null }
+): Promise<string | null> => {
+  if (links.listingId) {
+    const listing = await storage.getListing(links.listingId);
+    if (!listing || listing.userId !== userId) {
+      return 'Invalid listing';
+    }
+  }
+
+  if (links.lotId) {
+    const lot = await storage.getLot(links.lotId);
+    if (!lot || lot.userId !== userId) {
+      return 'Invalid lot';
+    }
+  }
+
+  return null;
+};
+
+export function registerLeadRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const sequenceService = new SequenceService(storage, jobQueue);
+
+  // Prune rate limit records once an hour
+  setInterval(() => LeadSpamService.cleanupExpiredEntries(), 60 * 60 * 1000).unref();
+
+  // Capture a lead from a public profile contact form
+  app.post('/api/users/:username/leads', async (req: Request, res: Response) => {
+    try {
+      const result = leadSubmissionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid contact form data', errors: result.error.errors });
+      }
+
+      const agent = await storage.getUserByUsername(req.params.username);
+      if (!agent) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const { website, formStartedAt, ...submission } = result.data;
+      const ipAddress = req.ip || 'unknown';
+
+      const spamCheck = LeadSpamService.check({ message: submission.message, website, formStartedAt }, ipAddress);
+      if (!spamCheck.allowed) {
+        console.warn(`Rejected lead for ${agent.username} from ${ipAddress}: ${spamCheck.reason}`);
+
+        if (spamCheck.reason === 'rate_limited') {
+          return res.status(429).json({ message: 'Too many messages sent. Please try again later.' });
+        }
+
+        // Don't tell bots their submission was dropped
+        return res.status(201).json({ message: 'Message sent successfully' });
+      }
+
+      // Only link listings and lots that belong to this agent and are publicly visible
+      let listing: Listing | undefined;
+      if (submission.listingId) {
+        listing = await storage.getListing(submission.listingId);
+        if (!listing || listing.userId !== agent.id || listing.isPublic === false) {
+          return res.status(400).json({ message: 'Invalid listing' });
+        }
+      }
+
+      if (submission.lotId) {
+        const lot = await storage.getLot(submission.lotId);
+        if (!lot || lot.userId !== agent.id) {
+          return res.status(400).json({ message: 'Invalid lot' });
+        }
+      }
+
+      const lead = await storage.createLead({
+        ...submission,
+        userId: agent.id,
+        source: submission.lotId ? 'lot_map' : submission.listingId ? 'listing' : 'profile',
+        ipAddress
+      });
+
+      try {
+        await sequenceService.handleInquiry(lead);
+      } catch (sequenceError) {
+        console.error('Failed to start follow-up sequences for lead:', sequenceError);
+      }
+
+      const preferences = await storage.getNotificationPreferences(agent.id);
+      if (preferences?.newLeadNotifications !== false) {
+        try {
+          await EmailService.sendNewLeadNotification(agent.email, lead, listing);
+        } catch (emailError) {
+          console.error('Failed to send new lead notification:', emailError);
+          // The lead is already saved, so the visitor still gets a success response
+        }
+      }
+
+      res.status(201).json({ message: 'Message sent successfully' });
+    } catch (error) {
+      console.error('Error capturing lead:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get all leads for the authenticated user
+  app.get('/api/leads', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const status = req.query.status as string | undefined;
+      if (status && !(leadStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: 'Invalid lead status' });
+      }
+
+      const user = req.user as any;
+      const userLeads = await storage.getLeadsByUserId(user.id);
+      const filteredLeads = status ? userLeads.filter((lead) => lead.status === status) : userLeads;
+
+      res.json(await withLinkedRecords(storage, user.id, filteredLeads));
+    } catch (error) {
+      console.error('Error fetching leads:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Get a specific lead
+  app.get('/api/leads/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const leadId = parseInt(req.params.id, 10);
+      if (isNaN(leadId)) {
+        return res.status(400).json({ message: 'Invalid lead ID' });
+      }
+
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      const user = req.user as any;
+      if (lead.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to access this lead' });
+      }
+
+      const [leadWithLinks] = await withLinkedRecords(storage, user.id, [lead]);
+      res.json(leadWithLinks);
+    } catch (error) {
+      console.error('Error fetching lead:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Add a lead manually
+  app.post('/api/leads', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      const result = insertLeadSchema.safeParse({
+        ...req.body,
+        userId: user.id,
+        source: 'manual',
+        ipAddress: null
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid lead data', errors: result.error.errors });
+      }
+
+      const linkError = await validateLinks(storage, user.id, result.data);
+      if (linkError) {
+        return res.status(400).json({ message: linkError });
+      }
+
+      const lead = await storage.createLead(result.data);
+      res.status(201).json(lead);
+    } catch (error) {
+      console.error('Error creating lead:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a lead's details, pipeline status, notes or follow-up date
+  app.patch('/api/leads/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const leadId = parseInt(req.params.id, 10);
+      if (isNaN(leadId)) {
+        return res.status(400).json({ message: 'Invalid lead ID' });
+      }
+
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      const user = req.user as any;
+      if (lead.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to update this lead' });
+      }
+
+      const result = updateLeadSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid lead data', errors: result.error.errors });
+      }
+
+      const linkError = await validateLinks(storage, user.id, result.data);
+      if (linkError) {
+        return res.status(400).json({ message: linkError });
+      }
+
+      const updatedLead = await storage.updateLead(leadId, result.data);
+
+      // Once the agent has reached out, automated follow-ups stop
+      if (lead.status === 'new' && result.data.status && result.data.status !== 'new') {
+        await sequenceService.stopForEmail(user.id, lead.email, 'contacted');
+      }
+
+      res.json(updatedLead);
+    } catch (error) {
+      console.error('Error updating lead:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a lead
+  app.delete('/api/leads/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const leadId = parseInt(req.params.id, 10);
+      if (isNaN(leadId)) {
+        return res.status(400).json({ message: 'Invalid lead ID' });
+      }
+
+      const lead = await storage.getLead(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: 'Lead not found' });
+      }
+
+      const user = req.user as any;
+      if (lead.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to delete this lead' });
+      }
+
+      const deleted = await storage.deleteLead(leadId);
+      if (deleted) {
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete lead' });
+      }
+    } catch (error) {
+      console.error('Error deleting lead:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import { Express, NextFunction, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { Listing, User } from '@shared/schema';
+import { formatPrice, summarize } from './publicListings';
+import { escapeHtml } from '../utils/html';
+import { absoluteUrl, getSiteUrl, isPublished, listingPath } from '../utils/listingUrls';
+
+// Everything a feed needs to render, already filtered down to the listings it carries
+interface FeedContext {
+  agent: User;
+  listings: Listing[];
+  feedUrl: string;
+  profileUrl: string;
+  updated: Date;
+}
+
+const agentName = (agent: User) => agent.fullName || agent.username;
+
+const listingUrl = (agent: User, listing: Listing) => `${getSiteUrl()}${listingPath(agent.username, listing)}`;
+
+const listingImages = (listing: Listing) => (listing.images || []).filter(Boolean).map(absoluteUrl);
+
+const imageType = (url: string) => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  return extension === 'png' ? 'image/png' : extension === 'webp' ? 'image/webp' : extension === 'gif' ? 'image/gif' : 'image/jpeg';
+};
+
+// Optional elements are left out rather than written empty
+const element = (name: string, value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? '' : `<${name}>${escapeHtml(String(value))}</${name}>`;
+
+// One element per line at the given indent, skipping the ones left out
+const lines = (indent: string, elements: string[]) =>
+  elements.filter(Boolean).map((value) => `${indent}${value}`).join('\n');
+
+const renderRss = ({ agent, listings, feedUrl, profileUrl, updated }: FeedContext) => {
+  const items = listings.map((listing) => {
+    const url = listingUrl(agent, listing);
+    const [cover] = listingImages(listing);
+    return `    <item>
+${lines('      ', [
+    element('title', `${listing.title} – ${formatPrice(listing.price)}`),
+    element('link', url),
+    `<guid isPermaLink="true">${escapeHtml(url)}</guid>`,
+    element('description', summarize(listing)),
+    element('category', listing.propertyType),
+    listing.createdAt ? element('pubDate', listing.createdAt.toUTCString()) : '',
+    cover ? `<enclosure url="${escapeHtml(cover)}" type="${imageType(cover)}" length="0"/>` : ''
+  ])}
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeHtml(`Listings by ${agentName(agent)}`)}</title>
+    <link>${escapeHtml(profileUrl)}</link>
+    <description>${escapeHtml(`Homes for sale from ${agentName(agent)}`)}</description>
+    <atom:link href="${escapeHtml(feedUrl)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
+
+// JSON Feed 1.1 (https://jsonfeed.org/version/1.1); listing details go in the `_listing` extension
+const renderJsonFeed = ({ agent, listings, feedUrl, profileUrl }: FeedContext) => JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: `Listings by ${agentName(agent)}`,
+  home_page_url: profileUrl,
+  feed_url: feedUrl,
+  description: `Homes for sale from ${agentName(agent)}`,
+  authors: [{ name: agentName(agent), url: profileUrl, avatar: agent.profileImage ? absoluteUrl(agent.profileImage) : undefined }],
+  items: listings.map((listing) => {
+    const images = listingImages(listing);
+    return {
+      id: String(listing.id),
+      url: listingUrl(agent, listing),
+      title: listing.title,
+      summary: summarize(listing),
+      content_text: listing.description || summarize(listing),
+      image: images[0],
+      date_published: listing.createdAt?.toISOString(),
+      date_modified: listing.updatedAt?.toISOString(),
+      tags: [listing.propertyType, listing.status].filter(Boolean),
+      _listing: {
+        mls_id: listing.mlsId ?? undefined,
+        status: listing.status || 'active',
+        price: listing.price,
+        currency: 'USD',
+        bedrooms: listing.bedrooms ?? undefined,
+        bathrooms: listing.bathrooms ?? undefined,
+        square_feet: listing.squareFeet ?? undefined,
+        property_type: listing.propertyType ?? undefined,
+        address: {
+          street: listing.address,
+          city: listing.city,
+          state: listing.state,
+          zip_code: listing.zipCode
+        },
+        images
+      }
+    };
+  })
+}, null, 2);
+
+const PORTAL_STATUSES: Record<string, string> = { active: 'Active', pending: 'Pending', sold: 'Sold' };
+
+// Listing-per-element XML in the shape real estate portals ingest, with the address, price, rooms and photos
+const renderPortalXml = ({ agent, listings }: FeedContext) => {
+  const items = listings.map((listing) => `  <Listing>
+    <Location>
+${lines('      ', [
+    element('StreetAddress', listing.address),
+    element('City', listing.city),
+    element('State', listing.state),
+    element('Zip', listing.zipCode)
+  ])}
+    </Location>
+    <ListingDetails>
+${lines('      ', [
+    element('ListingId', listing.id),
+    element('MlsId', listing.mlsId),
+    element('Status', PORTAL_STATUSES[listing.status || 'active'] || 'Active'),
+    element('Price', listing.price),
+    element('ListingUrl', listingUrl(agent, listing))
+  ])}
+    </ListingDetails>
+    <BasicDetails>
+${lines('      ', [
+    element('PropertyType', listing.propertyType),
+    element('Title', listing.title),
+    element('Description', listing.description),
+    element('Bedrooms', listing.bedrooms),
+    element('Bathrooms', listing.bathrooms),
+    element('LivingArea', listing.squareFeet)
+  ])}
+    </BasicDetails>
+${listingImages(listing).length > 0 ? `    <Pictures>
+${lines('      ', listingImages(listing).map((url, index) =>
+    `<Picture>${element('PictureUrl', url)}${element('Position', index + 1)}</Picture>`))}
+    </Pictures>
+` : ''}    <Agent>
+${lines('      ', [element('Name', agentName(agent)), element('Phone', agent.phone)])}
+    </Agent>
+  </Listing>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Listings>
+${items.join('\n')}
+</Listings>
+`;
+};
+
+// Keyed by the extension in the feed URL
+const feedFormats = new Map<string, { contentType: string; render: (context: FeedContext) => string }>([
+  ['rss', { contentType: 'application/rss+xml; charset=utf-8', render: renderRss }],
+  ['json', { contentType: 'application/feed+json; charset=utf-8', render: renderJsonFeed }],
+  ['xml', { contentType: 'application/xml; charset=utf-8', render: renderPortalXml }]
+]);
+
+const feedPath = (username: string, format: string) => `/${encodeURIComponent(username)}/listings/feed.${format}`;
+
+export function registerListingFeedRoutes(app: Express, storage: IStorage) {
+  // An agent's public listings that are opted in to syndication, as RSS, JSON Feed or portal XML. Feed readers
+  // and portals poll these, so unchanged feeds are answered with 304 Not Modified.
+  app.get('/:username/listings/feed.:format', async (req: Request, res: Response, next: NextFunction) => {
+    const format = feedFormats.get(req.params.format);
+    if (!format) return next();
+
+    try {
+      const agent = await storage.getUserByUsername(req.params.username);
+      if (!agent) {
+        return res.status(404).type('text/plain').send('Feed not found');
+      }
+
+      const listings = (await storage.getListingsByUserId(agent.id))
+        .filter((listing) => listing.syndicate && isPublished(listing))
+        .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id);
+
+      // Listings that drop out of the feed, whether hidden, opted out or deleted, can't move this date back;
+      // the ETag changes with the body, so caches still pick those up
+      const updated = new Date(Math.max(
+        0,
+        ...listings.map((listing) => (listing.updatedAt ?? listing.createdAt)?.getTime() ?? 0)
+      ));
+
+      const body = format.render({
+        agent,
+        listings,
+        feedUrl: `${getSiteUrl()}${feedPath(agent.username, req.params.format)}`,
+        profileUrl: `${getSiteUrl()}/profile/${encodeURIComponent(agent.username)}`,
+        updated
+      });
+
+      res.set({
+        'Content-Type': format.contentType,
+        'Cache-Control': 'public, max-age=300',
+        ETag: `"${createHash('sha1').update(body).digest('base64url')}"`,
+        'Last-Modified': updated.toUTCString()
+      });
+
+      // Compares If-None-Match and If-Modified-Since with the headers just set
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      res.send(body);
+    } catch (error) {
+      console.error('Error building listing feed:', error);
+      res.status(500).type('text/plain').send('Server error');
+    }
+  });
+}
@@ -0,0 +1,46 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { listingFlyerSchema } from '@shared/schema';
+import { FlyerService } from '../services/flyerService';
+import { listingSlug } from '../utils/listingUrls';
+
+export function registerListingFlyerRoutes(app: Express, storage: IStorage) {
+  const flyerService = new FlyerService(storage);
+
+  // Printable PDF of a listing in the chosen layout
+  app.get('/api/listings/:id/flyer.pdf', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const listing = await storage.getListing(parseInt(req.params.id));
+      if (!listing) {
+        return res.status(404).json({ message: 'Listing not found' });
+      }
+
+      const user = req.user as any;
+      if (listing.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to print this listing' });
+      }
+
+      const result = listingFlyerSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid flyer options', errors: result.error.errors });
+      }
+
+      const pdf = await flyerService.render(listing, result.data);
+      const fileName = `${listingSlug(listing) || `listing-${listing.id}`}-${result.data.layout}.pdf`;
+      res
+        .set({
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${fileName}"`,
+          'Cache-Control': 'private, no-cache'
+        })
+        .send(pdf);
+    } catch (error) {
+      console.error('Error generating listing flyer:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
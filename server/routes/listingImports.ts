@@ -0,0 +1,135 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import { listingImportFormats } from '@shared/schema';
+import { ContactService } from '../services/contactService';
+import { AssetService } from '../services/assetService';
+import {
+  InvalidResoFeedError,
+  ListingImportRecord,
+  ListingImportService,
+  MAX_LISTING_IMPORT_ROWS,
+  listingImportFields
+} from '../services/listingImportService';
+
+const importListingsSchema = z.object({
+  format: z.enum(listingImportFormats),
+  // File contents: CSV text, or the RESO JSON as text
+  content: z.string().min(1, 'The file is empty'),
+  fileName: z.string().max(255).optional(),
+  // CSV only; omit to have the columns guessed from the header row
+  mapping: z.record(z.enum(listingImportFields), z.string()).optional(),
+  dryRun: z.boolean().optional()
+});
+
+export function registerListingImportRoutes(app: Express, storage: IStorage) {
+  const listingImportService = new ListingImportService(storage);
+  const assetService = new AssetService(storage);
+
+  // Import listings from CSV or RESO JSON; with dryRun the file is only validated. Both are recorded as jobs.
+  app.post('/api/listing-imports', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = importListingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid import data', errors: result.error.errors });
+      }
+
+      const { format, content, fileName, dryRun } = result.data;
+      let headers: string[] = [];
+      let mapping = result.data.mapping;
+      let records: ListingImportRecord[];
+
+      if (format === 'csv') {
+        const [headerRow, ...rows] = ContactService.parseCsv(content);
+        if (!headerRow || headerRow.every((header) => header.trim() === '')) {
+          return res.status(400).json({ message: 'The CSV file has no header row' });
+        }
+        headers = headerRow;
+        if (rows.length > MAX_LISTING_IMPORT_ROWS) {
+          return res.status(400).json({ message: `Files can have at most ${MAX_LISTING_IMPORT_ROWS} rows` });
+        }
+
+        mapping = mapping || ListingImportService.guessMapping(headers);
+        const unknownColumns = Object.values(mapping).filter((header) => !headers.includes(header));
+        if (unknownColumns.length > 0) {
+          return res.status(400).json({ message: `Unknown columns: ${unknownColumns.join(', ')}`, headers, mapping });
+        }
+        records = ListingImportService.fromCsv(headers, rows, mapping);
+      } else {
+        let feed: unknown;
+        try {
+          feed = JSON.parse(content);
+        } catch {
+          return res.status(400).json({ message: 'The file is not valid JSON' });
+        }
+        records = ListingImportService.fromReso(feed);
+        if (records.length > MAX_LISTING_IMPORT_ROWS) {
+          return res.status(400).json({ message: `Files can have at most ${MAX_LISTING_IMPORT_ROWS} listings` });
+        }
+        // The RESO field names are fixed, so there's nothing to map
+        mapping = undefined;
+      }
+
+      const user = req.user as any;
+      const { report, importJob } = await listingImportService.importListings(user.id, records, {
+        format,
+        fileName,
+        mapping,
+        dryRun,
+        onListingSaved: (listing) =>
+          assetService.setReferences(user.id, { type: 'listing', id: listing.id }, listing.images || [])
+      });
+
+      res.json({ importId: importJob.id, headers, mapping: mapping ?? null, dryRun: !!dryRun, report });
+    } catch (error) {
+      if (error instanceof InvalidResoFeedError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error importing listings:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Past imports, newest first
+  app.get('/api/listing-imports', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      res.json(await storage.getListingImportsByUserId(user.id));
+    } catch (error) {
+      console.error('Error fetching listing imports:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // One import with its per-row errors
+  app.get('/api/listing-imports/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const listingImport = await storage.getListingImport(parseInt(req.params.id));
+      if (!listingImport) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+
+      const user = req.user as any;
+      if (listingImport.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to view this import' });
+      }
+
+      res.json(listingImport);
+    } catch (error) {
+      console.error('Error fetching listing import:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
@@ -1,8 +1,18 @@
 import { Express, Request, Response } from 'express';
 import { IStorage } from '../storage';
 import { z } from 'zod';
-import { EmailTemplate, Listing } from '@shared/schema';
-import { marketingEmailService } from '../services/marketingEmailService';
+import {
+  digestListingFilterSchema,
+  EmailTemplate,
+  EmailTemplateKind,
+  emailTemplateKinds,
+  Listing,
+  User
+} from '@shared/schema';
+import { marketingEmailService, TemplatePreview } from '../services/marketingEmailService';
+import { SuppressionService } from '../services/suppressionService';
+import { CampaignService } from '../services/campaignService';
+import { SenderIdentityService } from '../services/senderIdentityService';
 
 // Define marketing email parameters interface
 interface MarketingEmailParams {
@@ -10,27 +20,126 @@ interface MarketingEmailParams {
   recipients: string[];
   listingId?: number;
   fromName?: string;
-  unsubscribeLink?: string;
 }
 
-// Helper function to send marketing emails
-const sendMarketingEmail = async (params: MarketingEmailParams, template: EmailTemplate, listing?: Listing): Promise<boolean> => {
-  // Process template with listing data if available
-  const { subject, text, html } = marketingEmailService.processTemplate(template, listing);
-  
-  // Send the email using the marketing email service
-  return await marketingEmailService.sendMarketingEmail({
-    subject,
-    text,
-    html,
-    recipients: params.recipients,
-    fromName: params.fromName,
-    listingData: listing,
-    unsubscribeLink: params.unsubscribeLink
-  });
-};
+// Sample data for previews and test sends, plus unsaved edits from the template form
+const previewSchema = z.object({
+  listingId: z.number().int().positive().optional(),
+  contact: z.object({
+    name: z.string().optional(),
+    email: z.string().email()
+  }).optional(),
+  // Digest templates only; when no listing is given, the agent's listings matching this filter are used
+  digestFilter: digestListingFilterSchema.optional(),
+  kind: z.enum(emailTemplateKinds).optional(),
+  subject: z.string().optional(),
+  content: z.string().optional()
+});
 
 export function registerMarketingRoutes(app: Express, storage: IStorage) {
+  const suppressionService = new SuppressionService(storage);
+  const campaignService = new CampaignService(storage);
+
+  // Helper function to send marketing emails; suppressed recipients are skipped
+  const sendMarketingEmail = async (agent: User, params: MarketingEmailParams, template: EmailTemplate, listing?: Listing) => {
+    // Recipients who are saved contacts get their names filled in
+    const contacts = await storage.getContactsByUserId(agent.id);
+    const contactsByEmail = new Map(contacts.map((contact) => [contact.email, contact]));
+    const render = (email?: string) => marketingEmailService.processTemplate(template, listing, {
+      agent,
+      contact: email ? { email, name: contactsByEmail.get(email)?.name } : undefined
+    });
+
+    const outcomes = Object.values(await suppressionService.sendMarketingEmail(agent.id, {
+      ...render(),
+      recipients: params.recipients,
+      fromName: params.fromName,
+      listingData: listing
+    }, { personalize: render }));
+
+    return {
+      sent: outcomes.filter((outcome) => outcome === 'sent').length,
+      failed: outcomes.filter((outcome) => outcome === 'failed').length,
+      suppressed: outcomes.filter((outcome) => outcome === 'suppressed').length
+    };
+  };
+
+  // Reject templates that wouldn't render; responds and returns true when the template is invalid
+  const rejectInvalidTemplate = (res: Response, subject: string, content: string, kind: EmailTemplateKind) => {
+    const validation = marketingEmailService.validateTemplate(subject, content, kind);
+    const message = marketingEmailService.describeTemplateProblems(validation);
+    if (!message) return false;
+
+    res.status(400).json({ message, ...validation });
+    return true;
+  };
+
+  // Render a template with sample data; responds with an error and returns null when it can't be rendered
+  const renderPreview = async (req: Request, res: Response, agent: User, saved?: EmailTemplate): Promise<TemplatePreview | null> => {
+    const result = previewSchema.safeParse(req.body);
+    if (!result.success) {
+      res.status(400).json({ message: 'Invalid preview data', errors: result.error.errors });
+      return null;
+    }
+
+    const { listingId, contact, digestFilter } = result.data;
+    const kind = result.data.kind ?? (saved?.kind as EmailTemplateKind | undefined) ?? 'listing';
+    const template = {
+      subject: result.data.subject ?? saved?.subject ?? '',
+      content: result.data.content ?? saved?.content ?? ''
+    };
+
+    // Unknown variables are reported as unresolved, but syntax errors leave nothing to show
+    const validation = marketingEmailService.validateTemplate(template.subject, template.content, kind);
+    if (validation.errors.length > 0) {
+      res.status(400).json({ message: marketingEmailService.describeTemplateProblems(validation), ...validation });
+      return null;
+    }
+
+    let listing: Listing | undefined;
+    if (listingId) {
+      listing = await storage.getListing(listingId);
+      if (!listing) {
+        res.status(404).json({ message: 'Listing not found' });
+        return null;
+      }
+      if (listing.userId !== agent.id) {
+        res.status(403).json({ message: 'Not authorized to use this listing' });
+        return null;
+      }
+    }
+
+    if (kind === 'digest') {
+      const listings = listing ? [listing] : await campaignService.selectDigestListings(agent.id, digestFilter ?? {});
+      return marketingEmailService.previewTemplate(template, undefined, { listings, agent, contact });
+    }
+
+    return marketingEmailService.previewTemplate(template, listing, { agent, contact });
+  };
+
+  // Look up one of the agent's templates for the :id routes; responds with an error and returns null when it can't
+  const findOwnTemplate = async (req: Request, res: Response, action: string): Promise<EmailTemplate | null> => {
+    const templateId = parseInt(req.params.id, 10);
+    if (isNaN(templateId)) {
+      res.status(400).json({ message: 'Invalid template ID' });
+      return null;
+    }
+
+    const template = await storage.getEmailTemplate(templateId);
+    if (!template) {
+      res.status(404).json({ message: 'Template not found' });
+      return null;
+    }
+
+    const user = req.user as any;
+    if (template.userId !== user.id) {
+      res.status(403).json({ message: `Not authorized to ${action} this template` });
+      return null;
+    }
+
+    return template;
+  };
+
   // Get all email templates for authenticated user
   app.get('/api/marketing/email-templates', async (req: Request, res: Response) => {
     try {
@@ -86,6 +195,7 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
 
       const templateSchema = z.object({
         name: z.string().min(1),
+        kind: z.enum(emailTemplateKinds).default('listing'),
         subject: z.string().min(1),
         content: z.string().min(1)
       });
@@ -95,6 +205,8 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
         return res.status(400).json({ message: 'Invalid template data', errors: result.error.errors });
       }
 
+      if (rejectInvalidTemplate(res, result.data.subject, result.data.content, result.data.kind)) return;
+
       const user = req.user as any;
       const template = await storage.createEmailTemplate({
         ...result.data,
@@ -132,6 +244,7 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
 
       const templateSchema = z.object({
         name: z.string().min(1).optional(),
+        kind: z.enum(emailTemplateKinds).optional(),
         subject: z.string().min(1).optional(),
         content: z.string().min(1).optional()
       });
@@ -141,6 +254,10 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
         return res.status(400).json({ message: 'Invalid template data', errors: result.error.errors });
       }
 
+      const subject = result.data.subject ?? template.subject;
+      const content = result.data.content ?? template.content;
+      if (rejectInvalidTemplate(res, subject, content, result.data.kind ?? template.kind as EmailTemplateKind)) return;
+
       const updatedTemplate = await storage.updateEmailTemplate(templateId, result.data);
       res.json(updatedTemplate);
     } catch (error) {
@@ -171,6 +288,11 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
         return res.status(403).json({ message: 'Not authorized to delete this template' });
       }
 
+      const templateUse = await campaignService.findTemplateUse(user.id, template.id);
+      if (templateUse) {
+        return res.status(409).json({ message: templateUse });
+      }
+
       const deleted = await storage.deleteEmailTemplate(templateId);
       if (deleted) {
         res.status(204).end();
@@ -183,6 +305,80 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
     }
   });
 
+  // Preview a template that hasn't been saved yet
+  app.post('/api/marketing/email-templates/preview', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const preview = await renderPreview(req, res, req.user as User);
+      if (preview) res.json(preview);
+    } catch (error) {
+      console.error('Error previewing email template:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Preview a saved template, optionally with unsaved edits
+  app.post('/api/marketing/email-templates/:id/preview', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const template = await findOwnTemplate(req, res, 'preview');
+      if (!template) return;
+
+      const preview = await renderPreview(req, res, req.user as User, template);
+      if (preview) res.json(preview);
+    } catch (error) {
+      console.error('Error previewing email template:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Send a template preview to the agent's own verified address
+  app.post('/api/marketing/email-templates/:id/send-test', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as User;
+      if (!user.emailVerified) {
+        return res.status(403).json({ message: 'Please verify your email address before sending test emails' });
+      }
+
+      const template = await findOwnTemplate(req, res, 'send');
+      if (!template) return;
+
+      const preview = await renderPreview(req, res, user, template);
+      if (!preview) return;
+
+      // Sent directly rather than through the suppression list, since it only goes to the agent
+      const sender = SenderIdentityService.resolve(user, await storage.getSenderIdentityByUserId(user.id));
+      const sent = await marketingEmailService.sendMarketingEmail({
+        subject: `[Test] ${preview.subject}`,
+        text: preview.text,
+        html: preview.html,
+        recipients: [user.email],
+        fromName: sender.fromName,
+        replyTo: sender.replyTo,
+        signature: sender.signature
+      });
+
+      if (sent) {
+        res.json({ message: `Test email sent to ${user.email}` });
+      } else {
+        res.status(500).json({ message: 'Failed to send test email' });
+      }
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Send a marketing email
   app.post('/api/marketing/send-email', async (req: Request, res: Response) => {
     try {
@@ -194,8 +390,7 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
         templateId: z.number(),
         recipients: z.array(z.string().email()).min(1),
         listingId: z.number().optional(),
-        fromName: z.string().optional(),
-        unsubscribeLink: z.string().url().optional()
+        fromName: z.string().optional()
       });
       
       const result = emailSchema.safeParse(req.body);
@@ -221,6 +416,10 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
         return res.status(403).json({ message: 'Not authorized to use this template' });
       }
 
+      if (template.kind === 'digest') {
+        return res.status(400).json({ message: 'Digest templates can only be sent as campaigns' });
+      }
+
       // Fetch listing data if listing ID is provided
       let listing: Listing | undefined;
       if (result.data.listingId) {
@@ -236,12 +435,12 @@ export function registerMarketingRoutes(app: Express, storage: IStorage) {
       }
 
       // Send the marketing email
-      const emailSent = await sendMarketingEmail(result.data, template, listing);
+      const counts = await sendMarketingEmail(user, result.data, template, listing);
 
-      if (emailSent) {
-        res.json({ message: 'Marketing email sent successfully' });
+      if (counts.sent > 0 || counts.failed === 0) {
+        res.json({ message: 'Marketing email sent successfully', ...counts });
       } else {
-        res.status(500).json({ message: 'Failed to send marketing email' });
+        res.status(500).json({ message: 'Failed to send marketing email', ...counts });
       }
     } catch (error) {
       console.error('Error sending marketing email:', error);
@@ -0,0 +1,245 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { Listing, OpenHouse, insertOpenHouseSchema, openHouseSignInSchema, updateOpenHouseSchema } from '@shared/schema';
+import { OpenHouseService } from '../services/openHouseService';
+import { SequenceService } from '../services/sequenceService';
+import { JobQueue } from '../services/jobQueue';
+import { getSiteUrl, isPublished, listingIdFromParam, listingPath } from '../utils/listingUrls';
+
+// Open houses the client can schedule; the listing and owner come from the URL and session
+const createOpenHouseSchema = insertOpenHouseSchema.omit({ listingId: true, userId: true });
+
+// How long finished open houses stay in an agent's calendar feed
+const CALENDAR_HISTORY_DAYS = 30;
+
+const sendCalendar = (res: Response, fileName: string, calendar: string) => {
+  res
+    .set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${fileName}"`,
+      'Cache-Control': 'public, max-age=300'
+    })
+    .send(calendar);
+};
+
+export function registerOpenHouseRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const openHouseService = new OpenHouseService(storage, new SequenceService(storage, jobQueue));
+
+  // Load a listing owned by the authenticated user, sending the error response if it can't be used
+  const getOwnedListing = async (req: Request, res: Response, id: number): Promise<Listing | undefined> => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return undefined;
+    }
+
+    const listing = await storage.getListing(id);
+    if (!listing) {
+      res.status(404).json({ message: 'Listing not found' });
+      return undefined;
+    }
+
+    const user = req.user as any;
+    if (listing.userId !== user.id) {
+      res.status(403).json({ message: 'Not authorized to manage open houses for this listing' });
+      return undefined;
+    }
+
+    return listing;
+  };
+
+  // Load an open house owned by the authenticated user, sending the error response if it can't be used
+  const getOwnedOpenHouse = async (req: Request, res: Response): Promise<OpenHouse | undefined> => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ message: 'Not authenticated' });
+      return undefined;
+    }
+
+    const openHouse = await storage.getOpenHouse(parseInt(req.params.id));
+    if (!openHouse) {
+      res.status(404).json({ message: 'Open house not found' });
+      return undefined;
+    }
+
+    const user = req.user as any;
+    if (openHouse.userId !== user.id) {
+      res.status(403).json({ message: 'Not authorized to access this open house' });
+      return undefined;
+    }
+
+    return openHouse;
+  };
+
+  // A listing's open houses, soonest first, with how many visitors signed in at each
+  app.get('/api/listings/:id/open-houses', async (req: Request, res: Response) => {
+    try {
+      const listing = await getOwnedListing(req, res, parseInt(req.params.id));
+      if (!listing) return;
+
+      const openHouses = await storage.getOpenHousesByListingId(listing.id);
+      res.json(await Promise.all(openHouses.map(async (openHouse) => ({
+        ...openHouse,
+        visitorCount: (await storage.getOpenHouseVisitsByOpenHouseId(openHouse.id)).length
+      }))));
+    } catch (error) {
+      console.error('Error fetching open houses:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/listings/:id/open-houses', async (req: Request, res: Response) => {
+    try {
+      const listing = await getOwnedListing(req, res, parseInt(req.params.id));
+      if (!listing) return;
+
+      const result = createOpenHouseSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid open house data', errors: result.error.errors });
+      }
+      if (result.data.endsAt <= result.data.startsAt) {
+        return res.status(400).json({ message: 'The open house must end after it starts' });
+      }
+
+      const openHouse = await storage.createOpenHouse({ ...result.data, listingId: listing.id, userId: listing.userId });
+      res.status(201).json(openHouse);
+    } catch (error) {
+      console.error('Error creating open house:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // An open house with the listing it's for, for the sign-in kiosk
+  app.get('/api/open-houses/:id', async (req: Request, res: Response) => {
+    try {
+      const openHouse = await getOwnedOpenHouse(req, res);
+      if (!openHouse) return;
+
+      const listing = await storage.getListing(openHouse.listingId);
+      res.json({ ...openHouse, listing });
+    } catch (error) {
+      console.error('Error fetching open house:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.patch('/api/open-houses/:id', async (req: Request, res: Response) => {
+    try {
+      const openHouse = await getOwnedOpenHouse(req, res);
+      if (!openHouse) return;
+
+      const result = updateOpenHouseSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid open house data', errors: result.error.errors });
+      }
+      if ((result.data.endsAt ?? openHouse.endsAt) <= (result.data.startsAt ?? openHouse.startsAt)) {
+        return res.status(400).json({ message: 'The open house must end after it starts' });
+      }
+
+      res.json(await storage.updateOpenHouse(openHouse.id, result.data));
+    } catch (error) {
+      console.error('Error updating open house:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.delete('/api/open-houses/:id', async (req: Request, res: Response) => {
+    try {
+      const openHouse = await getOwnedOpenHouse(req, res);
+      if (!openHouse) return;
+
+      await storage.deleteOpenHouse(openHouse.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting open house:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Everyone who signed in, in the order they arrived
+  app.get('/api/open-houses/:id/visits', async (req: Request, res: Response) => {
+    try {
+      const openHouse = await getOwnedOpenHouse(req, res);
+      if (!openHouse) return;
+
+      res.json(await openHouseService.getVisitors(openHouse));
+    } catch (error) {
+      console.error('Error fetching open house visitors:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Sign a visitor in from the kiosk, which runs on the agent's signed-in tablet
+  app.post('/api/open-houses/:id/visits', async (req: Request, res: Response) => {
+    try {
+      const openHouse = await getOwnedOpenHouse(req, res);
+      if (!openHouse) return;
+
+      const result = openHouseSignInSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid sign-in', errors: result.error.errors });
+      }
+
+      const { visit } = await openHouseService.signIn(openHouse, result.data);
+      res.status(201).json(visit);
+    } catch (error) {
+      console.error('Error signing in open house visitor:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Calendar of one listing's open houses, linked from its public page
+  app.get('/:username/listings/:listing/open-houses.ics', async (req: Request, res: Response) => {
+    try {
+      const listingId = listingIdFromParam(req.params.listing);
+      const agent = await storage.getUserByUsername(req.params.username);
+      const listing = listingId === null ? undefined : await storage.getListing(listingId);
+
+      if (!agent || !listing || listing.userId !== agent.id || !isPublished(listing)) {
+        return res.status(404).type('text/plain').send('Calendar not found');
+      }
+
+      const url = `${getSiteUrl()}${listingPath(agent.username, listing)}`;
+      const openHouses = await storage.getOpenHousesByListingId(listing.id);
+      sendCalendar(
+        res,
+        `open-houses-${listing.id}.ics`,
+        OpenHouseService.toIcs(`Open houses: ${listing.title}`, openHouses.map((openHouse) => ({ openHouse, listing, url })))
+      );
+    } catch (error) {
+      console.error('Error building open house calendar:', error);
+      res.status(500).type('text/plain').send('Server error');
+    }
+  });
+
+  // Calendar of every open house on an agent's public listings, for subscribing to
+  app.get('/:username/open-houses.ics', async (req: Request, res: Response) => {
+    try {
+      const agent = await storage.getUserByUsername(req.params.username);
+      if (!agent) {
+        return res.status(404).type('text/plain').send('Calendar not found');
+      }
+
+      const since = Date.now() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+      const listings = new Map(
+        (await storage.getListingsByUserId(agent.id))
+          .filter(isPublished)
+          .map((listing) => [listing.id, listing])
+      );
+
+      const entries = (await storage.getOpenHousesByUserId(agent.id))
+        .filter((openHouse) => listings.has(openHouse.listingId) && openHouse.endsAt.getTime() > since)
+        .map((openHouse) => {
+          const listing = listings.get(openHouse.listingId) as Listing;
+          return { openHouse, listing, url: `${getSiteUrl()}${listingPath(agent.username, listing)}` };
+        });
+
+      sendCalendar(
+        res,
+        'open-houses.ics',
+        OpenHouseService.toIcs(`Open houses by ${agent.fullName || agent.username}`, entries)
+      );
+    } catch (error) {
+      console.error('Error building open house calendar:', error);
+      res.status(500).type('text/plain').send('Server error');
+    }
+  });
+}
@@ -0,0 +1,281 @@
+import { Express, NextFunction, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { Listing, OpenHouse, User, UserTheme } from '@shared/schema';
+import { OpenHouseService } from '../services/openHouseService';
+import { escapeHtml, renderPage } from '../utils/html';
+import { absoluteUrl, getSiteUrl, isPublished, listingIdFromParam, listingPath } from '../utils/listingUrls';
+
+const DESCRIPTION_LENGTH = 200;
+
+// Defaults match the user_themes columns, for agents who never opened the theme editor
+const defaultTheme: Pick<UserTheme, 'primaryColor' | 'colorMode' | 'fontFamily' | 'fontSize' | 'borderRadius' | 'customCss'> = {
+  primaryColor: '#4f46e5',
+  colorMode: 'light',
+  fontFamily: 'Inter',
+  fontSize: 16,
+  borderRadius: 8,
+  customCss: null
+};
+
+// Theme values end up inside a <style> block, so only let through what they're supposed to be
+const cssColor = (value: string) => (/^#[0-9a-f]{3,8}$/i.test(value) ? value : defaultTheme.primaryColor);
+const cssFontFamily = (value: string) => value.replace(/[^a-zA-Z0-9 -]/g, '') || defaultTheme.fontFamily;
+
+export const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price);
+
+export const summarize = (listing: Listing) => {
+  const facts = [
+    formatPrice(listing.price),
+    listing.bedrooms != null ? `${listing.bedrooms} bed` : null,
+    listing.bathrooms != null ? `${listing.bathrooms} bath` : null,
+    listing.squareFeet != null ? `${listing.squareFeet.toLocaleString('en-US')} sq ft` : null
+  ].filter(Boolean).join(' · ');
+
+  const text = listing.description ? `${facts}. ${listing.description.replace(/\s+/g, ' ').trim()}` : facts;
+  return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+};
+
+// e.g. { hasPool: true } becomes "Has pool"
+const featureLabel = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Labels of the features a listing has turned on
+export const listingFeatures = (listing: Listing) =>
+  Object.entries((listing.features as Record<string, boolean> | null) || {})
+    .filter(([, enabled]) => enabled)
+    .map(([key]) => featureLabel(key));
+
+/**
+ * Build the schema.org RealEstateListing that search engines read from the page
+ */
+const buildJsonLd = (listing: Listing, agent: User, url: string, images: string[]) => ({
+  '@context': 'https://schema.org',
+  '@type': 'RealEstateListing',
+  name: listing.title,
+  description: listing.description || undefined,
+  url,
+  image: images.length > 0 ? images : undefined,
+  datePosted: listing.createdAt ? listing.createdAt.toISOString() : undefined,
+  dateModified: listing.updatedAt ? listing.updatedAt.toISOString() : undefined,
+  offers: {
+    '@type': 'Offer',
+    price: listing.price,
+    priceCurrency: 'USD',
+    availability: listing.status === 'sold' ? 'https://schema.org/SoldOut' : 'https://schema.org/InStock',
+    seller: {
+      '@type': 'RealEstateAgent',
+      name: agent.fullName || agent.username,
+      telephone: agent.phone || undefined,
+      url: `${getSiteUrl()}/profile/${encodeURIComponent(agent.username)}`
+    }
+  },
+  about: {
+    '@type': 'SingleFamilyResidence',
+    address: {
+      '@type': 'PostalAddress',
+      streetAddress: listing.address,
+      addressLocality: listing.city,
+      addressRegion: listing.state,
+      postalCode: listing.zipCode,
+      addressCountry: 'US'
+    },
+    numberOfBedrooms: listing.bedrooms ?? undefined,
+    numberOfBathroomsTotal: listing.bathrooms ?? undefined,
+    floorSize: listing.squareFeet != null
+      ? { '@type': 'QuantitativeValue', value: listing.squareFeet, unitCode: 'FTK' }
+      : undefined
+  }
+});
+
+// JSON can't end the script block early once every "<" is escaped
+const jsonForScript = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Render a complete listing page. It stands alone rather than going through the React app so that link
+ * previews and search engines, which don't run scripts, see the details and metadata.
+ */
+const renderListingPage = (listing: Listing, agent: User, theme: typeof defaultTheme, openHouses: OpenHouse[]) => {
+  const url = `${getSiteUrl()}${listingPath(agent.username, listing)}`;
+  const images = (listing.images || []).map(absoluteUrl);
+  const title = `${listing.title} | ${formatPrice(listing.price)}`;
+  const description = summarize(listing);
+  const agentName = agent.fullName || agent.username;
+  const address = `${listing.address}, ${listing.city}, ${listing.state} ${listing.zipCode}`;
+  const features = listingFeatures(listing);
+
+  const dark = theme.colorMode === 'dark';
+  const fontFamily = cssFontFamily(theme.fontFamily);
+
+  const facts = [
+    ['Bedrooms', listing.bedrooms],
+    ['Bathrooms', listing.bathrooms],
+    ['Square feet', listing.squareFeet != null ? listing.squareFeet.toLocaleString('en-US') : null],
+    ['Property type', listing.propertyType]
+  ].filter(([, value]) => value != null && value !== '');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    <meta name="description" content="${escapeHtml(description)}">
+    <link rel="canonical" href="${escapeHtml(url)}">
+    <meta property="og:type" content="website">
+    <meta property="og:site_name" content="HomesBin">
+    <meta property="og:title" content="${escapeHtml(title)}">
+    <meta property="og:description" content="${escapeHtml(description)}">
+    <meta property="og:url" content="${escapeHtml(url)}">
+    ${images[0] ? `<meta property="og:image" content="${escapeHtml(images[0])}">
+    <meta property="og:image:alt" content="${escapeHtml(listing.title)}">` : ''}
+    <meta name="twitter:card" content="${images[0] ? 'summary_large_image' : 'summary'}">
+    <meta name="twitter:title" content="${escapeHtml(title)}">
+    <meta name="twitter:description" content="${escapeHtml(description)}">
+    ${images[0] ? `<meta name="twitter:image" content="${escapeHtml(images[0])}">` : ''}
+    <script type="application/ld+json">${jsonForScript(buildJsonLd(listing, agent, url, images))}</script>
+    <link rel="icon" type="image/svg+xml" href="/favicon.svg">
+    <link href="https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily)}:wght@400;600;700&display=swap" rel="stylesheet">
+    <style>
+      :root {
+        --primary: ${cssColor(theme.primaryColor)};
+        --radius: ${Math.max(0, Math.min(theme.borderRadius, 32))}px;
+        --background: ${dark ? '#0f172a' : '#f8fafc'};
+        --surface: ${dark ? '#1e293b' : '#ffffff'};
+        --text: ${dark ? '#f8fafc' : '#0f172a'};
+        --muted: ${dark ? '#cbd5e1' : '#64748b'};
+      }
+      * { box-sizing: border-box; }
+      body { margin: 0; background: var(--background); color: var(--text); font-family: '${fontFamily}', Arial, sans-serif; font-size: ${Math.max(12, Math.min(theme.fontSize, 24))}px; line-height: 1.5; }
+      header { background: var(--primary); color: #fff; padding: 16px 24px; }
+      header a { color: #fff; text-decoration: none; font-weight: 600; }
+      main { max-width: 960px; margin: 0 auto; padding: 24px 16px 48px; }
+      .gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 8px; margin-bottom: 24px; }
+      .gallery img { width: 100%; aspect-ratio: 4 / 3; object-fit: cover; border-radius: var(--radius); display: block; }
+      .gallery img:first-child { grid-column: 1 / -1; aspect-ratio: 16 / 9; }
+      .card { background: var(--surface); border-radius: var(--radius); padding: 24px; margin-bottom: 16px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+      h1 { margin: 0 0 4px; font-size: 1.75em; }
+      .address { color: var(--muted); margin: 0; }
+      .price { color: var(--primary); font-size: 1.75em; font-weight: 700; margin: 12px 0 0; }
+      .status { display: inline-block; background: var(--primary); color: #fff; border-radius: var(--radius); padding: 2px 10px; font-size: 0.8em; text-transform: capitalize; }
+      dl { display: grid; grid-template-columns: repeat(auto-fill, minmax(140px, 1fr)); gap: 12px; margin: 0; }
+      dt { color: var(--muted); font-size: 0.85em; }
+      dd { margin: 0; font-weight: 600; }
+      .description { white-space: pre-line; }
+      ul { columns: 2; margin: 0; padding-left: 20px; }
+      .agent { display: flex; align-items: center; gap: 16px; }
+      .agent img { width: 64px; height: 64px; border-radius: 50%; object-fit: cover; }
+      .agent p { margin: 0; }
+      .open-houses { columns: 1; list-style: none; padding: 0; }
+      .open-houses li { padding: 8px 0; border-bottom: 1px solid rgba(100,116,139,0.2); }
+      .open-houses li:last-child { border-bottom: none; }
+      .open-houses span { color: var(--muted); font-size: 0.9em; }
+      .button { display: inline-block; background: var(--primary); color: #fff; border-radius: var(--radius); padding: 10px 20px; text-decoration: none; margin-top: 12px; margin-right: 8px; }
+    </style>
+    ${theme.customCss ? `<style>${theme.customCss.replace(/<\//g, '<\\/')}</style>` : ''}
+  </head>
+  <body>
+    <header><a href="/profile/${encodeURIComponent(agent.username)}">${escapeHtml(agentName)}</a></header>
+    <main>
+      ${images.length > 0 ? `<div class="gallery">
+        ${images.map((image, index) => `<img src="${escapeHtml(image)}" alt="${escapeHtml(`${listing.title} photo ${index + 1}`)}"${index > 0 ? ' loading="lazy"' : ''}>`).join('\n        ')}
+      </div>` : ''}
+      <section class="card">
+        ${listing.status && listing.status !== 'active' ? `<span class="status">${escapeHtml(listing.status)}</span>` : ''}
+        <h1>${escapeHtml(listing.title)}</h1>
+        <p class="address">${escapeHtml(address)}</p>
+        <p class="price">${escapeHtml(formatPrice(listing.price))}</p>
+      </section>
+      ${openHouses.length > 0 ? `<section class="card">
+        <h2>Open houses</h2>
+        <ul class="open-houses">
+          ${openHouses.map((openHouse) => `<li>
+            <strong>${escapeHtml(OpenHouseService.formatTimes(openHouse))}</strong><br>
+            <span>Hosted by ${escapeHtml(openHouse.hostName)}${openHouse.notes ? ` · ${escapeHtml(openHouse.notes)}` : ''}</span>
+          </li>`).join('\n          ')}
+        </ul>
+        <a class="button" href="${escapeHtml(listingPath(agent.username, listing))}/open-houses.ics">Add to calendar</a>
+      </section>` : ''}
+      ${facts.length > 0 ? `<section class="card">
+        <dl>
+          ${facts.map(([label, value]) => `<div><dt>${label}</dt><dd>${escapeHtml(String(value))}</dd></div>`).join('\n          ')}
+        </dl>
+      </section>` : ''}
+      ${listing.description ? `<section class="card">
+        <h2>About this home</h2>
+        <p class="description">${escapeHtml(listing.description)}</p>
+      </section>` : ''}
+      ${features.length > 0 ? `<section class="card">
+        <h2>Features</h2>
+        <ul>${features.map((feature) => `<li>${escapeHtml(feature)}</li>`).join('')}</ul>
+      </section>` : ''}
+      <section class="card">
+        <div class="agent">
+          ${agent.profileImage ? `<img src="${escapeHtml(absoluteUrl(agent.profileImage))}" alt="${escapeHtml(agentName)}">` : ''}
+          <div>
+            <p><strong>${escapeHtml(agentName)}</strong></p>
+            ${agent.title ? `<p>${escapeHtml(agent.title)}</p>` : ''}
+          </div>
+        </div>
+        ${agent.phone ? `<a class="button" href="tel:${escapeHtml(agent.phone.replace(/[^0-9+]/g, ''))}">Call ${escapeHtml(agent.phone)}</a>` : ''}
+        <a class="button" href="/profile/${encodeURIComponent(agent.username)}">More from ${escapeHtml(agentName)}</a>
+      </section>
+    </main>
+    <script>
+      (function () {
+        var visitorId;
+        try {
+          visitorId = localStorage.getItem('homesbin_visitor_id');
+          if (!visitorId) {
+            visitorId = Date.now().toString(36) + Math.random().toString(36).slice(2);
+            localStorage.setItem('homesbin_visitor_id', visitorId);
+          }
+        } catch (e) {}
+        var body = JSON.stringify({ type: 'listing', targetId: ${listing.id}, visitorId: visitorId, referrer: document.referrer || undefined });
+        if (!(navigator.sendBeacon && navigator.sendBeacon('/api/track', new Blob([body], { type: 'application/json' })))) {
+          fetch('/api/track', { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: body, keepalive: true }).catch(function () {});
+        }
+      })();
+    </script>
+  </body>
+</html>`;
+};
+
+export function registerPublicListingRoutes(app: Express, storage: IStorage) {
+  // Public listing page for buyers and link previews. Anything that isn't a listing ID, such as
+  // /:username/listings/new, is left for the React app.
+  app.get('/:username/listings/:listing', async (req: Request, res: Response, next: NextFunction) => {
+    const listingId = listingIdFromParam(req.params.listing);
+    if (listingId === null) return next();
+
+    try {
+      const agent = await storage.getUserByUsername(req.params.username);
+      const listing = await storage.getListing(listingId);
+
+      // Hidden listings and drafts look the same as missing ones so their existence isn't revealed
+      if (!agent || !listing || listing.userId !== agent.id || !isPublished(listing)) {
+        return res.status(404).send(renderPage('Listing not found', '<p>This listing is no longer available.</p>'));
+      }
+
+      // Old or shortened links, e.g. /jane/listings/12, go to the current address so shares stay consistent
+      const canonicalPath = listingPath(agent.username, listing);
+      if (req.path !== canonicalPath) {
+        const query = req.originalUrl.indexOf('?');
+        return res.redirect(301, canonicalPath + (query === -1 ? '' : req.originalUrl.slice(query)));
+      }
+
+      const theme = await storage.getUserTheme(agent.id);
+      const now = Date.now();
+      const openHouses = (await storage.getOpenHousesByListingId(listing.id))
+        .filter((openHouse) => openHouse.endsAt.getTime() > now);
+      res
+        .set('Cache-Control', 'public, max-age=300')
+        .send(renderListingPage(listing, agent, { ...defaultTheme, ...theme }, openHouses));
+    } catch (error) {
+      console.error('Error showing listing page:', error);
+      res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+  });
+}
@@ -0,0 +1,127 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { SenderIdentity, updateSenderIdentitySchema, User } from '@shared/schema';
+import { SenderIdentityService } from '../services/senderIdentityService';
+import { escapeHtml, renderPage } from '../utils/html';
+
+const INVALID_LINK_BODY =
+  '<p>This confirmation link is invalid or has already been used. You can send a new one from your sender settings.</p>';
+
+export function registerSenderRoutes(app: Express, storage: IStorage) {
+  const senderIdentityService = new SenderIdentityService(storage);
+
+  // The saved settings along with what recipients actually see, so the client can show the defaults
+  const toResponse = (user: User, identity?: SenderIdentity) => ({
+    displayName: identity?.displayName ?? null,
+    replyTo: identity?.replyTo ?? null,
+    replyToVerified: identity?.replyToVerified ?? false,
+    verificationSentAt: identity?.verificationSentAt ?? null,
+    signature: identity?.signature ?? null,
+    accountEmail: user.email,
+    accountEmailVerified: !!user.emailVerified,
+    effective: SenderIdentityService.resolve(user, identity)
+  });
+
+  // Get the authenticated user's sender settings
+  app.get('/api/user/sender', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as User;
+      res.json(toResponse(user, await storage.getSenderIdentityByUserId(user.id)));
+    } catch (error) {
+      console.error('Error fetching sender settings:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update the sender settings; a new reply-to address is emailed a confirmation link
+  app.put('/api/user/sender', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = updateSenderIdentitySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid sender settings', errors: result.error.errors });
+      }
+
+      const user = req.user as User;
+      const { identity, verificationSent } = await senderIdentityService.update(user, result.data);
+      res.json({ ...toResponse(user, identity), verificationSent });
+    } catch (error) {
+      console.error('Error updating sender settings:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Send the reply-to confirmation email again
+  app.post('/api/user/sender/verify/send', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as User;
+      const identity = await storage.getSenderIdentityByUserId(user.id);
+      if (!identity?.replyTo || identity.replyToVerified) {
+        return res.status(409).json({ message: 'There is no reply-to address waiting to be confirmed' });
+      }
+
+      if (!SenderIdentityService.canSendVerification(identity)) {
+        return res.status(429).json({ message: 'A confirmation email was just sent. Please wait a minute before trying again.' });
+      }
+
+      const { verificationSent } = await senderIdentityService.sendVerification(user, identity);
+      if (verificationSent) {
+        res.json({ message: `Confirmation email sent to ${identity.replyTo}` });
+      } else {
+        res.status(500).json({ message: 'Failed to send confirmation email' });
+      }
+    } catch (error) {
+      console.error('Error sending reply-to confirmation email:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Confirmation page; confirming needs a POST so link scanners that open emails don't trigger it
+  app.get('/api/user/sender/verify/:token', async (req: Request, res: Response) => {
+    try {
+      const identity = await storage.getSenderIdentityByToken(req.params.token);
+      if (!identity?.replyTo) {
+        return res.status(400).send(renderPage('Invalid confirmation link', INVALID_LINK_BODY));
+      }
+
+      res.send(renderPage(
+        'Confirm reply-to address',
+        `<p>Send replies to your HomesBin emails to ${escapeHtml(identity.replyTo)}?</p>
+      <form method="post">
+        <button type="submit">Confirm</button>
+      </form>`
+      ));
+    } catch (error) {
+      console.error('Error showing reply-to confirmation page:', error);
+      res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+  });
+
+  app.post('/api/user/sender/verify/:token', async (req: Request, res: Response) => {
+    try {
+      const identity = await senderIdentityService.verify(req.params.token);
+      if (!identity?.replyTo) {
+        return res.status(400).send(renderPage('Invalid confirmation link', INVALID_LINK_BODY));
+      }
+
+      res.send(renderPage(
+        'Reply-to address confirmed',
+        `<p>Replies to your emails will now go to ${escapeHtml(identity.replyTo)}.</p>`
+      ));
+    } catch (error) {
+      console.error('Error confirming reply-to address:', error);
+      res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+  });
+}
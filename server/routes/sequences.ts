@@ -0,0 +1,263 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import {
+  insertSequenceSchema,
+  Sequence,
+  SequenceEnrollment,
+  SequenceStep,
+  updateSequenceSchema
+} from '@shared/schema';
+import { JobQueue } from '../services/jobQueue';
+import { SequenceService, SEQUENCE_STEP_JOB } from '../services/sequenceService';
+import { AssetService } from '../services/assetService';
+
+// Sequence fields the client can set; ownership is handled server-side
+const createSequenceSchema = insertSequenceSchema.omit({ userId: true });
+
+// Agents can stop a contact's sequence by hand, e.g. after a reply by phone
+const stopEnrollmentSchema = z.object({
+  reason: z.enum(['replied', 'manual']).default('manual')
+});
+
+const UNVERIFIED_SENDER_MESSAGE = 'Please verify your email address before sending marketing emails';
+
+// Make sure every email step uses one of the user's single-listing templates
+const validateSteps = async (storage: IStorage, userId: number, steps?: SequenceStep[]): Promise<string | null> => {
+  for (const step of steps || []) {
+    if (step.type !== 'email') continue;
+
+    const template = await storage.getEmailTemplate(step.templateId);
+    if (!template || template.userId !== userId) return 'Invalid email template';
+    if (template.kind === 'digest') return 'Digest templates can only be sent as campaigns';
+  }
+
+  return null;
+};
+
+const hasEmailSteps = (steps?: SequenceStep[]) => !!steps?.some((step) => step.type === 'email');
+
+export function registerSequenceRoutes(app: Express, storage: IStorage, jobQueue: JobQueue) {
+  const sequenceService = new SequenceService(storage, jobQueue);
+  const assetService = new AssetService(storage);
+
+  jobQueue.register(SEQUENCE_STEP_JOB, (job, context) => {
+    const { enrollmentId, step } = job.payload as { enrollmentId: number; step: number };
+    return sequenceService.runStep(enrollmentId, step, context.isFinalAttempt);
+  });
+
+  // Load a sequence owned by the authenticated user, sending the error response if it can't be used
+  const getOwnedSequence = async (req: Request, res: Response, action: string): Promise<Sequence | null> => {
+    const sequenceId = parseInt(req.params.id, 10);
+    if (isNaN(sequenceId)) {
+      res.status(400).json({ message: 'Invalid sequence ID' });
+      return null;
+    }
+
+    const sequence = await storage.getSequence(sequenceId);
+    if (!sequence) {
+      res.status(404).json({ message: 'Sequence not found' });
+      return null;
+    }
+
+    const user = req.user as any;
+    if (sequence.userId !== user.id) {
+      res.status(403).json({ message: `Not authorized to ${action} this sequence` });
+      return null;
+    }
+
+    return sequence;
+  };
+
+  const countEnrollments = (enrollments: SequenceEnrollment[]) => ({
+    active: enrollments.filter((enrollment) => enrollment.status === 'active').length,
+    completed: enrollments.filter((enrollment) => enrollment.status === 'completed').length,
+    stopped: enrollments.filter((enrollment) => enrollment.status === 'stopped').length
+  });
+
+  // Get all sequences for the authenticated user, with how many contacts are in each
+  app.get('/api/marketing/sequences', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const user = req.user as any;
+      const sequences = await storage.getSequencesByUserId(user.id);
+      const withCounts = await Promise.all(sequences.map(async (sequence) => ({
+        ...sequence,
+        enrollments: countEnrollments(await storage.getSequenceEnrollmentsBySequenceId(sequence.id))
+      })));
+
+      res.json(withCounts);
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Create a sequence; contacts added from now on are enrolled
+  app.post('/api/marketing/sequences', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const result = createSequenceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid sequence data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      if (result.data.active !== false && hasEmailSteps(result.data.steps) && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const stepError = await validateSteps(storage, user.id, result.data.steps);
+      if (stepError) {
+        return res.status(400).json({ message: stepError });
+      }
+
+      const sequence = await storage.createSequence({ ...result.data, userId: user.id });
+      res.status(201).json(sequence);
+    } catch (error) {
+      console.error('Error creating sequence:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Update a sequence; enrolled contacts continue with the new steps, and pausing stops them
+  app.put('/api/marketing/sequences/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const sequence = await getOwnedSequence(req, res, 'update');
+      if (!sequence) return;
+
+      const result = updateSequenceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid sequence data', errors: result.error.errors });
+      }
+
+      const user = req.user as any;
+      const active = result.data.active ?? sequence.active;
+      const steps = result.data.steps ?? (sequence.steps as SequenceStep[]);
+      if (active && hasEmailSteps(steps) && !user.emailVerified) {
+        return res.status(403).json({ message: UNVERIFIED_SENDER_MESSAGE });
+      }
+
+      const stepError = await validateSteps(storage, user.id, result.data.steps);
+      if (stepError) {
+        return res.status(400).json({ message: stepError });
+      }
+
+      const updatedSequence = await storage.updateSequence(sequence.id, result.data);
+      if (!updatedSequence) {
+        return res.status(404).json({ message: 'Sequence not found' });
+      }
+
+      if (sequence.active && !updatedSequence.active) {
+        const enrollments = await storage.getSequenceEnrollmentsBySequenceId(sequence.id);
+        for (const enrollment of enrollments.filter((item) => item.status === 'active')) {
+          await sequenceService.stop(enrollment, 'sequence_paused');
+        }
+      }
+
+      res.json(updatedSequence);
+    } catch (error) {
+      console.error('Error updating sequence:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete a sequence and its enrollments; emails already sent are unaffected
+  app.delete('/api/marketing/sequences/:id', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const sequence = await getOwnedSequence(req, res, 'delete');
+      if (!sequence) return;
+
+      const enrollments = await storage.getSequenceEnrollmentsBySequenceId(sequence.id);
+      for (const enrollment of enrollments) {
+        await jobQueue.cancel(SequenceService.jobKey(enrollment.id));
+      }
+
+      const deleted = await storage.deleteSequence(sequence.id);
+      if (deleted) {
+        await assetService.releaseReferences({ type: 'sequence', id: sequence.id });
+        res.status(204).end();
+      } else {
+        res.status(500).json({ message: 'Failed to delete sequence' });
+      }
+    } catch (error) {
+      console.error('Error deleting sequence:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // List the contacts enrolled in a sequence, newest first
+  app.get('/api/marketing/sequences/:id/enrollments', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const sequence = await getOwnedSequence(req, res, 'access');
+      if (!sequence) return;
+
+      const enrollments = await storage.getSequenceEnrollmentsBySequenceId(sequence.id);
+      const withContacts = await Promise.all(enrollments.map(async (enrollment) => {
+        const contact = await storage.getContact(enrollment.contactId);
+        return { ...enrollment, contactName: contact?.name ?? null };
+      }));
+
+      res.json(withContacts);
+    } catch (error) {
+      console.error('Error fetching sequence enrollments:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Stop one contact's sequence
+  app.post('/api/marketing/sequences/enrollments/:id/stop', async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Not authenticated' });
+      }
+
+      const enrollmentId = parseInt(req.params.id, 10);
+      if (isNaN(enrollmentId)) {
+        return res.status(400).json({ message: 'Invalid enrollment ID' });
+      }
+
+      const enrollment = await storage.getSequenceEnrollment(enrollmentId);
+      if (!enrollment) {
+        return res.status(404).json({ message: 'Enrollment not found' });
+      }
+
+      const user = req.user as any;
+      if (enrollment.userId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to stop this enrollment' });
+      }
+
+      if (enrollment.status !== 'active') {
+        return res.status(409).json({ message: 'This sequence has already ended for this contact' });
+      }
+
+      const result = stopEnrollmentSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid stop reason', errors: result.error.errors });
+      }
+
+      res.json(await sequenceService.stop(enrollment, result.data.reason));
+    } catch (error) {
+      console.error('Error stopping sequence enrollment:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+}
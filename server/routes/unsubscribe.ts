@@ -0,0 +1,71 @@
+import { Express, Request, Response } from 'express';
+import { IStorage } from '../storage';
+import { SuppressionService } from '../services/suppressionService';
+import { escapeHtml, renderPage } from '../utils/html';
+
+export function registerUnsubscribeRoutes(app: Express, storage: IStorage) {
+  const suppressionService = new SuppressionService(storage);
+
+  const getSenderName = async (userId: number) => {
+    const sender = await storage.getUser(userId);
+    return sender?.fullName || sender?.username || 'this sender';
+  };
+
+  // Confirmation page; unsubscribing needs a POST so link scanners that open emails don't trigger it
+  app.get('/api/marketing/unsubscribe/:token', async (req: Request, res: Response) => {
+    try {
+      const payload = SuppressionService.verifyUnsubscribeToken(req.params.token);
+      if (!payload) {
+        return res.status(400).send(renderPage(
+          'Invalid unsubscribe link',
+          '<p>This unsubscribe link is invalid or incomplete. Please use the link from the most recent email you received.</p>'
+        ));
+      }
+
+      const senderName = escapeHtml(await getSenderName(payload.userId));
+      const email = escapeHtml(payload.email);
+
+      if (await storage.getSuppression(payload.userId, payload.email)) {
+        return res.send(renderPage(
+          'You are unsubscribed',
+          `<p>${email} no longer receives marketing emails from ${senderName}.</p>`
+        ));
+      }
+
+      res.send(renderPage(
+        'Unsubscribe',
+        `<p>Stop sending marketing emails from ${senderName} to ${email}?</p>
+      <form method="post">
+        <button type="submit">Unsubscribe</button>
+      </form>`
+      ));
+    } catch (error) {
+      console.error('Error showing unsubscribe page:', error);
+      res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+  });
+
+  // Unsubscribe from the confirmation page or a mail client's one-click unsubscribe (RFC 8058)
+  app.post('/api/marketing/unsubscribe/:token', async (req: Request, res: Response) => {
+    try {
+      const payload = SuppressionService.verifyUnsubscribeToken(req.params.token);
+      if (!payload) {
+        return res.status(400).send(renderPage(
+          'Invalid unsubscribe link',
+          '<p>This unsubscribe link is invalid or incomplete. Please use the link from the most recent email you received.</p>'
+        ));
+      }
+
+      await suppressionService.suppress(payload.userId, payload.email, 'unsubscribed', payload.campaignId);
+
+      const senderName = escapeHtml(await getSenderName(payload.userId));
+      res.send(renderPage(
+        'You have been unsubscribed',
+        `<p>${escapeHtml(payload.email)} will no longer receive marketing emails from ${senderName}.</p>`
+      ));
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      res.status(500).send(renderPage('Something went wrong', '<p>Please try again later.</p>'));
+    }
+  });
+}
@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { IStorage } from '../storage';
+import { Asset, AssetKind, AssetReference } from '@shared/schema';
+import { FileStorageDriver, getFileStorage, PRIVATE_KEY_PREFIX } from './fileStorage';
+
+export const ASSET_CLEANUP_JOB = 'assets.cleanup';
+
+// How long signed links to private files keep working
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const kindFolders: Record<AssetKind, string> = {
+  listing_photo: 'listings',
+  map_background: 'maps',
+  profile_image: 'profiles',
+  social_graphic: 'social'
+};
+
+// Private assets are referred to by this URL, which sends their owner on to a fresh signed URL
+const PRIVATE_ASSET_URL = /^\/api\/assets\/(\d+)\/file$/;
+
+export interface AssetFile {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface NewAsset {
+  kind: AssetKind;
+  // Files to store by variant name, e.g. { web, thumb }
+  files: Record<string, AssetFile>;
+  // Variant recorded as the asset's own file; the rest are kept as its other sizes
+  main: string;
+  width?: number;
+  height?: number;
+  isPrivate?: boolean;
+}
+
+export interface AssetResponse {
+  id: number;
+  kind: string;
+  // What records such as listings store to use the asset
+  url: string;
+  // Other sizes by variant name
+  variants: Record<string, string>;
+  // Temporary link that works without signing in; only set for private assets
+  signedUrl?: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  isPrivate: boolean;
+  inUse: boolean;
+  createdAt: Date | null;
+}
+
+const sameReference = (a: AssetReference, b: AssetReference) => a.type === b.type && a.id === b.id;
+
+export class AssetService {
+  constructor(private storage: IStorage, private driver: FileStorageDriver = getFileStorage()) {}
+
+  /**
+   * Store an asset's files and record it. It starts with no references; see setReferences.
+   * @param userId Owner
+   * @param input Files and details of the asset
+   * @returns The recorded asset
+   */
+  async create(userId: number, input: NewAsset): Promise<Asset> {
+    const id = `${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+    const folder = `${input.isPrivate ? PRIVATE_KEY_PREFIX : ''}${kindFolders[input.kind]}/${userId}`;
+    const keys: Record<string, string> = {};
+
+    try {
+      for (const [variant, file] of Object.entries(input.files)) {
+        keys[variant] = `${folder}/${id}-${variant}.${file.extension}`;
+        await this.driver.put(keys[variant], file.body, file.contentType);
+      }
+    } catch (error) {
+      await Promise.all(Object.values(keys).map((key) => this.driver.delete(key).catch(() => undefined)));
+      throw error;
+    }
+
+    const { [input.main]: key, ...variantKeys } = keys;
+    const main = input.files[input.main];
+    return this.storage.createAsset({
+      userId,
+      kind: input.kind,
+      key,
+      variantKeys,
+      mimeType: main.contentType,
+      size: main.body.length,
+      width: input.width ?? null,
+      height: input.height ?? null,
+      isPrivate: !!input.isPrivate,
+      references: []
+    });
+  }
+
+  /**
+   * Get the URL records should store for an asset. Public assets link straight to the file; private ones
+   * link to an endpoint that checks who is asking.
+   * @param asset Asset
+   * @returns Permanent URL
+   */
+  url(asset: Asset): string {
+    return asset.isPrivate ? `/api/assets/${asset.id}/file` : this.driver.url(asset.key);
+  }
+
+  /**
+   * Get a temporary link to an asset's file that works without signing in
+   * @param asset Asset
+   * @param variant Other size to link to instead of the main file
+   * @returns Signed URL
+   */
+  signedUrl(asset: Asset, variant?: string): Promise<string> {
+    return this.driver.signedUrl(this.keyOf(asset, variant), SIGNED_URL_TTL_SECONDS);
+  }
+
+  /**
+   * Describe an asset for API responses
+   * @param asset Asset
+   * @returns URLs and details of the asset
+   */
+  async toResponse(asset: Asset): Promise<AssetResponse> {
+    const variantKeys = asset.variantKeys as Record<string, string>;
+    const variants: Record<string, string> = {};
+    for (const variant of Object.keys(variantKeys)) {
+      variants[variant] = asset.isPrivate
+        ? await this.signedUrl(asset, variant)
+        : this.driver.url(variantKeys[variant]);
+    }
+
+    return {
+      id: asset.id,
+      kind: asset.kind,
+      url: this.url(asset),
+      variants,
+      signedUrl: asset.isPrivate ? await this.signedUrl(asset) : undefined,
+      mimeType: asset.mimeType,
+      size: asset.size,
+      width: asset.width,
+      height: asset.height,
+      isPrivate: asset.isPrivate,
+      inUse: (asset.references as AssetReference[]).length > 0,
+      createdAt: asset.createdAt
+    };
+  }
+
+  /**
+   * Find the asset behind a URL returned by url()
+   * @param url URL stored on a record
+   * @returns The asset, or undefined if the URL isn't an asset (e.g. a link to another site)
+   */
+  async findByUrl(url: string): Promise<Asset | undefined> {
+    const privateMatch = url.match(PRIVATE_ASSET_URL);
+    if (privateMatch) {
+      return this.storage.getAsset(parseInt(privateMatch[1], 10));
+    }
+
+    const key = this.driver.keyFromUrl(url);
+    return key ? this.storage.getAssetByKey(key) : undefined;
+  }
+
+  /**
+   * Record which assets a listing, map, profile or post uses after it's saved. Assets it stopped using are
+   * deleted once nothing else uses them. URLs that aren't the owner's assets are left alone.
+   * @param ownerId Owner of the record; other users' assets are never claimed
+   * @param reference The record
+   * @param urls Every asset URL the record now holds
+   */
+  async setReferences(ownerId: number, reference: AssetReference, urls: (string | null | undefined)[]): Promise<void> {
+    const used = await this.findOwnAssets(ownerId, urls);
+
+    for (const asset of await this.storage.getAssetsByReference(reference)) {
+      if (!used.has(asset.id)) await this.removeReference(asset, reference);
+    }
+
+    for (const asset of Array.from(used.values())) {
+      await this.addReference(asset, reference);
+    }
+  }
+
+  /**
+   * Record that a campaign or sequence sent emails embedding assets. Unlike setReferences, assets it used
+   * before are kept, since the emails that embed them are already out.
+   * @param ownerId Owner of the campaign or sequence; other users' assets are never claimed
+   * @param reference The campaign or sequence
+   * @param urls Asset URLs the emails embed
+   */
+  async addReferences(ownerId: number, reference: AssetReference, urls: (string | null | undefined)[]): Promise<void> {
+    for (const asset of Array.from((await this.findOwnAssets(ownerId, urls)).values())) {
+      await this.addReference(asset, reference);
+    }
+  }
+
+  /**
+   * Drop a deleted record's references, deleting assets that are no longer used anywhere
+   * @param reference The deleted record
+   * @returns How many assets were deleted
+   */
+  async releaseReferences(reference: AssetReference): Promise<number> {
+    let deleted = 0;
+    for (const asset of await this.storage.getAssetsByReference(reference)) {
+      if (await this.removeReference(asset, reference)) deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete uploads that were never used by a listing, map, profile or post, e.g. photos added to a form that
+   * was then abandoned
+   * @param olderThan Only assets uploaded before this are deleted, so ones in forms still being filled in are kept
+   * @returns How many assets were deleted
+   */
+  async deleteUnreferenced(olderThan: Date): Promise<number> {
+    let deleted = 0;
+    for (const asset of await this.storage.getUnreferencedAssets(olderThan)) {
+      // Skip any that were put to use since the list was read
+      const current = await this.storage.getAsset(asset.id);
+      if (!current || (current.references as AssetReference[]).length > 0) continue;
+
+      await this.delete(current);
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete an asset's files and its record
+   * @param asset Asset
+   */
+  async delete(asset: Asset): Promise<void> {
+    const keys = [asset.key, ...Object.values(asset.variantKeys as Record<string, string>)];
+    await Promise.all(keys.map((key) => this.driver.delete(key)));
+    await this.storage.deleteAsset(asset.id);
+  }
+
+  private async findOwnAssets(ownerId: number, urls: (string | null | undefined)[]): Promise<Map<number, Asset>> {
+    const assets = new Map<number, Asset>();
+    for (const url of urls) {
+      if (!url) continue;
+      const asset = await this.findByUrl(url);
+      if (asset && asset.userId === ownerId) assets.set(asset.id, asset);
+    }
+    return assets;
+  }
+
+  private async addReference(asset: Asset, reference: AssetReference): Promise<void> {
+    const references = asset.references as AssetReference[];
+    if (!references.some((ref) => sameReference(ref, reference))) {
+      await this.storage.updateAsset(asset.id, { references: [...references, reference] });
+    }
+  }
+
+  // Returns whether the asset was deleted because nothing uses it any more
+  private async removeReference(asset: Asset, reference: AssetReference): Promise<boolean> {
+    const references = (asset.references as AssetReference[]).filter((ref) => !sameReference(ref, reference));
+    if (references.length === 0) {
+      await this.delete(asset);
+      return true;
+    }
+
+    await this.storage.updateAsset(asset.id, { references });
+    return false;
+  }
+
+  private keyOf(asset: Asset, variant?: string): string {
+    return variant ? (asset.variantKeys as Record<string, string>)[variant] ?? asset.key : asset.key;
+  }
+}
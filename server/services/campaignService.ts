@@ -0,0 +1,533 @@
+import { IStorage } from '../storage';
+import {
+  Campaign,
+  CampaignAbTest,
+  CampaignAudience,
+  CampaignSend,
+  CampaignWinnerMetric,
+  DigestListingFilter,
+  EmailEvent,
+  Listing,
+  SegmentFilter,
+  SequenceStep
+} from '@shared/schema';
+import { MarketingEmailService, MarketingMailer } from './marketingEmailService';
+import { ContactService } from './contactService';
+import { SuppressionService } from './suppressionService';
+import { TemplateSyntaxError } from './templateEngine';
+import { Clock, JobContext, systemClock } from './jobQueue';
+import { AssetService } from './assetService';
+import { isPublished } from '../utils/listingUrls';
+
+export const CAMPAIGN_SEND_JOB = 'campaign.send';
+
+// Listings in a digest when its filter doesn't set a limit
+const DEFAULT_DIGEST_LIMIT = 12;
+
+export interface CampaignDeliveryOptions {
+  mailer?: MarketingMailer;
+  clock?: Clock;
+  batchSize?: number;
+  // Pause between batches to stay within the mail provider's rate limits
+  batchDelayMs?: number;
+}
+
+export interface CampaignRecipient {
+  email: string;
+  name?: string | null;
+}
+
+export interface CampaignMetrics {
+  recipients: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  // Not sent because the campaign was cancelled
+  cancelled: number;
+  // Confirmed by the mail provider's event webhook
+  delivered: number;
+  bounced: number;
+  opened: number;
+  clicked: number;
+  spamReports: number;
+  unsubscribes: number;
+  // Every open and click, including repeats by the same recipient
+  totalOpens: number;
+  totalClicks: number;
+  openRate: number;
+  clickRate: number;
+}
+
+export interface CampaignVariantMetrics {
+  variant: number;
+  subject: string;
+  // Counts only the test group, so variants are compared on equal terms
+  metrics: CampaignMetrics;
+}
+
+export interface CampaignLinkClicks {
+  url: string;
+  clicks: number;
+  uniqueClicks: number;
+}
+
+export class CampaignService {
+  private suppressionService: SuppressionService;
+  private assetService: AssetService;
+  private clock: Clock;
+  private batchSize: number;
+  private batchDelayMs: number;
+
+  constructor(private storage: IStorage, options: CampaignDeliveryOptions = {}) {
+    this.suppressionService = new SuppressionService(storage, options.mailer);
+    this.assetService = new AssetService(storage);
+    this.clock = options.clock || systemClock;
+    this.batchSize = options.batchSize ?? 50;
+    this.batchDelayMs = options.batchDelayMs ?? 1000;
+  }
+
+  /**
+   * Get the job queue key for a campaign's delivery job
+   * @param campaignId Campaign ID
+   * @returns Job key
+   */
+  static jobKey(campaignId: number): string {
+    return `campaign:${campaignId}`;
+  }
+
+  /**
+   * Check whether a campaign can still be edited, scheduled or sent
+   * @param campaign Campaign to check
+   * @returns Whether the campaign has not started sending yet
+   */
+  static isEditable(campaign: Campaign): boolean {
+    return campaign.status === 'draft' || campaign.status === 'scheduled';
+  }
+
+  /**
+   * Summarize per-recipient delivery into campaign metrics
+   * @param sends Send records of a campaign
+   * @param events Webhook events of the campaign
+   * @returns Counts and open/click rates as percentages of emails that didn't bounce
+   */
+  static getMetrics(sends: CampaignSend[], events: EmailEvent[] = []): CampaignMetrics {
+    const count = (predicate: (send: CampaignSend) => boolean) => sends.filter(predicate).length;
+    const countEvents = (type: string) => events.filter((event) => event.event === type).length;
+
+    const pending = count((send) => send.status === 'pending');
+    const failed = count((send) => send.status === 'failed');
+    const suppressed = count((send) => send.status === 'suppressed');
+    const cancelled = count((send) => send.status === 'cancelled');
+    const bounced = count((send) => send.status === 'bounced');
+    const opened = count((send) => !!send.openedAt || send.status === 'opened' || send.status === 'clicked');
+    const clicked = count((send) => !!send.clickedAt || send.status === 'clicked');
+    const sent = sends.length - pending - failed - suppressed - cancelled;
+    const notBounced = sent - bounced;
+    const rate = (value: number) => (notBounced > 0 ? Math.round((value / notBounced) * 1000) / 10 : 0);
+
+    return {
+      recipients: sends.length,
+      pending,
+      sent,
+      failed,
+      suppressed,
+      cancelled,
+      delivered: count((send) => ['delivered', 'opened', 'clicked'].includes(send.status)),
+      bounced,
+      opened,
+      clicked,
+      spamReports: countEvents('spamreport'),
+      unsubscribes: countEvents('unsubscribe'),
+      totalOpens: countEvents('open'),
+      totalClicks: countEvents('click'),
+      openRate: rate(opened),
+      clickRate: rate(clicked)
+    };
+  }
+
+  /**
+   * Summarize how each variant of an A/B test did with its share of the test group
+   * @param abTest A/B test settings of the campaign
+   * @param sends Send records of the campaign
+   * @param events Webhook events of the campaign
+   * @returns Metrics for each variant, in variant order
+   */
+  static getVariantMetrics(abTest: CampaignAbTest, sends: CampaignSend[], events: EmailEvent[] = []): CampaignVariantMetrics[] {
+    return abTest.variants.map((variant, index) => {
+      const variantSends = sends.filter((send) => send.testGroup && send.variant === index);
+      const emails = new Set(variantSends.map((send) => send.email.toLowerCase()));
+      return {
+        variant: index,
+        subject: variant.subject,
+        metrics: CampaignService.getMetrics(variantSends, events.filter((event) => emails.has(event.email)))
+      };
+    });
+  }
+
+  /**
+   * Choose the winner of an A/B test. Ties go to the variant ahead on the other rate, then to the earlier variant.
+   * @param results Test group metrics of each variant
+   * @param metric Rate the test is decided on
+   * @returns Index of the winning variant
+   */
+  static pickWinner(results: CampaignVariantMetrics[], metric: CampaignWinnerMetric): number {
+    const rates = (result: CampaignVariantMetrics) => metric === 'opens'
+      ? [result.metrics.openRate, result.metrics.clickRate]
+      : [result.metrics.clickRate, result.metrics.openRate];
+
+    return results.reduce((best, result) => {
+      const [primary, secondary] = rates(result);
+      const [bestPrimary, bestSecondary] = rates(best);
+      return primary > bestPrimary || (primary === bestPrimary && secondary > bestSecondary) ? result : best;
+    }).variant;
+  }
+
+  /**
+   * Split a campaign's audience for an A/B test: a random share of it, at least one recipient per
+   * variant, is spread evenly across the variants and everyone else waits for the winner
+   * @param recipients Resolved audience
+   * @param abTest A/B test settings of the campaign
+   * @param random Source of randomness, injectable for tests
+   * @returns The recipients in random order with their variant, or null for those waiting for the winner
+   */
+  static assignVariants<T>(
+    recipients: T[],
+    abTest: CampaignAbTest,
+    random: () => number = Math.random
+  ): Array<T & { variant: number | null }> {
+    const shuffled = [...recipients];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    const testSize = Math.min(
+      shuffled.length,
+      Math.max(abTest.variants.length, Math.round((shuffled.length * abTest.testPercent) / 100))
+    );
+    return shuffled.map((recipient, index) => ({
+      ...recipient,
+      variant: index < testSize ? index % abTest.variants.length : null
+    }));
+  }
+
+  /**
+   * Count clicks on each link in a campaign
+   * @param events Webhook events of the campaign
+   * @returns Links with their total and unique clicks, most clicked first
+   */
+  static getLinkClicks(events: EmailEvent[]): CampaignLinkClicks[] {
+    const links: Record<string, { clicks: number; recipients: Set<string> }> = {};
+    events.forEach((event) => {
+      if (event.event !== 'click' || !event.url) return;
+      const link = links[event.url] || (links[event.url] = { clicks: 0, recipients: new Set() });
+      link.clicks++;
+      link.recipients.add(event.email);
+    });
+
+    return Object.entries(links)
+      .map(([url, link]) => ({ url, clicks: link.clicks, uniqueClicks: link.recipients.size }))
+      .sort((a, b) => b.clicks - a.clicks);
+  }
+
+  /**
+   * Check whether a listing belongs in a digest
+   * @param listing Listing to check
+   * @param filter Digest listing filter
+   * @param now Time the digest is sent, for createdWithinDays
+   * @returns Whether the listing is published and matches every condition of the filter. Drafts never match,
+   * whatever the statuses, since they have no public page to link to.
+   */
+  static matchesDigestFilter(listing: Listing, filter: DigestListingFilter, now: Date): boolean {
+    if (!isPublished(listing)) return false;
+    if (filter.statuses && filter.statuses.length > 0 && !filter.statuses.includes(listing.status || 'active')) return false;
+    if (filter.city && listing.city.trim().toLowerCase() !== filter.city.trim().toLowerCase()) return false;
+    if (filter.minPrice !== undefined && listing.price < filter.minPrice) return false;
+    if (filter.maxPrice !== undefined && listing.price > filter.maxPrice) return false;
+
+    if (filter.createdWithinDays !== undefined) {
+      const since = now.getTime() - filter.createdWithinDays * 24 * 60 * 60 * 1000;
+      if (!listing.createdAt || listing.createdAt.getTime() < since) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Choose the listings a digest shows
+   * @param userId Agent whose listings are included
+   * @param filter Digest listing filter
+   * @returns Matching listings, newest first, up to the filter's limit
+   */
+  async selectDigestListings(userId: number, filter: DigestListingFilter): Promise<Listing[]> {
+    const now = this.clock.now();
+    const listings = await this.storage.getListingsByUserId(userId);
+    return listings
+      .filter((listing) => CampaignService.matchesDigestFilter(listing, filter, now))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, filter.limit ?? DEFAULT_DIGEST_LIMIT);
+  }
+
+  /**
+   * Find what still uses an email template. Campaigns keep their template for reports and resends, so a
+   * template can't be deleted while anything uses it.
+   * @param userId Owner of the template
+   * @param templateId Template ID
+   * @returns Message saying what uses the template, or null if nothing does
+   */
+  async findTemplateUse(userId: number, templateId: number): Promise<string | null> {
+    const campaigns = await this.storage.getCampaignsByUserId(userId);
+    if (campaigns.some((campaign) => campaign.templateId === templateId)) {
+      return 'This template is used by a campaign';
+    }
+
+    const digests = await this.storage.getDigestsByUserId(userId);
+    if (digests.some((digest) => digest.templateId === templateId)) {
+      return 'This template is used by a weekly digest';
+    }
+
+    const sequences = await this.storage.getSequencesByUserId(userId);
+    const usedBySequence = sequences.some((sequence) =>
+      (sequence.steps as SequenceStep[]).some((step) => step.type === 'email' && step.templateId === templateId)
+    );
+    return usedBySequence ? 'This template is used by a follow-up sequence' : null;
+  }
+
+  /**
+   * Resolve a campaign audience to a de-duplicated list of recipients
+   * @param userId Owner of the campaign
+   * @param audience Audience definition stored on the campaign
+   * @returns Recipients in the order they were found
+   */
+  async resolveAudience(userId: number, audience: CampaignAudience): Promise<CampaignRecipient[]> {
+    let recipients: CampaignRecipient[] = [];
+
+    if (audience.type === 'segment') {
+      const segment = await this.storage.getSegment(audience.segmentId);
+      if (!segment || segment.userId !== userId) return [];
+
+      // Unsubscribed and bounced contacts stay in the segment but never receive campaigns
+      const contacts = await this.storage.getContactsByUserId(userId);
+      recipients = contacts
+        .filter((contact) => contact.subscriptionStatus === 'subscribed')
+        .filter((contact) => ContactService.matchesFilter(contact, segment.filter as SegmentFilter))
+        .map((contact) => ({ email: contact.email, name: contact.name }));
+    } else if (audience.type === 'leads') {
+      const leads = await this.storage.getLeadsByUserId(userId);
+      recipients = leads
+        .filter((lead) => !audience.statuses || audience.statuses.length === 0 || (audience.statuses as string[]).includes(lead.status))
+        .map((lead) => ({ email: lead.email, name: lead.name }));
+    }
+
+    const seen = new Set<string>();
+    return recipients.filter((recipient) => {
+      const key = recipient.email.trim().toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Deliver a scheduled or sending campaign to its audience in throttled batches,
+   * recording the outcome for each recipient. Suppressed addresses are checked again
+   * for every batch. Safe to run again after a failure or restart: recipients that
+   * were already sent to are skipped. A/B tests send to the test group first and
+   * return when to run again; that run picks the winner and sends it to everyone else.
+   * @param campaignId Campaign to deliver
+   * @param context Job context of the delivery job
+   * @param fromName Sender name shown to recipients
+   * @returns When to run again to send an A/B test's winner, or null when delivery is done
+   * @throws Error when some emails failed and the job will be retried
+   */
+  async deliverCampaign(campaignId: number, context: JobContext, fromName?: string): Promise<Date | null> {
+    const campaign = await this.storage.getCampaign(campaignId);
+
+    // Cancelled, deleted and finished campaigns have nothing left to send
+    if (!campaign || !['scheduled', 'sending', 'testing'].includes(campaign.status)) {
+      return null;
+    }
+
+    // A scheduled delivery starts the campaign itself; if "Send now" already started it, that delivery sends it
+    if (campaign.status === 'scheduled' && !await this.storage.updateCampaignIfStatus(campaign.id, ['scheduled'], { status: 'sending' })) {
+      return null;
+    }
+
+    // Woken before the test window is over
+    if (campaign.status === 'testing' && campaign.testEndsAt && campaign.testEndsAt > this.clock.now()) {
+      return campaign.testEndsAt;
+    }
+
+    // Picking the winner ends the test, unless the campaign was cancelled first
+    if (campaign.status === 'testing' && !await this.storage.updateCampaignIfStatus(campaign.id, ['testing'], { status: 'sending' })) {
+      return null;
+    }
+
+    const template = await this.storage.getEmailTemplate(campaign.templateId);
+    if (!template) {
+      await this.storage.updateCampaign(campaign.id, { status: 'failed' });
+      return null;
+    }
+
+    let listing: Listing | undefined;
+    if (campaign.listingId) {
+      listing = await this.storage.getListing(campaign.listingId);
+    }
+    const agent = await this.storage.getUser(campaign.userId);
+    const abTest = campaign.abTest as CampaignAbTest | null;
+
+    // Digests pick their listings when they go out
+    let listings: Listing[] | undefined;
+    if (template.kind === 'digest') {
+      listings = await this.selectDigestListings(campaign.userId, (campaign.digestFilter ?? {}) as DigestListingFilter);
+    }
+
+    // The audience is resolved once; retries work from the recorded sends
+    let sends = await this.storage.getCampaignSends(campaign.id);
+    if (sends.length === 0) {
+      if (listings && listings.length === 0) {
+        await this.storage.updateCampaign(campaign.id, { status: 'failed', recipientCount: 0 });
+        return null;
+      }
+
+      const recipients = await this.resolveAudience(campaign.userId, campaign.audience as CampaignAudience);
+      if (recipients.length === 0) {
+        await this.storage.updateCampaign(campaign.id, { status: 'failed', recipientCount: 0 });
+        return null;
+      }
+
+      const assigned = abTest
+        ? CampaignService.assignVariants(recipients, abTest)
+        : recipients.map((recipient) => ({ ...recipient, variant: null }));
+      await this.storage.createCampaignSends(assigned.map((recipient) => ({
+        campaignId: campaign.id,
+        email: recipient.email,
+        name: recipient.name ?? null,
+        variant: recipient.variant,
+        testGroup: recipient.variant !== null,
+        status: 'pending'
+      })));
+      // Read back rather than using what was inserted, in case another delivery queued some of them first
+      sends = await this.storage.getCampaignSends(campaign.id);
+    }
+
+    let winningVariant = campaign.winningVariant;
+    if (abTest && campaign.status === 'testing') {
+      winningVariant = await this.sendWinnerToRest(campaign, abTest, sends);
+      sends = await this.storage.getCampaignSends(campaign.id);
+    }
+
+    await this.storage.updateCampaign(campaign.id, { status: 'sending', recipientCount: sends.length });
+
+    // The emails embed these photos, so they're kept after the listing or profile stops using them
+    await this.assetService.addReferences(campaign.userId, { type: 'campaign', id: campaign.id }, [
+      agent?.profileImage,
+      ...(listing?.images || []),
+      ...(listings || []).map((item) => item.images?.[0])
+    ]);
+
+    // A/B test variants replace the template's subject, and its content if they have their own
+    const renderVariant = (variantIndex: number | null, send?: CampaignSend) => {
+      const variant = abTest && variantIndex !== null ? abTest.variants[variantIndex] : undefined;
+      return MarketingEmailService.processTemplate(
+        variant ? { subject: variant.subject, content: variant.content ?? template.content } : template,
+        listing,
+        {
+          agent,
+          listings,
+          contact: send ? { email: send.email, name: send.name } : undefined
+        }
+      );
+    };
+    const render = (send?: CampaignSend) => renderVariant(send?.variant ?? null, send);
+
+    // Templates are validated when saved, but ones saved before that can still be broken
+    let content: ReturnType<typeof render>;
+    try {
+      content = render();
+      abTest?.variants.forEach((_, index) => renderVariant(index));
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      console.error(`Campaign ${campaign.id} template is invalid:`, error.message);
+      await this.storage.updateCampaign(campaign.id, { status: 'failed' });
+      return null;
+    }
+
+    // During an A/B test, recipients without a variant wait for the winner
+    const pendingSends = sends.filter((send) => send.status === 'pending' && (!abTest || send.variant !== null));
+    let failures = 0;
+
+    for (let start = 0; start < pendingSends.length; start += this.batchSize) {
+      if (start > 0) {
+        await this.clock.sleep(this.batchDelayMs);
+        await context.heartbeat();
+      }
+
+      const batch = pendingSends.slice(start, start + this.batchSize);
+      const sendsByEmail = new Map(batch.map((send) => [send.email.toLowerCase(), send]));
+      const outcomes = await this.suppressionService.sendMarketingEmail(
+        campaign.userId,
+        { ...content, recipients: batch.map((send) => send.email), fromName, listingData: listing },
+        { campaignId: campaign.id, personalize: (email) => render(sendsByEmail.get(email)) }
+      );
+
+      await Promise.all(batch.map((send) => {
+        const outcome = outcomes[send.email.toLowerCase()];
+        if (outcome === 'sent') {
+          return this.storage.updateCampaignSend(send.id, { status: 'sent', sentAt: this.clock.now(), error: null });
+        }
+        if (outcome === 'suppressed') {
+          return this.storage.updateCampaignSend(send.id, { status: 'suppressed', error: 'Recipient has unsubscribed' });
+        }
+
+        failures++;
+        // Leave failed sends pending so the retry picks them up, unless this was the last try
+        return this.storage.updateCampaignSend(send.id, context.isFinalAttempt
+          ? { status: 'failed', error: 'Delivery failed' }
+          : { error: 'Delivery failed, retrying' });
+      }));
+    }
+
+    if (failures > 0 && !context.isFinalAttempt) {
+      throw new Error(`${failures} of ${pendingSends.length} emails failed to send`);
+    }
+
+    const finalSends = await this.storage.getCampaignSends(campaign.id);
+
+    if (abTest && winningVariant === null && finalSends.some((send) => send.variant === null)) {
+      const testEndsAt = new Date(this.clock.now().getTime() + abTest.windowHours * 60 * 60 * 1000);
+      await this.storage.updateCampaign(campaign.id, { status: 'testing', testEndsAt });
+      console.log(`Campaign ${campaign.id} sent its A/B test; picking a winner at ${testEndsAt.toISOString()}`);
+      return testEndsAt;
+    }
+
+    const sentCount = finalSends.filter((send) => !['pending', 'failed', 'suppressed', 'cancelled'].includes(send.status)).length;
+
+    await this.storage.updateCampaign(campaign.id, {
+      status: sentCount > 0 ? 'sent' : 'failed',
+      sentAt: this.clock.now()
+    });
+
+    console.log(`Campaign ${campaign.id} sent to ${sentCount} of ${finalSends.length} recipients`);
+    return null;
+  }
+
+  // Pick the A/B test's winner from the test group's results and give it to everyone still waiting
+  private async sendWinnerToRest(campaign: Campaign, abTest: CampaignAbTest, sends: CampaignSend[]): Promise<number> {
+    const results = CampaignService.getVariantMetrics(
+      abTest,
+      sends,
+      await this.storage.getEmailEventsByCampaignId(campaign.id)
+    );
+    const winningVariant = CampaignService.pickWinner(results, abTest.winnerMetric);
+
+    await Promise.all(sends
+      .filter((send) => send.variant === null)
+      .map((send) => this.storage.updateCampaignSend(send.id, { variant: winningVariant })));
+    await this.storage.updateCampaign(campaign.id, { winningVariant, variantResults: results });
+
+    console.log(`Campaign ${campaign.id} A/B test won by variant ${winningVariant + 1}`);
+    return winningVariant;
+  }
+}
@@ -0,0 +1,291 @@
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import { Contact, SegmentFilter } from '@shared/schema';
+
+// Contact fields a CSV column can be mapped to
+export const contactImportFields = ['name', 'firstName', 'lastName', 'email', 'phone', 'tags'] as const;
+
+export type ContactImportField = typeof contactImportFields[number];
+
+// CSV header to read for each contact field
+export type ContactColumnMapping = Partial<Record<ContactImportField, string>>;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ContactImportOptions {
+  mapping: ContactColumnMapping;
+  // Tags added to every imported contact, e.g. the name of the list the file came from
+  tags?: string[];
+  // Validate and report without saving anything
+  dryRun?: boolean;
+  // Called for each contact the import adds, e.g. to start follow-up sequences
+  onContactCreated?: (contact: Contact) => Promise<unknown>;
+}
+
+export interface ContactImportRowError {
+  row: number; // Line number in the file, counting the header as line 1
+  email?: string;
+  message: string;
+}
+
+export interface ContactImportReport {
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: ContactImportRowError[];
+}
+
+// Header spellings recognised when guessing a column mapping, compared without case or punctuation
+const HEADER_ALIASES: Record<ContactImportField, string[]> = {
+  name: ['name', 'fullname', 'contactname', 'displayname'],
+  firstName: ['firstname', 'first', 'givenname', 'fname'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'lname'],
+  email: ['email', 'emailaddress', 'mail', 'email1'],
+  phone: ['phone', 'phonenumber', 'mobile', 'cell', 'telephone', 'tel'],
+  tags: ['tags', 'tag', 'labels', 'groups', 'lists']
+};
+
+const emailSchema = z.string().email();
+
+export class ContactService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Parse CSV text into records, handling quoted fields, escaped quotes and CRLF line endings
+   * @param text CSV file contents
+   * @returns One array of field values per line; blank lines are kept so line numbers stay accurate
+   */
+  static parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  /**
+   * Build CSV text from rows of values
+   * @param rows Rows to write, the first usually being the header
+   * @returns CSV text with CRLF line endings
+   */
+  static toCsv(rows: (string | null | undefined)[][]): string {
+    const escape = (value: string | null | undefined) => {
+      let text = value ?? '';
+      // Keep spreadsheet apps from evaluating values as formulas. Numbers such as +15551234567 or
+      // -12.5 are left alone; without letters or other operators they can't call anything.
+      if (/^[=@]/.test(text) || (/^[+-]/.test(text) && !/^[+-][\d\s().-]*$/.test(text))) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return rows.map((row) => row.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Guess which CSV columns hold which contact fields from their headers
+   * @param headers Header row of the file
+   * @returns Mapping for the fields that could be matched
+   */
+  static guessMapping(headers: string[]): ContactColumnMapping {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const mapping: ContactColumnMapping = {};
+
+    contactImportFields.forEach((field) => {
+      const header = headers.find((candidate) => HEADER_ALIASES[field].includes(normalize(candidate)));
+      if (header) mapping[field] = header;
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Clean up a list of tags: trimmed, lowercase and without duplicates
+   * @param tags Tags as entered or imported
+   * @returns Normalized tags
+   */
+  static normalizeTags(tags: string[]): string[] {
+    const normalized = tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+    return normalized.filter((tag, index) => normalized.indexOf(tag) === index);
+  }
+
+  /**
+   * Check whether a contact belongs to a segment
+   * @param contact Contact to check
+   * @param filter Tag filter of the segment
+   * @returns Whether the contact carries any (or all) of the segment's tags
+   */
+  static matchesFilter(contact: Contact, filter: SegmentFilter): boolean {
+    const tags = ContactService.normalizeTags(filter.tags);
+    if (tags.length === 0) return true;
+
+    const contactTags = ContactService.normalizeTags(contact.tags || []);
+    return filter.match === 'all'
+      ? tags.every((tag) => contactTags.includes(tag))
+      : tags.some((tag) => contactTags.includes(tag));
+  }
+
+  /**
+   * Build a CSV export of contacts
+   * @param contactList Contacts to export
+   * @returns CSV text with a header row
+   */
+  static toExportCsv(contactList: Contact[]): string {
+    return ContactService.toCsv([
+      ['name', 'email', 'phone', 'tags', 'source', 'subscription_status', 'created_at'],
+      ...contactList.map((contact) => [
+        contact.name,
+        contact.email,
+        contact.phone,
+        (contact.tags || []).join('; '),
+        contact.source,
+        contact.subscriptionStatus,
+        contact.createdAt ? contact.createdAt.toISOString() : ''
+      ])
+    ]);
+  }
+
+  /**
+   * Get the contacts of a user that belong to a segment
+   * @param userId Owner of the contacts
+   * @param filter Tag filter of the segment, or null for every contact
+   * @returns Matching contacts
+   */
+  async getSegmentContacts(userId: number, filter: SegmentFilter | null): Promise<Contact[]> {
+    const contactList = await this.storage.getContactsByUserId(userId);
+    return filter ? contactList.filter((contact) => ContactService.matchesFilter(contact, filter)) : contactList;
+  }
+
+  /**
+   * Import contacts from parsed CSV rows. Rows are matched to existing contacts by email;
+   * matches are updated and their tags merged, but their subscription status is never changed.
+   * @param userId Owner of the contacts
+   * @param headers Header row of the file
+   * @param rows Data rows of the file
+   * @param options Column mapping, extra tags and whether to only validate
+   * @returns Counts of created, updated and skipped rows with the reason each row was skipped
+   */
+  async importContacts(
+    userId: number,
+    headers: string[],
+    rows: string[][],
+    options: ContactImportOptions
+  ): Promise<ContactImportReport> {
+    const report: ContactImportReport = { totalRows: 0, created: 0, updated: 0, skipped: 0, errors: [] };
+    const { mapping } = options;
+
+    const existing = await this.storage.getContactsByUserId(userId);
+    const existingByEmail = new Map(existing.map((contact) => [contact.email, contact]));
+    const suppressionList = await this.storage.getSuppressionsByUserId(userId);
+    const suppressionsByEmail = new Map(suppressionList.map((suppression) => [suppression.email, suppression]));
+    const rowsByEmail = new Map<string, number>();
+
+    const skip = (row: number, message: string, email?: string) => {
+      report.skipped++;
+      report.errors.push({ row, email, message });
+    };
+
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index];
+      const line = index + 2;
+
+      // Blank lines, including the one after a trailing newline, aren't rows
+      if (row.every((value) => value.trim() === '')) continue;
+      report.totalRows++;
+
+      const value = (field: ContactImportField) => {
+        const header = mapping[field];
+        const column = header === undefined ? -1 : headers.indexOf(header);
+        return column >= 0 ? (row[column] ?? '').trim() : '';
+      };
+
+      const email = value('email').toLowerCase();
+      if (!email) {
+        skip(line, 'Missing email address');
+        continue;
+      }
+      if (!emailSchema.safeParse(email).success) {
+        skip(line, 'Invalid email address', email);
+        continue;
+      }
+
+      const duplicateOf = rowsByEmail.get(email);
+      if (duplicateOf !== undefined) {
+        skip(line, `Duplicate of row ${duplicateOf}`, email);
+        continue;
+      }
+      rowsByEmail.set(email, line);
+
+      const name = value('name') || [value('firstName'), value('lastName')].filter(Boolean).join(' ');
+      const phone = value('phone') || null;
+      const tags = ContactService.normalizeTags([
+        ...value('tags').split(/[;,|]/),
+        ...(options.tags || [])
+      ]);
+
+      const contact = existingByEmail.get(email);
+      if (contact) {
+        report.updated++;
+        if (!options.dryRun) {
+          await this.storage.updateContact(contact.id, {
+            name: name || contact.name,
+            phone: phone ?? contact.phone,
+            tags: ContactService.normalizeTags([...(contact.tags || []), ...tags])
+          });
+        }
+      } else {
+        report.created++;
+        if (!options.dryRun) {
+          // Re-importing an address that opted out must not opt it back in
+          const suppression = suppressionsByEmail.get(email);
+          const created = await this.storage.createContact({
+            userId,
+            name: name || email,
+            email,
+            phone,
+            tags,
+            source: 'import',
+            subscriptionStatus: !suppression ? 'subscribed' : suppression.reason === 'bounced' ? 'bounced' : 'unsubscribed'
+          });
+          if (options.onContactCreated) await options.onContactCreated(created);
+        }
+      }
+    }
+
+    return report;
+  }
+}
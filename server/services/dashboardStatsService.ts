@@ -0,0 +1,155 @@
+import { IStorage } from '../storage';
+import { ViewTrackingService, toDayKey } from './viewTrackingService';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface MapLotStats {
+  mapId: number;
+  name: string;
+  slug: string;
+  totalLots: number;
+  availableLots: number;
+  pendingLots: number;
+  soldLots: number;
+}
+
+export interface MonthlyStats {
+  month: string; // YYYY-MM
+  name: string;
+  listings: number;
+  leads: number;
+  views: number;
+}
+
+export interface DashboardStats {
+  range: DateRange;
+  activeListings: number;
+  totalListings: number;
+  portfolioValue: number;
+  totalLeads: number;
+  newLeads: number;
+  totalViews: number;
+  uniqueVisitors: number;
+  lotMaps: MapLotStats[];
+  monthly: MonthlyStats[];
+}
+
+// Months are UTC, like the days views are counted in
+const monthKey = (date: Date) => toDayKey(date).slice(0, 7);
+
+const isWithin = (date: Date | null, range: DateRange) =>
+  !!date && date >= range.from && date <= range.to;
+
+export class DashboardStatsService {
+  private viewTrackingService: ViewTrackingService;
+
+  constructor(private storage: IStorage) {
+    this.viewTrackingService = new ViewTrackingService(storage);
+  }
+
+  /**
+   * Get the default reporting range: the start of the UTC month five months ago until now
+   */
+  static defaultRange(now: Date = new Date()): DateRange {
+    return {
+      from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1)),
+      to: now
+    };
+  }
+
+  /**
+   * Aggregate listing, lot, lead and view numbers for a user's dashboard
+   * @param userId ID of the user the dashboard belongs to
+   * @param range Period used for lead and view counts and the monthly series
+   * @returns Dashboard statistics
+   */
+  async getStats(userId: number, range: DateRange): Promise<DashboardStats> {
+    const [listings, leads, maps, dailyViews] = await Promise.all([
+      this.storage.getListingsByUserId(userId),
+      this.storage.getLeadsByUserId(userId),
+      this.storage.getUserMapSettings(userId),
+      this.viewTrackingService.getDailyStats(userId, { from: toDayKey(range.from), to: toDayKey(range.to) })
+    ]);
+
+    // Active listings and portfolio value describe the portfolio as it is today
+    const activeListings = listings.filter((listing) => listing.status === 'active');
+    const portfolioValue = activeListings.reduce((total, listing) => total + (listing.price || 0), 0);
+
+    const leadsInRange = leads.filter((lead) => isWithin(lead.createdAt, range));
+
+    const lotMaps: MapLotStats[] = await Promise.all(maps.map(async (map) => {
+      const lots = await this.storage.getLots(map.id);
+      const countByStatus = (status: string) => lots.filter((lot) => lot.status === status).length;
+
+      return {
+        mapId: map.id,
+        name: map.name,
+        slug: map.slug,
+        totalLots: lots.length,
+        availableLots: countByStatus('available'),
+        pendingLots: countByStatus('pending'),
+        soldLots: countByStatus('sold')
+      };
+    }));
+
+    return {
+      range,
+      activeListings: activeListings.length,
+      totalListings: listings.length,
+      portfolioValue,
+      totalLeads: leadsInRange.length,
+      newLeads: leadsInRange.filter((lead) => lead.status === 'new').length,
+      totalViews: dailyViews.reduce((total, stat) => total + stat.views, 0),
+      uniqueVisitors: dailyViews.reduce((total, stat) => total + stat.uniqueVisitors, 0),
+      lotMaps,
+      monthly: this.buildMonthlySeries(
+        range,
+        listings.map((listing) => listing.createdAt),
+        leads.map((lead) => lead.createdAt),
+        dailyViews
+      )
+    };
+  }
+
+  // One entry per UTC calendar month in the range, including months with no activity
+  private buildMonthlySeries(
+    range: DateRange,
+    listingDates: (Date | null)[],
+    leadDates: (Date | null)[],
+    dailyViews: { day: string; views: number }[]
+  ): MonthlyStats[] {
+    const series: MonthlyStats[] = [];
+    const indexByMonth: Record<string, number> = {};
+
+    const cursor = new Date(Date.UTC(range.from.getUTCFullYear(), range.from.getUTCMonth(), 1));
+    while (cursor <= range.to) {
+      indexByMonth[monthKey(cursor)] = series.length;
+      series.push({
+        month: monthKey(cursor),
+        name: MONTH_NAMES[cursor.getUTCMonth()],
+        listings: 0,
+        leads: 0,
+        views: 0
+      });
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+
+    for (const date of listingDates) {
+      if (date && isWithin(date, range)) series[indexByMonth[monthKey(date)]].listings++;
+    }
+    for (const date of leadDates) {
+      if (date && isWithin(date, range)) series[indexByMonth[monthKey(date)]].leads++;
+    }
+    for (const stat of dailyViews) {
+      const index = indexByMonth[stat.day.slice(0, 7)];
+      if (index !== undefined) series[index].views += stat.views;
+    }
+
+    return series;
+  }
+}
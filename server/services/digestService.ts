@@ -0,0 +1,124 @@
+import { IStorage } from '../storage';
+import { Digest, DigestListingFilter } from '@shared/schema';
+import { CampaignService, CAMPAIGN_SEND_JOB } from './campaignService';
+import { Clock, JobQueue, systemClock } from './jobQueue';
+
+export const DIGEST_RUN_JOB = 'digest.run';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class DigestService {
+  private campaignService: CampaignService;
+  private clock: Clock;
+
+  constructor(private storage: IStorage, private jobQueue: JobQueue, options: { clock?: Clock } = {}) {
+    this.clock = options.clock || systemClock;
+    this.campaignService = new CampaignService(storage, { clock: this.clock });
+  }
+
+  /**
+   * Get the job queue key for a digest's next run
+   * @param digestId Digest ID
+   * @returns Job key
+   */
+  static jobKey(digestId: number): string {
+    return `digest:${digestId}`;
+  }
+
+  /**
+   * Get the next time a weekly digest goes out
+   * @param schedule Day of the week and hour, in UTC
+   * @param after Time the next run has to come after
+   * @returns Next run time
+   */
+  static nextRunAt(schedule: Pick<Digest, 'dayOfWeek' | 'hour'>, after: Date): Date {
+    const next = new Date(after.getTime());
+    next.setUTCHours(schedule.hour, 0, 0, 0);
+    next.setUTCDate(next.getUTCDate() + ((schedule.dayOfWeek - next.getUTCDay() + 7) % 7));
+    if (next.getTime() <= after.getTime()) {
+      next.setTime(next.getTime() + WEEK_MS);
+    }
+    return next;
+  }
+
+  /**
+   * Queue a digest's next run, replacing any run already queued. Inactive digests are unscheduled.
+   * @param digest Digest to schedule
+   * @param after Time the next run has to come after; defaults to now
+   * @returns The digest with its next run time
+   */
+  async schedule(digest: Digest, after: Date = this.clock.now()): Promise<Digest> {
+    const key = DigestService.jobKey(digest.id);
+    await this.jobQueue.cancel(key);
+
+    if (!digest.active) {
+      return (await this.storage.updateDigest(digest.id, { nextRunAt: null })) || digest;
+    }
+
+    const runAt = DigestService.nextRunAt(digest, after);
+    await this.jobQueue.enqueue(DIGEST_RUN_JOB, { digestId: digest.id, runAt: runAt.toISOString() }, { runAt, key });
+    return (await this.storage.updateDigest(digest.id, { nextRunAt: runAt })) || digest;
+  }
+
+  /**
+   * Send one week's digest as a campaign to the digest's segment, then queue the following week.
+   * Weeks without matching listings are skipped. Safe to run again for the same week: the
+   * campaign is only created once.
+   * @param digestId Digest to run
+   * @param runAt Scheduled time of this run
+   */
+  async runDigest(digestId: number, runAt: Date): Promise<void> {
+    const digest = await this.storage.getDigest(digestId);
+
+    // Deleted and paused digests stop here without queueing another run
+    if (!digest || !digest.active) return;
+
+    await this.createRunCampaign(digest, runAt);
+    await this.schedule(digest, runAt);
+  }
+
+  private async createRunCampaign(digest: Digest, runAt: Date): Promise<void> {
+    const campaigns = await this.storage.getCampaignsByUserId(digest.userId);
+    const alreadyCreated = campaigns.some((campaign) =>
+      campaign.digestId === digest.id && campaign.scheduledAt?.getTime() === runAt.getTime()
+    );
+    if (alreadyCreated) return;
+
+    const agent = await this.storage.getUser(digest.userId);
+    if (!agent?.emailVerified) {
+      console.log(`Skipping digest ${digest.id}: sender email is not verified`);
+      return;
+    }
+
+    const template = await this.storage.getEmailTemplate(digest.templateId);
+    if (!template || template.kind !== 'digest') {
+      console.log(`Skipping digest ${digest.id}: its template is missing or not a digest template`);
+      return;
+    }
+
+    const filter = digest.filter as DigestListingFilter;
+    const listings = await this.campaignService.selectDigestListings(digest.userId, filter);
+    if (listings.length === 0) {
+      console.log(`Skipping digest ${digest.id}: no listings match this week`);
+      return;
+    }
+
+    const campaign = await this.storage.createCampaign({
+      userId: digest.userId,
+      name: `${digest.name} (${runAt.toISOString().slice(0, 10)})`,
+      templateId: digest.templateId,
+      digestFilter: filter,
+      digestId: digest.id,
+      audience: { type: 'segment', segmentId: digest.segmentId },
+      status: 'sending',
+      scheduledAt: runAt
+    });
+
+    await this.jobQueue.enqueue(
+      CAMPAIGN_SEND_JOB,
+      { campaignId: campaign.id, fromName: agent.fullName || undefined },
+      { key: CampaignService.jobKey(campaign.id) }
+    );
+    await this.storage.updateDigest(digest.id, { lastSentAt: this.clock.now() });
+  }
+}
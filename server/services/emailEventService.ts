@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { IStorage } from '../storage';
+import { CampaignSend, CampaignSendStatus, EmailEventType, emailEventTypes } from '@shared/schema';
+import { SuppressionService } from './suppressionService';
+
+export const EVENT_SIGNATURE_HEADER = 'x-twilio-email-event-webhook-signature';
+export const EVENT_TIMESTAMP_HEADER = 'x-twilio-email-event-webhook-timestamp';
+
+// Signed requests older than this are refused, so a captured request can't be replayed later
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * One event from a SendGrid Event Webhook payload. Custom args set when sending
+ * (user_id, campaign_id) are included as top-level fields.
+ */
+const sendGridEventSchema = z.object({
+  email: z.string().min(1),
+  event: z.string(),
+  timestamp: z.number().positive(), // Unix seconds
+  sg_event_id: z.string().optional(),
+  sg_message_id: z.string().optional(),
+  url: z.string().optional(),
+  reason: z.string().optional(),
+  type: z.string().optional(), // For bounces: "bounce", or "blocked" when the receiving server refused it temporarily
+  user_id: z.union([z.string(), z.number()]).optional(),
+  campaign_id: z.union([z.string(), z.number()]).optional()
+});
+
+export type SendGridEvent = z.infer<typeof sendGridEventSchema>;
+
+export interface EventIngestResult {
+  recorded: number;
+  // Malformed items, duplicates, event types we don't track and emails that weren't marketing sends
+  ignored: number;
+}
+
+// How far a recipient got; events never move a send backwards
+const SEND_PROGRESS: Partial<Record<CampaignSendStatus, number>> = {
+  sent: 1,
+  delivered: 2,
+  opened: 3,
+  clicked: 4
+};
+
+const toId = (value: string | number | undefined): number | undefined => {
+  const id = typeof value === 'number' ? value : parseInt(value ?? '', 10);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+};
+
+export class EmailEventService {
+  private suppressionService: SuppressionService;
+
+  constructor(private storage: IStorage) {
+    this.suppressionService = new SuppressionService(storage);
+  }
+
+  /**
+   * Check the signature of a SendGrid Signed Event Webhook request
+   * @param publicKey Verification key from the SendGrid settings, base64-encoded
+   * @param payload Raw request body
+   * @param signature Value of the signature header
+   * @param timestamp Value of the timestamp header
+   * @returns Whether SendGrid signed this exact payload
+   */
+  static verifySignature(publicKey: string, payload: Buffer | string, signature: string, timestamp: string): boolean {
+    try {
+      const key = crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+      const signed = Buffer.concat([Buffer.from(timestamp), Buffer.isBuffer(payload) ? payload : Buffer.from(payload)]);
+      return crypto.verify('sha256', signed, key, Buffer.from(signature, 'base64'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check that a signed request was signed recently
+   * @param timestamp Value of the timestamp header, in Unix seconds
+   * @param now Current time
+   * @returns Whether the timestamp is within a few minutes of now
+   */
+  static isRecent(timestamp: string, now: Date = new Date()): boolean {
+    const signedAt = Number(timestamp);
+    return Number.isFinite(signedAt) && Math.abs(now.getTime() / 1000 - signedAt) <= SIGNATURE_MAX_AGE_SECONDS;
+  }
+
+  /**
+   * Get an event's unique ID; SendGrid redelivers events, so it's used to skip ones already recorded
+   * @param event Webhook event
+   * @returns Provider event ID, or a hash of the event when it has none
+   */
+  static eventId(event: SendGridEvent): string {
+    if (event.sg_event_id) return event.sg_event_id;
+    const fields = [event.sg_message_id, event.event, event.timestamp, event.email, event.url].join('|');
+    return crypto.createHash('sha256').update(fields).digest('hex');
+  }
+
+  /**
+   * Record webhook events against the agent, campaign and recipient they belong to, update
+   * the recipient's send status, and suppress addresses that bounced, reported spam or unsubscribed
+   * @param events Items from one webhook request; ones that aren't valid events are ignored
+   * @returns How many events were recorded and ignored
+   */
+  async ingest(events: unknown[]): Promise<EventIngestResult> {
+    const result: EventIngestResult = { recorded: 0, ignored: 0 };
+
+    // Sequentially, so events for the same send are applied in the order SendGrid reported them
+    for (const item of events) {
+      const parsed = sendGridEventSchema.safeParse(item);
+      if (parsed.success && await this.ingestEvent(parsed.data)) {
+        result.recorded++;
+      } else {
+        result.ignored++;
+      }
+    }
+
+    return result;
+  }
+
+  private async ingestEvent(event: SendGridEvent): Promise<boolean> {
+    const type = event.event as EmailEventType;
+    const userId = toId(event.user_id);
+    if (!emailEventTypes.includes(type) || !userId || !event.email || !event.timestamp) {
+      return false;
+    }
+
+    const email = event.email.toLowerCase();
+    let campaignId = toId(event.campaign_id);
+    let send: CampaignSend | undefined;
+
+    if (campaignId !== undefined) {
+      const campaign = await this.storage.getCampaign(campaignId);
+      if (campaign && campaign.userId === userId) {
+        send = await this.storage.getCampaignSendByEmail(campaignId, email);
+      } else {
+        campaignId = undefined;
+      }
+    }
+
+    const occurredAt = new Date(event.timestamp * 1000);
+    const recorded = await this.storage.createEmailEvent({
+      userId,
+      campaignId: campaignId ?? null,
+      campaignSendId: send?.id ?? null,
+      email,
+      event: type,
+      providerEventId: EmailEventService.eventId(event),
+      providerMessageId: event.sg_message_id ?? null,
+      url: event.url ?? null,
+      reason: event.reason ?? null,
+      occurredAt
+    });
+    if (!recorded) return false;
+
+    if (send) {
+      await this.applyToSend(send, event, occurredAt);
+    }
+
+    if (type === 'bounce' && event.type !== 'blocked') {
+      await this.suppressionService.suppress(userId, email, 'bounced', campaignId);
+    } else if (type === 'spamreport') {
+      await this.suppressionService.suppress(userId, email, 'spam_report', campaignId);
+    } else if (type === 'unsubscribe') {
+      await this.suppressionService.suppress(userId, email, 'unsubscribed', campaignId);
+    }
+
+    return true;
+  }
+
+  private async applyToSend(send: CampaignSend, event: SendGridEvent, occurredAt: Date): Promise<void> {
+    const type = event.event as EmailEventType;
+
+    if (type === 'bounce') {
+      // Blocked messages may still get through on a later attempt, so only note why
+      await this.storage.updateCampaignSend(send.id, event.type === 'blocked'
+        ? { error: event.reason || 'Blocked by the receiving server' }
+        : { status: 'bounced', error: event.reason || 'Bounced' });
+      return;
+    }
+
+    // Bounced is final, and opens or clicks from a later resend shouldn't revive it
+    if (send.status === 'bounced') return;
+
+    const progress = SEND_PROGRESS[send.status as CampaignSendStatus] ?? 0;
+    const advance = (status: CampaignSendStatus) =>
+      (SEND_PROGRESS[status] ?? 0) > progress ? { status } : {};
+
+    let update: Partial<CampaignSend> = {};
+    if (type === 'delivered') {
+      update = advance('delivered');
+    } else if (type === 'open') {
+      update = { ...advance('opened'), openedAt: send.openedAt ?? occurredAt };
+    } else if (type === 'click') {
+      // A click means the email was opened even when the open pixel was blocked
+      update = {
+        ...advance('clicked'),
+        openedAt: send.openedAt ?? occurredAt,
+        clickedAt: send.clickedAt ?? occurredAt
+      };
+    }
+
+    if (Object.keys(update).length > 0) {
+      await this.storage.updateCampaignSend(send.id, update);
+    }
+  }
+}
@@ -1,28 +1,28 @@
-import { MailService } from '@sendgrid/mail';
-import { User } from '../../shared/schema';
+import { User, Lead, Listing, Contact } from '../../shared/schema';
 import crypto from 'crypto';
-
-if (!process.env.SENDGRID_API_KEY) {
-  console.error(`Error: SENDGRID_API_KEY environment variable is not set in ${process.env.NODE_ENV || 'current'} environment`);
-  throw new Error("SENDGRID_API_KEY environment variable must be set");
-}
+import { FROM_EMAIL, mailTransport } from './mailTransport';
+import { escapeHtml } from '../utils/html';
 
 if (!process.env.SITE_URL) {
   console.warn("Warning: SITE_URL environment variable is not set");
 }
 
-const mailService = new MailService();
-mailService.setApiKey(process.env.SENDGRID_API_KEY);
-console.log('SendGrid API key configured successfully');
-
-const FROM_EMAIL = 'noreply@homesbin.com';
-
 export interface EmailTemplate {
   subject: string;
   text: string;
   html: string;
 }
 
+// A reply received by the inbound email webhook
+export interface InboundReply {
+  from: string;
+  fromName?: string;
+  subject: string;
+  text: string;
+  // Out-of-office and other automatic replies, which don't stop sequences
+  isAutoReply: boolean;
+}
+
 export class EmailService {
   private static generateToken(): string {
     return crypto.randomBytes(32).toString('hex');
@@ -93,9 +93,103 @@ export class EmailService {
     return this.sendEmail(userEmail, template);
   }
 
-  private static async sendEmail(to: string, template: EmailTemplate): Promise<boolean> {
-    if (!process.env.SENDGRID_API_KEY) {
-      console.error('[Email Service] SendGrid API key not configured');
+  static async sendNewLeadNotification(agentEmail: string, lead: Lead, listing?: Listing): Promise<boolean> {
+    console.log(`Attempting to send new lead notification to: ${agentEmail}`);
+    const siteUrl = process.env.SITE_URL || 'http://localhost:5000';
+    const regarding = listing ? `${listing.title} (${listing.address})` : 'your profile';
+
+    const template: EmailTemplate = {
+      subject: `New inquiry from ${lead.name}`,
+      text: [
+        `You have a new inquiry about ${regarding}.`,
+        `Name: ${lead.name}`,
+        `Email: ${lead.email}`,
+        lead.phone ? `Phone: ${lead.phone}` : '',
+        lead.message ? `Message: ${lead.message}` : '',
+        `View your dashboard: ${siteUrl}/dashboard`
+      ].filter(Boolean).join('\n'),
+      html: `
+        <h1>New Inquiry</h1>
+        <p>You have a new inquiry about ${escapeHtml(regarding)}.</p>
+        <p><strong>Name:</strong> ${escapeHtml(lead.name)}</p>
+        <p><strong>Email:</strong> <a href="mailto:${escapeHtml(lead.email)}">${escapeHtml(lead.email)}</a></p>
+        ${lead.phone ? `<p><strong>Phone:</strong> ${escapeHtml(lead.phone)}</p>` : ''}
+        ${lead.message ? `<p><strong>Message:</strong></p><p style="white-space: pre-line;">${escapeHtml(lead.message)}</p>` : ''}
+        <p>Reply quickly to make the best impression. <a href="${siteUrl}/dashboard">Open your dashboard</a>.</p>
+      `
+    };
+
+    return this.sendEmail(agentEmail, template);
+  }
+
+  static async sendSequenceTaskReminder(agent: User, task: string, contact: Contact, sequenceName: string): Promise<boolean> {
+    console.log(`Attempting to send sequence task reminder to: ${agent.email}`);
+    const siteUrl = process.env.SITE_URL || 'http://localhost:5000';
+    const marketingUrl = `${siteUrl}/${agent.username}/email-marketing`;
+
+    const template: EmailTemplate = {
+      subject: `Reminder: ${task}`,
+      text: [
+        `Your "${sequenceName}" sequence has a task for you: ${task}`,
+        `Contact: ${contact.name} <${contact.email}>`,
+        contact.phone ? `Phone: ${contact.phone}` : '',
+        `Open your contacts: ${marketingUrl}`
+      ].filter(Boolean).join('\n'),
+      html: `
+        <h1>${escapeHtml(task)}</h1>
+        <p>Your "${escapeHtml(sequenceName)}" sequence has a task for you.</p>
+        <p><strong>Contact:</strong> ${escapeHtml(contact.name)} (<a href="mailto:${escapeHtml(contact.email)}">${escapeHtml(contact.email)}</a>)</p>
+        ${contact.phone ? `<p><strong>Phone:</strong> ${escapeHtml(contact.phone)}</p>` : ''}
+        <p><a href="${marketingUrl}">Open your contacts</a></p>
+      `
+    };
+
+    return this.sendEmail(agent.email, template);
+  }
+
+  static async sendReplyToVerificationEmail(agent: User, replyTo: string, token: string): Promise<boolean> {
+    console.log(`Attempting to send reply-to verification email to: ${replyTo}`);
+    const siteUrl = process.env.SITE_URL || 'http://localhost:5000';
+    const verificationLink = `${siteUrl}/api/user/sender/verify/${token}`;
+    const agentName = agent.fullName || agent.username;
+
+    const template: EmailTemplate = {
+      subject: 'Confirm your reply-to address on HomesBin',
+      text: `${agentName} wants replies to their HomesBin emails to go to this address. Confirm it here: ${verificationLink}`,
+      html: `
+        <h1>Confirm your reply-to address</h1>
+        <p>${escapeHtml(agentName)} wants replies to the emails they send through HomesBin to go to ${escapeHtml(replyTo)}.</p>
+        <p><a href="${verificationLink}" data-click-track="off">Confirm this address</a></p>
+        <p>Or copy and paste this link in your browser:</p>
+        <p style="word-break: break-all;">${verificationLink}</p>
+        <p>If you didn't ask for this, you can safely ignore this email and replies won't be sent here.</p>
+      `
+    };
+
+    return this.sendEmail(replyTo, template);
+  }
+
+  static async forwardSequenceReply(to: string, reply: InboundReply, sequenceName: string): Promise<boolean> {
+    console.log(`Attempting to forward a sequence reply to: ${to}`);
+    const sender = reply.fromName ? `${reply.fromName} <${reply.from}>` : reply.from;
+    const note = `${sender} replied to your "${sequenceName}" sequence, so it has stopped for them.`;
+
+    const template: EmailTemplate = {
+      subject: reply.subject || `Reply from ${reply.fromName || reply.from}`,
+      text: `${note}\n\n${reply.text}`,
+      html: `
+        <p style="color: #666;">${escapeHtml(note)}</p>
+        <div style="white-space: pre-line;">${escapeHtml(reply.text)}</div>
+      `
+    };
+
+    // Answering the forwarded email goes straight to the contact
+    return this.sendEmail(to, template, reply.from);
+  }
+
+  private static async sendEmail(to: string, template: EmailTemplate, replyTo?: string): Promise<boolean> {
+    if (!mailTransport) {
+      console.error('[Email Service] No mail transport configured');
       return false;
     }
 
@@ -104,37 +198,25 @@ export class EmailService {
         to,
         from: FROM_EMAIL,
         subject: template.subject,
+        transport: mailTransport.name,
       });
 
-      const msg = {
-        to,
-        from: FROM_EMAIL,
+      await mailTransport.send({
+        to: [to],
+        from: { email: FROM_EMAIL },
+        replyTo,
         subject: template.subject,
         text: template.text,
         html: template.html,
-        trackingSettings: {
-          clickTracking: {
-            enable: false
-          },
-          openTracking: {
-            enable: true
-          }
+        tracking: {
+          clicks: false,
+          opens: true
         }
-      };
-
-      const response = await mailService.send(msg);
-      console.log('[Email Service] SendGrid API Response:', response);
+      });
       console.log('[Email Service] Email sent successfully to:', to);
       return true;
     } catch (error: unknown) {
-      console.error('[Email Service] SendGrid email error:', error);
-      if (error && typeof error === 'object' && 'response' in error) {
-        const errResponse = (error as { response: { body: unknown, statusCode: number } }).response;
-        console.error('[Email Service] SendGrid API response:', {
-          body: errResponse.body,
-          statusCode: errResponse.statusCode
-        });
-      }
+      console.error('[Email Service] Email error:', error);
       return false;
     }
   }
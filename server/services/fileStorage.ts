@@ -0,0 +1,243 @@
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const fileStorageDriverNames = ['local', 's3'] as const;
+export type FileStorageDriverName = typeof fileStorageDriverNames[number];
+
+// Keys under this prefix are never served publicly, only through signed URLs
+export const PRIVATE_KEY_PREFIX = 'private/';
+
+/**
+ * Stores uploaded files under keys such as "listings/12/abc-web.jpg" and says where they can be fetched from.
+ * Implementations throw when a file could not be written.
+ */
+export interface FileStorageDriver {
+  readonly name: FileStorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  // Permanent URL of a public file
+  url(key: string): string;
+  // Temporary URL that also works for private files
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  // The key of a URL returned by url(), or null if the URL points somewhere else
+  keyFromUrl(url: string): string | null;
+}
+
+/**
+ * Writes files to a directory, for development and single-server installs. Public files go in its `public`
+ * folder, which the server exposes at `publicPath`; private files go in its `private` folder, outside what is
+ * served, and are only sent for signed URLs. Signed URLs carry an expiry and an HMAC of the key, which
+ * verifySignature checks before a private file is sent.
+ */
+export class LocalFileStorage implements FileStorageDriver {
+  readonly name = 'local';
+
+  constructor(
+    readonly directory: string,
+    private signingSecret: string,
+    readonly publicPath: string = '/uploads'
+  ) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return fs.readFile(this.filePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.filePath(key)).catch(() => undefined);
+  }
+
+  url(key: string): string {
+    return `${this.publicPath}/${key}`;
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.url(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicPath}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length).split('?')[0] : null;
+  }
+
+  /**
+   * Check the query parameters of a signed URL
+   * @param key Key of the requested file
+   * @param expires Expiry from the URL, in seconds since the epoch
+   * @param signature Signature from the URL
+   * @returns Whether the URL was signed for this key and hasn't expired
+   */
+  verifySignature(key: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.sign(key, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Get the folder the server exposes at `publicPath`
+   * @returns Absolute path of the public folder
+   */
+  get publicDirectory(): string {
+    return path.resolve(this.directory, 'public');
+  }
+
+  /**
+   * Get where a file is stored on disk
+   * @param key File key
+   * @returns Absolute path inside the public folder, or the private one for private keys
+   * @throws Error if the key would resolve outside its folder
+   */
+  filePath(key: string): string {
+    const isPrivate = key.startsWith(PRIVATE_KEY_PREFIX);
+    const root = isPrivate ? path.resolve(this.directory, PRIVATE_KEY_PREFIX) : this.publicDirectory;
+    const filePath = isPrivate ? path.resolve(this.directory, key) : path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+}
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as Cloudflare R2, MinIO or DigitalOcean Spaces
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Base URL the bucket is served from, e.g. a CDN; defaults to the bucket's own URL
+  publicUrl?: string;
+}
+
+/**
+ * Stores files in an S3-compatible bucket. The bucket should only allow public reads outside PRIVATE_KEY_PREFIX.
+ */
+export class S3FileStorage implements FileStorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+
+  constructor(private config: S3Config) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      // Most S3-compatible services don't support bucket subdomains
+      forcePathStyle: !!config.endpoint,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Keys are never reused, so the files can be cached for good
+      CacheControl: key.startsWith(PRIVATE_KEY_PREFIX)
+        ? 'private, max-age=31536000, immutable'
+        : 'public, max-age=31536000, immutable'
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const object = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+    if (!object.Body) {
+      throw new Error(`File not found: ${key}`);
+    }
+    return Buffer.from(await object.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${key}`;
+    }
+    if (this.config.endpoint) {
+      return `${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${key}`;
+    }
+    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${key}`;
+  }
+
+  signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = this.url('');
+    return url.startsWith(prefix) ? url.slice(prefix.length).split('?')[0] : null;
+  }
+}
+
+/**
+ * Create the driver chosen by FILE_STORAGE, defaulting to the local upload directory
+ * @param env Environment to read the configuration from
+ * @returns The storage driver
+ */
+export function createFileStorage(env: NodeJS.ProcessEnv = process.env): FileStorageDriver {
+  const name = (env.FILE_STORAGE || 'local') as FileStorageDriverName;
+
+  if (!fileStorageDriverNames.includes(name)) {
+    throw new Error(`FILE_STORAGE must be one of ${fileStorageDriverNames.join(', ')}`);
+  }
+
+  if (name === 's3') {
+    if (!env.S3_BUCKET) {
+      throw new Error('S3_BUCKET environment variable must be set to use S3 file storage');
+    }
+    return new S3FileStorage({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || 'us-east-1',
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      publicUrl: env.S3_PUBLIC_URL
+    });
+  }
+
+  return new LocalFileStorage(
+    path.resolve(env.UPLOAD_DIR || '.uploads'),
+    env.FILE_SIGNING_SECRET || env.SESSION_SECRET || 'homesbinsecret'
+  );
+}
+
+let fileStorage: FileStorageDriver | undefined;
+
+/**
+ * Get the configured driver, creating it on first use rather than when this module is imported, so importing
+ * it doesn't log or throw
+ * @returns The storage driver
+ * @throws Error if FILE_STORAGE or its settings are invalid
+ */
+export function getFileStorage(): FileStorageDriver {
+  if (!fileStorage) {
+    fileStorage = createFileStorage();
+    console.log(`Storing uploaded files with the ${fileStorage.name} driver`);
+  }
+  return fileStorage;
+}
@@ -0,0 +1,538 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+import { IStorage } from '../storage';
+import { FlyerLayout, Listing, ListingFlyerOptions, User } from '@shared/schema';
+import { FileStorageDriver, getFileStorage } from './fileStorage';
+import { formatPrice, listingFeatures } from '../routes/publicListings';
+import { getSiteUrl, isPublished, listingPath } from '../utils/listingUrls';
+
+// Matches the user_themes default, for agents who never opened the theme editor
+const DEFAULT_COLOR = '#4f46e5';
+
+const MARGIN = 36;
+const GAP = 6;
+const FOOTER_HEIGHT = 104;
+
+// Photos are downsized before embedding; this is sharp enough for print at flyer sizes
+const PHOTO_MAX_EDGE = 1600;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+
+const statusLabels: Record<string, string> = {
+  active: 'For Sale',
+  pending: 'Sale Pending',
+  sold: 'Sold',
+  draft: 'Coming Soon'
+};
+
+type Doc = PDFKit.PDFDocument;
+
+// Everything a layout draws from, loaded up front so drawing never waits
+interface FlyerContent {
+  listing: Listing;
+  agent: User;
+  photos: Buffer[];
+  agentPhoto: Buffer | null;
+  // Public listing page the QR code points at; null when the listing has no public page
+  url: string | null;
+  color: string;
+  features: string[];
+}
+
+interface FlyerLayoutDefinition {
+  // Most photos the layout shows
+  photos: number;
+  draw: (doc: Doc, content: FlyerContent) => void;
+}
+
+// Theme colors may be shorthand or hand-edited; fall back rather than failing the print
+const normalizeColor = (value: string | null | undefined) => {
+  if (value && /^#[0-9a-f]{3}$/i.test(value)) {
+    return `#${value.slice(1).split('').map((digit) => digit + digit).join('')}`;
+  }
+  return value && /^#[0-9a-f]{6}$/i.test(value) ? value : DEFAULT_COLOR;
+};
+
+const rgb = (hex: string) => [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+
+// Dark text on light theme colors, white on dark ones
+const textColorOn = (hex: string) => {
+  const [r, g, b] = rgb(hex);
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255 > 0.6 ? TEXT_COLOR : '#ffffff';
+};
+
+// The color mixed with white, for backgrounds behind regular text
+const tint = (hex: string, amount: number) =>
+  `#${rgb(hex).map((channel) => Math.round(channel + (255 - channel) * amount).toString(16).padStart(2, '0')).join('')}`;
+
+// The built-in PDF fonts only cover Latin-1 and a few typographic marks, so drop anything else such as emoji
+const printable = (text: string) =>
+  text.replace(/[^\n\x20-\x7e\xa0-\xff\u2018\u2019\u201c\u201d\u2013\u2014\u2026\u2022\u20ac\u2122]/g, '').replace(/[ \t]+/g, ' ').trim();
+
+// Paragraphs already get a gap, so blank lines between them would double it
+const descriptionText = (listing: Listing) => printable(listing.description || '').replace(/\n\s*\n+/g, '\n');
+
+const fullAddress = (listing: Listing) => `${listing.address}, ${listing.city}, ${listing.state} ${listing.zipCode}`;
+
+const specsOf = (listing: Listing) =>
+  [
+    listing.bedrooms != null ? { value: String(listing.bedrooms), label: listing.bedrooms === 1 ? 'Bed' : 'Beds' } : null,
+    listing.bathrooms != null ? { value: String(listing.bathrooms), label: listing.bathrooms === 1 ? 'Bath' : 'Baths' } : null,
+    listing.squareFeet != null ? { value: listing.squareFeet.toLocaleString('en-US'), label: 'Sq Ft' } : null
+  ].filter((spec): spec is { value: string; label: string } => spec !== null);
+
+const drawPhoto = (doc: Doc, photo: Buffer | undefined, x: number, y: number, width: number, height: number, color: string) => {
+  doc.save();
+  doc.rect(x, y, width, height).clip();
+  if (photo) {
+    doc.image(photo, x, y, { cover: [width, height], align: 'center', valign: 'center' });
+  } else {
+    doc.rect(x, y, width, height).fill(tint(color, 0.85));
+    doc.fillColor(color).font('Helvetica').fontSize(12)
+      .text('Photos coming soon', x, y + height / 2 - 6, { width, align: 'center', lineBreak: false });
+  }
+  doc.restore();
+};
+
+/**
+ * Draw a QR code as vector squares so it stays crisp at any print size
+ */
+const drawQrCode = (doc: Doc, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  // Scanners need a light border around the code
+  const cell = size / (modules.size + 2);
+
+  doc.rect(x, y, size, size).fill('#ffffff');
+  for (let row = 0; row < modules.size; row++) {
+    for (let column = 0; column < modules.size; column++) {
+      if (modules.get(row, column)) {
+        doc.rect(x + (column + 1) * cell, y + (row + 1) * cell, cell, cell);
+      }
+    }
+  }
+  doc.fill('#000000');
+};
+
+// A row of boxes with the beds, baths and size; returns the height used
+const drawSpecs = (doc: Doc, content: FlyerContent, x: number, y: number, width: number) => {
+  const specs = specsOf(content.listing);
+  const propertyType = content.listing.propertyType;
+  const boxes = [...specs.map((spec) => ({ ...spec, size: 18 })), ...(propertyType ? [{ value: printable(propertyType), label: 'Type', size: 12 }] : [])];
+  if (boxes.length === 0) return 0;
+
+  const height = 46;
+  const boxWidth = (width - GAP * (boxes.length - 1)) / boxes.length;
+  boxes.forEach((box, index) => {
+    const boxX = x + index * (boxWidth + GAP);
+    doc.rect(boxX, y, boxWidth, height).fill(tint(content.color, 0.9));
+    doc.fillColor(content.color).font('Helvetica-Bold').fontSize(box.size)
+      .text(box.value, boxX + 4, y + (box.size === 18 ? 7 : 10), { width: boxWidth - 8, align: 'center', height: 20, ellipsis: true, lineBreak: false });
+    doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+      .text(box.label.toUpperCase(), boxX, y + 30, { width: boxWidth, align: 'center', characterSpacing: 1, lineBreak: false });
+  });
+  return height;
+};
+
+const drawHeading = (doc: Doc, text: string, x: number, y: number, width: number, color: string) => {
+  doc.fillColor(color).font('Helvetica-Bold').fontSize(12)
+    .text(text.toUpperCase(), x, y, { width, characterSpacing: 1, lineBreak: false });
+  doc.moveTo(x, y + 17).lineTo(x + width, y + 17).lineWidth(1).strokeColor(tint(color, 0.6)).stroke();
+  return 26;
+};
+
+const drawDescription = (doc: Doc, content: FlyerContent, x: number, y: number, width: number, height: number) => {
+  const description = descriptionText(content.listing);
+  if (!description || height < 30) return;
+
+  doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10)
+    .text(description, x, y, { width, height, ellipsis: true, lineGap: 2, paragraphGap: 4 });
+};
+
+const drawFeatures = (doc: Doc, content: FlyerContent, x: number, y: number, width: number, height: number, columns = 1) => {
+  const columnWidth = (width - GAP * 2 * (columns - 1)) / columns;
+  const rowHeight = 16;
+  // Split evenly across the columns as long as they fit
+  const perColumn = Math.min(Math.floor(height / rowHeight), Math.ceil(content.features.length / columns));
+  if (perColumn <= 0) return;
+
+  content.features.slice(0, perColumn * columns).forEach((feature, index) => {
+    const featureX = x + Math.floor(index / perColumn) * (columnWidth + GAP * 2);
+    const featureY = y + (index % perColumn) * rowHeight;
+    doc.circle(featureX + 3, featureY + 5, 2.5).fill(content.color);
+    doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(10)
+      .text(printable(feature), featureX + 12, featureY, { width: columnWidth - 12, height: rowHeight, ellipsis: true, lineBreak: false });
+  });
+};
+
+/**
+ * The agent's photo, name and contact details in a band across the bottom of the page, with the QR code
+ */
+const drawAgentFooter = (doc: Doc, content: FlyerContent) => {
+  const { agent, color } = content;
+  const width = doc.page.width;
+  const top = doc.page.height - FOOTER_HEIGHT;
+  const photoSize = 64;
+  const qrSize = 76;
+
+  doc.rect(0, top, width, FOOTER_HEIGHT).fill(tint(color, 0.9));
+  doc.rect(0, top, width, 4).fill(color);
+
+  let textX = MARGIN;
+  if (content.agentPhoto) {
+    doc.save();
+    doc.circle(MARGIN + photoSize / 2, top + FOOTER_HEIGHT / 2 + 2, photoSize / 2).clip();
+    doc.image(content.agentPhoto, MARGIN, top + (FOOTER_HEIGHT - photoSize) / 2 + 2, { cover: [photoSize, photoSize], align: 'center', valign: 'center' });
+    doc.restore();
+    textX += photoSize + 14;
+  }
+
+  const textWidth = width - textX - MARGIN - (content.url ? qrSize + 120 : 0);
+  const details = [agent.title, agent.phone, agent.email].filter(Boolean).map((detail) => printable(detail as string));
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(15)
+    .text(printable(agent.fullName || agent.username), textX, top + 24, { width: textWidth, height: 20, ellipsis: true, lineBreak: false });
+  doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(10)
+    .text(details.join('\n'), textX, top + 44, { width: textWidth, height: 42, ellipsis: true, lineGap: 1 });
+
+  if (content.url) {
+    const qrX = width - MARGIN - qrSize;
+    const qrY = top + (FOOTER_HEIGHT - qrSize) / 2 + 2;
+    drawQrCode(doc, content.url, qrX, qrY, qrSize);
+    doc.fillColor(color).font('Helvetica-Bold').fontSize(10)
+      .text('Scan for photos and details', qrX - 116, qrY + qrSize / 2 - 12, { width: 106, align: 'right' });
+  }
+};
+
+// Status on the left and price on the right of a colored band; returns the band's height
+const drawPriceBand = (doc: Doc, content: FlyerContent, y: number) => {
+  const height = 54;
+  const onColor = textColorOn(content.color);
+  doc.rect(0, y, doc.page.width, height).fill(content.color);
+  doc.fillColor(onColor).font('Helvetica-Bold').fontSize(13)
+    .text((statusLabels[content.listing.status || 'active'] || statusLabels.active).toUpperCase(), MARGIN, y + 20, { characterSpacing: 2, lineBreak: false });
+  doc.font('Helvetica-Bold').fontSize(24)
+    .text(formatPrice(content.listing.price), MARGIN, y + 14, { width: doc.page.width - MARGIN * 2, align: 'right', lineBreak: false });
+  return height;
+};
+
+const drawTitle = (doc: Doc, content: FlyerContent, y: number, titleSize = 20) => {
+  const width = doc.page.width - MARGIN * 2;
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(titleSize)
+    .text(printable(content.listing.title), MARGIN, y, { width, height: titleSize + 6, ellipsis: true, lineBreak: false });
+  doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(11)
+    .text(printable(fullAddress(content.listing)), MARGIN, y + titleSize + 6, { width, lineBreak: false });
+  return titleSize + 26;
+};
+
+/**
+ * One page: a large photo beside two smaller ones, the key facts, description and features, then the agent
+ */
+const drawClassic = (doc: Doc, content: FlyerContent) => {
+  const { width, height } = doc.page;
+  const [hero, ...others] = content.photos;
+  let y = drawPriceBand(doc, content, 0);
+
+  const photoHeight = Math.round(height * 0.38);
+  if (others.length >= 2) {
+    const heroWidth = Math.round((width - GAP) * 2 / 3);
+    const sideWidth = width - heroWidth - GAP;
+    const sideHeight = (photoHeight - GAP) / 2;
+    drawPhoto(doc, hero, 0, y, heroWidth, photoHeight, content.color);
+    drawPhoto(doc, others[0], heroWidth + GAP, y, sideWidth, sideHeight, content.color);
+    drawPhoto(doc, others[1], heroWidth + GAP, y + sideHeight + GAP, sideWidth, sideHeight, content.color);
+  } else {
+    drawPhoto(doc, hero, 0, y, width, photoHeight, content.color);
+  }
+  y += photoHeight + 18;
+
+  y += drawTitle(doc, content, y);
+  y += drawSpecs(doc, content, MARGIN, y, width - MARGIN * 2) + 18;
+
+  const bottom = height - FOOTER_HEIGHT - 16;
+  const contentWidth = width - MARGIN * 2;
+  const hasFeatures = content.features.length > 0;
+  const descriptionWidth = hasFeatures ? Math.round(contentWidth * 0.6) : contentWidth;
+  const featuresX = MARGIN + descriptionWidth + 24;
+  const featuresWidth = contentWidth - descriptionWidth - 24;
+
+  if (content.listing.description) {
+    const headingHeight = drawHeading(doc, 'About this home', MARGIN, y, descriptionWidth, content.color);
+    drawDescription(doc, content, MARGIN, y + headingHeight, descriptionWidth, bottom - y - headingHeight);
+  }
+  if (hasFeatures) {
+    const x = content.listing.description ? featuresX : MARGIN;
+    const featuresAreaWidth = content.listing.description ? featuresWidth : contentWidth;
+    const headingHeight = drawHeading(doc, 'Features', x, y, featuresAreaWidth, content.color);
+    drawFeatures(doc, content, x, y + headingHeight, featuresAreaWidth, bottom - y - headingHeight, content.listing.description ? 1 : 2);
+  }
+
+  drawAgentFooter(doc, content);
+};
+
+/**
+ * One page led by a grid of four photos, for homes that sell on their looks
+ */
+const drawGallery = (doc: Doc, content: FlyerContent) => {
+  const { width, height } = doc.page;
+  const onColor = textColorOn(content.color);
+
+  const bandHeight = 72;
+  doc.rect(0, 0, width, bandHeight).fill(content.color);
+  doc.fillColor(onColor).font('Helvetica-Bold').fontSize(20)
+    .text(printable(content.listing.title), MARGIN, 16, { width: width - MARGIN * 2, height: 26, ellipsis: true, lineBreak: false });
+  doc.font('Helvetica').fontSize(11)
+    .text(printable(fullAddress(content.listing)), MARGIN, 44, { width: width - MARGIN * 2, lineBreak: false });
+
+  const gridTop = bandHeight + GAP;
+  const gridHeight = Math.round(height * 0.44);
+  const cellWidth = (width - GAP) / 2;
+  const cellHeight = (gridHeight - GAP) / 2;
+  if (content.photos.length >= 4) {
+    for (let index = 0; index < 4; index++) {
+      drawPhoto(doc, content.photos[index], (index % 2) * (cellWidth + GAP), gridTop + Math.floor(index / 2) * (cellHeight + GAP), cellWidth, cellHeight, content.color);
+    }
+  } else {
+    drawPhoto(doc, content.photos[0], 0, gridTop, width, gridHeight, content.color);
+  }
+  let y = gridTop + gridHeight + 18;
+
+  doc.fillColor(content.color).font('Helvetica-Bold').fontSize(26)
+    .text(formatPrice(content.listing.price), MARGIN, y, { lineBreak: false });
+  doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(11)
+    .text((statusLabels[content.listing.status || 'active'] || statusLabels.active).toUpperCase(), MARGIN, y + 8, { width: width - MARGIN * 2, align: 'right', characterSpacing: 2, lineBreak: false });
+  y += 40;
+  y += drawSpecs(doc, content, MARGIN, y, width - MARGIN * 2) + 16;
+
+  const bottom = height - FOOTER_HEIGHT - 16;
+  if (content.features.length > 0) {
+    const featureLine = printable(content.features.join('  •  '));
+    doc.fillColor(content.color).font('Helvetica-Bold').fontSize(10)
+      .text(featureLine, MARGIN, y, { width: width - MARGIN * 2, height: 28, ellipsis: true, align: 'center' });
+    y += Math.min(doc.heightOfString(featureLine, { width: width - MARGIN * 2 }), 28) + 10;
+  }
+  drawDescription(doc, content, MARGIN, y, width - MARGIN * 2, bottom - y);
+
+  drawAgentFooter(doc, content);
+};
+
+// Page number and address along the bottom of inside brochure pages
+const drawPageFooter = (doc: Doc, content: FlyerContent, page: number) => {
+  const { width, height } = doc.page;
+  doc.moveTo(MARGIN, height - 40).lineTo(width - MARGIN, height - 40).lineWidth(0.5).strokeColor(tint(content.color, 0.6)).stroke();
+  doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+    .text(printable(fullAddress(content.listing)), MARGIN, height - 30, { width: width - MARGIN * 2 - 40, lineBreak: false })
+    .text(String(page), MARGIN, height - 30, { width: width - MARGIN * 2, align: 'right', lineBreak: false });
+};
+
+/**
+ * Several pages: a cover, the details, a page of photos for every four more, and a page about the agent
+ */
+const drawBrochure = (doc: Doc, content: FlyerContent) => {
+  const { width, height } = doc.page;
+  const contentWidth = width - MARGIN * 2;
+  const [cover, ...others] = content.photos;
+  let page = 1;
+
+  // Cover
+  const coverHeight = Math.round(height * 0.58);
+  drawPhoto(doc, cover, 0, 0, width, coverHeight, content.color);
+  let y = coverHeight;
+  y += drawPriceBand(doc, content, y) + 24;
+  y += drawTitle(doc, content, y, 26);
+  drawSpecs(doc, content, MARGIN, y + 6, contentWidth);
+  drawAgentFooter(doc, content);
+
+  // Details
+  doc.addPage();
+  page++;
+  y = MARGIN;
+  const hasFacts = !!(content.listing.propertyType || content.listing.mlsId);
+  const factsHeight = hasFacts ? 70 : 0;
+  const featuresRows = Math.min(Math.ceil(content.features.length / 2), 12);
+  const featuresHeight = content.features.length > 0 ? 26 + featuresRows * 16 + 20 : 0;
+  const bottom = height - 56;
+
+  y += drawHeading(doc, 'About this home', MARGIN, y, contentWidth, content.color);
+  const descriptionHeight = bottom - y - factsHeight - featuresHeight;
+  if (content.listing.description) {
+    drawDescription(doc, content, MARGIN, y, contentWidth, descriptionHeight);
+    const usedHeight = doc.heightOfString(descriptionText(content.listing), { width: contentWidth, lineGap: 2, paragraphGap: 4 });
+    y += Math.min(usedHeight, descriptionHeight) + 20;
+  } else {
+    y += drawSpecs(doc, content, MARGIN, y, contentWidth) + 20;
+  }
+
+  if (content.features.length > 0) {
+    y += drawHeading(doc, 'Features', MARGIN, y, contentWidth, content.color);
+    drawFeatures(doc, content, MARGIN, y, contentWidth, featuresRows * 16, 2);
+    y += featuresRows * 16 + 20;
+  }
+
+  if (hasFacts) {
+    y += drawHeading(doc, 'Property facts', MARGIN, y, contentWidth, content.color);
+    const facts = [
+      ['Price', formatPrice(content.listing.price)],
+      ['Property type', content.listing.propertyType],
+      ['MLS #', content.listing.mlsId]
+    ].filter((fact): fact is [string, string] => !!fact[1]);
+    const factWidth = contentWidth / facts.length;
+    facts.forEach(([label, value], index) => {
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+        .text(label.toUpperCase(), MARGIN + index * factWidth, y, { width: factWidth - GAP, characterSpacing: 1, lineBreak: false });
+      doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(11)
+        .text(printable(value), MARGIN + index * factWidth, y + 12, { width: factWidth - GAP, height: 14, ellipsis: true, lineBreak: false });
+    });
+  }
+  drawPageFooter(doc, content, page);
+
+  // Photos, four to a page
+  for (let start = 0; start < others.length; start += 4) {
+    doc.addPage();
+    page++;
+    const pagePhotos = others.slice(start, start + 4);
+    const cellWidth = (contentWidth - GAP) / 2;
+    const cellHeight = (height - MARGIN - 56 - GAP) / 2;
+    pagePhotos.forEach((photo, index) => {
+      // A lone last photo gets the whole width
+      const spansRow = pagePhotos.length % 2 === 1 && index === pagePhotos.length - 1;
+      drawPhoto(
+        doc,
+        photo,
+        MARGIN + (index % 2) * (cellWidth + GAP),
+        MARGIN + Math.floor(index / 2) * (cellHeight + GAP),
+        spansRow ? contentWidth : cellWidth,
+        cellHeight,
+        content.color
+      );
+    });
+    drawPageFooter(doc, content, page);
+  }
+
+  // Agent
+  doc.addPage();
+  page++;
+  const { agent } = content;
+  y = MARGIN;
+  y += drawHeading(doc, 'Schedule a showing', MARGIN, y, contentWidth, content.color) + 10;
+
+  const photoSize = 120;
+  let textX = MARGIN;
+  if (content.agentPhoto) {
+    doc.save();
+    doc.circle(MARGIN + photoSize / 2, y + photoSize / 2, photoSize / 2).clip();
+    doc.image(content.agentPhoto, MARGIN, y, { cover: [photoSize, photoSize], align: 'center', valign: 'center' });
+    doc.restore();
+    textX += photoSize + 24;
+  }
+  const textWidth = width - MARGIN - textX;
+  doc.fillColor(TEXT_COLOR).font('Helvetica-Bold').fontSize(22)
+    .text(printable(agent.fullName || agent.username), textX, y + 10, { width: textWidth, height: 28, ellipsis: true, lineBreak: false });
+  const details = [agent.title, agent.phone, agent.email].filter(Boolean).map((detail) => printable(detail as string));
+  doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(12)
+    .text(details.join('\n'), textX, y + 42, { width: textWidth, height: 70, ellipsis: true, lineGap: 3 });
+  y += Math.max(photoSize, 110) + 24;
+
+  const qrSize = 150;
+  const bioBottom = content.url ? height - 56 - qrSize - 40 : height - 56;
+  if (agent.bio) {
+    doc.fillColor(TEXT_COLOR).font('Helvetica').fontSize(11)
+      .text(printable(agent.bio), MARGIN, y, { width: contentWidth, height: bioBottom - y, ellipsis: true, lineGap: 3 });
+  }
+
+  if (content.url) {
+    const qrY = height - 56 - qrSize - 20;
+    drawQrCode(doc, content.url, (width - qrSize) / 2, qrY, qrSize);
+    doc.fillColor(content.color).font('Helvetica-Bold').fontSize(11)
+      .text('Scan to see every photo and book a tour', MARGIN, qrY + qrSize + 2, { width: contentWidth, align: 'center', lineBreak: false });
+  }
+  drawPageFooter(doc, content, page);
+};
+
+const layouts: Record<FlyerLayout, FlyerLayoutDefinition> = {
+  classic: { photos: 3, draw: drawClassic },
+  gallery: { photos: 4, draw: drawGallery },
+  brochure: { photos: 13, draw: drawBrochure }
+};
+
+export class FlyerService {
+  constructor(private storage: IStorage, private driver: FileStorageDriver = getFileStorage()) {}
+
+  /**
+   * Build a printable PDF of a listing with the agent's details and theme color. Photos are read from file
+   * storage rather than fetched, so no outside service is needed; photos stored elsewhere are left out.
+   * @param listing Listing to print
+   * @param options Layout, page size and an optional color in place of the agent's theme color
+   * @returns The PDF
+   * @throws Error if the listing's agent doesn't exist
+   */
+  async render(listing: Listing, options: ListingFlyerOptions): Promise<Buffer> {
+    const agent = await this.storage.getUser(listing.userId);
+    if (!agent) {
+      throw new Error(`Agent ${listing.userId} not found`);
+    }
+
+    const layout = layouts[options.layout];
+    const theme = await this.storage.getUserTheme(agent.id);
+    const photos = await this.loadImages(listing.images || [], layout.photos);
+
+    const content: FlyerContent = {
+      listing,
+      agent,
+      photos,
+      agentPhoto: agent.profileImage ? (await this.loadImages([agent.profileImage], 1))[0] ?? null : null,
+      // Scanning a code that leads to a missing page would be worse than no code
+      url: !isPublished(listing) ? null : `${getSiteUrl()}${listingPath(agent.username, listing)}`,
+      color: normalizeColor(options.color ?? theme?.primaryColor),
+      features: listingFeatures(listing)
+    };
+
+    const doc = new PDFDocument({
+      size: options.pageSize === 'a4' ? 'A4' : 'LETTER',
+      margin: 0,
+      info: {
+        Title: printable(`${listing.title} - ${fullAddress(listing)}`),
+        Author: printable(agent.fullName || agent.username)
+      }
+    });
+
+    const pdf = new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    layout.draw(doc, content);
+    doc.end();
+    return pdf;
+  }
+
+  /**
+   * Read images from file storage and convert them to JPEGs that PDFs can embed
+   * @param urls Image URLs as stored on records
+   * @param limit Most images wanted
+   * @returns Up to `limit` images in order; ones that aren't in file storage or can't be read are skipped
+   */
+  private async loadImages(urls: string[], limit: number): Promise<Buffer[]> {
+    const images: Buffer[] = [];
+    for (const url of urls) {
+      if (images.length >= limit) break;
+
+      const key = this.driver.keyFromUrl(url);
+      if (!key) continue;
+
+      try {
+        images.push(await sharp(await this.driver.get(key))
+          .rotate()
+          .resize(PHOTO_MAX_EDGE, PHOTO_MAX_EDGE, { fit: 'inside', withoutEnlargement: true })
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality: 80 })
+          .toBuffer());
+      } catch (error) {
+        console.error(`Error loading image ${url} for flyer:`, error);
+      }
+    }
+    return images;
+  }
+}
@@ -0,0 +1,115 @@
+import sharp from 'sharp';
+import { Asset, AssetKind } from '@shared/schema';
+import { AssetFile, AssetService } from './assetService';
+
+export const IMAGE_UPLOAD_MAX_BYTES = 15 * 1024 * 1024;
+export const IMAGE_UPLOAD_MAX_FILES = 20;
+export const imageUploadMimeTypes = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Guards against decompression bombs: a small file that decodes to an enormous image
+const MAX_INPUT_PIXELS = 100_000_000;
+
+interface ImagePreset {
+  // Longest edge of each stored size, or the side length for square crops
+  sizes: Record<string, { size: number; square?: boolean }>;
+  main: string;
+  // Graphics with text stay PNG so the lettering stays sharp; photos become JPEG
+  format: 'jpeg' | 'png';
+  isPrivate: boolean;
+}
+
+// Originals aren't kept since they can carry camera location data
+const imagePresets: Record<AssetKind, ImagePreset> = {
+  // The client derives thumbnail URLs from web ones by swapping the suffix, so keep these names in step
+  listing_photo: { sizes: { web: { size: 1600 }, thumb: { size: 400 } }, main: 'web', format: 'jpeg', isPrivate: false },
+  map_background: { sizes: { web: { size: 2400 } }, main: 'web', format: 'jpeg', isPrivate: false },
+  profile_image: { sizes: { web: { size: 400, square: true } }, main: 'web', format: 'jpeg', isPrivate: false },
+  // Drafts stay private until the agent shares them
+  social_graphic: { sizes: { web: { size: 1920 } }, main: 'web', format: 'png', isPrivate: true }
+};
+
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+export interface ImageUpload {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+export class ImageUploadService {
+  constructor(private assetService: AssetService) {}
+
+  /**
+   * Check an upload before decoding it
+   * @param file Uploaded file
+   * @throws ImageValidationError if the type or size isn't allowed
+   */
+  static validate(file: ImageUpload): void {
+    if (!imageUploadMimeTypes.includes(file.mimetype)) {
+      throw new ImageValidationError(`${file.originalname} is not a JPEG, PNG or WebP image`);
+    }
+    if (file.size > IMAGE_UPLOAD_MAX_BYTES) {
+      throw new ImageValidationError(`${file.originalname} is larger than ${IMAGE_UPLOAD_MAX_BYTES / 1024 / 1024}MB`);
+    }
+  }
+
+  /**
+   * Resize an image into the sizes used for its kind and store them as an asset. Images are re-encoded
+   * without their metadata, which removes EXIF GPS coordinates; the EXIF orientation is applied first.
+   * @param userId Agent uploading the image
+   * @param kind What the image is for
+   * @param file Uploaded file
+   * @returns The stored asset
+   * @throws ImageValidationError if the file isn't a usable image
+   */
+  async upload(userId: number, kind: AssetKind, file: ImageUpload): Promise<Asset> {
+    ImageUploadService.validate(file);
+
+    const metadata = await sharp(file.buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+      .metadata()
+      .catch(() => null);
+    // The browser's MIME type is only a hint, so check what the file actually is
+    if (!metadata || !['jpeg', 'png', 'webp'].includes(metadata.format || '')) {
+      throw new ImageValidationError(`${file.originalname} could not be read as an image`);
+    }
+
+    const preset = imagePresets[kind];
+    const files: Record<string, AssetFile> = {};
+    let main = { width: 0, height: 0 };
+
+    for (const [variant, options] of Object.entries(preset.sizes)) {
+      const { data, info } = await this.resize(file.buffer, options.size, !!options.square, preset.format);
+      files[variant] = {
+        body: data,
+        contentType: `image/${preset.format}`,
+        extension: preset.format === 'jpeg' ? 'jpg' : 'png'
+      };
+      if (variant === preset.main) main = { width: info.width, height: info.height };
+    }
+
+    return this.assetService.create(userId, {
+      kind,
+      files,
+      main: preset.main,
+      isPrivate: preset.isPrivate,
+      ...main
+    });
+  }
+
+  private resize(input: Buffer, size: number, square: boolean, format: 'jpeg' | 'png') {
+    const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size, size, { fit: square ? 'cover' : 'inside', withoutEnlargement: !square })
+      .keepIccProfile();
+
+    return format === 'png'
+      ? image.png({ compressionLevel: 9 }).toBuffer({ resolveWithObject: true })
+      : image.flatten({ background: '#ffffff' }).jpeg({ quality: 82, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+  }
+}
@@ -0,0 +1,207 @@
+import { IStorage } from '../storage';
+import { Job } from '@shared/schema';
+
+/**
+ * Source of time for the job runner, injectable so tests can control scheduling and delays
+ */
+export interface Clock {
+  now(): Date;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep: (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+};
+
+export interface JobContext {
+  // Whether a failure now will be final rather than retried
+  isFinalAttempt: boolean;
+  // Extend the job's lock during long-running work so it isn't picked up again as stale
+  heartbeat(): Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<void>;
+
+export interface JobQueueOptions {
+  clock?: Clock;
+  pollIntervalMs?: number;
+  // A running job whose lock is older than this is assumed abandoned, e.g. by a restart
+  lockTimeoutMs?: number;
+  maxJobsPerPoll?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  key?: string;
+  maxAttempts?: number;
+}
+
+export class JobQueue {
+  private handlers: Record<string, JobHandler> = {};
+  private timer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private clock: Clock;
+  private pollIntervalMs: number;
+  private lockTimeoutMs: number;
+  private maxJobsPerPoll: number;
+  private backoffBaseMs: number;
+  private backoffMaxMs: number;
+
+  constructor(private storage: IStorage, options: JobQueueOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 15 * 1000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5 * 60 * 1000;
+    this.maxJobsPerPoll = options.maxJobsPerPoll ?? 10;
+    this.backoffBaseMs = options.backoffBaseMs ?? 60 * 1000;
+    this.backoffMaxMs = options.backoffMaxMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Get the delay before retrying a job, doubling with each failed attempt
+   * @param attempts Number of attempts made so far
+   * @param baseMs Delay after the first failure
+   * @param maxMs Upper bound for the delay
+   * @returns Delay in milliseconds
+   */
+  static backoffDelay(attempts: number, baseMs: number, maxMs: number): number {
+    return Math.min(baseMs * Math.pow(2, Math.max(attempts - 1, 0)), maxMs);
+  }
+
+  /**
+   * Register the handler that runs jobs of a type
+   * @param type Job type
+   * @param handler Function that performs the job; throwing schedules a retry
+   */
+  register(type: string, handler: JobHandler): void {
+    this.handlers[type] = handler;
+  }
+
+  /**
+   * Add a job to the queue
+   * @param type Job type, which must have a registered handler
+   * @param payload Data passed to the handler
+   * @param options When to run the job, its lookup key and how often to try it
+   * @returns The persisted job
+   */
+  async enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<Job> {
+    return this.storage.createJob({
+      type,
+      payload,
+      key: options.key ?? null,
+      runAt: options.runAt || this.clock.now(),
+      maxAttempts: options.maxAttempts ?? 5
+    });
+  }
+
+  /**
+   * Cancel pending jobs with a key; jobs already running are not interrupted
+   * @param key Job key
+   * @returns Number of jobs cancelled
+   */
+  async cancel(key: string): Promise<number> {
+    return this.storage.cancelJobs(key);
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const poll = () => {
+      this.runDueJobs().catch((error) => console.error('Error running background jobs:', error));
+    };
+
+    this.timer = setInterval(poll, this.pollIntervalMs);
+    this.timer.unref();
+    poll();
+  }
+
+  /**
+   * Stop polling; a job that is already running finishes on its own
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every job that is due, one at a time
+   * @returns Number of jobs run
+   */
+  async runDueJobs(): Promise<number> {
+    // Skip this poll if the previous one is still working through jobs
+    if (this.isPolling) return 0;
+    this.isPolling = true;
+
+    try {
+      const now = this.clock.now();
+      const staleBefore = new Date(now.getTime() - this.lockTimeoutMs);
+      const dueJobs = await this.storage.getDueJobs(now, staleBefore, this.maxJobsPerPoll);
+
+      let jobsRun = 0;
+      for (const dueJob of dueJobs) {
+        const job = await this.storage.claimJob(dueJob, this.clock.now());
+        if (!job) continue;
+
+        await this.runJob(job);
+        jobsRun++;
+      }
+
+      return jobsRun;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers[job.type];
+    if (!handler) {
+      await this.storage.updateJob(job.id, {
+        status: 'failed',
+        lastError: `No handler registered for job type "${job.type}"`,
+        lockedAt: null
+      });
+      return;
+    }
+
+    const isFinalAttempt = job.attempts >= job.maxAttempts;
+
+    try {
+      await handler(job, {
+        isFinalAttempt,
+        heartbeat: async () => {
+          await this.storage.updateJob(job.id, { lockedAt: this.clock.now() });
+        }
+      });
+
+      await this.storage.updateJob(job.id, {
+        status: 'completed',
+        completedAt: this.clock.now(),
+        lockedAt: null,
+        lastError: null
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+
+      if (isFinalAttempt) {
+        await this.storage.updateJob(job.id, { status: 'failed', lastError: message, lockedAt: null });
+        return;
+      }
+
+      const delay = JobQueue.backoffDelay(job.attempts, this.backoffBaseMs, this.backoffMaxMs);
+      await this.storage.updateJob(job.id, {
+        status: 'pending',
+        runAt: new Date(this.clock.now().getTime() + delay),
+        lastError: message,
+        lockedAt: null
+      });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+// Store recent submission times per IP address in memory
+const recentSubmissions = new Map<string, number[]>();
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const MAX_SUBMISSIONS_PER_WINDOW = 5;
+const MIN_FILL_TIME_MS = 3000; // humans take longer than this to fill in a form
+const MAX_LINKS_IN_MESSAGE = 3;
+
+export interface LeadSubmission {
+  message?: string;
+  website?: string; // honeypot field, hidden from real visitors
+  formStartedAt?: number;
+}
+
+export type SpamCheckReason = 'honeypot' | 'too_fast' | 'rate_limited' | 'suspicious_content';
+
+export type SpamCheckResult =
+  | { allowed: true }
+  | { allowed: false; reason: SpamCheckReason };
+
+export class LeadSpamService {
+  /**
+   * Check a public contact form submission for signs of spam
+   * @param submission Submitted form fields relevant to spam detection
+   * @param ipAddress Address the submission came from
+   * @returns Whether the submission should be accepted, with a reason if not
+   */
+  static check(submission: LeadSubmission, ipAddress: string): SpamCheckResult {
+    const now = Date.now();
+
+    // Bots tend to fill in every field, including ones hidden from people
+    if (submission.website && submission.website.trim() !== '') {
+      return { allowed: false, reason: 'honeypot' };
+    }
+
+    if (submission.formStartedAt && now - submission.formStartedAt < MIN_FILL_TIME_MS) {
+      return { allowed: false, reason: 'too_fast' };
+    }
+
+    const timestamps = (recentSubmissions.get(ipAddress) || []).filter(
+      (timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS
+    );
+    if (timestamps.length >= MAX_SUBMISSIONS_PER_WINDOW) {
+      recentSubmissions.set(ipAddress, timestamps);
+      return { allowed: false, reason: 'rate_limited' };
+    }
+    timestamps.push(now);
+    recentSubmissions.set(ipAddress, timestamps);
+
+    const linkCount = (submission.message?.match(/https?:\/\//gi) || []).length;
+    if (linkCount > MAX_LINKS_IN_MESSAGE) {
+      return { allowed: false, reason: 'suspicious_content' };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Delete submission records that are outside the rate limit window (called periodically)
+   */
+  static cleanupExpiredEntries(): void {
+    const now = Date.now();
+    recentSubmissions.forEach((timestamps, ipAddress) => {
+      const active = timestamps.filter((timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS);
+      if (active.length === 0) {
+        recentSubmissions.delete(ipAddress);
+      } else {
+        recentSubmissions.set(ipAddress, active);
+      }
+    });
+  }
+}
+
+export const leadSpamService = LeadSpamService;
@@ -0,0 +1,118 @@
+import { IStorage } from '../storage';
+import { Listing, ListingEvent, ListingEventType } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FieldValue = string | number | boolean | null;
+
+// Null and undefined both mean "not set", e.g. a description that was never written
+const orNull = (value: unknown) => (value ?? null) as FieldValue;
+
+// Fields whose changes are kept, the event each change is recorded as, and how an unset value reads
+const trackedFields: {
+  field: 'price' | 'status' | 'isPublic' | 'description';
+  event: ListingEventType;
+  normalize: (value: unknown) => FieldValue;
+}[] = [
+  { field: 'price', event: 'price_changed', normalize: orNull },
+  { field: 'status', event: 'status_changed', normalize: (value) => (value as string | null) || 'active' },
+  // Listings are public unless they've been hidden
+  { field: 'isPublic', event: 'visibility_changed', normalize: (value) => value !== false },
+  { field: 'description', event: 'description_changed', normalize: orNull }
+];
+
+// Statuses that count towards days on market; the clock stops once a listing goes under contract
+const ON_MARKET_STATUSES = ['active'];
+
+export interface ListingHistory {
+  events: ListingEvent[];
+  // Whole days the listing has been active, or null if it has never been
+  daysOnMarket: number | null;
+}
+
+export class ListingHistoryService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Record that a listing was created, with the price and status it started at
+   * @param listing The new listing
+   * @param userId User who created it
+   */
+  async recordCreated(listing: Listing, userId: number): Promise<ListingEvent> {
+    return this.storage.createListingEvent({
+      listingId: listing.id,
+      userId,
+      event: 'listed',
+      fromValue: null,
+      toValue: { price: listing.price, status: listing.status || 'active' }
+    });
+  }
+
+  /**
+   * Record each tracked field that differs between a listing before and after an update
+   * @param before Listing as it was
+   * @param after Listing as saved
+   * @param userId User who made the update
+   * @returns The recorded events, none if no tracked field changed
+   */
+  async recordChanges(before: Listing, after: Listing, userId: number): Promise<ListingEvent[]> {
+    const events: ListingEvent[] = [];
+    for (const { field, event, normalize } of trackedFields) {
+      const fromValue = normalize(before[field]);
+      const toValue = normalize(after[field]);
+      if (fromValue === toValue) continue;
+
+      events.push(await this.storage.createListingEvent({ listingId: after.id, userId, event, fromValue, toValue }));
+    }
+    return events;
+  }
+
+  /**
+   * Get a listing's history with its days on market
+   * @param listing Listing
+   * @param now Time days on market are counted up to while the listing is still active
+   * @returns Events oldest first and days on market
+   */
+  async getHistory(listing: Listing, now: Date = new Date()): Promise<ListingHistory> {
+    const events = await this.storage.getListingEventsByListingId(listing.id);
+    return { events, daysOnMarket: ListingHistoryService.daysOnMarket(listing, events, now) };
+  }
+
+  /**
+   * Add up the time a listing spent in an on-market status by replaying its status changes. Listings created
+   * before history was kept have no "listed" event, so they're taken to have started at their creation time.
+   * @param listing Listing
+   * @param events The listing's events, oldest first
+   * @param now End of the current period
+   * @returns Whole days on market, or null if the listing was never on the market
+   */
+  static daysOnMarket(listing: Listing, events: ListingEvent[], now: Date): number | null {
+    const statusChanges = events.filter((event) => event.event === 'status_changed');
+    const listed = events.find((event) => event.event === 'listed');
+
+    let status = (listed?.toValue as { status?: string } | null)?.status
+      ?? (statusChanges[0]?.fromValue as string | undefined)
+      ?? listing.status
+      ?? 'active';
+    let since = listed?.createdAt ?? listing.createdAt ?? now;
+    let onMarketMs = 0;
+    let everOnMarket = false;
+
+    for (const change of statusChanges) {
+      const at = change.createdAt ?? now;
+      if (ON_MARKET_STATUSES.includes(status)) {
+        onMarketMs += at.getTime() - since.getTime();
+        everOnMarket = true;
+      }
+      status = change.toValue as string;
+      since = at;
+    }
+
+    if (ON_MARKET_STATUSES.includes(status)) {
+      onMarketMs += now.getTime() - since.getTime();
+      everOnMarket = true;
+    }
+
+    return everOnMarket ? Math.floor(Math.max(onMarketMs, 0) / DAY_MS) : null;
+  }
+}
@@ -0,0 +1,361 @@
+import { IStorage } from '../storage';
+import {
+  InsertListing,
+  Listing,
+  ListingImport,
+  ListingImportFormat,
+  ListingImportRowError,
+  insertListingSchema,
+  listingPropertyTypes,
+  listingStatuses
+} from '@shared/schema';
+import { ListingHistoryService } from './listingHistoryService';
+
+// Listing fields a CSV column can be mapped to
+export const listingImportFields = [
+  'mlsId',
+  'title',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'price',
+  'bedrooms',
+  'bathrooms',
+  'squareFeet',
+  'propertyType',
+  'status',
+  'description',
+  'images'
+] as const;
+
+export type ListingImportField = typeof listingImportFields[number];
+
+// CSV header to read for each listing field
+export type ListingColumnMapping = Partial<Record<ListingImportField, string>>;
+
+export const MAX_LISTING_IMPORT_ROWS = 2000;
+
+// One listing as read from the file, before it's cleaned up and validated
+export interface ListingImportRecord {
+  row: number; // CSV line number counting the header as 1, or 1-based position in the JSON array
+  values: Partial<Record<ListingImportField, unknown>>;
+}
+
+export interface ListingImportOptions {
+  format: ListingImportFormat;
+  fileName?: string;
+  // Recorded with the import job; only CSV files have one
+  mapping?: ListingColumnMapping;
+  // Validate and report without saving anything
+  dryRun?: boolean;
+  // Called for each listing the import creates or updates, e.g. to track the assets it uses
+  onListingSaved?: (listing: Listing) => Promise<unknown>;
+}
+
+export interface ListingImportReport {
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: ListingImportRowError[];
+}
+
+export class InvalidResoFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResoFeedError';
+  }
+}
+
+// Header spellings recognised when guessing a column mapping, compared without case or punctuation.
+// RESO Data Dictionary names are included so MLS exports map without help.
+const HEADER_ALIASES: Record<ListingImportField, string[]> = {
+  mlsId: ['mlsid', 'mls', 'mlsnumber', 'mls#', 'listingid', 'listingkey', 'listingnumber', 'externalid'],
+  title: ['title', 'name', 'listingtitle', 'headline'],
+  address: ['address', 'streetaddress', 'street', 'unparsedaddress', 'address1'],
+  city: ['city', 'town'],
+  state: ['state', 'stateorprovince', 'province', 'st'],
+  zipCode: ['zipcode', 'zip', 'postalcode', 'postcode', 'zip5'],
+  price: ['price', 'listprice', 'askingprice', 'listingprice'],
+  bedrooms: ['bedrooms', 'beds', 'bedroomstotal', 'bed', 'br'],
+  bathrooms: ['bathrooms', 'baths', 'bathroomstotalinteger', 'bathroomstotal', 'bath', 'ba'],
+  squareFeet: ['squarefeet', 'sqft', 'squarefootage', 'livingarea', 'size', 'area'],
+  propertyType: ['propertytype', 'type', 'propertysubtype', 'hometype'],
+  status: ['status', 'standardstatus', 'listingstatus', 'mlsstatus'],
+  description: ['description', 'publicremarks', 'remarks', 'details'],
+  images: ['images', 'photos', 'imageurls', 'photourls', 'media', 'pictures']
+};
+
+// RESO StandardStatus values and the listing status each becomes; anything else is imported as a draft
+const RESO_STATUSES: Record<string, string> = {
+  active: 'active',
+  comingsoon: 'draft',
+  activeundercontract: 'pending',
+  pending: 'pending',
+  closed: 'sold',
+  sold: 'sold'
+};
+
+// RESO PropertySubType values for the property types listings use
+const RESO_PROPERTY_TYPES: Record<string, typeof listingPropertyTypes[number]> = {
+  singlefamilyresidence: 'Single Family Home',
+  singlefamily: 'Single Family Home',
+  condominium: 'Condo',
+  townhouse: 'Townhouse',
+  duplex: 'Multi-Family',
+  triplex: 'Multi-Family',
+  quadruplex: 'Multi-Family',
+  multifamily: 'Multi-Family',
+  apartment: 'Apartment',
+  land: 'Land',
+  unimprovedland: 'Land',
+  farm: 'Land',
+  commercialsale: 'Commercial',
+  businessopportunity: 'Commercial'
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9#]/g, '');
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+// Numbers may arrive as text with currency signs and thousands separators, e.g. "$450,000"
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  const cleaned = text(value).replace(/[$,\s]/g, '');
+  return cleaned === '' ? undefined : Number(cleaned);
+};
+
+export class ListingImportService {
+  private historyService: ListingHistoryService;
+
+  constructor(private storage: IStorage) {
+    this.historyService = new ListingHistoryService(storage);
+  }
+
+  /**
+   * Guess which CSV columns hold which listing fields from their headers
+   * @param headers Header row of the file
+   * @returns Mapping for the fields that could be matched
+   */
+  static guessMapping(headers: string[]): ListingColumnMapping {
+    const mapping: ListingColumnMapping = {};
+
+    listingImportFields.forEach((field) => {
+      const header = headers.find((candidate) => HEADER_ALIASES[field].includes(normalizeKey(candidate)));
+      if (header) mapping[field] = header;
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Read listings from parsed CSV rows using a column mapping
+   * @param headers Header row of the file
+   * @param rows Data rows of the file
+   * @param mapping CSV header for each listing field
+   * @returns One record per non-blank row
+   */
+  static fromCsv(headers: string[], rows: string[][], mapping: ListingColumnMapping): ListingImportRecord[] {
+    const records: ListingImportRecord[] = [];
+
+    rows.forEach((row, index) => {
+      // Blank lines, including the one after a trailing newline, aren't rows
+      if (row.every((value) => value.trim() === '')) return;
+
+      const values: ListingImportRecord['values'] = {};
+      listingImportFields.forEach((field) => {
+        const header = mapping[field];
+        const column = header === undefined ? -1 : headers.indexOf(header);
+        if (column >= 0) values[field] = row[column] ?? '';
+      });
+
+      records.push({ row: index + 2, values });
+    });
+
+    return records;
+  }
+
+  /**
+   * Read listings from RESO Data Dictionary Property records, either a bare array or a Web API response
+   * with the records under `value`
+   * @param feed Parsed JSON
+   * @returns One record per Property record
+   * @throws InvalidResoFeedError if the JSON doesn't hold a list of records
+   */
+  static fromReso(feed: unknown): ListingImportRecord[] {
+    const records = Array.isArray(feed)
+      ? feed
+      : feed && typeof feed === 'object' && Array.isArray((feed as { value?: unknown }).value)
+        ? (feed as { value: unknown[] }).value
+        : null;
+    if (!records) {
+      throw new InvalidResoFeedError('Expected an array of RESO Property records or an object with a "value" array');
+    }
+
+    return records.map((record, index) => ({
+      row: index + 1,
+      values: record && typeof record === 'object' ? ListingImportService.resoValues(record as Record<string, unknown>) : {}
+    }));
+  }
+
+  private static resoValues(property: Record<string, unknown>): ListingImportRecord['values'] {
+    const street = [property.StreetNumber, property.StreetDirPrefix, property.StreetName, property.StreetSuffix]
+      .map(text)
+      .filter(Boolean)
+      .join(' ');
+    const unit = text(property.UnitNumber);
+
+    // Photos come in display order when the feed includes its Media
+    const media = Array.isArray(property.Media) ? property.Media as Record<string, unknown>[] : [];
+    const images = media
+      .filter((item) => item && text(item.MediaURL) && (!item.MediaCategory || item.MediaCategory === 'Photo'))
+      .sort((a, b) => (Number(a.Order) || 0) - (Number(b.Order) || 0))
+      .map((item) => text(item.MediaURL));
+
+    const subType = text(property.PropertySubType) || text(property.PropertyType);
+
+    return {
+      mlsId: text(property.ListingId) || text(property.ListingKey),
+      address: text(property.UnparsedAddress) || [street, unit && `#${unit}`].filter(Boolean).join(' '),
+      city: property.City,
+      state: property.StateOrProvince,
+      zipCode: property.PostalCode,
+      price: property.ListPrice,
+      bedrooms: property.BedroomsTotal,
+      bathrooms: property.BathroomsTotalInteger ?? property.BathroomsFull,
+      squareFeet: property.LivingArea,
+      propertyType: RESO_PROPERTY_TYPES[normalizeKey(subType)] ?? subType,
+      status: property.StandardStatus,
+      description: property.PublicRemarks,
+      images
+    };
+  }
+
+  /**
+   * Clean up one imported record into listing data and validate it against the listing schema
+   * @param userId Owner of the listing
+   * @param values Field values as read from the file
+   * @returns The listing data with only the fields the file provided, or why the record can't be imported
+   */
+  static toListing(
+    userId: number,
+    values: ListingImportRecord['values']
+  ): { listing: InsertListing; mlsId: string | null } | { error: string } {
+    const data: Record<string, unknown> = { userId };
+
+    for (const field of ['address', 'city', 'state', 'zipCode', 'description', 'propertyType'] as const) {
+      if (text(values[field])) data[field] = text(values[field]);
+    }
+
+    for (const field of ['price', 'bedrooms', 'bathrooms', 'squareFeet'] as const) {
+      const value = toNumber(values[field]);
+      if (value === undefined) continue;
+      if (Number.isNaN(value)) return { error: `${field}: "${text(values[field])}" is not a number` };
+      data[field] = value;
+    }
+
+    // Listings need a title, but MLS exports rarely have one; the address is what agents use anyway
+    data.title = text(values.title) || data.address;
+
+    const status = text(values.status);
+    if (status) {
+      const key = normalizeKey(status);
+      data.status = (listingStatuses as readonly string[]).includes(key) ? key : RESO_STATUSES[key] ?? 'draft';
+    }
+
+    const images = Array.isArray(values.images)
+      ? values.images.map(text)
+      : text(values.images).split(/[\s|;,]+/);
+    if (images.some(Boolean)) data.images = images.filter(Boolean);
+
+    const result = insertListingSchema.safeParse(data);
+    if (!result.success) {
+      return {
+        error: result.error.errors
+          .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+          .join('; ')
+      };
+    }
+
+    return { listing: result.data, mlsId: text(values.mlsId) || null };
+  }
+
+  /**
+   * Import listings and record the import job. Records with an MLS ID update the agent's listing with that ID
+   * if there is one, changing only the fields the file provides; the rest, and records without an ID, are
+   * created. Dry runs are recorded too so agents can look back at what a file would have done.
+   * @param userId Owner of the listings
+   * @param records Listings read from the file
+   * @param options Format, column mapping and whether to only validate
+   * @returns Counts of created, updated and skipped rows with the reason each row was skipped, and the job
+   */
+  async importListings(
+    userId: number,
+    records: ListingImportRecord[],
+    options: ListingImportOptions
+  ): Promise<{ report: ListingImportReport; importJob: ListingImport }> {
+    const report: ListingImportReport = { totalRows: records.length, created: 0, updated: 0, skipped: 0, errors: [] };
+
+    const existing = await this.storage.getListingsByUserId(userId);
+    const existingByMlsId = new Map(
+      existing.filter((listing) => listing.mlsId).map((listing) => [listing.mlsId as string, listing])
+    );
+    const rowsByMlsId = new Map<string, number>();
+
+    const skip = (row: number, message: string, mlsId?: string) => {
+      report.skipped++;
+      report.errors.push({ row, mlsId, message });
+    };
+
+    for (const { row, values } of records) {
+      const parsed = ListingImportService.toListing(userId, values);
+      if ('error' in parsed) {
+        skip(row, parsed.error, text(values.mlsId) || undefined);
+        continue;
+      }
+
+      const { listing, mlsId } = parsed;
+      if (mlsId) {
+        const duplicateOf = rowsByMlsId.get(mlsId);
+        if (duplicateOf !== undefined) {
+          skip(row, `Duplicate of row ${duplicateOf}`, mlsId);
+          continue;
+        }
+        rowsByMlsId.set(mlsId, row);
+      }
+
+      const current = mlsId ? existingByMlsId.get(mlsId) : undefined;
+      if (current) {
+        report.updated++;
+        if (!options.dryRun) {
+          // The title falls back to the address, which shouldn't replace a title the agent wrote
+          const { userId: _owner, title, ...changes } = listing;
+          const updated = await this.storage.updateListing(current.id, text(values.title) ? { ...changes, title } : changes);
+          if (updated) {
+            await this.historyService.recordChanges(current, updated, userId);
+            if (options.onListingSaved) await options.onListingSaved(updated);
+          }
+        }
+      } else {
+        report.created++;
+        if (!options.dryRun) {
+          const created = await this.storage.createListing({ ...listing, mlsId });
+          await this.historyService.recordCreated(created, userId);
+          if (options.onListingSaved) await options.onListingSaved(created);
+        }
+      }
+    }
+
+    const importJob = await this.storage.createListingImport({
+      userId,
+      format: options.format,
+      fileName: options.fileName ?? null,
+      dryRun: !!options.dryRun,
+      mapping: options.mapping ?? null,
+      ...report
+    });
+
+    return { report, importJob };
+  }
+}
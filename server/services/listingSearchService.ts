@@ -0,0 +1,84 @@
+import { Listing, ListingSearch } from '@shared/schema';
+import { IStorage, ListingSearchPosition, listingSortValue } from '../storage';
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('The cursor is invalid or belongs to a different sort order');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export interface ListingSearchPage {
+  listings: Listing[];
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// What a cursor holds. The sort is kept so a cursor can't be replayed against a different order.
+interface CursorPayload extends ListingSearchPosition {
+  sort: ListingSearch['sort'];
+  order: ListingSearch['order'];
+}
+
+export class ListingSearchService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Get one page of an agent's listings. Pages continue from the last listing seen rather than an offset, so
+   * listings added or removed between requests don't shift later pages.
+   * @param userId Agent whose listings are searched
+   * @param query Parsed search query
+   * @param options.publicOnly Leave out listings without a public page: hidden ones and drafts
+   * @returns The page and the cursor for the next one
+   * @throws InvalidCursorError if the cursor can't be decoded or was made for another sort order
+   */
+  async search(userId: number, query: ListingSearch, options: { publicOnly?: boolean } = {}): Promise<ListingSearchPage> {
+    const { cursor, ...filter } = query;
+    const after = cursor ? ListingSearchService.decodeCursor(cursor, query) : undefined;
+
+    // One extra row says whether there is another page without a separate count query
+    const listings = await this.storage.searchListings({
+      ...filter,
+      userId,
+      publicOnly: options.publicOnly,
+      after,
+      limit: query.limit + 1
+    });
+
+    const hasMore = listings.length > query.limit;
+    const page = listings.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      listings: page,
+      nextCursor: hasMore && last
+        ? ListingSearchService.encodeCursor({
+          value: listingSortValue(last, query.sort),
+          id: last.id,
+          sort: query.sort,
+          order: query.order
+        })
+        : null
+    };
+  }
+
+  private static encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string, query: ListingSearch): ListingSearchPosition {
+    let payload: Partial<CursorPayload>;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError();
+    }
+
+    if (!payload || typeof payload.value !== 'number' || !Number.isInteger(payload.id)
+      || payload.sort !== query.sort || payload.order !== query.order) {
+      throw new InvalidCursorError();
+    }
+
+    return { value: payload.value, id: payload.id as number };
+  }
+}
@@ -0,0 +1,265 @@
+import { MailService } from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export const FROM_EMAIL = process.env.MAIL_FROM_EMAIL || 'noreply@homesbin.com';
+
+export const mailTransportNames = ['sendgrid', 'smtp', 'outbox'] as const;
+export type MailTransportName = typeof mailTransportNames[number];
+
+export interface MailMessage {
+  // Each recipient gets their own copy, so recipients never see each other
+  to: string[];
+  from: { email: string; name?: string };
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+  // Echoed back by SendGrid's event webhook; other transports ignore them
+  customArgs?: Record<string, string>;
+  tracking?: { opens: boolean; clicks: boolean };
+}
+
+/**
+ * Delivers outgoing email. Implementations throw when a message could not be handed off.
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SendGridTransport implements MailTransport {
+  readonly name = 'sendgrid';
+  private client = new MailService();
+
+  constructor(apiKey: string) {
+    this.client.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.client.send({
+        personalizations: message.to.map((email) => ({ to: email, subject: message.subject })),
+        from: message.from,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+        customArgs: message.customArgs,
+        trackingSettings: message.tracking
+          ? {
+              clickTracking: { enable: message.tracking.clicks },
+              openTracking: { enable: message.tracking.opens }
+            }
+          : undefined
+      });
+    } catch (error) {
+      if (error && typeof error === 'object' && 'response' in error) {
+        const errResponse = (error as { response: { body: unknown, statusCode: number } }).response;
+        console.error('SendGrid API response:', {
+          body: errResponse.body,
+          statusCode: errResponse.statusCode
+        });
+      }
+      throw error;
+    }
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    for (const to of message.to) {
+      await this.transporter.sendMail(toNodemailerMessage(message, to));
+    }
+  }
+}
+
+export interface OutboxEntry {
+  id: string;
+  to: string;
+  from: string;
+  replyTo: string | null;
+  subject: string;
+  text: string;
+  html: string;
+  headers: Record<string, string>;
+  createdAt: string;
+}
+
+/**
+ * Writes each message to a directory as an .eml file instead of sending it, for local development.
+ * A JSON copy is written next to it so the dev outbox viewer doesn't have to parse MIME.
+ */
+export class OutboxTransport implements MailTransport {
+  readonly name = 'outbox';
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    for (const to of message.to) {
+      const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+      const info = await this.composer.sendMail(toNodemailerMessage(message, to));
+      const entry: OutboxEntry = {
+        id,
+        to,
+        from: message.from.name ? `${message.from.name} <${message.from.email}>` : message.from.email,
+        replyTo: message.replyTo ?? null,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers ?? {},
+        createdAt: new Date().toISOString()
+      };
+
+      await fs.writeFile(this.filePath(id, 'eml'), info.message as Buffer);
+      await fs.writeFile(this.filePath(id, 'json'), JSON.stringify(entry, null, 2));
+      console.log(`Email to ${to} written to outbox: ${this.filePath(id, 'eml')}`);
+    }
+  }
+
+  /**
+   * List the messages in the outbox
+   * @returns Messages, newest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const ids = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+    const entries = await Promise.all(ids.map((id) => this.get(id)));
+
+    return entries
+      .filter((entry): entry is OutboxEntry => !!entry)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get one message from the outbox
+   * @param id Message ID
+   * @returns The message, or undefined if there is none with that ID
+   */
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    if (!OutboxTransport.isValidId(id)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id, 'json'), 'utf8'));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get a message as written to the .eml file
+   * @param id Message ID
+   * @returns The raw message, or undefined if there is none with that ID
+   */
+  async getRaw(id: string): Promise<Buffer | undefined> {
+    if (!OutboxTransport.isValidId(id)) return undefined;
+    return fs.readFile(this.filePath(id, 'eml')).catch(() => undefined);
+  }
+
+  /**
+   * Delete every message in the outbox
+   */
+  async clear(): Promise<void> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter((file) => file.endsWith('.eml') || file.endsWith('.json'))
+      .map((file) => fs.unlink(path.join(this.directory, file))));
+  }
+
+  // IDs come from request paths, so they must not be able to point outside the outbox
+  private static isValidId(id: string): boolean {
+    return /^\d+-[0-9a-f]{8}$/.test(id);
+  }
+
+  private filePath(id: string, extension: 'eml' | 'json'): string {
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+}
+
+function toNodemailerMessage(message: MailMessage, to: string): nodemailer.SendMailOptions {
+  return {
+    from: { name: message.from.name ?? '', address: message.from.email },
+    to,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    headers: message.headers
+  };
+}
+
+/**
+ * Create the transport chosen by MAIL_TRANSPORT. When it isn't set, SendGrid is used if an API key
+ * is configured, and otherwise the local outbox outside production.
+ * @param env Environment to read the configuration from
+ * @returns The transport, or null when email can't be sent
+ */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport | null {
+  const name = env.MAIL_TRANSPORT as MailTransportName | undefined;
+
+  if (name && !mailTransportNames.includes(name)) {
+    throw new Error(`MAIL_TRANSPORT must be one of ${mailTransportNames.join(', ')}`);
+  }
+
+  if (name === 'sendgrid' || (!name && env.SENDGRID_API_KEY)) {
+    if (!env.SENDGRID_API_KEY) {
+      throw new Error('SENDGRID_API_KEY environment variable must be set to use the SendGrid transport');
+    }
+    return new SendGridTransport(env.SENDGRID_API_KEY);
+  }
+
+  if (name === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST environment variable must be set to use the SMTP transport');
+    }
+    const port = parseInt(env.SMTP_PORT || '587', 10);
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port,
+      // Port 465 expects TLS from the start; others upgrade with STARTTLS
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS
+    });
+  }
+
+  if (name === 'outbox' || env.NODE_ENV !== 'production') {
+    return new OutboxTransport(path.resolve(env.MAIL_OUTBOX_DIR || '.outbox'));
+  }
+
+  return null;
+}
+
+export const mailTransport = createMailTransport();
+
+if (mailTransport) {
+  console.log(`Sending email with the ${mailTransport.name} transport`);
+} else {
+  console.error('No mail transport configured; set SENDGRID_API_KEY or MAIL_TRANSPORT. Emails will not be sent.');
+}
@@ -1,15 +1,13 @@
-import { MailService } from '@sendgrid/mail';
-import { EmailTemplate, Listing } from '../../shared/schema';
-
-const mailService = new MailService();
-const FROM_EMAIL = 'noreply@homesbin.com';
-
-// Make sure the SendGrid API key is set
-if (process.env.SENDGRID_API_KEY) {
-  mailService.setApiKey(process.env.SENDGRID_API_KEY);
-} else {
-  console.error("SENDGRID_API_KEY environment variable not set. Marketing emails will not work.");
-}
+import { EmailTemplate, EmailTemplateKind, Listing, User } from '../../shared/schema';
+import {
+  TemplateContext,
+  TemplateEngine,
+  TemplateValidationResult,
+  TemplateVariableCatalog
+} from './templateEngine';
+import { FROM_EMAIL, mailTransport } from './mailTransport';
+import { escapeHtml } from '../utils/html';
+import { getSiteUrl, listingPath } from '../utils/listingUrls';
 
 export interface MarketingEmailParams {
   subject: string;
@@ -17,10 +15,84 @@ export interface MarketingEmailParams {
   html: string;
   recipients: string[];
   fromName?: string;
+  // Where replies go; only pass addresses the agent has verified
+  replyTo?: string;
+  // Plain text added after the content
+  signature?: string;
   listingData?: Listing;
+  // Recipient-specific, so only pass one with a single recipient; see SuppressionService
   unsubscribeLink?: string;
+  // Echoed back by the event webhook so events can be matched to the agent and campaign
+  customArgs?: Record<string, string>;
+}
+
+// Sends one marketing email; injectable so delivery can be tested without SendGrid
+export type MarketingMailer = (params: MarketingEmailParams) => Promise<boolean>;
+
+export interface TemplateData {
+  listing?: Listing;
+  // Listings of a digest, rendered with {{#each listings}}
+  listings?: Listing[];
+  agent?: User;
+  contact?: { name?: string | null; email: string };
+}
+
+export interface TemplatePreview {
+  subject: string;
+  text: string;
+  html: string;
+  // Variables the template uses that had no data, e.g. contact_* without a sample contact
+  unresolved: string[];
 }
 
+const LISTING_VARIABLES = [
+  'title', 'address', 'city', 'state', 'zip_code', 'price', 'bedrooms', 'bathrooms', 'sqft',
+  'description', 'property_type', 'status', 'url',
+  'property_address', 'property_price', 'property_bedrooms', 'property_bathrooms', 'property_sqft',
+  'property_description', 'property_url', 'property_features',
+  'listing_title', 'listing_address', 'listing_city', 'listing_state', 'listing_zipCode', 'listing_price',
+  'listing_bedrooms', 'listing_bathrooms', 'listing_sqft', 'listing_description', 'listing_type',
+  'listing_url', 'listing_features'
+];
+
+const AGENT_VARIABLES = [
+  'agent_name', 'agent_first_name', 'agent_email', 'agent_phone', 'agent_title', 'agent_photo', 'agent_profile_url'
+];
+
+const CONTACT_VARIABLES = ['contact_name', 'contact_first_name', 'contact_last_name', 'contact_email'];
+
+// Fields of each item in a digest's listings
+const DIGEST_LISTING_FIELDS = [
+  'title', 'address', 'city', 'state', 'zip_code', 'price', 'bedrooms', 'bathrooms', 'sqft',
+  'description', 'property_type', 'status', 'url', 'image'
+];
+
+// Listing features are stored as JSON that may be a list, a comma-separated string or an object
+const getFeatureList = (features: unknown): string[] => {
+  if (Array.isArray(features)) return features.map(String);
+  if (typeof features === 'string') return features.split(',').map((feature) => feature.trim()).filter(Boolean);
+  if (features && typeof features === 'object') return Object.values(features as Record<string, unknown>).map(String);
+  return [];
+};
+
+// The short listing variables, shared by single-listing templates and digest items
+const getListingFields = (listing: Listing, agent?: User) => ({
+  title: listing.title || '',
+  address: listing.address || '',
+  city: listing.city || '',
+  state: listing.state || '',
+  zip_code: listing.zipCode || '',
+  price: listing.price ? `$${listing.price.toLocaleString()}` : '',
+  bedrooms: listing.bedrooms?.toString() || '',
+  bathrooms: listing.bathrooms?.toString() || '',
+  sqft: listing.squareFeet?.toString() || '',
+  description: listing.description || '',
+  property_type: listing.propertyType || '',
+  status: listing.status || '',
+  // The listing's public page; without the agent there's no page to link to, so link to the site
+  url: agent ? `${getSiteUrl()}${listingPath(agent.username, listing)}` : getSiteUrl()
+});
+
 export class MarketingEmailService {
   /**
    * Send a marketing email to multiple recipients
@@ -28,20 +100,29 @@ export class MarketingEmailService {
    * @returns Success boolean
    */
   static async sendMarketingEmail(params: MarketingEmailParams): Promise<boolean> {
-    if (!process.env.SENDGRID_API_KEY) {
-      console.error("Cannot send marketing email: SendGrid API key not configured");
+    if (!mailTransport) {
+      console.error("Cannot send marketing email: no mail transport configured");
       return false;
     }
 
     try {
-      const { subject, text, html, recipients, fromName, unsubscribeLink } = params;
+      const { subject, text, html, recipients, fromName, replyTo, signature, unsubscribeLink, customArgs } = params;
       
       console.log(`Sending marketing email to ${recipients.length} recipients`);
       
-      // Add unsubscribe link to footer if provided
       let enhancedHtml = html;
       let enhancedText = text;
       
+      // The agent's signature goes after the content, above the unsubscribe footer
+      if (signature) {
+        enhancedHtml += `
+          <div style="margin-top: 20px; white-space: pre-line;">${escapeHtml(signature)}</div>
+        `;
+        
+        enhancedText += `\n\n-- \n${signature}`;
+      }
+      
+      // Add unsubscribe link to footer if provided
       if (unsubscribeLink) {
         enhancedHtml += `
           <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
@@ -52,116 +133,188 @@ export class MarketingEmailService {
         enhancedText += `\n\nIf you no longer wish to receive these emails, you can unsubscribe here: ${unsubscribeLink}`;
       }
       
-      // Create personalization for each recipient
-      const personalizations = recipients.map(email => ({
-        to: email,
-        subject: subject
-      }));
-      
-      // Send email to all recipients at once using personalization
-      const msg = {
-        personalizations,
+      await mailTransport.send({
+        to: recipients,
         from: {
           email: FROM_EMAIL,
           name: fromName || 'HomesBin'
         },
+        replyTo,
+        subject,
         text: enhancedText,
         html: enhancedHtml,
-        trackingSettings: {
-          clickTracking: {
-            enable: true
-          },
-          openTracking: {
-            enable: true
-          }
+        customArgs,
+        // Lets mail clients show their own unsubscribe button, with one-click support (RFC 8058)
+        headers: unsubscribeLink
+          ? {
+              'List-Unsubscribe': `<${unsubscribeLink}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+            }
+          : undefined,
+        tracking: {
+          clicks: true,
+          opens: true
         }
-      };
-      
-      const response = await mailService.send(msg as any);
+      });
       console.log(`Marketing email sent successfully to ${recipients.length} recipients`);
       return true;
     } catch (error) {
       console.error("Error sending marketing email:", error);
-      if (error && typeof error === 'object' && 'response' in error) {
-        const errResponse = (error as { response: { body: unknown, statusCode: number } }).response;
-        console.error("SendGrid API response:", {
-          body: errResponse.body,
-          statusCode: errResponse.statusCode
-        });
-      }
       return false;
     }
   }
   
+  /**
+   * Variables each kind of email template can use, for validating templates before they are saved
+   */
+  static templateVariables: Record<EmailTemplateKind, TemplateVariableCatalog> = {
+    listing: {
+      values: [...LISTING_VARIABLES, ...AGENT_VARIABLES, ...CONTACT_VARIABLES],
+      lists: {
+        images: {},
+        features: {}
+      }
+    },
+    digest: {
+      values: ['listing_count', ...AGENT_VARIABLES, ...CONTACT_VARIABLES],
+      lists: {
+        listings: { fields: DIGEST_LISTING_FIELDS }
+      }
+    }
+  };
+
+  /**
+   * Check an email template's subject and content before saving it
+   * @param subject Template subject
+   * @param content Template content
+   * @param kind Kind of template, which decides the variables it may use
+   * @returns Unknown variables and syntax errors from both parts
+   */
+  static validateTemplate(subject: string, content: string, kind: EmailTemplateKind = 'listing'): TemplateValidationResult {
+    const catalog = MarketingEmailService.templateVariables[kind];
+    const results = [subject, content].map((part) => TemplateEngine.validate(part, catalog));
+    return {
+      unknownVariables: Array.from(new Set(results.flatMap((result) => result.unknownVariables))),
+      errors: results.flatMap((result) => result.errors)
+    };
+  }
+
+  /**
+   * Summarize a failed template validation for an API response
+   * @param result Result of validateTemplate
+   * @returns A message naming the first syntax error or every unknown variable, or null if the template is valid
+   */
+  static describeTemplateProblems(result: TemplateValidationResult): string | null {
+    if (result.errors.length > 0) {
+      return `Invalid template: ${result.errors[0]}`;
+    }
+    if (result.unknownVariables.length > 0) {
+      return `Unknown template variables: ${result.unknownVariables.map((name) => `{{${name}}}`).join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Build the variables available to a template
+   * @param data Listing or digest listings, sending agent and recipient, each optional
+   * @returns Template context; variables without data are empty
+   */
+  static buildTemplateContext(data: TemplateData): TemplateContext {
+    const siteUrl = getSiteUrl();
+    const { listing, listings, agent, contact } = data;
+    const context: TemplateContext = {};
+
+    if (listing) {
+      const { price, url, ...fields } = getListingFields(listing, agent);
+      const features = getFeatureList(listing.features);
+
+      Object.assign(context, {
+        ...fields,
+        price,
+        url,
+        images: listing.images || [],
+        features,
+
+        // Names used by templates written before conditionals and loops existed
+        property_address: listing.address || '',
+        property_price: price,
+        property_bedrooms: listing.bedrooms?.toString() || '',
+        property_bathrooms: listing.bathrooms?.toString() || '',
+        property_sqft: listing.squareFeet?.toString() || '',
+        property_description: listing.description || '',
+        property_url: url,
+        property_features: features.join(', '),
+        listing_title: listing.title || '',
+        listing_address: listing.address || '',
+        listing_city: listing.city || '',
+        listing_state: listing.state || '',
+        listing_zipCode: listing.zipCode || '',
+        listing_price: price,
+        listing_bedrooms: listing.bedrooms?.toString() || '',
+        listing_bathrooms: listing.bathrooms?.toString() || '',
+        listing_sqft: listing.squareFeet?.toString() || '',
+        listing_description: listing.description || '',
+        listing_type: listing.propertyType || '',
+        listing_url: url,
+        listing_features: features.join(', ')
+      });
+    }
+
+    if (listings) {
+      Object.assign(context, {
+        listing_count: listings.length,
+        listings: listings.map((item) => ({
+          ...getListingFields(item, agent),
+          image: item.images?.[0] || ''
+        }))
+      });
+    }
+
+    if (agent) {
+      const name = agent.fullName || agent.username;
+      Object.assign(context, {
+        agent_name: name,
+        agent_first_name: name.split(' ')[0],
+        agent_email: agent.email,
+        agent_phone: agent.phone || '',
+        agent_title: agent.title || '',
+        agent_photo: agent.profileImage || '',
+        agent_profile_url: `${siteUrl}/${agent.username}`
+      });
+    }
+
+    if (contact) {
+      const name = contact.name || '';
+      const [firstName, ...lastNames] = name.trim().split(/\s+/);
+      Object.assign(context, {
+        contact_name: name,
+        contact_first_name: firstName || '',
+        contact_last_name: lastNames.join(' '),
+        contact_email: contact.email
+      });
+    }
+
+    return context;
+  }
+
   /**
    * Generate email content from a template and listing data
    * @param template Email template
    * @param listing Listing data to include in the email
+   * @param data Digest listings, and the sending agent and recipient for agent_* and contact_* variables
    * @returns Processed email content
    */
-  static processTemplate(template: EmailTemplate, listing?: Listing): { subject: string, text: string, html: string } {
-    // Get the template content - handle potentially undefined fields by providing empty string defaults
-    let subject = template.subject || '';
+  static processTemplate(
+    template: Pick<EmailTemplate, 'subject' | 'content'>,
+    listing?: Listing,
+    data: Omit<TemplateData, 'listing'> = {}
+  ): { subject: string, text: string, html: string } {
+    const context = MarketingEmailService.buildTemplateContext({ ...data, listing });
     const content = template.content || '';
-    
-    // Initialize text and html with the content
-    let text = content;
-    let html = content;
-    
-    // Replace template variables with listing data if available
-    if (listing) {
-      const replacements: Record<string, string> = {
-        '{{property_address}}': listing.address || '',
-        '{{property_price}}': listing.price ? `$${listing.price.toLocaleString()}` : '',
-        '{{property_bedrooms}}': listing.bedrooms?.toString() || '',
-        '{{property_bathrooms}}': listing.bathrooms?.toString() || '',
-        '{{property_sqft}}': listing.squareFeet?.toString() || '',
-        '{{property_description}}': listing.description || '',
-        '{{property_type}}': listing.propertyType || '',
-        '{{property_url}}': `${process.env.SITE_URL || 'https://homesbin.com'}/listings/${listing.id}`,
-        
-        // Also support listing_ prefix for consistency
-        '{{listing_address}}': listing.address || '',
-        '{{listing_price}}': listing.price ? `$${listing.price.toLocaleString()}` : '',
-        '{{listing_bedrooms}}': listing.bedrooms?.toString() || '',
-        '{{listing_bathrooms}}': listing.bathrooms?.toString() || '',
-        '{{listing_sqft}}': listing.squareFeet?.toString() || '',
-        '{{listing_description}}': listing.description || '',
-        '{{listing_type}}': listing.propertyType || '',
-        '{{listing_url}}': `${process.env.SITE_URL || 'https://homesbin.com'}/listings/${listing.id}`,
-        
-        // Handle potentially undefined fields by providing empty string defaults
-        '{{listing_city}}': listing.city || '',
-        '{{listing_state}}': listing.state || '',
-        '{{listing_zipCode}}': listing.zipCode || '',
-        '{{listing_title}}': listing.title || ''
-      };
-      
-      // Add features if available, with safe type checking
-      if (listing.features) {
-        let featuresText = '';
-        try {
-          if (typeof listing.features === 'string') {
-            featuresText = listing.features as string;
-          } else if (Array.isArray(listing.features)) {
-            featuresText = (listing.features as string[]).join(', ');
-          } else if (listing.features && typeof listing.features === 'object') {
-            featuresText = Object.values(listing.features as Record<string, string>).join(', ');
-          }
-        } catch (e) {
-          console.warn('Error processing features:', e);
-        }
-        replacements['{{property_features}}'] = featuresText;
-        replacements['{{listing_features}}'] = featuresText;
-      }
-      
-      // Replace all occurrences of each placeholder in the content
-      Object.entries(replacements).forEach(([placeholder, value]) => {
-        subject = subject.replace(new RegExp(placeholder, 'g'), value);
-        text = text.replace(new RegExp(placeholder, 'g'), value);
-        html = html.replace(new RegExp(placeholder, 'g'), value);
-      });
-    }
+
+    const subject = TemplateEngine.render(template.subject || '', context);
+    const text = TemplateEngine.render(content, context);
+    let html = TemplateEngine.render(content, context, { escapeHtml: true });
     
     // If the content doesn't look like HTML, wrap it in a basic HTML template
     if (!html.includes('<html') && !html.includes('<body')) {
@@ -178,6 +331,31 @@ export class MarketingEmailService {
     
     return { subject, text, html };
   }
+
+  /**
+   * Render a template the way a recipient would see it, and report the variables that had no data
+   * @param template Email template, possibly with unsaved edits
+   * @param listing Listing for single-listing templates
+   * @param data Digest listings, sending agent and sample contact
+   * @returns Rendered subject, text and HTML, plus unresolved variable names
+   * @throws TemplateSyntaxError when the subject or content can't be parsed
+   */
+  static previewTemplate(
+    template: Pick<EmailTemplate, 'subject' | 'content'>,
+    listing?: Listing,
+    data: Omit<TemplateData, 'listing'> = {}
+  ): TemplatePreview {
+    const context = MarketingEmailService.buildTemplateContext({ ...data, listing });
+    const unresolved = new Set([
+      ...TemplateEngine.findUnresolved(template.subject || '', context),
+      ...TemplateEngine.findUnresolved(template.content || '', context)
+    ]);
+
+    return {
+      ...MarketingEmailService.processTemplate(template, listing, data),
+      unresolved: Array.from(unresolved)
+    };
+  }
 }
 
 export const marketingEmailService = MarketingEmailService;
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { IStorage } from '../storage';
+import { Contact, Listing, OpenHouse, OpenHouseSignIn, OpenHouseVisit } from '@shared/schema';
+import { ContactService } from './contactService';
+import { SequenceService } from './sequenceService';
+
+// Added to every contact who signs in, so agents can build a segment of open house visitors
+export const OPEN_HOUSE_TAG = 'open house';
+
+export interface OpenHouseVisitor {
+  id: number;
+  contactId: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  workingWithAgent: boolean;
+  createdAt: Date | null;
+}
+
+// One open house as it goes into a calendar feed
+export interface OpenHouseCalendarEntry {
+  openHouse: OpenHouse;
+  listing: Listing;
+  // Public page of the listing
+  url: string;
+}
+
+// Calendar text values can't hold raw backslashes, commas, semicolons or line breaks (RFC 5545 3.3.11)
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// e.g. 20261024T180000Z
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space (RFC 5545 3.1)
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export class OpenHouseService {
+  constructor(private storage: IStorage, private sequenceService: SequenceService) {}
+
+  /**
+   * Record a visitor signing in at an open house. New visitors are added to the agent's contacts and
+   * start the agent's open house sequences; returning contacts keep their details and are tagged.
+   * @param openHouse Open house the visitor is at
+   * @param visitor What the visitor entered on the kiosk
+   * @returns The contact and the visit; signing in twice returns the first visit
+   */
+  async signIn(openHouse: OpenHouse, visitor: OpenHouseSignIn): Promise<{ contact: Contact; visit: OpenHouseVisit }> {
+    const existing = await this.storage.getContactByEmail(openHouse.userId, visitor.email);
+
+    let contact: Contact;
+    if (existing) {
+      contact = await this.storage.updateContact(existing.id, {
+        phone: existing.phone || visitor.phone || null,
+        tags: ContactService.normalizeTags([...existing.tags, OPEN_HOUSE_TAG])
+      }) ?? existing;
+    } else {
+      // Addresses that opted out earlier stay opted out
+      const suppression = await this.storage.getSuppression(openHouse.userId, visitor.email);
+      contact = await this.storage.createContact({
+        userId: openHouse.userId,
+        name: visitor.name,
+        email: visitor.email,
+        phone: visitor.phone || null,
+        tags: [OPEN_HOUSE_TAG],
+        source: 'open_house',
+        subscriptionStatus: !suppression ? 'subscribed' : suppression.reason === 'bounced' ? 'bounced' : 'unsubscribed'
+      });
+      await this.sequenceService.enrollContact(contact);
+    }
+
+    const visits = await this.storage.getOpenHouseVisitsByOpenHouseId(openHouse.id);
+    const earlier = visits.find((visit) => visit.contactId === contact.id);
+    if (earlier) return { contact, visit: earlier };
+
+    const visit = await this.storage.createOpenHouseVisit({
+      openHouseId: openHouse.id,
+      userId: openHouse.userId,
+      contactId: contact.id,
+      workingWithAgent: visitor.workingWithAgent
+    });
+    return { contact, visit };
+  }
+
+  /**
+   * Get everyone who signed in at an open house with their contact details
+   * @param openHouse Open house
+   * @returns Visitors in the order they signed in; visitors whose contact was deleted are left out
+   */
+  async getVisitors(openHouse: OpenHouse): Promise<OpenHouseVisitor[]> {
+    const visitors: OpenHouseVisitor[] = [];
+    for (const visit of await this.storage.getOpenHouseVisitsByOpenHouseId(openHouse.id)) {
+      const contact = await this.storage.getContact(visit.contactId);
+      if (!contact) continue;
+
+      visitors.push({
+        id: visit.id,
+        contactId: contact.id,
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+        workingWithAgent: visit.workingWithAgent,
+        createdAt: visit.createdAt
+      });
+    }
+    return visitors;
+  }
+
+  /**
+   * Describe when an open house is, in its own time zone
+   * @param openHouse Open house
+   * @returns e.g. "Saturday, October 24, 1:00 PM – 4:00 PM CDT"
+   */
+  static formatTimes(openHouse: OpenHouse): string {
+    const { timeZone } = openHouse;
+    const day = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' });
+    const start = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+    const end = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+
+    return `${day.format(openHouse.startsAt)}, ${start.format(openHouse.startsAt)} – ${end.format(openHouse.endsAt)}`;
+  }
+
+  /**
+   * Build an iCalendar file that calendar apps can import or subscribe to. Times are written in UTC so
+   * every app shows them in the reader's own time zone.
+   * @param name Calendar name shown when subscribing
+   * @param entries Open houses with their listings
+   * @returns The calendar, with CRLF line endings
+   */
+  static toIcs(name: string, entries: OpenHouseCalendarEntry[]): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//HomesBin//Open Houses//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${icsText(name)}`
+    ];
+
+    for (const { openHouse, listing, url } of entries) {
+      const description = [`Hosted by ${openHouse.hostName}`, openHouse.notes, url].filter(Boolean).join('\n');
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:open-house-${openHouse.id}@${new URL(url).host}`,
+        `DTSTAMP:${icsDate(openHouse.createdAt ?? openHouse.startsAt)}`,
+        `DTSTART:${icsDate(openHouse.startsAt)}`,
+        `DTEND:${icsDate(openHouse.endsAt)}`,
+        `SUMMARY:${icsText(`Open house: ${listing.title}`)}`,
+        `LOCATION:${icsText(`${listing.address}, ${listing.city}, ${listing.state} ${listing.zipCode}`)}`,
+        `DESCRIPTION:${icsText(description)}`,
+        `URL:${url}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { IStorage } from '../storage';
+import { SenderIdentity, UpdateSenderIdentity, User } from '@shared/schema';
+import { EmailService } from './emailService';
+
+// How long to wait before another confirmation email can be sent to the same reply-to address
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+export interface ResolvedSender {
+  fromName: string;
+  // Only set once the address is known to belong to the agent
+  replyTo?: string;
+  signature?: string;
+}
+
+export interface SenderUpdateResult {
+  identity: SenderIdentity;
+  // Whether a confirmation email went out for a new reply-to address
+  verificationSent: boolean;
+}
+
+export class SenderIdentityService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Work out how an agent's marketing emails are sent, falling back to their profile and account email
+   * @param user Agent sending the email
+   * @param identity Agent's sender settings, if they saved any
+   * @returns Display name, reply-to address if verified, and signature
+   */
+  static resolve(user: User, identity?: SenderIdentity): ResolvedSender {
+    let replyTo: string | undefined;
+    if (identity?.replyTo) {
+      replyTo = identity.replyToVerified ? identity.replyTo : undefined;
+    } else if (user.emailVerified) {
+      replyTo = user.email;
+    }
+
+    return {
+      fromName: identity?.displayName || user.fullName || user.username,
+      replyTo,
+      signature: identity?.signature || undefined
+    };
+  }
+
+  /**
+   * Check whether another confirmation email may be sent for a reply-to address
+   * @param identity Agent's sender settings
+   * @param now Current time
+   * @returns Whether an address is waiting for confirmation and no email went to it in the last minute
+   */
+  static canSendVerification(identity: SenderIdentity, now: Date = new Date()): boolean {
+    if (!identity.replyTo || identity.replyToVerified) return false;
+    return !identity.verificationSentAt || now.getTime() - identity.verificationSentAt.getTime() >= RESEND_INTERVAL_MS;
+  }
+
+  /**
+   * Get how an agent's marketing emails are sent
+   * @param userId Agent
+   * @returns The resolved sender, or null if the agent doesn't exist
+   */
+  async getSender(userId: number): Promise<ResolvedSender | null> {
+    const user = await this.storage.getUser(userId);
+    if (!user) return null;
+
+    return SenderIdentityService.resolve(user, await this.storage.getSenderIdentityByUserId(userId));
+  }
+
+  /**
+   * Save an agent's sender settings. A new reply-to address other than the verified account email
+   * isn't used until the agent confirms it from the email sent to it.
+   * @param user Agent
+   * @param data Settings to change
+   * @returns The saved settings and whether a confirmation email was sent
+   */
+  async update(user: User, data: UpdateSenderIdentity): Promise<SenderUpdateResult> {
+    const existing = await this.storage.getSenderIdentityByUserId(user.id);
+    const changes: Partial<SenderIdentity> = {};
+    if (data.displayName !== undefined) changes.displayName = data.displayName;
+    if (data.signature !== undefined) changes.signature = data.signature;
+
+    // The account email is already the default, so choosing it just clears the setting
+    let replyTo = data.replyTo;
+    if (replyTo && replyTo === user.email.toLowerCase() && user.emailVerified) {
+      replyTo = null;
+    }
+
+    const replyToChanged = replyTo !== undefined && replyTo !== (existing?.replyTo ?? null);
+    if (replyToChanged) {
+      changes.replyTo = replyTo;
+      changes.replyToVerified = false;
+      changes.verificationToken = replyTo ? crypto.randomBytes(20).toString('hex') : null;
+      changes.verificationSentAt = null;
+    }
+
+    const identity = existing
+      ? (await this.storage.updateSenderIdentity(existing.id, changes)) || existing
+      : await this.storage.createSenderIdentity({ userId: user.id, ...changes });
+
+    if (!replyToChanged || !identity.replyTo) {
+      return { identity, verificationSent: false };
+    }
+
+    return this.sendVerification(user, identity);
+  }
+
+  /**
+   * Email a confirmation link to the agent's unverified reply-to address
+   * @param user Agent
+   * @param identity Agent's sender settings
+   * @returns The settings and whether the email was sent
+   */
+  async sendVerification(user: User, identity: SenderIdentity): Promise<SenderUpdateResult> {
+    if (!identity.replyTo || identity.replyToVerified) {
+      return { identity, verificationSent: false };
+    }
+
+    const now = new Date();
+    const token = identity.verificationToken || crypto.randomBytes(20).toString('hex');
+    const sent = await EmailService.sendReplyToVerificationEmail(user, identity.replyTo, token);
+    const updated = await this.storage.updateSenderIdentity(identity.id, {
+      verificationToken: token,
+      verificationSentAt: sent ? now : identity.verificationSentAt
+    });
+
+    return { identity: updated || identity, verificationSent: sent };
+  }
+
+  /**
+   * Confirm a reply-to address from the link emailed to it
+   * @param token Token from the confirmation link
+   * @returns The verified settings, or null if the token doesn't match a pending address
+   */
+  async verify(token: string): Promise<SenderIdentity | null> {
+    const identity = await this.storage.getSenderIdentityByToken(token);
+    if (!identity || !identity.replyTo) return null;
+
+    const updated = await this.storage.updateSenderIdentity(identity.id, {
+      replyToVerified: true,
+      verificationToken: null
+    });
+    return updated || null;
+  }
+}
@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import { IStorage } from '../storage';
+import {
+  Contact,
+  Lead,
+  Sequence,
+  SequenceEnrollment,
+  SequenceStep,
+  SequenceStopReason
+} from '@shared/schema';
+import { Clock, JobQueue, systemClock } from './jobQueue';
+import { EmailService, InboundReply } from './emailService';
+import { marketingEmailService } from './marketingEmailService';
+import { SuppressionService } from './suppressionService';
+import { AssetService } from './assetService';
+import { SenderIdentityService } from './senderIdentityService';
+
+export const SEQUENCE_STEP_JOB = 'sequence.step';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// With INBOUND_EMAIL_DOMAIN set, sequence emails are answered to reply+<enrollment>-<signature>@ that domain, whose
+// mail SendGrid Inbound Parse posts to the inbound webhook. Lowercase hex, since mail servers may change the case.
+const REPLY_ADDRESS = /^reply\+(\d+)-([0-9a-f]{16})@(.+)$/;
+
+const signEnrollment = (enrollmentId: number) =>
+  crypto
+    .createHmac('sha256', process.env.INBOUND_EMAIL_SECRET || process.env.SESSION_SECRET || 'homesbinsecret')
+    .update(`reply:${enrollmentId}`)
+    .digest('hex')
+    .slice(0, 16);
+
+export class SequenceService {
+  private suppressionService: SuppressionService;
+  private assetService: AssetService;
+  private senderIdentityService: SenderIdentityService;
+  private clock: Clock;
+
+  constructor(private storage: IStorage, private jobQueue: JobQueue, options: { clock?: Clock } = {}) {
+    this.clock = options.clock || systemClock;
+    this.suppressionService = new SuppressionService(storage);
+    this.assetService = new AssetService(storage);
+    this.senderIdentityService = new SenderIdentityService(storage);
+  }
+
+  /**
+   * Get the job queue key for an enrollment's next step
+   * @param enrollmentId Enrollment ID
+   * @returns Job key
+   */
+  static jobKey(enrollmentId: number): string {
+    return `sequence-enrollment:${enrollmentId}`;
+  }
+
+  /**
+   * Get the reply-to address of an enrollment's emails, which lets replies be noticed
+   * @param enrollmentId Enrollment ID
+   * @returns Address at INBOUND_EMAIL_DOMAIN, or undefined if inbound email isn't set up and replies go
+   * straight to the agent
+   */
+  static replyAddress(enrollmentId: number): string | undefined {
+    const domain = process.env.INBOUND_EMAIL_DOMAIN;
+    return domain ? `reply+${enrollmentId}-${signEnrollment(enrollmentId)}@${domain.toLowerCase()}` : undefined;
+  }
+
+  /**
+   * Find the enrollment a reply was sent to
+   * @param address Address the reply was sent to
+   * @returns Enrollment ID, or null if the address isn't a reply address we signed
+   */
+  static enrollmentIdFromAddress(address: string): number | null {
+    const match = address.trim().toLowerCase().match(REPLY_ADDRESS);
+    if (!match || match[3] !== process.env.INBOUND_EMAIL_DOMAIN?.toLowerCase()) return null;
+
+    const enrollmentId = parseInt(match[1], 10);
+    const expected = Buffer.from(signEnrollment(enrollmentId));
+    const actual = Buffer.from(match[2]);
+    return crypto.timingSafeEqual(expected, actual) ? enrollmentId : null;
+  }
+
+  /**
+   * Get when a step is due; delays count from when the contact was enrolled
+   * @param startedAt Time the contact was enrolled
+   * @param step Sequence step
+   * @returns Due time
+   */
+  static stepRunAt(startedAt: Date, step: Pick<SequenceStep, 'delayDays'>): Date {
+    return new Date(startedAt.getTime() + step.delayDays * DAY_MS);
+  }
+
+  /**
+   * Enroll a newly added contact in the agent's active sequences that start for the contact's source
+   * @param contact Contact that was just added
+   * @returns The new enrollments
+   */
+  async enrollContact(contact: Contact): Promise<SequenceEnrollment[]> {
+    if (contact.subscriptionStatus !== 'subscribed') return [];
+
+    const sequences = await this.storage.getSequencesByUserId(contact.userId);
+    const enrollments: SequenceEnrollment[] = [];
+
+    for (const sequence of sequences) {
+      if (!sequence.active || !sequence.triggers.includes(contact.source)) continue;
+
+      const steps = sequence.steps as SequenceStep[];
+      const startedAt = this.clock.now();
+      const runAt = SequenceService.stepRunAt(startedAt, steps[0]);
+      const enrollment = await this.storage.createSequenceEnrollment({
+        sequenceId: sequence.id,
+        userId: contact.userId,
+        contactId: contact.id,
+        email: contact.email,
+        startedAt,
+        nextRunAt: runAt
+      });
+      if (!enrollment) continue;
+
+      await this.jobQueue.enqueue(
+        SEQUENCE_STEP_JOB,
+        { enrollmentId: enrollment.id, step: 0 },
+        { runAt, key: SequenceService.jobKey(enrollment.id) }
+      );
+      enrollments.push(enrollment);
+    }
+
+    return enrollments;
+  }
+
+  /**
+   * Handle an inquiry from the agent's public pages. A new address is added as a contact, which
+   * starts sequences; another inquiry from an existing contact stops theirs. Email replies are handled by
+   * handleReply.
+   * @param lead Lead created from the inquiry
+   */
+  async handleInquiry(lead: Lead): Promise<void> {
+    const existing = await this.storage.getContactByEmail(lead.userId, lead.email);
+    if (existing) {
+      await this.stopForEmail(lead.userId, lead.email, 'inquired');
+      return;
+    }
+
+    // Addresses that opted out earlier stay opted out
+    const suppression = await this.storage.getSuppression(lead.userId, lead.email);
+    const contact = await this.storage.createContact({
+      userId: lead.userId,
+      name: lead.name,
+      email: lead.email.toLowerCase(),
+      phone: lead.phone,
+      tags: [],
+      source: 'lead',
+      subscriptionStatus: !suppression ? 'subscribed' : suppression.reason === 'bounced' ? 'bounced' : 'unsubscribed'
+    });
+    await this.enrollContact(contact);
+  }
+
+  /**
+   * Handle a reply to a sequence email: stop the contact's sequences, unless it was sent automatically,
+   * and forward it to the agent, whose reply-to address the contact never saw
+   * @param recipients Addresses the reply was sent to
+   * @param reply The reply
+   * @returns Whether the reply was to one of our sequence emails
+   */
+  async handleReply(recipients: string[], reply: InboundReply): Promise<boolean> {
+    const enrollmentId = recipients
+      .map((address) => SequenceService.enrollmentIdFromAddress(address))
+      .find((id): id is number => id !== null);
+    const enrollment = enrollmentId ? await this.storage.getSequenceEnrollment(enrollmentId) : undefined;
+    const agent = enrollment ? await this.storage.getUser(enrollment.userId) : undefined;
+    if (!enrollment || !agent) return false;
+
+    if (!reply.isAutoReply) {
+      await this.stopForEmail(enrollment.userId, enrollment.email, 'replied');
+    }
+
+    const sequence = await this.storage.getSequence(enrollment.sequenceId);
+    const sender = await this.senderIdentityService.getSender(agent.id);
+    await EmailService.forwardSequenceReply(sender?.replyTo || agent.email, reply, sequence?.name || 'follow-up');
+    return true;
+  }
+
+  /**
+   * Stop every active enrollment for an address
+   * @param userId Agent the enrollments belong to
+   * @param email Contact's email address
+   * @param reason Why the sequence is stopping
+   * @returns Number of enrollments stopped
+   */
+  async stopForEmail(userId: number, email: string, reason: SequenceStopReason): Promise<number> {
+    const enrollments = await this.storage.getSequenceEnrollmentsByEmail(userId, email);
+    const active = enrollments.filter((enrollment) => enrollment.status === 'active');
+
+    for (const enrollment of active) {
+      await this.stop(enrollment, reason);
+    }
+
+    return active.length;
+  }
+
+  /**
+   * Stop an enrollment before its remaining steps run
+   * @param enrollment Enrollment to stop
+   * @param reason Why it is stopping
+   * @returns The updated enrollment
+   */
+  async stop(enrollment: SequenceEnrollment, reason: SequenceStopReason): Promise<SequenceEnrollment> {
+    await this.jobQueue.cancel(SequenceService.jobKey(enrollment.id));
+    const updated = await this.storage.updateSequenceEnrollment(enrollment.id, {
+      status: 'stopped',
+      stopReason: reason,
+      nextRunAt: null,
+      endedAt: this.clock.now()
+    });
+    return updated || enrollment;
+  }
+
+  /**
+   * Run one step of an enrollment and queue the next. Steps that already ran, and enrollments that
+   * ended, are skipped, so a retried job doesn't send twice.
+   * @param enrollmentId Enrollment to advance
+   * @param stepIndex Step the job was queued for
+   * @param isFinalAttempt Whether a failed email should be given up on rather than retried
+   */
+  async runStep(enrollmentId: number, stepIndex: number, isFinalAttempt = false): Promise<void> {
+    const enrollment = await this.storage.getSequenceEnrollment(enrollmentId);
+    if (!enrollment || enrollment.status !== 'active' || enrollment.currentStep !== stepIndex) return;
+
+    const sequence = await this.storage.getSequence(enrollment.sequenceId);
+    if (!sequence || !sequence.active) {
+      await this.stop(enrollment, 'sequence_paused');
+      return;
+    }
+
+    const stopReason = await this.findStopReason(enrollment);
+    if (stopReason) {
+      await this.stop(enrollment, stopReason);
+      return;
+    }
+
+    // Steps can be edited while contacts are enrolled; the current list is what runs
+    const steps = sequence.steps as SequenceStep[];
+    const step = steps[stepIndex];
+    if (step) {
+      const outcome = await this.runStepAction(sequence, enrollment, step, isFinalAttempt);
+      if (outcome === 'suppressed') {
+        await this.stop(enrollment, 'unsubscribed');
+        return;
+      }
+    }
+
+    const nextIndex = stepIndex + 1;
+    const nextStep = steps[nextIndex];
+    if (!nextStep) {
+      await this.storage.updateSequenceEnrollment(enrollment.id, {
+        status: 'completed',
+        currentStep: nextIndex,
+        nextRunAt: null,
+        endedAt: this.clock.now()
+      });
+      return;
+    }
+
+    const now = this.clock.now();
+    const dueAt = SequenceService.stepRunAt(enrollment.startedAt, nextStep);
+    const runAt = dueAt > now ? dueAt : now;
+    await this.storage.updateSequenceEnrollment(enrollment.id, { currentStep: nextIndex, nextRunAt: runAt });
+    await this.jobQueue.enqueue(
+      SEQUENCE_STEP_JOB,
+      { enrollmentId: enrollment.id, step: nextIndex },
+      { runAt, key: SequenceService.jobKey(enrollment.id) }
+    );
+  }
+
+  // Checked before every step, which also catches unsubscribes and status changes made elsewhere; replies and new
+  // inquiries are handled as they come in, by handleReply and handleInquiry
+  private async findStopReason(enrollment: SequenceEnrollment): Promise<SequenceStopReason | null> {
+    const contact = await this.storage.getContact(enrollment.contactId);
+    const suppression = await this.storage.getSuppression(enrollment.userId, enrollment.email);
+    if (!contact || contact.subscriptionStatus !== 'subscribed' || suppression) {
+      return 'unsubscribed';
+    }
+
+    const leads = (await this.storage.getLeadsByUserId(enrollment.userId))
+      .filter((lead) => lead.email.toLowerCase() === enrollment.email);
+    return leads.some((lead) => lead.status !== 'new') ? 'contacted' : null;
+  }
+
+  private async runStepAction(
+    sequence: Sequence,
+    enrollment: SequenceEnrollment,
+    step: SequenceStep,
+    isFinalAttempt: boolean
+  ): Promise<'sent' | 'skipped' | 'suppressed'> {
+    const agent = await this.storage.getUser(enrollment.userId);
+    const contact = await this.storage.getContact(enrollment.contactId);
+    if (!agent || !contact) return 'skipped';
+
+    if (step.type === 'task') {
+      // Surface the task on the contact's lead as well, if they have one
+      const leads = (await this.storage.getLeadsByUserId(enrollment.userId))
+        .filter((lead) => lead.email.toLowerCase() === enrollment.email);
+      const latestLead = leads.sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+      if (latestLead) {
+        await this.storage.updateLead(latestLead.id, { followUpAt: this.clock.now() });
+      }
+
+      await EmailService.sendSequenceTaskReminder(agent, step.title, contact, sequence.name);
+      return 'sent';
+    }
+
+    if (!agent.emailVerified) {
+      console.log(`Skipping step of sequence ${sequence.id}: sender email is not verified`);
+      return 'skipped';
+    }
+
+    const template = await this.storage.getEmailTemplate(step.templateId);
+    if (!template || template.userId !== agent.id || template.kind !== 'listing') {
+      console.log(`Skipping step of sequence ${sequence.id}: its template is missing or is a digest template`);
+      return 'skipped';
+    }
+
+    const content = marketingEmailService.processTemplate(template, undefined, { agent, contact });
+    // The email embeds the agent's photo, so it's kept after the profile stops using it
+    await this.assetService.addReferences(agent.id, { type: 'sequence', id: sequence.id }, [agent.profileImage]);
+    const outcomes = await this.suppressionService.sendMarketingEmail(agent.id, {
+      ...content,
+      recipients: [contact.email],
+      fromName: agent.fullName || undefined
+    }, { replyTo: SequenceService.replyAddress(enrollment.id) });
+
+    const outcome = outcomes[contact.email];
+    if (outcome === 'failed') {
+      if (!isFinalAttempt) {
+        throw new Error(`Failed to send sequence email to ${contact.email}`);
+      }
+      console.error(`Giving up on a step of sequence ${sequence.id} for ${contact.email}`);
+      return 'skipped';
+    }
+
+    return outcome === 'suppressed' ? 'suppressed' : 'sent';
+  }
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { IStorage } from '../storage';
+import { Suppression, SuppressionReason } from '@shared/schema';
+import { MarketingEmailService, MarketingEmailParams, MarketingMailer } from './marketingEmailService';
+import { SenderIdentityService } from './senderIdentityService';
+import { getSiteUrl } from '../utils/listingUrls';
+
+export interface UnsubscribeTokenPayload {
+  userId: number; // Agent whose emails the recipient is opting out of
+  email: string;
+  campaignId?: number;
+}
+
+export type RecipientOutcome = 'sent' | 'failed' | 'suppressed';
+
+export interface MarketingSendOptions {
+  // Campaign the email belongs to, if any
+  campaignId?: number;
+  // Address of ours that receives replies instead of the agent, e.g. to notice them; see SequenceService
+  replyTo?: string;
+  // Render the content for one recipient, e.g. to fill in contact_* template variables
+  personalize?: (email: string) => Pick<MarketingEmailParams, 'subject' | 'text' | 'html'>;
+}
+
+// Unsubscribe links have to keep working indefinitely, so tokens are signed rather than stored and never expire
+const getTokenSecret = () => process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || 'homesbinsecret';
+
+const sign = (data: string) => crypto.createHmac('sha256', getTokenSecret()).update(data).digest('base64url');
+
+export class SuppressionService {
+  private mailer: MarketingMailer;
+  private senderIdentityService: SenderIdentityService;
+
+  constructor(private storage: IStorage, mailer?: MarketingMailer) {
+    this.mailer = mailer || ((params) => MarketingEmailService.sendMarketingEmail(params));
+    this.senderIdentityService = new SenderIdentityService(storage);
+  }
+
+  /**
+   * Create a signed unsubscribe token for one recipient of an agent's emails
+   * @param payload Agent, recipient and optionally the campaign the email belongs to
+   * @returns URL-safe token
+   */
+  static createUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+    const data = Buffer.from(JSON.stringify({
+      u: payload.userId,
+      e: payload.email.toLowerCase(),
+      c: payload.campaignId
+    })).toString('base64url');
+
+    return `${data}.${sign(data)}`;
+  }
+
+  /**
+   * Check an unsubscribe token's signature and read its payload
+   * @param token Token from an unsubscribe link
+   * @returns The payload, or null if the token is malformed or was not signed by us
+   */
+  static verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+    const [data, signature] = token.split('.');
+    if (!data || !signature) return null;
+
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const { u, e, c } = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+      if (typeof u !== 'number' || typeof e !== 'string') return null;
+      return { userId: u, email: e, campaignId: typeof c === 'number' ? c : undefined };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Get the public unsubscribe URL for one recipient
+   * @param payload Agent, recipient and optionally the campaign the email belongs to
+   * @returns Absolute URL
+   */
+  static unsubscribeUrl(payload: UnsubscribeTokenPayload): string {
+    return `${getSiteUrl()}/api/marketing/unsubscribe/${SuppressionService.createUnsubscribeToken(payload)}`;
+  }
+
+  /**
+   * Get every address an agent may not send marketing email to
+   * @param userId Agent
+   * @returns Lowercase email addresses
+   */
+  async getSuppressedEmails(userId: number): Promise<Set<string>> {
+    const suppressionList = await this.storage.getSuppressionsByUserId(userId);
+    return new Set(suppressionList.map((suppression) => suppression.email));
+  }
+
+  /**
+   * Stop an agent's marketing email to an address and mark the matching contact accordingly
+   * @param userId Agent
+   * @param email Address to suppress
+   * @param reason Why the address is suppressed
+   * @param campaignId Campaign that led to the suppression, if any
+   * @returns The suppression, or the existing one if the address was already suppressed
+   */
+  async suppress(userId: number, email: string, reason: SuppressionReason, campaignId?: number): Promise<Suppression> {
+    const suppression = await this.storage.createSuppression({
+      userId,
+      email: email.toLowerCase(),
+      reason,
+      campaignId: campaignId ?? null
+    });
+
+    const contact = await this.storage.getContactByEmail(userId, email);
+    if (contact) {
+      await this.storage.updateContact(contact.id, {
+        subscriptionStatus: reason === 'bounced' ? 'bounced' : 'unsubscribed'
+      });
+    }
+
+    return suppression;
+  }
+
+  /**
+   * Send a marketing email on behalf of an agent. Suppressed recipients are skipped and
+   * everyone else gets their own copy with a personal unsubscribe link and List-Unsubscribe headers.
+   * The agent's sender name, verified reply-to address and signature are filled in.
+   * Every marketing send should go through here.
+   * @param userId Agent sending the email
+   * @param params Email content and recipients
+   * @param options Campaign the email belongs to and per-recipient content
+   * @returns Outcome for each recipient, keyed by lowercase email
+   */
+  async sendMarketingEmail(
+    userId: number,
+    params: Omit<MarketingEmailParams, 'unsubscribeLink'>,
+    options: MarketingSendOptions = {}
+  ): Promise<Record<string, RecipientOutcome>> {
+    const { campaignId, personalize, replyTo } = options;
+    const sender = await this.senderIdentityService.getSender(userId);
+    const suppressed = await this.getSuppressedEmails(userId);
+    const outcomes: Record<string, RecipientOutcome> = {};
+    const recipients = Array.from(new Set(params.recipients.map((email) => email.toLowerCase())));
+
+    await Promise.all(recipients.map(async (email) => {
+      if (suppressed.has(email)) {
+        outcomes[email] = 'suppressed';
+        return;
+      }
+
+      const sent = await this.mailer({
+        ...params,
+        ...(personalize ? personalize(email) : {}),
+        fromName: sender?.fromName || params.fromName,
+        replyTo: replyTo ?? sender?.replyTo,
+        signature: sender?.signature,
+        recipients: [email],
+        unsubscribeLink: SuppressionService.unsubscribeUrl({ userId, email, campaignId }),
+        customArgs: campaignId !== undefined
+          ? { user_id: String(userId), campaign_id: String(campaignId) }
+          : { user_id: String(userId) }
+      }).catch(() => false);
+      outcomes[email] = sent ? 'sent' : 'failed';
+    }));
+
+    return outcomes;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * A small Handlebars-style template language for marketing emails:
+ *
+ *   {{name}}                   value, HTML-escaped when rendering HTML
+ *   {{{name}}}                 value, never escaped
+ *   {{#if name}}..{{else}}..{{/if}}       rendered when the value is non-empty
+ *   {{#unless name}}..{{/unless}}         rendered when the value is empty
+ *   {{#each list}}..{{this}}..{{/each}}   repeated for each item; {{@index}}, {{@first}}
+ *                                         and {{@last}} are available, and item fields
+ *                                         when the items are objects
+ */
+
+import { escapeHtml } from '../utils/html';
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; raw: boolean }
+  | { type: 'if'; name: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export interface TemplateVariableCatalog {
+  // Names that hold a single value
+  values: string[];
+  // Names that hold a list and can be looped over with #each
+  lists: Record<string, { fields?: string[] }>;
+}
+
+export interface TemplateValidationResult {
+  unknownVariables: string[];
+  errors: string[];
+}
+
+const TAG_PATTERN = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([^}]+?)\s*\}\}/g;
+const NAME_PATTERN = /^[@A-Za-z_][\w.]*$/;
+const LOOP_VARIABLES = ['this', '@index', '@first', '@last'];
+
+const isTruthy = (value: TemplateValue) =>
+  Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== false && value !== '' && value !== 0;
+
+const toText = (value: TemplateValue): string => {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+};
+
+export class TemplateEngine {
+  /**
+   * Parse a template into a syntax tree
+   * @param template Template source
+   * @returns Parsed nodes
+   * @throws TemplateSyntaxError when blocks are unbalanced or a tag is malformed
+   */
+  static parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    // Open blocks, innermost last; `nodes` is where the next node goes
+    const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; tag: string; nodes: TemplateNode[] }[] = [];
+    const current = () => (stack.length > 0 ? stack[stack.length - 1].nodes : root);
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+
+    while ((match = TAG_PATTERN.exec(template)) !== null) {
+      if (match.index > lastIndex) {
+        current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+      }
+      lastIndex = TAG_PATTERN.lastIndex;
+
+      const raw = match[1] !== undefined;
+      const tag = (match[1] ?? match[2]).trim();
+
+      if (tag.startsWith('#')) {
+        const [keyword, name, ...rest] = tag.slice(1).split(/\s+/);
+        if (!['if', 'unless', 'each'].includes(keyword)) {
+          throw new TemplateSyntaxError(`Unknown block {{${tag}}}`);
+        }
+        if (!name || rest.length > 0 || !NAME_PATTERN.test(name)) {
+          throw new TemplateSyntaxError(`{{#${keyword}}} needs exactly one variable name`);
+        }
+
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === 'each'
+          ? { type: 'each', name, body: [], otherwise: [] }
+          : { type: 'if', name, negate: keyword === 'unless', body: [], otherwise: [] };
+        current().push(node);
+        stack.push({ node, tag: keyword, nodes: node.body });
+      } else if (tag === 'else') {
+        const block = stack[stack.length - 1];
+        if (!block || block.nodes === block.node.otherwise) {
+          throw new TemplateSyntaxError('{{else}} must be inside an {{#if}}, {{#unless}} or {{#each}} block');
+        }
+        block.nodes = block.node.otherwise;
+      } else if (tag.startsWith('/')) {
+        const keyword = tag.slice(1).trim();
+        const block = stack.pop();
+        if (!block) {
+          throw new TemplateSyntaxError(`{{/${keyword}}} has no matching opening block`);
+        }
+        if (block.tag !== keyword) {
+          throw new TemplateSyntaxError(`{{#${block.tag} ${block.node.name}}} is closed by {{/${keyword}}}`);
+        }
+      } else {
+        if (!NAME_PATTERN.test(tag)) {
+          throw new TemplateSyntaxError(`Invalid variable {{${tag}}}`);
+        }
+        current().push({ type: 'variable', name: tag, raw });
+      }
+    }
+
+    if (stack.length > 0) {
+      const block = stack[stack.length - 1];
+      throw new TemplateSyntaxError(`{{#${block.tag} ${block.node.name}}} is never closed`);
+    }
+
+    if (lastIndex < template.length) {
+      root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+
+    return root;
+  }
+
+  /**
+   * Render a template
+   * @param template Template source
+   * @param context Variable values
+   * @param options escapeHtml to escape values for use in HTML
+   * @returns Rendered output; unknown variables render as empty
+   */
+  static render(template: string, context: TemplateContext, options: { escapeHtml?: boolean } = {}): string {
+    return TemplateEngine.renderNodes(TemplateEngine.parse(template), [context], !!options.escapeHtml);
+  }
+
+  /**
+   * Check a template for syntax errors and variables that aren't in the catalog
+   * @param template Template source
+   * @param catalog Variables that templates may use
+   * @returns Unknown variable names and syntax errors; both empty when the template is valid
+   */
+  static validate(template: string, catalog: TemplateVariableCatalog): TemplateValidationResult {
+    let nodes: TemplateNode[];
+    try {
+      nodes = TemplateEngine.parse(template);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        return { unknownVariables: [], errors: [error.message] };
+      }
+      throw error;
+    }
+
+    const unknown = new Set<string>();
+    const errors: string[] = [];
+
+    const check = (nodeList: TemplateNode[], loopFields: string[] | null) => {
+      nodeList.forEach((node) => {
+        if (node.type === 'text') return;
+
+        const known = catalog.values.includes(node.name) ||
+          node.name in catalog.lists ||
+          (loopFields !== null && (LOOP_VARIABLES.includes(node.name) || loopFields.includes(node.name)));
+        if (!known) unknown.add(node.name);
+
+        if (node.type === 'each') {
+          if (known && !(node.name in catalog.lists)) {
+            errors.push(`{{#each ${node.name}}} needs a list; ${node.name} is a single value`);
+          }
+          check(node.body, catalog.lists[node.name]?.fields || []);
+          check(node.otherwise, loopFields);
+        } else if (node.type === 'if') {
+          check(node.body, loopFields);
+          check(node.otherwise, loopFields);
+        }
+      });
+    };
+
+    check(nodes, null);
+    return { unknownVariables: Array.from(unknown), errors };
+  }
+
+  /**
+   * Find the variables a template uses that the context has no value for, e.g. contact variables
+   * when previewing without a contact. Loop bodies are checked against the list's first item.
+   * @param template Template source
+   * @param context Variable values
+   * @returns Names of missing variables, in the order they first appear
+   * @throws TemplateSyntaxError when the template can't be parsed
+   */
+  static findUnresolved(template: string, context: TemplateContext): string[] {
+    const missing = new Set<string>();
+
+    const check = (nodeList: TemplateNode[], scopes: TemplateContext[]) => {
+      nodeList.forEach((node) => {
+        if (node.type === 'text') return;
+
+        const scope = scopes.slice().reverse().find((item) => node.name in item);
+        if (!scope) missing.add(node.name);
+
+        if (node.type === 'each') {
+          const value = scope?.[node.name];
+          const first = Array.isArray(value) ? value[0] : undefined;
+          if (first !== undefined) {
+            const fields = first !== null && typeof first === 'object' && !Array.isArray(first) ? first : {};
+            check(node.body, [...scopes, { ...fields, this: first, '@index': 0, '@first': true, '@last': false }]);
+          }
+          check(node.otherwise, scopes);
+        } else if (node.type === 'if') {
+          check(node.body, scopes);
+          check(node.otherwise, scopes);
+        }
+      });
+    };
+
+    check(TemplateEngine.parse(template), [context]);
+    return Array.from(missing);
+  }
+
+  private static renderNodes(nodes: TemplateNode[], scopes: TemplateContext[], escape: boolean): string {
+    // Inner scopes (loop items) shadow outer ones
+    const lookup = (name: string): TemplateValue => {
+      for (let i = scopes.length - 1; i >= 0; i--) {
+        if (name in scopes[i]) return scopes[i][name];
+      }
+      return undefined;
+    };
+
+    return nodes.map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          const text = toText(lookup(node.name));
+          return escape && !node.raw ? escapeHtml(text) : text;
+        }
+        case 'if': {
+          const show = isTruthy(lookup(node.name)) !== node.negate;
+          return TemplateEngine.renderNodes(show ? node.body : node.otherwise, scopes, escape);
+        }
+        case 'each': {
+          const value = lookup(node.name);
+          const items = Array.isArray(value) ? value : [];
+          if (items.length === 0) {
+            return TemplateEngine.renderNodes(node.otherwise, scopes, escape);
+          }
+
+          return items.map((item, index) => {
+            const fields = item !== null && typeof item === 'object' && !Array.isArray(item) ? item : {};
+            const scope: TemplateContext = {
+              ...fields,
+              this: item,
+              '@index': index,
+              '@first': index === 0,
+              '@last': index === items.length - 1
+            };
+            return TemplateEngine.renderNodes(node.body, [...scopes, scope], escape);
+          }).join('');
+        }
+      }
+    }).join('');
+  }
+}
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { IStorage } from '../storage';
+import { DailyViewStat, ViewTargetType } from '@shared/schema';
+
+// Repeat views of the same target by the same visitor within this window count once
+const SESSION_WINDOW_MS = 30 * 60 * 1000;
+
+const BOT_USER_AGENT = /bot|crawler|spider|slurp|preview|facebookexternalhit|headless/i;
+
+export interface TrackViewParams {
+  ownerId: number;
+  targetType: ViewTargetType;
+  targetId?: number;
+  visitorId: string;
+  referrer?: string | null;
+}
+
+export interface ViewTotals {
+  views: number;
+  uniqueVisitors: number;
+}
+
+export interface TargetViewTotals extends ViewTotals {
+  targetId: number;
+}
+
+export interface DayRange {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+}
+
+/**
+ * Format a date as a UTC day key (YYYY-MM-DD)
+ */
+export const toDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export class ViewTrackingService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Check whether a user agent belongs to a crawler or link previewer
+   * @param userAgent User-Agent header of the request
+   * @returns Whether the request should be ignored
+   */
+  static isBot(userAgent?: string): boolean {
+    return !userAgent || BOT_USER_AGENT.test(userAgent);
+  }
+
+  /**
+   * Derive a stable, anonymous visitor ID from the client-generated ID,
+   * falling back to the IP address and user agent when the client sent none
+   * @param clientVisitorId Random ID stored by the visitor's browser
+   * @param ipAddress Request IP address
+   * @param userAgent Request User-Agent header
+   * @returns Hashed visitor ID
+   */
+  static hashVisitorId(clientVisitorId: string | undefined, ipAddress: string, userAgent: string): string {
+    const source = clientVisitorId || `${ipAddress}|${userAgent}`;
+    return crypto.createHash('sha256').update(source).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Record a view unless the visitor already viewed the same target in the current session
+   * @param params View details
+   * @param now Time of the view
+   * @returns Whether the view was counted
+   */
+  async trackView(params: TrackViewParams, now: Date = new Date()): Promise<boolean> {
+    const targetId = params.targetId ?? 0;
+    const day = toDayKey(now);
+    const startOfDay = new Date(`${day}T00:00:00.000Z`);
+    const since = new Date(Math.min(startOfDay.getTime(), now.getTime() - SESSION_WINDOW_MS));
+
+    const previousViews = await this.storage.getVisitorViewEvents(params.visitorId, params.targetType, targetId, since);
+    const sessionStart = now.getTime() - SESSION_WINDOW_MS;
+
+    if (previousViews.some((event) => !!event.createdAt && event.createdAt.getTime() >= sessionStart)) {
+      return false;
+    }
+
+    await this.storage.createViewEvent({
+      userId: params.ownerId,
+      targetType: params.targetType,
+      targetId,
+      visitorId: params.visitorId,
+      referrer: params.referrer || null
+    });
+
+    const seenToday = previousViews.some((event) => !!event.createdAt && event.createdAt >= startOfDay);
+    await this.storage.incrementDailyViewStat(
+      { userId: params.ownerId, targetType: params.targetType, targetId, day },
+      !seenToday
+    );
+
+    return true;
+  }
+
+  /**
+   * Get daily view counts for a user, optionally narrowed to one target type or target
+   * @param userId Owner of the viewed pages
+   * @param filter Target and day range to include
+   * @returns Daily rollup rows, oldest first
+   */
+  async getDailyStats(
+    userId: number,
+    filter: DayRange & { targetType?: ViewTargetType; targetId?: number } = {}
+  ): Promise<DailyViewStat[]> {
+    return this.storage.getDailyViewStats(userId, filter);
+  }
+
+  /**
+   * Get total views for a user across all targets or for a single target
+   * @param userId Owner of the viewed pages
+   * @param filter Target and day range to include
+   * @returns Summed views and unique visitors
+   */
+  async getTotals(
+    userId: number,
+    filter: DayRange & { targetType?: ViewTargetType; targetId?: number } = {}
+  ): Promise<ViewTotals> {
+    const stats = await this.storage.getDailyViewStats(userId, filter);
+    return ViewTrackingService.sum(stats);
+  }
+
+  /**
+   * Get view totals for each target of a type, e.g. every listing or every lot
+   * @param userId Owner of the viewed pages
+   * @param targetType Type of target to group by
+   * @param range Day range to include
+   * @returns Totals per target, most viewed first
+   */
+  async getTotalsByTarget(userId: number, targetType: ViewTargetType, range: DayRange = {}): Promise<TargetViewTotals[]> {
+    const stats = await this.storage.getDailyViewStats(userId, { ...range, targetType });
+    const statsByTarget: Record<number, DailyViewStat[]> = {};
+
+    stats.forEach((stat) => {
+      (statsByTarget[stat.targetId] = statsByTarget[stat.targetId] || []).push(stat);
+    });
+
+    return Object.keys(statsByTarget)
+      .map((targetId) => ({
+        targetId: Number(targetId),
+        ...ViewTrackingService.sum(statsByTarget[Number(targetId)])
+      }))
+      .sort((a, b) => b.views - a.views);
+  }
+
+  // Unique visitors are counted per day, so the sum is visitor-days rather than distinct people
+  private static sum(stats: DailyViewStat[]): ViewTotals {
+    return stats.reduce(
+      (totals, stat) => ({
+        views: totals.views + stat.views,
+        uniqueVisitors: totals.uniqueVisitors + stat.uniqueVisitors
+      }),
+      { views: 0, uniqueVisitors: 0 }
+    );
+  }
+}
@@ -5,6 +5,17 @@ import {
   listings,
   type Listing,
   type InsertListing,
+  type ListingSearch,
+  type ListingSortField,
+  type ListingEvent,
+  type InsertListingEvent,
+  type ListingImport,
+  type InsertListingImport,
+  type OpenHouse,
+  type InsertOpenHouse,
+  type UpdateOpenHouse,
+  type OpenHouseVisit,
+  type InsertOpenHouseVisit,
   emailTemplates,
   type EmailTemplate,
   type InsertEmailTemplate,
@@ -24,11 +35,92 @@ import {
   type InsertLot,
   type UpdateLot,
   type MapSettings,
-  type InsertMapSettings
+  type InsertMapSettings,
+  leads,
+  type Lead,
+  type InsertLead,
+  type UpdateLead,
+  type Contact,
+  type InsertContact,
+  type Segment,
+  type InsertSegment,
+  type UpdateSegment,
+  type Suppression,
+  type InsertSuppression,
+  type ViewEvent,
+  type InsertViewEvent,
+  type DailyViewStat,
+  type Campaign,
+  type InsertCampaign,
+  type CampaignSend,
+  type InsertCampaignSend,
+  type EmailEvent,
+  type InsertEmailEvent,
+  type Digest,
+  type InsertDigest,
+  type UpdateDigest,
+  type Sequence,
+  type InsertSequence,
+  type UpdateSequence,
+  type SequenceEnrollment,
+  type InsertSequenceEnrollment,
+  type SenderIdentity,
+  type InsertSenderIdentity,
+  type Asset,
+  type InsertAsset,
+  type AssetKind,
+  type AssetReference,
+  type Job,
+  type InsertJob
 } from "@shared/schema";
 import crypto from "crypto";
 import { and, eq, like, or, sql, gte, lte } from "drizzle-orm";
 import { db } from "./db";
+import { isPublished } from "./utils/listingUrls";
+
+// Identifies one row of the daily view rollup
+export interface DailyViewStatKey {
+  userId: number;
+  targetType: string;
+  targetId: number;
+  day: string; // YYYY-MM-DD (UTC)
+}
+
+export interface DailyViewStatFilter {
+  targetType?: string;
+  targetId?: number;
+  from?: string; // Inclusive day, YYYY-MM-DD
+  to?: string; // Inclusive day, YYYY-MM-DD
+}
+
+// Listing search with the query string already parsed; see listingSearchSchema
+export interface ListingSearchFilter extends Omit<ListingSearch, 'cursor'> {
+  userId: number;
+  // Leave out listings without a public page: hidden ones and drafts
+  publicOnly?: boolean;
+  // Continue after this position in the chosen order
+  after?: ListingSearchPosition;
+}
+
+// Where a page of search results ended: the sort value of its last listing, with the ID breaking ties
+export interface ListingSearchPosition {
+  value: number;
+  id: number;
+}
+
+/**
+ * Get the value a listing is sorted by. Missing sizes and dates sort as 0 so every listing has a place in the order.
+ */
+export const listingSortValue = (listing: Listing, sort: ListingSortField): number => {
+  switch (sort) {
+    case 'price':
+      return listing.price;
+    case 'squareFeet':
+      return listing.squareFeet ?? 0;
+    case 'createdAt':
+      return listing.createdAt?.getTime() ?? 0;
+  }
+};
 
 // Storage interface for CRUD operations
 export interface IStorage {
@@ -44,10 +136,36 @@ export interface IStorage {
   // Listing operations
   getListing(id: number): Promise<Listing | undefined>;
   getListingsByUserId(userId: number): Promise<Listing[]>;
+  // Up to filter.limit matching listings in the requested order
+  searchListings(filter: ListingSearchFilter): Promise<Listing[]>;
   createListing(listing: InsertListing): Promise<Listing>;
   updateListing(id: number, listingData: Partial<Listing>): Promise<Listing | undefined>;
   deleteListing(id: number): Promise<boolean>;
 
+  // Listing event operations
+  createListingEvent(event: InsertListingEvent): Promise<ListingEvent>;
+  // Oldest first
+  getListingEventsByListingId(listingId: number): Promise<ListingEvent[]>;
+
+  // Listing import operations
+  getListingImport(id: number): Promise<ListingImport | undefined>;
+  // Newest first
+  getListingImportsByUserId(userId: number): Promise<ListingImport[]>;
+  createListingImport(listingImport: InsertListingImport): Promise<ListingImport>;
+
+  // Open house operations
+  getOpenHouse(id: number): Promise<OpenHouse | undefined>;
+  // Soonest first
+  getOpenHousesByListingId(listingId: number): Promise<OpenHouse[]>;
+  getOpenHousesByUserId(userId: number): Promise<OpenHouse[]>;
+  createOpenHouse(openHouse: InsertOpenHouse): Promise<OpenHouse>;
+  updateOpenHouse(id: number, openHouseData: UpdateOpenHouse): Promise<OpenHouse | undefined>;
+  // Deletes its visits too; the visitors stay in the agent's contacts
+  deleteOpenHouse(id: number): Promise<boolean>;
+  createOpenHouseVisit(visit: InsertOpenHouseVisit): Promise<OpenHouseVisit>;
+  // Oldest first
+  getOpenHouseVisitsByOpenHouseId(openHouseId: number): Promise<OpenHouseVisit[]>;
+
   // Email template operations
   getEmailTemplate(id: number): Promise<EmailTemplate | undefined>;
   getEmailTemplatesByUserId(userId: number): Promise<EmailTemplate[]>;
@@ -76,6 +194,105 @@ export interface IStorage {
   createUserTheme(themeData: InsertUserTheme): Promise<UserTheme>;
   updateUserTheme(userId: number, themeData: Partial<UserTheme>): Promise<UserTheme | undefined>;
 
+  // Lead operations
+  getLead(id: number): Promise<Lead | undefined>;
+  getLeadsByUserId(userId: number): Promise<Lead[]>;
+  createLead(lead: InsertLead): Promise<Lead>;
+  updateLead(id: number, leadData: UpdateLead): Promise<Lead | undefined>;
+  deleteLead(id: number): Promise<boolean>;
+
+  // Contact operations
+  getContact(id: number): Promise<Contact | undefined>;
+  getContactsByUserId(userId: number): Promise<Contact[]>;
+  getContactByEmail(userId: number, email: string): Promise<Contact | undefined>;
+  createContact(contact: InsertContact): Promise<Contact>;
+  updateContact(id: number, contactData: Partial<Contact>): Promise<Contact | undefined>;
+  deleteContact(id: number): Promise<boolean>;
+
+  // Segment operations
+  getSegment(id: number): Promise<Segment | undefined>;
+  getSegmentsByUserId(userId: number): Promise<Segment[]>;
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  updateSegment(id: number, segmentData: UpdateSegment): Promise<Segment | undefined>;
+  deleteSegment(id: number): Promise<boolean>;
+
+  // Suppression operations
+  getSuppression(userId: number, email: string): Promise<Suppression | undefined>;
+  getSuppressionsByUserId(userId: number): Promise<Suppression[]>;
+  createSuppression(suppression: InsertSuppression): Promise<Suppression>;
+  deleteSuppression(id: number): Promise<boolean>;
+
+  // View tracking operations
+  createViewEvent(event: InsertViewEvent): Promise<ViewEvent>;
+  getVisitorViewEvents(visitorId: string, targetType: string, targetId: number, since: Date): Promise<ViewEvent[]>;
+  incrementDailyViewStat(key: DailyViewStatKey, uniqueVisitor: boolean): Promise<DailyViewStat>;
+  getDailyViewStats(userId: number, filter?: DailyViewStatFilter): Promise<DailyViewStat[]>;
+
+  // Campaign operations
+  getCampaign(id: number): Promise<Campaign | undefined>;
+  getCampaignsByUserId(userId: number): Promise<Campaign[]>;
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(id: number, campaignData: Partial<Campaign>): Promise<Campaign | undefined>;
+  // Only updates the campaign if its status is still one of fromStatuses, so two sends can't both start it
+  updateCampaignIfStatus(id: number, fromStatuses: string[], campaignData: Partial<Campaign>): Promise<Campaign | undefined>;
+  deleteCampaign(id: number): Promise<boolean>;
+  getCampaignSends(campaignId: number): Promise<CampaignSend[]>;
+  // Skips recipients the campaign already has a send for
+  createCampaignSends(sends: InsertCampaignSend[]): Promise<CampaignSend[]>;
+  updateCampaignSend(id: number, sendData: Partial<CampaignSend>): Promise<CampaignSend | undefined>;
+  getCampaignSendByEmail(campaignId: number, email: string): Promise<CampaignSend | undefined>;
+
+  // Email event operations
+  // Returns undefined when an event with the same provider event ID was already recorded
+  createEmailEvent(event: InsertEmailEvent): Promise<EmailEvent | undefined>;
+  getEmailEventsByCampaignId(campaignId: number): Promise<EmailEvent[]>;
+
+  // Digest operations
+  getDigest(id: number): Promise<Digest | undefined>;
+  getDigestsByUserId(userId: number): Promise<Digest[]>;
+  createDigest(digest: InsertDigest): Promise<Digest>;
+  updateDigest(id: number, digestData: UpdateDigest & Partial<Pick<Digest, 'lastSentAt' | 'nextRunAt'>>): Promise<Digest | undefined>;
+  deleteDigest(id: number): Promise<boolean>;
+
+  // Sequence operations
+  getSequence(id: number): Promise<Sequence | undefined>;
+  getSequencesByUserId(userId: number): Promise<Sequence[]>;
+  createSequence(sequence: InsertSequence): Promise<Sequence>;
+  updateSequence(id: number, sequenceData: UpdateSequence): Promise<Sequence | undefined>;
+  // Also deletes the sequence's enrollments
+  deleteSequence(id: number): Promise<boolean>;
+  getSequenceEnrollment(id: number): Promise<SequenceEnrollment | undefined>;
+  getSequenceEnrollmentsBySequenceId(sequenceId: number): Promise<SequenceEnrollment[]>;
+  getSequenceEnrollmentsByEmail(userId: number, email: string): Promise<SequenceEnrollment[]>;
+  // Returns undefined when the contact is already enrolled in the sequence
+  createSequenceEnrollment(enrollment: InsertSequenceEnrollment): Promise<SequenceEnrollment | undefined>;
+  updateSequenceEnrollment(id: number, enrollmentData: Partial<SequenceEnrollment>): Promise<SequenceEnrollment | undefined>;
+
+  // Sender identity operations
+  getSenderIdentityByUserId(userId: number): Promise<SenderIdentity | undefined>;
+  getSenderIdentityByToken(token: string): Promise<SenderIdentity | undefined>;
+  createSenderIdentity(identity: InsertSenderIdentity): Promise<SenderIdentity>;
+  updateSenderIdentity(id: number, identityData: Partial<SenderIdentity>): Promise<SenderIdentity | undefined>;
+
+  // Asset operations
+  getAsset(id: number): Promise<Asset | undefined>;
+  getAssetByKey(key: string): Promise<Asset | undefined>;
+  getAssetsByUserId(userId: number, kind?: AssetKind): Promise<Asset[]>;
+  getAssetsByReference(reference: AssetReference): Promise<Asset[]>;
+  // Assets nothing has used since they were uploaded, oldest first
+  getUnreferencedAssets(createdBefore: Date): Promise<Asset[]>;
+  createAsset(asset: InsertAsset): Promise<Asset>;
+  updateAsset(id: number, assetData: Partial<Asset>): Promise<Asset | undefined>;
+  deleteAsset(id: number): Promise<boolean>;
+
+  // Job queue operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getDueJobs(now: Date, staleBefore: Date, limit: number): Promise<Job[]>;
+  claimJob(job: Job, now: Date): Promise<Job | undefined>;
+  updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined>;
+  cancelJobs(key: string): Promise<number>;
+
   // Lot map functions
   getLots(mapId?: number): Promise<any[]>;
   getLot(id: number): Promise<any | null>;
@@ -103,29 +320,86 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private listings: Map<number, Listing>;
+  private listingEvents: Map<number, ListingEvent>;
+  private listingImports: Map<number, ListingImport>;
+  private openHouses: Map<number, OpenHouse>;
+  private openHouseVisits: Map<number, OpenHouseVisit>;
   private emailTemplates: Map<number, EmailTemplate>;
   private socialContent: Map<number, SocialContent>;
   private socialAccounts: Map<number, SocialAccount>;
   private notificationPreferences: Map<number, NotificationPreference>;
   private userThemes: Map<number, UserTheme>;
+  private leads: Map<number, Lead>;
+  private contacts: Map<number, Contact>;
+  private segments: Map<number, Segment>;
+  private suppressions: Map<number, Suppression>;
+  private viewEvents: Map<number, ViewEvent>;
+  private dailyViewStats: Map<string, DailyViewStat>;
+  private campaigns: Map<number, Campaign>;
+  private campaignSends: Map<number, CampaignSend>;
+  private emailEvents: Map<number, EmailEvent>;
+  private digests: Map<number, Digest>;
+  private sequences: Map<number, Sequence>;
+  private sequenceEnrollments: Map<number, SequenceEnrollment>;
+  private senderIdentities: Map<number, SenderIdentity>;
+  private assets: Map<number, Asset>;
+  private jobs: Map<number, Job>;
   private currentId: { [key: string]: number };
 
   constructor() {
     this.users = new Map();
     this.listings = new Map();
+    this.listingEvents = new Map();
+    this.listingImports = new Map();
+    this.openHouses = new Map();
+    this.openHouseVisits = new Map();
     this.emailTemplates = new Map();
     this.socialContent = new Map();
     this.socialAccounts = new Map();
     this.notificationPreferences = new Map();
     this.userThemes = new Map();
+    this.leads = new Map();
+    this.contacts = new Map();
+    this.segments = new Map();
+    this.suppressions = new Map();
+    this.viewEvents = new Map();
+    this.dailyViewStats = new Map();
+    this.campaigns = new Map();
+    this.campaignSends = new Map();
+    this.emailEvents = new Map();
+    this.digests = new Map();
+    this.sequences = new Map();
+    this.sequenceEnrollments = new Map();
+    this.senderIdentities = new Map();
+    this.assets = new Map();
+    this.jobs = new Map();
     this.currentId = {
       users: 1,
       listings: 1,
+      listingEvents: 1,
+      listingImports: 1,
+      openHouses: 1,
+      openHouseVisits: 1,
       emailTemplates: 1,
       socialContent: 1,
       socialAccounts: 1,
       notificationPreferences: 1,
-      userThemes: 1
+      userThemes: 1,
+      leads: 1,
+      contacts: 1,
+      segments: 1,
+      suppressions: 1,
+      viewEvents: 1,
+      dailyViewStats: 1,
+      campaigns: 1,
+      campaignSends: 1,
+      emailEvents: 1,
+      digests: 1,
+      sequences: 1,
+      sequenceEnrollments: 1,
+      senderIdentities: 1,
+      assets: 1,
+      jobs: 1
     };
   }
 
@@ -218,15 +492,47 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async searchListings(filter: ListingSearchFilter): Promise<Listing[]> {
+    const words = filter.q ? filter.q.toLowerCase().split(/\s+/) : [];
+    const direction = filter.order === 'asc' ? 1 : -1;
+    const compare = (a: ListingSearchPosition, b: ListingSearchPosition) =>
+      direction * (a.value - b.value || a.id - b.id);
+    const positionOf = (listing: Listing) => ({ value: listingSortValue(listing, filter.sort), id: listing.id });
+
+    return Array.from(this.listings.values())
+      .filter((listing) => {
+        if (listing.userId !== filter.userId) return false;
+        if (filter.publicOnly && !isPublished(listing)) return false;
+        if (filter.status && (listing.status || 'active') !== filter.status) return false;
+        if (filter.propertyType && listing.propertyType !== filter.propertyType) return false;
+        if (filter.minPrice !== undefined && listing.price < filter.minPrice) return false;
+        if (filter.maxPrice !== undefined && listing.price > filter.maxPrice) return false;
+        if (filter.minBedrooms !== undefined && (listing.bedrooms ?? 0) < filter.minBedrooms) return false;
+        if (filter.minBathrooms !== undefined && (listing.bathrooms ?? 0) < filter.minBathrooms) return false;
+        if (filter.minSquareFeet !== undefined && (listing.squareFeet ?? 0) < filter.minSquareFeet) return false;
+        if (filter.maxSquareFeet !== undefined && (listing.squareFeet ?? 0) > filter.maxSquareFeet) return false;
+        if (filter.city && listing.city.toLowerCase() !== filter.city.toLowerCase()) return false;
+        if (filter.zipCode && listing.zipCode !== filter.zipCode) return false;
+        if (filter.after && compare(positionOf(listing), filter.after) <= 0) return false;
+
+        const text = [listing.title, listing.address, listing.city, listing.description || ''].join(' ').toLowerCase();
+        return words.every((word) => text.includes(word));
+      })
+      .sort((a, b) => compare(positionOf(a), positionOf(b)))
+      .slice(0, filter.limit);
+  }
+
   async createListing(insertListing: InsertListing): Promise<Listing> {
     const id = this.currentId.listings++;
     const now = new Date();
     const listing: Listing = {
       ...insertListing,
       id,
+      mlsId: insertListing.mlsId ?? null,
+      syndicate: insertListing.syndicate ?? false,
       createdAt: now,
       updatedAt: now,
-      status: "active"
+      status: insertListing.status ?? "active"
     };
     this.listings.set(id, listing);
     return listing;
@@ -246,10 +552,137 @@ export class MemStorage implements IStorage {
   }
 
   async deleteListing(id: number): Promise<boolean> {
-    const deleted = this.listings.delete(id);
-    return deleted;
+    Array.from(this.listingEvents.values())
+      .filter((event) => event.listingId === id)
+      .forEach((event) => this.listingEvents.delete(event.id));
+    for (const openHouse of await this.getOpenHousesByListingId(id)) {
+      await this.deleteOpenHouse(openHouse.id);
+    }
+    // Leads and campaigns about the listing are kept, as the database does with ON DELETE SET NULL
+    Array.from(this.leads.values())
+      .filter((lead) => lead.listingId === id)
+      .forEach((lead) => this.leads.set(lead.id, { ...lead, listingId: null }));
+    Array.from(this.campaigns.values())
+      .filter((campaign) => campaign.listingId === id)
+      .forEach((campaign) => this.campaigns.set(campaign.id, { ...campaign, listingId: null }));
+    return this.listings.delete(id);
   }
 
+  // Listing event operations
+  async createListingEvent(insertEvent: InsertListingEvent): Promise<ListingEvent> {
+    const id = this.currentId.listingEvents++;
+    const event: ListingEvent = {
+      ...insertEvent,
+      id,
+      fromValue: insertEvent.fromValue ?? null,
+      toValue: insertEvent.toValue ?? null,
+      createdAt: new Date()
+    };
+    this.listingEvents.set(id, event);
+    return event;
+  }
+
+  async getListingEventsByListingId(listingId: number): Promise<ListingEvent[]> {
+    return Array.from(this.listingEvents.values())
+      .filter((event) => event.listingId === listingId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.id - b.id);
+  }
+
+  // Listing import operations
+  async getListingImport(id: number): Promise<ListingImport | undefined> {
+    return this.listingImports.get(id);
+  }
+
+  async getListingImportsByUserId(userId: number): Promise<ListingImport[]> {
+    return Array.from(this.listingImports.values())
+      .filter((listingImport) => listingImport.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id);
+  }
+
+  async createListingImport(insertImport: InsertListingImport): Promise<ListingImport> {
+    const id = this.currentId.listingImports++;
+    const listingImport: ListingImport = {
+      ...insertImport,
+      id,
+      fileName: insertImport.fileName ?? null,
+      dryRun: insertImport.dryRun ?? false,
+      mapping: insertImport.mapping ?? null,
+      totalRows: insertImport.totalRows ?? 0,
+      created: insertImport.created ?? 0,
+      updated: insertImport.updated ?? 0,
+      skipped: insertImport.skipped ?? 0,
+      errors: insertImport.errors ?? [],
+      createdAt: new Date()
+    };
+    this.listingImports.set(id, listingImport);
+    return listingImport;
+  }
+  // Open house operations
+  async getOpenHouse(id: number): Promise<OpenHouse | undefined> {
+    return this.openHouses.get(id);
+  }
+
+  async getOpenHousesByListingId(listingId: number): Promise<OpenHouse[]> {
+    return Array.from(this.openHouses.values())
+      .filter((openHouse) => openHouse.listingId === listingId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async getOpenHousesByUserId(userId: number): Promise<OpenHouse[]> {
+    return Array.from(this.openHouses.values())
+      .filter((openHouse) => openHouse.userId === userId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async createOpenHouse(insertOpenHouse: InsertOpenHouse): Promise<OpenHouse> {
+    const id = this.currentId.openHouses++;
+    const openHouse: OpenHouse = {
+      ...insertOpenHouse,
+      id,
+      timeZone: insertOpenHouse.timeZone ?? 'UTC',
+      notes: insertOpenHouse.notes ?? null,
+      createdAt: new Date()
+    };
+    this.openHouses.set(id, openHouse);
+    return openHouse;
+  }
+
+  async updateOpenHouse(id: number, openHouseData: UpdateOpenHouse): Promise<OpenHouse | undefined> {
+    const openHouse = await this.getOpenHouse(id);
+    if (!openHouse) return undefined;
+
+    const updatedOpenHouse = { ...openHouse, ...openHouseData };
+    this.openHouses.set(id, updatedOpenHouse);
+    return updatedOpenHouse;
+  }
+
+  async deleteOpenHouse(id: number): Promise<boolean> {
+    Array.from(this.openHouseVisits.values())
+      .filter((visit) => visit.openHouseId === id)
+      .forEach((visit) => this.openHouseVisits.delete(visit.id));
+    return this.openHouses.delete(id);
+  }
+
+  async createOpenHouseVisit(insertVisit: InsertOpenHouseVisit): Promise<OpenHouseVisit> {
+    const id = this.currentId.openHouseVisits++;
+    const visit: OpenHouseVisit = {
+      ...insertVisit,
+      id,
+      workingWithAgent: insertVisit.workingWithAgent ?? false,
+      createdAt: new Date()
+    };
+    this.openHouseVisits.set(id, visit);
+    return visit;
+  }
+
+  async getOpenHouseVisitsByOpenHouseId(openHouseId: number): Promise<OpenHouseVisit[]> {
+    return Array.from(this.openHouseVisits.values())
+      .filter((visit) => visit.openHouseId === openHouseId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || a.id - b.id);
+  }
+
+
+
   // Email template operations
   async getEmailTemplate(id: number): Promise<EmailTemplate | undefined> {
     return this.emailTemplates.get(id);
@@ -266,6 +699,7 @@ export class MemStorage implements IStorage {
     const template: EmailTemplate = {
       ...insertTemplate,
       id,
+      kind: insertTemplate.kind ?? "listing",
       createdAt: new Date()
     };
     this.emailTemplates.set(id, template);
@@ -413,6 +847,712 @@ export class MemStorage implements IStorage {
     return updatedTheme;
   }
 
+  // Lead operations
+  async getLead(id: number): Promise<Lead | undefined> {
+    return this.leads.get(id);
+  }
+
+  async getLeadsByUserId(userId: number): Promise<Lead[]> {
+    return Array.from(this.leads.values())
+      .filter((lead) => lead.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createLead(insertLead: InsertLead): Promise<Lead> {
+    const id = this.currentId.leads++;
+    const now = new Date();
+    const lead: Lead = {
+      ...insertLead,
+      id,
+      phone: insertLead.phone ?? null,
+      message: insertLead.message ?? null,
+      listingId: insertLead.listingId ?? null,
+      lotId: insertLead.lotId ?? null,
+      source: insertLead.source ?? "profile",
+      status: insertLead.status ?? "new",
+      notes: insertLead.notes ?? null,
+      followUpAt: insertLead.followUpAt ?? null,
+      ipAddress: insertLead.ipAddress ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.leads.set(id, lead);
+    return lead;
+  }
+
+  async updateLead(id: number, leadData: UpdateLead): Promise<Lead | undefined> {
+    const lead = await this.getLead(id);
+    if (!lead) return undefined;
+
+    const updatedLead = {
+      ...lead,
+      ...leadData,
+      updatedAt: new Date()
+    };
+    this.leads.set(id, updatedLead);
+    return updatedLead;
+  }
+
+  async deleteLead(id: number): Promise<boolean> {
+    return this.leads.delete(id);
+  }
+
+  // Contact operations
+  async getContact(id: number): Promise<Contact | undefined> {
+    return this.contacts.get(id);
+  }
+
+  async getContactsByUserId(userId: number): Promise<Contact[]> {
+    return Array.from(this.contacts.values())
+      .filter((contact) => contact.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getContactByEmail(userId: number, email: string): Promise<Contact | undefined> {
+    return Array.from(this.contacts.values()).find(
+      (contact) => contact.userId === userId && contact.email === email.toLowerCase()
+    );
+  }
+
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const id = this.currentId.contacts++;
+    const now = new Date();
+    const contact: Contact = {
+      ...insertContact,
+      id,
+      email: insertContact.email.toLowerCase(),
+      phone: insertContact.phone ?? null,
+      tags: insertContact.tags ?? [],
+      source: insertContact.source ?? "manual",
+      subscriptionStatus: insertContact.subscriptionStatus ?? "subscribed",
+      createdAt: now,
+      updatedAt: now
+    };
+    this.contacts.set(id, contact);
+    return contact;
+  }
+
+  async updateContact(id: number, contactData: Partial<Contact>): Promise<Contact | undefined> {
+    const contact = await this.getContact(id);
+    if (!contact) return undefined;
+
+    const updatedContact = {
+      ...contact,
+      ...contactData,
+      email: (contactData.email ?? contact.email).toLowerCase(),
+      updatedAt: new Date()
+    };
+    this.contacts.set(id, updatedContact);
+    return updatedContact;
+  }
+
+  async deleteContact(id: number): Promise<boolean> {
+    Array.from(this.sequenceEnrollments.values())
+      .filter((enrollment) => enrollment.contactId === id)
+      .forEach((enrollment) => this.sequenceEnrollments.delete(enrollment.id));
+    Array.from(this.openHouseVisits.values())
+      .filter((visit) => visit.contactId === id)
+      .forEach((visit) => this.openHouseVisits.delete(visit.id));
+    return this.contacts.delete(id);
+  }
+
+  // Segment operations
+  async getSegment(id: number): Promise<Segment | undefined> {
+    return this.segments.get(id);
+  }
+
+  async getSegmentsByUserId(userId: number): Promise<Segment[]> {
+    return Array.from(this.segments.values())
+      .filter((segment) => segment.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSegment(insertSegment: InsertSegment): Promise<Segment> {
+    const id = this.currentId.segments++;
+    const now = new Date();
+    const segment: Segment = {
+      ...insertSegment,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.segments.set(id, segment);
+    return segment;
+  }
+
+  async updateSegment(id: number, segmentData: UpdateSegment): Promise<Segment | undefined> {
+    const segment = await this.getSegment(id);
+    if (!segment) return undefined;
+
+    const updatedSegment = {
+      ...segment,
+      ...segmentData,
+      updatedAt: new Date()
+    };
+    this.segments.set(id, updatedSegment);
+    return updatedSegment;
+  }
+
+  async deleteSegment(id: number): Promise<boolean> {
+    return this.segments.delete(id);
+  }
+
+  // Suppression operations
+  async getSuppression(userId: number, email: string): Promise<Suppression | undefined> {
+    return Array.from(this.suppressions.values()).find(
+      (suppression) => suppression.userId === userId && suppression.email === email.toLowerCase()
+    );
+  }
+
+  async getSuppressionsByUserId(userId: number): Promise<Suppression[]> {
+    return Array.from(this.suppressions.values())
+      .filter((suppression) => suppression.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createSuppression(insertSuppression: InsertSuppression): Promise<Suppression> {
+    // An address is only suppressed once; the first reason is kept
+    const existing = await this.getSuppression(insertSuppression.userId, insertSuppression.email);
+    if (existing) return existing;
+
+    const id = this.currentId.suppressions++;
+    const suppression: Suppression = {
+      ...insertSuppression,
+      id,
+      email: insertSuppression.email.toLowerCase(),
+      campaignId: insertSuppression.campaignId ?? null,
+      createdAt: new Date()
+    };
+    this.suppressions.set(id, suppression);
+    return suppression;
+  }
+
+  async deleteSuppression(id: number): Promise<boolean> {
+    return this.suppressions.delete(id);
+  }
+
+  // View tracking operations
+  async createViewEvent(insertEvent: InsertViewEvent): Promise<ViewEvent> {
+    const id = this.currentId.viewEvents++;
+    const event: ViewEvent = {
+      ...insertEvent,
+      id,
+      targetId: insertEvent.targetId ?? 0,
+      referrer: insertEvent.referrer ?? null,
+      createdAt: new Date()
+    };
+    this.viewEvents.set(id, event);
+    return event;
+  }
+
+  async getVisitorViewEvents(visitorId: string, targetType: string, targetId: number, since: Date): Promise<ViewEvent[]> {
+    return Array.from(this.viewEvents.values()).filter(
+      (event) =>
+        event.visitorId === visitorId &&
+        event.targetType === targetType &&
+        event.targetId === targetId &&
+        !!event.createdAt && event.createdAt >= since
+    );
+  }
+
+  async incrementDailyViewStat(key: DailyViewStatKey, uniqueVisitor: boolean): Promise<DailyViewStat> {
+    const mapKey = `${key.userId}:${key.targetType}:${key.targetId}:${key.day}`;
+    const existing = this.dailyViewStats.get(mapKey);
+    const stat: DailyViewStat = existing
+      ? {
+          ...existing,
+          views: existing.views + 1,
+          uniqueVisitors: existing.uniqueVisitors + (uniqueVisitor ? 1 : 0)
+        }
+      : {
+          ...key,
+          id: this.currentId.dailyViewStats++,
+          views: 1,
+          uniqueVisitors: uniqueVisitor ? 1 : 0
+        };
+    this.dailyViewStats.set(mapKey, stat);
+    return stat;
+  }
+
+  async getDailyViewStats(userId: number, filter: DailyViewStatFilter = {}): Promise<DailyViewStat[]> {
+    return Array.from(this.dailyViewStats.values())
+      .filter((stat) =>
+        stat.userId === userId &&
+        (filter.targetType === undefined || stat.targetType === filter.targetType) &&
+        (filter.targetId === undefined || stat.targetId === filter.targetId) &&
+        (filter.from === undefined || stat.day >= filter.from) &&
+        (filter.to === undefined || stat.day <= filter.to)
+      )
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  // Campaign operations
+  async getCampaign(id: number): Promise<Campaign | undefined> {
+    return this.campaigns.get(id);
+  }
+
+  async getCampaignsByUserId(userId: number): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter((campaign) => campaign.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const id = this.currentId.campaigns++;
+    const now = new Date();
+    const campaign: Campaign = {
+      ...insertCampaign,
+      id,
+      listingId: insertCampaign.listingId ?? null,
+      digestFilter: insertCampaign.digestFilter ?? null,
+      digestId: insertCampaign.digestId ?? null,
+      abTest: insertCampaign.abTest ?? null,
+      status: insertCampaign.status ?? "draft",
+      scheduledAt: insertCampaign.scheduledAt ?? null,
+      sentAt: null,
+      testEndsAt: null,
+      winningVariant: null,
+      variantResults: null,
+      recipientCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.campaigns.set(id, campaign);
+    return campaign;
+  }
+
+  async updateCampaign(id: number, campaignData: Partial<Campaign>): Promise<Campaign | undefined> {
+    const campaign = await this.getCampaign(id);
+    if (!campaign) return undefined;
+
+    const updatedCampaign = {
+      ...campaign,
+      ...campaignData,
+      updatedAt: new Date()
+    };
+    this.campaigns.set(id, updatedCampaign);
+    return updatedCampaign;
+  }
+
+  async updateCampaignIfStatus(id: number, fromStatuses: string[], campaignData: Partial<Campaign>): Promise<Campaign | undefined> {
+    // Read and written without awaiting in between, so concurrent callers can't both pass the check
+    const campaign = this.campaigns.get(id);
+    if (!campaign || !fromStatuses.includes(campaign.status)) return undefined;
+
+    const updatedCampaign = { ...campaign, ...campaignData, updatedAt: new Date() };
+    this.campaigns.set(id, updatedCampaign);
+    return updatedCampaign;
+  }
+
+  async deleteCampaign(id: number): Promise<boolean> {
+    Array.from(this.campaignSends.values())
+      .filter((send) => send.campaignId === id)
+      .forEach((send) => this.campaignSends.delete(send.id));
+    return this.campaigns.delete(id);
+  }
+
+  async getCampaignSends(campaignId: number): Promise<CampaignSend[]> {
+    return Array.from(this.campaignSends.values())
+      .filter((send) => send.campaignId === campaignId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createCampaignSends(insertSends: InsertCampaignSend[]): Promise<CampaignSend[]> {
+    const queued = new Set(
+      Array.from(this.campaignSends.values()).map((send) => `${send.campaignId}:${send.email.toLowerCase()}`)
+    );
+
+    return insertSends.filter((insertSend) => {
+      const key = `${insertSend.campaignId}:${insertSend.email.toLowerCase()}`;
+      if (queued.has(key)) return false;
+      queued.add(key);
+      return true;
+    }).map((insertSend) => {
+      const id = this.currentId.campaignSends++;
+      const send: CampaignSend = {
+        ...insertSend,
+        id,
+        name: insertSend.name ?? null,
+        variant: insertSend.variant ?? null,
+        testGroup: insertSend.testGroup ?? false,
+        status: insertSend.status ?? "pending",
+        error: insertSend.error ?? null,
+        sentAt: insertSend.sentAt ?? null,
+        openedAt: insertSend.openedAt ?? null,
+        clickedAt: insertSend.clickedAt ?? null,
+        createdAt: new Date()
+      };
+      this.campaignSends.set(id, send);
+      return send;
+    });
+  }
+
+  async updateCampaignSend(id: number, sendData: Partial<CampaignSend>): Promise<CampaignSend | undefined> {
+    const send = this.campaignSends.get(id);
+    if (!send) return undefined;
+
+    const updatedSend = { ...send, ...sendData };
+    this.campaignSends.set(id, updatedSend);
+    return updatedSend;
+  }
+
+  async getCampaignSendByEmail(campaignId: number, email: string): Promise<CampaignSend | undefined> {
+    return Array.from(this.campaignSends.values()).find(
+      (send) => send.campaignId === campaignId && send.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+
+  // Email event operations
+  async createEmailEvent(insertEvent: InsertEmailEvent): Promise<EmailEvent | undefined> {
+    const duplicate = Array.from(this.emailEvents.values()).some(
+      (event) => event.providerEventId === insertEvent.providerEventId
+    );
+    if (duplicate) return undefined;
+
+    const id = this.currentId.emailEvents++;
+    const event: EmailEvent = {
+      ...insertEvent,
+      id,
+      email: insertEvent.email.toLowerCase(),
+      campaignId: insertEvent.campaignId ?? null,
+      campaignSendId: insertEvent.campaignSendId ?? null,
+      providerMessageId: insertEvent.providerMessageId ?? null,
+      url: insertEvent.url ?? null,
+      reason: insertEvent.reason ?? null,
+      createdAt: new Date()
+    };
+    this.emailEvents.set(id, event);
+    return event;
+  }
+
+  async getEmailEventsByCampaignId(campaignId: number): Promise<EmailEvent[]> {
+    return Array.from(this.emailEvents.values())
+      .filter((event) => event.campaignId === campaignId)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
+  // Digest operations
+  async getDigest(id: number): Promise<Digest | undefined> {
+    return this.digests.get(id);
+  }
+
+  async getDigestsByUserId(userId: number): Promise<Digest[]> {
+    return Array.from(this.digests.values())
+      .filter((digest) => digest.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createDigest(insertDigest: InsertDigest): Promise<Digest> {
+    const id = this.currentId.digests++;
+    const now = new Date();
+    const digest: Digest = {
+      ...insertDigest,
+      id,
+      active: insertDigest.active ?? true,
+      lastSentAt: null,
+      nextRunAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.digests.set(id, digest);
+    return digest;
+  }
+
+  async updateDigest(id: number, digestData: UpdateDigest & Partial<Pick<Digest, 'lastSentAt' | 'nextRunAt'>>): Promise<Digest | undefined> {
+    const digest = await this.getDigest(id);
+    if (!digest) return undefined;
+
+    const updatedDigest = {
+      ...digest,
+      ...digestData,
+      updatedAt: new Date()
+    };
+    this.digests.set(id, updatedDigest);
+    return updatedDigest;
+  }
+
+  async deleteDigest(id: number): Promise<boolean> {
+    return this.digests.delete(id);
+  }
+
+  // Sequence operations
+  async getSequence(id: number): Promise<Sequence | undefined> {
+    return this.sequences.get(id);
+  }
+
+  async getSequencesByUserId(userId: number): Promise<Sequence[]> {
+    return Array.from(this.sequences.values())
+      .filter((sequence) => sequence.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSequence(insertSequence: InsertSequence): Promise<Sequence> {
+    const id = this.currentId.sequences++;
+    const now = new Date();
+    const sequence: Sequence = {
+      ...insertSequence,
+      id,
+      triggers: insertSequence.triggers ?? ["manual", "lead"],
+      active: insertSequence.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sequences.set(id, sequence);
+    return sequence;
+  }
+
+  async updateSequence(id: number, sequenceData: UpdateSequence): Promise<Sequence | undefined> {
+    const sequence = await this.getSequence(id);
+    if (!sequence) return undefined;
+
+    const updatedSequence = {
+      ...sequence,
+      ...sequenceData,
+      updatedAt: new Date()
+    };
+    this.sequences.set(id, updatedSequence);
+    return updatedSequence;
+  }
+
+  async deleteSequence(id: number): Promise<boolean> {
+    Array.from(this.sequenceEnrollments.values())
+      .filter((enrollment) => enrollment.sequenceId === id)
+      .forEach((enrollment) => this.sequenceEnrollments.delete(enrollment.id));
+    return this.sequences.delete(id);
+  }
+
+  async getSequenceEnrollment(id: number): Promise<SequenceEnrollment | undefined> {
+    return this.sequenceEnrollments.get(id);
+  }
+
+  async getSequenceEnrollmentsBySequenceId(sequenceId: number): Promise<SequenceEnrollment[]> {
+    return Array.from(this.sequenceEnrollments.values())
+      .filter((enrollment) => enrollment.sequenceId === sequenceId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async getSequenceEnrollmentsByEmail(userId: number, email: string): Promise<SequenceEnrollment[]> {
+    return Array.from(this.sequenceEnrollments.values())
+      .filter((enrollment) => enrollment.userId === userId && enrollment.email === email.toLowerCase());
+  }
+
+  async createSequenceEnrollment(insertEnrollment: InsertSequenceEnrollment): Promise<SequenceEnrollment | undefined> {
+    const enrolled = Array.from(this.sequenceEnrollments.values()).some((enrollment) =>
+      enrollment.sequenceId === insertEnrollment.sequenceId && enrollment.contactId === insertEnrollment.contactId
+    );
+    if (enrolled) return undefined;
+
+    const id = this.currentId.sequenceEnrollments++;
+    const now = new Date();
+    const enrollment: SequenceEnrollment = {
+      ...insertEnrollment,
+      id,
+      email: insertEnrollment.email.toLowerCase(),
+      status: insertEnrollment.status ?? "active",
+      stopReason: insertEnrollment.stopReason ?? null,
+      currentStep: insertEnrollment.currentStep ?? 0,
+      nextRunAt: insertEnrollment.nextRunAt ?? null,
+      startedAt: insertEnrollment.startedAt ?? now,
+      endedAt: insertEnrollment.endedAt ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sequenceEnrollments.set(id, enrollment);
+    return enrollment;
+  }
+
+  async updateSequenceEnrollment(id: number, enrollmentData: Partial<SequenceEnrollment>): Promise<SequenceEnrollment | undefined> {
+    const enrollment = await this.getSequenceEnrollment(id);
+    if (!enrollment) return undefined;
+
+    const updatedEnrollment = {
+      ...enrollment,
+      ...enrollmentData,
+      updatedAt: new Date()
+    };
+    this.sequenceEnrollments.set(id, updatedEnrollment);
+    return updatedEnrollment;
+  }
+
+  // Sender identity operations
+  async getSenderIdentityByUserId(userId: number): Promise<SenderIdentity | undefined> {
+    return Array.from(this.senderIdentities.values()).find((identity) => identity.userId === userId);
+  }
+
+  async getSenderIdentityByToken(token: string): Promise<SenderIdentity | undefined> {
+    return Array.from(this.senderIdentities.values()).find((identity) => identity.verificationToken === token);
+  }
+
+  async createSenderIdentity(insertIdentity: InsertSenderIdentity): Promise<SenderIdentity> {
+    const id = this.currentId.senderIdentities++;
+    const now = new Date();
+    const identity: SenderIdentity = {
+      ...insertIdentity,
+      id,
+      displayName: insertIdentity.displayName ?? null,
+      replyTo: insertIdentity.replyTo ?? null,
+      replyToVerified: insertIdentity.replyToVerified ?? false,
+      verificationToken: insertIdentity.verificationToken ?? null,
+      verificationSentAt: insertIdentity.verificationSentAt ?? null,
+      signature: insertIdentity.signature ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.senderIdentities.set(id, identity);
+    return identity;
+  }
+
+  async updateSenderIdentity(id: number, identityData: Partial<SenderIdentity>): Promise<SenderIdentity | undefined> {
+    const identity = this.senderIdentities.get(id);
+    if (!identity) return undefined;
+
+    const updatedIdentity = {
+      ...identity,
+      ...identityData,
+      updatedAt: new Date()
+    };
+    this.senderIdentities.set(id, updatedIdentity);
+    return updatedIdentity;
+  }
+
+  // Asset operations
+  async getAsset(id: number): Promise<Asset | undefined> {
+    return this.assets.get(id);
+  }
+
+  async getAssetByKey(key: string): Promise<Asset | undefined> {
+    return Array.from(this.assets.values()).find((asset) => asset.key === key);
+  }
+
+  async getAssetsByUserId(userId: number, kind?: AssetKind): Promise<Asset[]> {
+    return Array.from(this.assets.values())
+      .filter((asset) => asset.userId === userId && (!kind || asset.kind === kind))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getAssetsByReference(reference: AssetReference): Promise<Asset[]> {
+    return Array.from(this.assets.values()).filter((asset) =>
+      (asset.references as AssetReference[]).some((ref) => ref.type === reference.type && ref.id === reference.id)
+    );
+  }
+
+  async getUnreferencedAssets(createdBefore: Date): Promise<Asset[]> {
+    return Array.from(this.assets.values())
+      .filter((asset) => (asset.references as AssetReference[]).length === 0
+        && (asset.createdAt?.getTime() ?? 0) <= createdBefore.getTime())
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const id = this.currentId.assets++;
+    const now = new Date();
+    const asset: Asset = {
+      ...insertAsset,
+      id,
+      variantKeys: insertAsset.variantKeys ?? {},
+      width: insertAsset.width ?? null,
+      height: insertAsset.height ?? null,
+      isPrivate: insertAsset.isPrivate ?? false,
+      references: insertAsset.references ?? [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.assets.set(id, asset);
+    return asset;
+  }
+
+  async updateAsset(id: number, assetData: Partial<Asset>): Promise<Asset | undefined> {
+    const asset = this.assets.get(id);
+    if (!asset) return undefined;
+
+    const updatedAsset = {
+      ...asset,
+      ...assetData,
+      updatedAt: new Date()
+    };
+    this.assets.set(id, updatedAsset);
+    return updatedAsset;
+  }
+
+  async deleteAsset(id: number): Promise<boolean> {
+    return this.assets.delete(id);
+  }
+
+  // Job queue operations
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentId.jobs++;
+    const now = new Date();
+    const job: Job = {
+      ...insertJob,
+      id,
+      key: insertJob.key ?? null,
+      payload: insertJob.payload ?? {},
+      status: insertJob.status ?? "pending",
+      runAt: insertJob.runAt ?? now,
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      lastError: null,
+      lockedAt: null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getDueJobs(now: Date, staleBefore: Date, limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) =>
+        (job.status === "pending" && job.runAt <= now) ||
+        (job.status === "running" && !!job.lockedAt && job.lockedAt < staleBefore)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+  }
+
+  async claimJob(job: Job, now: Date): Promise<Job | undefined> {
+    const current = this.jobs.get(job.id);
+    // Another worker got there first if the job changed since it was read
+    if (!current || current.status !== job.status || current.attempts !== job.attempts) {
+      return undefined;
+    }
+
+    const claimedJob = {
+      ...current,
+      status: "running",
+      lockedAt: now,
+      attempts: current.attempts + 1,
+      updatedAt: now
+    };
+    this.jobs.set(job.id, claimedJob);
+    return claimedJob;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = {
+      ...job,
+      ...jobData,
+      updatedAt: new Date()
+    };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async cancelJobs(key: string): Promise<number> {
+    const pendingJobs = Array.from(this.jobs.values())
+      .filter((job) => job.key === key && job.status === "pending");
+    pendingJobs.forEach((job) => this.jobs.set(job.id, { ...job, status: "cancelled", updatedAt: new Date() }));
+    return pendingJobs.length;
+  }
+
   // Lot map functions
   async getLots(mapId?: number) {
     if (mapId) {
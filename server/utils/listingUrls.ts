@@ -0,0 +1,30 @@
+import { Listing } from '@shared/schema';
+
+// Listing pages are /:username/listings/:id-some-slug; the slug is cosmetic and only the ID is looked up
+const LISTING_PARAM = /^(\d+)(?:-[a-z0-9-]*)?$/;
+
+// The listing ID in a :listing route parameter, or null if it isn't a listing
+export const listingIdFromParam = (param: string) => {
+  const match = param.match(LISTING_PARAM);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+export const getSiteUrl = () => (process.env.SITE_URL || 'https://homesbin.com').replace(/\/$/, '');
+
+export const listingSlug = (listing: Listing) =>
+  [listing.address, listing.city, listing.state]
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+
+// Path of a listing's public page
+export const listingPath = (username: string, listing: Listing) =>
+  `/${encodeURIComponent(username)}/listings/${listing.id}-${listingSlug(listing)}`;
+
+// Crawlers and email clients need absolute URLs, but the local file driver hands out paths on this server
+export const absoluteUrl = (url: string) => (/^https?:\/\//.test(url) ? url : `${getSiteUrl()}${url.startsWith('/') ? '' : '/'}${url}`);
+
+// Whether a listing has a public page; hidden listings and drafts don't
+export const isPublished = (listing: Listing) => listing.isPublic !== false && listing.status !== 'draft';
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique, uniqueIndex, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -50,7 +51,14 @@ export const listings = pgTable("listings", {
   updatedAt: timestamp("updated_at").defaultNow(),
   status: text("status").default("active"),
   isPublic: boolean("is_public").default(true),
-});
+  mlsId: text("mls_id"), // ID in the MLS or brokerage system the listing was imported from
+  syndicate: boolean("syndicate").notNull().default(false), // Opted in to the agent's RSS, JSON and portal feeds
+}, (table) => [
+  index("listings_user_id").on(table.userId),
+  unique("listings_user_mls_id").on(table.userId, table.mlsId),
+  // Full-text search over the listing; DatabaseStorage.searchListings must use the same expression to use it
+  index("listings_search").using("gin", sql`to_tsvector('english', ${table.title} || ' ' || ${table.address} || ' ' || ${table.city} || ' ' || coalesce(${table.description}, ''))`),
+]);
 
 export const insertListingSchema = createInsertSchema(listings).omit({
   id: true,
@@ -58,6 +66,173 @@ export const insertListingSchema = createInsertSchema(listings).omit({
   updatedAt: true,
 });
 
+export const listingStatuses = ["active", "pending", "sold", "draft"] as const;
+export const listingPropertyTypes = [
+  "Single Family Home",
+  "Condo",
+  "Townhouse",
+  "Multi-Family",
+  "Apartment",
+  "Land",
+  "Commercial",
+] as const;
+export const listingSortFields = ["createdAt", "price", "squareFeet"] as const;
+
+const optionalCount = z.coerce.number().int().nonnegative().optional();
+
+// Query string of the listing search endpoints; every filter is optional and they all have to match
+export const listingSearchSchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  status: z.enum(listingStatuses).optional(),
+  propertyType: z.string().trim().min(1).optional(),
+  minPrice: optionalCount,
+  maxPrice: optionalCount,
+  minBedrooms: optionalCount,
+  minBathrooms: optionalCount,
+  minSquareFeet: optionalCount,
+  maxSquareFeet: optionalCount,
+  city: z.string().trim().min(1).optional(),
+  zipCode: z.string().trim().min(1).optional(),
+  sort: z.enum(listingSortFields).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // nextCursor from the previous page
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(100).default(24),
+});
+
+// Printable PDFs of a listing: one-page flyers, or a brochure with a page per part of the listing
+export const flyerLayouts = ["classic", "gallery", "brochure"] as const;
+export const flyerPageSizes = ["letter", "a4"] as const;
+
+// Query string of the flyer endpoint
+export const listingFlyerSchema = z.object({
+  layout: z.enum(flyerLayouts).default("classic"),
+  pageSize: z.enum(flyerPageSizes).default("letter"),
+  // Overrides the agent's theme color, e.g. to match a brokerage's print branding
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Color must be a hex value such as #4f46e5").optional(),
+});
+
+// Bulk imports of listings from a spreadsheet or MLS export, kept with what each one did
+export const listingImports = pgTable("listing_imports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  format: text("format").notNull(),
+  fileName: text("file_name"),
+  dryRun: boolean("dry_run").notNull().default(false),
+  mapping: jsonb("mapping"), // CSV header used for each listing field; null for RESO JSON
+  totalRows: integer("total_rows").notNull().default(0),
+  created: integer("created").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  skipped: integer("skipped").notNull().default(0),
+  errors: jsonb("errors").notNull().default([]), // See listingImportRowErrorSchema
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const listingImportFormats = ["csv", "reso"] as const;
+
+// Why a row of an import was skipped
+export const listingImportRowErrorSchema = z.object({
+  row: z.number().int(), // CSV line number counting the header as 1, or 1-based position in the JSON array
+  mlsId: z.string().optional(),
+  message: z.string(),
+});
+
+export const insertListingImportSchema = createInsertSchema(listingImports, {
+  format: z.enum(listingImportFormats),
+  errors: z.array(listingImportRowErrorSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Price, status, visibility and description changes to a listing, kept so its history survives updates
+export const listingEvents = pgTable("listing_events", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").notNull().references(() => listings.id),
+  userId: integer("user_id").notNull().references(() => users.id), // User who made the change
+  event: text("event").notNull(),
+  fromValue: jsonb("from_value"), // Null for "listed"
+  toValue: jsonb("to_value"), // For "listed", the starting { price, status }
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("listing_events_listing_id").on(table.listingId),
+]);
+
+export const listingEventTypes = ["listed", "price_changed", "status_changed", "visibility_changed", "description_changed"] as const;
+
+export const insertListingEventSchema = createInsertSchema(listingEvents, {
+  event: z.enum(listingEventTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Times a listing is open for anyone to walk through
+export const openHouses = pgTable("open_houses", {
+  id: serial("id").primaryKey(),
+  listingId: integer("listing_id").notNull().references(() => listings.id),
+  userId: integer("user_id").notNull().references(() => users.id), // Listing owner
+  hostName: text("host_name").notNull(), // Agent running it, who isn't always the listing agent
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  timeZone: text("time_zone").notNull().default("UTC"), // IANA zone the times are shown in
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("open_houses_listing_id").on(table.listingId),
+  index("open_houses_user_id").on(table.userId),
+]);
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const openHouseFields = {
+  hostName: z.string().trim().min(1, "Host name is required").max(100),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  notes: z.string().trim().max(500).nullable().optional(),
+};
+
+export const insertOpenHouseSchema = createInsertSchema(openHouses, openHouseFields).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateOpenHouseSchema = z.object(openHouseFields).partial();
+
+// A visitor who signed in at an open house; each visitor is also one of the agent's contacts
+export const openHouseVisits = pgTable("open_house_visits", {
+  id: serial("id").primaryKey(),
+  openHouseId: integer("open_house_id").notNull().references(() => openHouses.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  contactId: integer("contact_id").notNull().references(() => contacts.id),
+  workingWithAgent: boolean("working_with_agent").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("open_house_visits_open_house_id").on(table.openHouseId),
+  index("open_house_visits_contact_id").on(table.contactId),
+]);
+
+export const insertOpenHouseVisitSchema = createInsertSchema(openHouseVisits).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a visitor enters on the sign-in kiosk
+export const openHouseSignInSchema = z.object({
+  name: z.string().trim().min(1, "Please enter your name").max(100),
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  phone: z.string().trim().max(30).optional(),
+  workingWithAgent: z.boolean(),
+});
+
 // Lot map model
 export const lots = pgTable("lots", {
   id: serial("id").primaryKey(),
@@ -123,12 +298,18 @@ export const emailTemplates = pgTable("email_templates", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
+  kind: text("kind").notNull().default("listing"),
   subject: text("subject").notNull(),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
+// listing: about one optional listing; digest: a repeating block of listings chosen by a filter
+export const emailTemplateKinds = ["listing", "digest"] as const;
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates, {
+  kind: z.enum(emailTemplateKinds).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -166,6 +347,480 @@ export const insertSocialAccountSchema = createInsertSchema(socialAccounts).omit
   createdAt: true,
 });
 
+// Leads captured from public profile contact forms
+export const leads = pgTable("leads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone"),
+  message: text("message"),
+  // Kept when the listing or lot is deleted, just without the link
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "set null" }),
+  lotId: integer("lot_id").references(() => lots.id, { onDelete: "set null" }),
+  source: text("source").notNull().default("profile"), // profile, listing, lot_map, manual
+  status: text("status").notNull().default("new"),
+  notes: text("notes"),
+  followUpAt: timestamp("follow_up_at"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Pipeline stages a lead moves through, in order
+export const leadStatuses = ["new", "contacted", "showing", "under_contract", "closed", "lost"] as const;
+
+export const insertLeadSchema = createInsertSchema(leads, {
+  email: z.string().email(),
+  status: z.enum(leadStatuses).optional(),
+  followUpAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateLeadSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().nullable().optional(),
+  status: z.enum(leadStatuses).optional(),
+  notes: z.string().nullable().optional(),
+  followUpAt: z.coerce.date().nullable().optional(),
+  listingId: z.number().nullable().optional(),
+  lotId: z.number().nullable().optional(),
+});
+
+// Marketing contacts, kept per user and unique by email
+export const contacts = pgTable("contacts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  email: text("email").notNull(), // Stored lowercase
+  phone: text("phone"),
+  tags: text("tags").array().notNull().default([]),
+  source: text("source").notNull().default("manual"),
+  subscriptionStatus: text("subscription_status").notNull().default("subscribed"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("contacts_user_email").on(table.userId, table.email),
+]);
+
+export const contactSources = ["manual", "import", "lead", "open_house"] as const;
+
+// Only subscribed contacts receive campaigns
+export const contactSubscriptionStatuses = ["subscribed", "unsubscribed", "bounced"] as const;
+
+export const insertContactSchema = createInsertSchema(contacts, {
+  name: z.string().min(1, "Name is required"),
+  email: z.string().email(),
+  tags: z.array(z.string().min(1)).optional(),
+  source: z.enum(contactSources).optional(),
+  subscriptionStatus: z.enum(contactSubscriptionStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateContactSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().nullable().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  subscriptionStatus: z.enum(contactSubscriptionStatuses).optional(),
+});
+
+// Saved contact segments, defined by the tags their contacts carry
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  filter: jsonb("filter").notNull(), // See segmentFilterSchema
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Contacts with any (or all) of the tags; no tags matches every contact
+export const segmentFilterSchema = z.object({
+  tags: z.array(z.string().min(1)),
+  match: z.enum(["any", "all"]),
+});
+
+export const insertSegmentSchema = createInsertSchema(segments, {
+  name: z.string().min(1, "Segment name is required"),
+  filter: segmentFilterSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateSegmentSchema = z.object({
+  name: z.string().min(1).optional(),
+  filter: segmentFilterSchema.optional(),
+});
+
+// Addresses an agent may no longer send marketing email to, checked before every send
+export const suppressions = pgTable("suppressions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  email: text("email").notNull(), // Stored lowercase
+  reason: text("reason").notNull(),
+  campaignId: integer("campaign_id"), // Campaign the recipient unsubscribed from, if any
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("suppressions_user_email").on(table.userId, table.email),
+]);
+
+export const suppressionReasons = ["unsubscribed", "bounced", "spam_report", "manual"] as const;
+
+export const insertSuppressionSchema = createInsertSchema(suppressions, {
+  email: z.string().email(),
+  reason: z.enum(suppressionReasons),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Email campaigns sent from a template to an audience
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  templateId: integer("template_id").notNull().references(() => emailTemplates.id),
+  listingId: integer("listing_id").references(() => listings.id, { onDelete: "set null" }), // Sent campaigns outlive the listing
+  digestFilter: jsonb("digest_filter"), // See digestListingFilterSchema; used with digest templates
+  digestId: integer("digest_id"), // Recurring digest that created the campaign, if any
+  audience: jsonb("audience").notNull(), // See campaignAudienceSchema
+  abTest: jsonb("ab_test"), // See campaignAbTestSchema; null for campaigns that send one version
+  status: text("status").notNull().default("draft"),
+  scheduledAt: timestamp("scheduled_at"),
+  sentAt: timestamp("sent_at"),
+  testEndsAt: timestamp("test_ends_at"), // When the A/B test's winner is picked
+  winningVariant: integer("winning_variant"), // Index into abTest.variants
+  variantResults: jsonb("variant_results"), // Test group metrics of each variant when the winner was picked
+  recipientCount: integer("recipient_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Campaign lifecycle: draft -> scheduled -> sending -> sent, or failed/cancelled. A/B tests wait in
+// testing between sending to the test group and sending the winner to everyone else.
+export const campaignStatuses = ["draft", "scheduled", "sending", "testing", "sent", "failed", "cancelled"] as const;
+
+export const campaignWinnerMetrics = ["opens", "clicks"] as const;
+
+// A/B test of a campaign: a share of the audience is split at random across the variants, and once the
+// window has passed the rest of the audience gets the variant with the higher open or click rate
+export const campaignAbTestSchema = z.object({
+  variants: z.array(z.object({
+    subject: z.string().trim().min(1, "Subject is required"),
+    // Replaces the template's content when set
+    content: z.string().trim().min(1).optional(),
+  })).min(2, "Add at least two variants").max(5, "Use at most five variants"),
+  testPercent: z.number().int().min(10).max(90),
+  windowHours: z.number().int().min(1).max(72),
+  winnerMetric: z.enum(campaignWinnerMetrics),
+});
+
+// Who a campaign goes to: the subscribed contacts of a segment or leads in the given pipeline stages
+export const campaignAudienceSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("segment"),
+    segmentId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("leads"),
+    statuses: z.array(z.enum(leadStatuses)).optional(),
+  }),
+]);
+
+// Which of the agent's public listings a digest includes; every condition is optional
+export const digestListingFilterSchema = z.object({
+  statuses: z.array(z.string().min(1)).optional(),
+  city: z.string().trim().min(1).optional(),
+  minPrice: z.number().int().nonnegative().optional(),
+  maxPrice: z.number().int().nonnegative().optional(),
+  createdWithinDays: z.number().int().positive().max(365).optional(),
+  limit: z.number().int().positive().max(50).optional(),
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  name: z.string().min(1, "Campaign name is required"),
+  digestFilter: digestListingFilterSchema.nullable().optional(),
+  audience: campaignAudienceSchema,
+  abTest: campaignAbTestSchema.nullable().optional(),
+  status: z.enum(campaignStatuses).optional(),
+  scheduledAt: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  sentAt: true,
+  testEndsAt: true,
+  winningVariant: true,
+  variantResults: true,
+  recipientCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateCampaignSchema = z.object({
+  name: z.string().min(1).optional(),
+  templateId: z.number().int().positive().optional(),
+  listingId: z.number().int().positive().nullable().optional(),
+  digestFilter: digestListingFilterSchema.nullable().optional(),
+  audience: campaignAudienceSchema.optional(),
+  abTest: campaignAbTestSchema.nullable().optional(),
+  scheduledAt: z.coerce.date().nullable().optional(),
+});
+
+// Digests sent every week to a segment; each run becomes a campaign
+export const digests = pgTable("digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  templateId: integer("template_id").notNull().references(() => emailTemplates.id),
+  segmentId: integer("segment_id").notNull().references(() => segments.id),
+  filter: jsonb("filter").notNull(), // See digestListingFilterSchema
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, UTC
+  hour: integer("hour").notNull(), // 0-23, UTC
+  active: boolean("active").notNull().default(true),
+  lastSentAt: timestamp("last_sent_at"),
+  nextRunAt: timestamp("next_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertDigestSchema = createInsertSchema(digests, {
+  name: z.string().min(1, "Digest name is required"),
+  filter: digestListingFilterSchema,
+  dayOfWeek: z.number().int().min(0).max(6),
+  hour: z.number().int().min(0).max(23),
+}).omit({
+  id: true,
+  lastSentAt: true,
+  nextRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateDigestSchema = z.object({
+  name: z.string().min(1).optional(),
+  templateId: z.number().int().positive().optional(),
+  segmentId: z.number().int().positive().optional(),
+  filter: digestListingFilterSchema.optional(),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  hour: z.number().int().min(0).max(23).optional(),
+  active: z.boolean().optional(),
+});
+
+// One row per recipient of a campaign, tracking delivery
+export const campaignSends = pgTable("campaign_sends", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
+  email: text("email").notNull(),
+  name: text("name"),
+  variant: integer("variant"), // A/B test variant index; not set while waiting for the winner
+  testGroup: boolean("test_group").notNull().default(false), // Received a variant during the A/B test
+  status: text("status").notNull().default("pending"),
+  error: text("error"),
+  sentAt: timestamp("sent_at"),
+  openedAt: timestamp("opened_at"),
+  clickedAt: timestamp("clicked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // A recipient is only ever queued once per campaign, even if two deliveries race
+  uniqueIndex("campaign_sends_campaign_email").on(table.campaignId, sql`lower(${table.email})`),
+]);
+
+// Per-recipient delivery states, from queued to how far the recipient engaged
+export const campaignSendStatuses = ["pending", "sent", "failed", "suppressed", "cancelled", "delivered", "opened", "clicked", "bounced"] as const;
+
+export const insertCampaignSendSchema = createInsertSchema(campaignSends, {
+  status: z.enum(campaignSendStatuses).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Delivery and engagement events reported by the mail provider's event webhook
+export const emailEvents = pgTable("email_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // Agent who sent the email
+  campaignId: integer("campaign_id"),
+  campaignSendId: integer("campaign_send_id"),
+  email: text("email").notNull(), // Recipient, stored lowercase
+  event: text("event").notNull(),
+  providerEventId: text("provider_event_id").notNull(), // Used to ignore redelivered events
+  providerMessageId: text("provider_message_id"),
+  url: text("url"), // Link that was clicked
+  reason: text("reason"), // Bounce reason
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("email_events_provider_event_id").on(table.providerEventId),
+]);
+
+export const emailEventTypes = ["delivered", "open", "click", "bounce", "spamreport", "unsubscribe"] as const;
+
+export const insertEmailEventSchema = createInsertSchema(emailEvents, {
+  event: z.enum(emailEventTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Follow-up sequences a contact is enrolled in when they are added
+export const sequences = pgTable("sequences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  triggers: text("triggers").array().notNull().default(["manual", "lead"]), // Contact sources that start the sequence
+  steps: jsonb("steps").notNull(), // See sequenceStepSchema
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A step runs delayDays after the contact was enrolled: an email from a template, or a reminder for the agent
+export const sequenceStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    delayDays: z.number().int().min(0).max(365),
+    templateId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("task"),
+    delayDays: z.number().int().min(0).max(365),
+    title: z.string().trim().min(1, "Task title is required").max(200),
+  }),
+]);
+
+const sequenceStepsSchema = z.array(sequenceStepSchema)
+  .min(1, "Add at least one step")
+  .max(20)
+  .refine(
+    (steps) => steps.every((step, index) => index === 0 || step.delayDays >= steps[index - 1].delayDays),
+    "Steps must be in order of their delay"
+  );
+
+export const insertSequenceSchema = createInsertSchema(sequences, {
+  name: z.string().min(1, "Sequence name is required"),
+  triggers: z.array(z.enum(contactSources)),
+  steps: sequenceStepsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateSequenceSchema = z.object({
+  name: z.string().min(1).optional(),
+  triggers: z.array(z.enum(contactSources)).optional(),
+  steps: sequenceStepsSchema.optional(),
+  active: z.boolean().optional(),
+});
+
+// A contact's progress through a sequence
+export const sequenceEnrollments = pgTable("sequence_enrollments", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").notNull().references(() => sequences.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  contactId: integer("contact_id").notNull().references(() => contacts.id),
+  email: text("email").notNull(), // Stored lowercase
+  status: text("status").notNull().default("active"),
+  stopReason: text("stop_reason"),
+  currentStep: integer("current_step").notNull().default(0), // Index of the next step to run
+  nextRunAt: timestamp("next_run_at"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("sequence_enrollments_sequence_contact").on(table.sequenceId, table.contactId),
+]);
+
+export const sequenceEnrollmentStatuses = ["active", "completed", "stopped"] as const;
+
+// Why an enrollment stopped before its last step. "replied" is set when a reply to a sequence email comes in
+// (see SequenceService.handleReply) or by the agent; a new inquiry from the contact is "inquired".
+export const sequenceStopReasons = ["inquired", "replied", "contacted", "unsubscribed", "sequence_paused", "manual"] as const;
+
+export const insertSequenceEnrollmentSchema = createInsertSchema(sequenceEnrollments, {
+  status: z.enum(sequenceEnrollmentStatuses).optional(),
+  stopReason: z.enum(sequenceStopReasons).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Background jobs, persisted so scheduled work survives restarts
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  key: text("key"), // Identifies the job's subject, e.g. campaign:12, so it can be cancelled
+  payload: jsonb("payload").notNull().default({}),
+  status: text("status").notNull().default("pending"),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const jobStatuses = ["pending", "running", "completed", "failed", "cancelled"] as const;
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  status: z.enum(jobStatuses).optional(),
+  payload: z.record(z.unknown()).optional(),
+}).omit({
+  id: true,
+  attempts: true,
+  lastError: true,
+  lockedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Views and clicks recorded from public pages
+export const viewEvents = pgTable("view_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // Owner of the viewed page
+  targetType: text("target_type").notNull(), // profile, listing, lot_map, lot
+  targetId: integer("target_id").notNull().default(0), // Listing, map or lot ID; 0 for the profile
+  visitorId: text("visitor_id").notNull(), // Hashed visitor identifier
+  referrer: text("referrer"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const viewTargetTypes = ["profile", "listing", "lot_map", "lot"] as const;
+
+export const insertViewEventSchema = createInsertSchema(viewEvents, {
+  targetType: z.enum(viewTargetTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// View events rolled up per target and day
+export const dailyViewStats = pgTable("daily_view_stats", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  targetType: text("target_type").notNull(),
+  targetId: integer("target_id").notNull().default(0),
+  day: text("day").notNull(), // YYYY-MM-DD (UTC)
+  views: integer("views").notNull().default(0),
+  uniqueVisitors: integer("unique_visitors").notNull().default(0),
+}, (table) => [
+  unique("daily_view_stats_target_day").on(table.userId, table.targetType, table.targetId, table.day),
+]);
+
 // User notification preferences
 export const notificationPreferences = pgTable("notification_preferences", {
   id: serial("id").primaryKey(),
@@ -179,6 +834,69 @@ export const insertNotificationPreferencesSchema = createInsertSchema(notificati
   id: true,
 });
 
+// How an agent's marketing emails are signed and where replies to them go; one per user
+export const senderIdentities = pgTable("sender_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  displayName: text("display_name"), // Defaults to the user's full name
+  replyTo: text("reply_to"), // Stored lowercase; defaults to the user's verified account email
+  replyToVerified: boolean("reply_to_verified").notNull().default(false),
+  verificationToken: text("verification_token"),
+  verificationSentAt: timestamp("verification_sent_at"),
+  signature: text("signature"), // Plain text added to the end of every marketing email
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSenderIdentitySchema = createInsertSchema(senderIdentities).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Sender settings the agent can change; null goes back to the default
+export const updateSenderIdentitySchema = z.object({
+  displayName: z.string().trim().min(1).max(100).nullable().optional(),
+  replyTo: z.string().trim().toLowerCase().email("Enter a valid email address").nullable().optional(),
+  signature: z.string().trim().min(1).max(1000).nullable().optional(),
+});
+
+// Uploaded files (listing photos, lot map backgrounds, profile photos, social graphics) and what uses them.
+// Campaigns and sequences refer to the photos their sent emails embed, so those outlive the listing or profile.
+export const assetKinds = ["listing_photo", "map_background", "profile_image", "social_graphic"] as const;
+export const assetReferenceTypes = ["listing", "map", "user", "social_content", "campaign", "sequence"] as const;
+
+export const assets = pgTable("assets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  kind: text("kind").notNull(),
+  key: text("key").notNull().unique(), // Storage key of the main file
+  variantKeys: jsonb("variant_keys").notNull().default({}), // Other stored sizes by name, e.g. { thumb: "..." }
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes of the main file
+  width: integer("width"),
+  height: integer("height"),
+  isPrivate: boolean("is_private").notNull().default(false), // Private files are only reachable through signed URLs
+  references: jsonb("references").notNull().default([]), // See assetReferenceSchema; the asset is deleted once the last goes away
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const assetReferenceSchema = z.object({
+  type: z.enum(assetReferenceTypes),
+  id: z.number().int().positive(),
+});
+
+export const insertAssetSchema = createInsertSchema(assets, {
+  kind: z.enum(assetKinds),
+  variantKeys: z.record(z.string()),
+  references: z.array(assetReferenceSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // User theme settings
 export const userThemes = pgTable("user_themes", {
   id: serial("id").primaryKey(),
@@ -226,6 +944,26 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Listing = typeof listings.$inferSelect;
 export type InsertListing = z.infer<typeof insertListingSchema>;
+export type ListingStatus = typeof listingStatuses[number];
+export type ListingSortField = typeof listingSortFields[number];
+export type ListingSearch = z.infer<typeof listingSearchSchema>;
+export type FlyerLayout = typeof flyerLayouts[number];
+export type FlyerPageSize = typeof flyerPageSizes[number];
+export type ListingFlyerOptions = z.infer<typeof listingFlyerSchema>;
+export type ListingEvent = typeof listingEvents.$inferSelect;
+export type InsertListingEvent = z.infer<typeof insertListingEventSchema>;
+export type ListingEventType = typeof listingEventTypes[number];
+export type ListingImport = typeof listingImports.$inferSelect;
+export type InsertListingImport = z.infer<typeof insertListingImportSchema>;
+export type ListingImportFormat = typeof listingImportFormats[number];
+export type ListingImportRowError = z.infer<typeof listingImportRowErrorSchema>;
+
+export type OpenHouse = typeof openHouses.$inferSelect;
+export type InsertOpenHouse = z.infer<typeof insertOpenHouseSchema>;
+export type UpdateOpenHouse = z.infer<typeof updateOpenHouseSchema>;
+export type OpenHouseVisit = typeof openHouseVisits.$inferSelect;
+export type InsertOpenHouseVisit = z.infer<typeof insertOpenHouseVisitSchema>;
+export type OpenHouseSignIn = z.infer<typeof openHouseSignInSchema>;
 
 export type Lot = typeof lots.$inferSelect;
 export type InsertLot = z.infer<typeof insertLotSchema>;
@@ -236,6 +974,7 @@ export type InsertMapSettings = z.infer<typeof insertMapSettingsSchema>;
 
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplateKind = typeof emailTemplateKinds[number];
 
 export type SocialContent = typeof socialContent.$inferSelect;
 export type InsertSocialContent = z.infer<typeof insertSocialContentSchema>;
@@ -245,3 +984,67 @@ export type InsertSocialAccount = z.infer<typeof insertSocialAccountSchema>;
 
 export type NotificationPreference = typeof notificationPreferences.$inferSelect;
 export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferencesSchema>;
+
+export type Lead = typeof leads.$inferSelect;
+export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type LeadStatus = typeof leadStatuses[number];
+
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type UpdateContact = z.infer<typeof updateContactSchema>;
+export type ContactSource = typeof contactSources[number];
+export type ContactSubscriptionStatus = typeof contactSubscriptionStatuses[number];
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type UpdateSegment = z.infer<typeof updateSegmentSchema>;
+export type SegmentFilter = z.infer<typeof segmentFilterSchema>;
+
+export type Suppression = typeof suppressions.$inferSelect;
+export type InsertSuppression = z.infer<typeof insertSuppressionSchema>;
+export type SuppressionReason = typeof suppressionReasons[number];
+
+export type ViewEvent = typeof viewEvents.$inferSelect;
+export type InsertViewEvent = z.infer<typeof insertViewEventSchema>;
+export type ViewTargetType = typeof viewTargetTypes[number];
+export type DailyViewStat = typeof dailyViewStats.$inferSelect;
+
+export type Campaign = typeof campaigns.$inferSelect;
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type UpdateCampaign = z.infer<typeof updateCampaignSchema>;
+export type CampaignStatus = typeof campaignStatuses[number];
+export type CampaignAudience = z.infer<typeof campaignAudienceSchema>;
+export type CampaignAbTest = z.infer<typeof campaignAbTestSchema>;
+export type CampaignWinnerMetric = typeof campaignWinnerMetrics[number];
+export type CampaignSend = typeof campaignSends.$inferSelect;
+export type InsertCampaignSend = z.infer<typeof insertCampaignSendSchema>;
+export type CampaignSendStatus = typeof campaignSendStatuses[number];
+export type EmailEvent = typeof emailEvents.$inferSelect;
+export type InsertEmailEvent = z.infer<typeof insertEmailEventSchema>;
+export type EmailEventType = typeof emailEventTypes[number];
+export type DigestListingFilter = z.infer<typeof digestListingFilterSchema>;
+export type Digest = typeof digests.$inferSelect;
+export type InsertDigest = z.infer<typeof insertDigestSchema>;
+export type UpdateDigest = z.infer<typeof updateDigestSchema>;
+export type Sequence = typeof sequences.$inferSelect;
+export type InsertSequence = z.infer<typeof insertSequenceSchema>;
+export type UpdateSequence = z.infer<typeof updateSequenceSchema>;
+export type SequenceStep = z.infer<typeof sequenceStepSchema>;
+export type SequenceEnrollment = typeof sequenceEnrollments.$inferSelect;
+export type InsertSequenceEnrollment = z.infer<typeof insertSequenceEnrollmentSchema>;
+export type SequenceEnrollmentStatus = typeof sequenceEnrollmentStatuses[number];
+export type SequenceStopReason = typeof sequenceStopReasons[number];
+
+export type SenderIdentity = typeof senderIdentities.$inferSelect;
+export type InsertSenderIdentity = z.infer<typeof insertSenderIdentitySchema>;
+export type UpdateSenderIdentity = z.infer<typeof updateSenderIdentitySchema>;
+
+export type Asset = typeof assets.$inferSelect;
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type AssetKind = typeof assetKinds[number];
+export type AssetReference = z.infer<typeof assetReferenceSchema>;
+export type AssetReferenceType = typeof assetReferenceTypes[number];
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobStatus = typeof jobStatuses[number];